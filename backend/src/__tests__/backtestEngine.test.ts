@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { Candle } from '../brokers/base';
+import { createCommissionModel, createSlippageModel } from '../brokers/costModels';
+import { BacktestOptions, BacktestStrategy, candlePath, runBacktest } from '../services/backtestEngine';
+import { createBacktestStrategy } from '../services/backtestStrategies';
+
+const HOUR = 60 * 60 * 1000;
+const start = new Date('2024-01-01T00:00:00Z').getTime();
+
+function candles(closes: number[]): Candle[] {
+  return closes.map((close, index) => {
+    const open = index === 0 ? close : closes[index - 1];
+    return {
+      symbol: 'AAPL',
+      timestamp: new Date(start + index * HOUR),
+      open,
+      high: Math.max(open, close) + 1,
+      low: Math.min(open, close) - 1,
+      close,
+      volume: 1000,
+    };
+  });
+}
+
+const options: BacktestOptions = {
+  startingCash: 10000,
+  costs: { commissionModel: createCommissionModel(), slippageModel: createSlippageModel() },
+  intervalMs: HOUR,
+  spreadBps: 0,
+  riskFreeRate: 0,
+};
+
+describe('backtest engine', () => {
+  it('should walk a candle through its nearer extreme first', () => {
+    const base = { symbol: 'AAPL', timestamp: new Date(start), volume: 0 };
+    expect(candlePath({ ...base, open: 10, high: 13, low: 9, close: 12 })).toEqual([10, 9, 13, 12]);
+    expect(candlePath({ ...base, open: 12, high: 13, low: 9, close: 10 })).toEqual([12, 13, 9, 10]);
+  });
+
+  it('should fill orders at the next open and mark equity at each close', async () => {
+    const result = await runBacktest(
+      'AAPL',
+      candles([100, 110, 120]),
+      createBacktestStrategy({ type: 'buy_and_hold', quantity: 10 }),
+      options
+    );
+
+    expect(result.trades).toEqual([
+      expect.objectContaining({ side: 'buy', quantity: 10, price: 100, executedAt: new Date(start + HOUR) }),
+    ]);
+    expect(result.equityCurve.map((point) => point.equity)).toEqual([10000, 10100, 10200]);
+    expect(result.finalEquity).toBe(10200);
+    expect(result.totalReturn).toBeCloseTo(0.02);
+  });
+
+  it('should fill resting limit orders when the candle range reaches them', async () => {
+    const strategy: BacktestStrategy = {
+      onCandle(candle, context) {
+        if (context.candles.length === 1) {
+          context.placeOrder({ side: 'buy', type: 'limit', quantity: 5, price: 96 });
+        }
+      },
+    };
+
+    // The second candle trades 99-101, the third dips to 94
+    const result = await runBacktest('AAPL', candles([100, 100, 95]), strategy, options);
+
+    expect(result.trades).toHaveLength(1);
+    expect(result.trades[0]).toMatchObject({ side: 'buy', quantity: 5 });
+    expect(result.trades[0].price).toBeLessThanOrEqual(96);
+    expect(result.trades[0].executedAt.getTime()).toBeGreaterThan(start + 2 * HOUR);
+  });
+
+  it('should charge the configured commission and slippage', async () => {
+    const result = await runBacktest(
+      'AAPL',
+      candles([100, 100]),
+      createBacktestStrategy({ type: 'buy_and_hold', quantity: 10 }),
+      {
+        ...options,
+        costs: {
+          commissionModel: createCommissionModel({ type: 'percentage', rate: 0.001 }),
+          slippageModel: createSlippageModel({ type: 'fixed_bps', bps: 10 }),
+        },
+      }
+    );
+
+    expect(result.trades[0].price).toBeCloseTo(100.1);
+    expect(result.trades[0].fee).toBeCloseTo(1.001);
+    expect(result.equityCurve[1].cash).toBeCloseTo(10000 - 1001 - 1.001);
+  });
+
+  it('should round-trip an SMA crossover and report trade statistics', async () => {
+    const result = await runBacktest(
+      'AAPL',
+      candles([10, 10, 10, 12, 14, 16, 14, 12, 10, 8, 8]),
+      createBacktestStrategy({ type: 'sma_crossover', fastPeriod: 2, slowPeriod: 3, quantity: 100 }),
+      options
+    );
+
+    expect(result.trades.map((trade) => trade.side)).toEqual(['buy', 'sell']);
+    expect(result.metrics.trades).toBe(1);
+    expect(result.metrics.realizedPnl).toBeCloseTo((result.trades[1].price - result.trades[0].price) * 100);
+    expect(result.rejectedOrders).toBe(0);
+  });
+});
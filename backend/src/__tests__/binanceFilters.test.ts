@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import { OrderRequest, OrderRuleError } from '../brokers/base';
+import { applySymbolRules, needsAveragePrice, parseSymbolRules, roundToStep } from '../brokers/binanceFilters';
+
+const exchangeInfoSymbol = {
+  symbol: 'BTCUSDT',
+  status: 'TRADING',
+  baseAsset: 'BTC',
+  quoteAsset: 'USDT',
+  filters: [
+    { filterType: 'PRICE_FILTER', minPrice: '0.01000000', maxPrice: '1000000.00000000', tickSize: '0.01000000' },
+    { filterType: 'LOT_SIZE', minQty: '0.00001000', maxQty: '9000.00000000', stepSize: '0.00001000' },
+    { filterType: 'ICEBERG_PARTS', limit: 10 },
+    {
+      filterType: 'NOTIONAL',
+      minNotional: '5.00000000',
+      applyMinToMarket: true,
+      maxNotional: '9000000.00000000',
+      applyMaxToMarket: false,
+      avgPriceMins: 5,
+    },
+    {
+      filterType: 'PERCENT_PRICE_BY_SIDE',
+      bidMultiplierUp: '5',
+      bidMultiplierDown: '0.2',
+      askMultiplierUp: '5',
+      askMultiplierDown: '0.2',
+      avgPriceMins: 5,
+    },
+  ],
+};
+
+const rules = parseSymbolRules(exchangeInfoSymbol);
+
+const order = (changes: Partial<OrderRequest>): OrderRequest => ({
+  symbol: 'BTCUSDT',
+  side: 'buy',
+  type: 'limit',
+  quantity: 0.01,
+  price: 42000,
+  ...changes,
+});
+
+/** The rule error an order is refused with */
+function violation(request: OrderRequest, averagePrice: number | null = 42000): OrderRuleError {
+  try {
+    applySymbolRules(request, rules, averagePrice);
+  } catch (error) {
+    if (error instanceof OrderRuleError) return error;
+    throw error;
+  }
+  throw new Error('Order was accepted');
+}
+
+describe('binance exchangeInfo filters', () => {
+  it('should read the lot, price, notional and percent price filters of a symbol', () => {
+    expect(rules).toEqual({
+      symbol: 'BTCUSDT',
+      trading: true,
+      quantity: { min: 0.00001, max: 9000, step: 0.00001 },
+      price: { min: 0.01, max: 1000000, tick: 0.01 },
+      notional: { min: 5, max: 9000000, applyMinToMarket: true, applyMaxToMarket: false },
+      percentPrice: { buyUp: 5, buyDown: 0.2, sellUp: 5, sellDown: 0.2, averagePriceMins: 5 },
+    });
+
+    // Older symbols carry MIN_NOTIONAL and PERCENT_PRICE instead
+    const legacy = parseSymbolRules({
+      symbol: 'BNBBTC',
+      status: 'BREAK',
+      filters: [
+        { filterType: 'MIN_NOTIONAL', minNotional: '0.00010000', applyToMarket: true, avgPriceMins: 5 },
+        { filterType: 'PERCENT_PRICE', multiplierUp: '1.3', multiplierDown: '0.7', avgPriceMins: 5 },
+      ],
+    });
+    expect(legacy.trading).toBe(false);
+    expect(legacy.notional).toEqual({ min: 0.0001, max: 0, applyMinToMarket: true, applyMaxToMarket: false });
+    expect(legacy.percentPrice).toMatchObject({ buyUp: 1.3, sellDown: 0.7 });
+  });
+
+  it('should round quantities down to the step and prices to the nearest tick', () => {
+    expect(roundToStep(0.123456789, 0.00001, 'down')).toBe(0.12345);
+    expect(roundToStep(0.3, 0.1, 'down')).toBe(0.3);
+    expect(roundToStep(42000.006, 0.01, 'nearest')).toBe(42000.01);
+    expect(roundToStep(0.00025, 0.0001, 'up')).toBe(0.0003);
+    expect(roundToStep(17.3, 0, 'down')).toBe(17.3);
+
+    expect(
+      applySymbolRules(
+        order({ type: 'stop_limit', quantity: 0.0123456, price: 41999.996, stopPrice: 42100.123 }),
+        rules,
+        42000
+      )
+    ).toMatchObject({ quantity: 0.01234, price: 42000, stopPrice: 42100.12 });
+  });
+
+  it('should reject sizes outside LOT_SIZE and prices outside PRICE_FILTER with the allowed values', () => {
+    const lot = violation(order({ quantity: 0.000004 }));
+    expect(lot.code).toBe('BINANCE_LOT_SIZE');
+    expect(lot.allowed).toEqual({ minQuantity: 0.00001, maxQuantity: 9000, quantityStep: 0.00001 });
+    expect(violation(order({ quantity: 9500 })).code).toBe('BINANCE_LOT_SIZE');
+
+    const price = violation(order({ type: 'stop', price: undefined, stopPrice: 2000000 }));
+    expect(price.code).toBe('BINANCE_PRICE_FILTER');
+    expect(price.allowed).toEqual({ minPrice: 0.01, maxPrice: 1000000, tickSize: 0.01 });
+  });
+
+  it('should hold limit prices to the band around the average price and orders to the minimum value', () => {
+    const band = violation(order({ price: 250000 }));
+    expect(band.code).toBe('BINANCE_PERCENT_PRICE');
+    expect(band.allowed).toEqual({ minPrice: 8400, maxPrice: 210000, averagePrice: 42000 });
+
+    const small = violation(order({ quantity: 0.0001 }));
+    expect(small.code).toBe('BINANCE_MIN_NOTIONAL');
+    expect(small.message).toBe('Order value 4.2 for BTCUSDT is below the minimum of 5');
+    expect(small.allowed).toEqual({ minNotional: 5, minQuantity: 0.00012 });
+
+    // Market orders are valued at the average price, since applyMinToMarket is set
+    expect(violation(order({ type: 'market', price: undefined, quantity: 0.0001 })).code).toBe('BINANCE_MIN_NOTIONAL');
+  });
+
+  it('should only need the average price when a band or market notional applies, and refuse halted symbols', () => {
+    expect(needsAveragePrice(order({}), rules)).toBe(true);
+    expect(needsAveragePrice(order({ type: 'market', price: undefined }), rules)).toBe(true);
+    expect(
+      needsAveragePrice(order({ type: 'stop', price: undefined }), {
+        ...rules,
+        notional: { ...rules.notional, applyMinToMarket: false },
+      })
+    ).toBe(false);
+    expect(needsAveragePrice(order({}), { ...rules, percentPrice: null })).toBe(false);
+
+    // Without the average price there is no band to check against
+    expect(applySymbolRules(order({ price: 250000 }), rules, null).price).toBe(250000);
+    expect(() => applySymbolRules(order({}), { ...rules, trading: false })).toThrow(
+      'BTCUSDT is not trading on Binance'
+    );
+  });
+});
@@ -0,0 +1,246 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { AddressInfo } from 'net';
+import WebSocket, { WebSocketServer } from 'ws';
+import {
+  BinanceAccountPosition,
+  BinanceExecutionReport,
+  binanceExecution,
+  BinanceUserStream,
+  parseExecutionReport,
+} from '../brokers/binanceUserStream';
+
+const tradeEvent = {
+  e: 'executionReport',
+  E: 1710495000100,
+  s: 'BTCUSDT',
+  c: 'client-1',
+  S: 'BUY',
+  o: 'LIMIT',
+  x: 'TRADE',
+  X: 'PARTIALLY_FILLED',
+  r: 'NONE',
+  i: 4293153,
+  q: '0.50000000',
+  z: '0.30000000',
+  Z: '12600.00000000',
+  l: '0.20000000',
+  L: '42100.00000000',
+  n: '8.42000000',
+  N: 'USDT',
+  T: 1710495000000,
+  t: 283194,
+  m: true,
+  C: '',
+};
+
+/** Local stand-in for the Binance stream endpoint, plus listen key bookkeeping */
+async function fakeUserDataServer() {
+  const server = new WebSocketServer({ port: 0 });
+  await new Promise((resolve) => server.once('listening', resolve));
+  const paths: string[] = [];
+  const sockets: WebSocket[] = [];
+  server.on('connection', (socket, request) => {
+    paths.push(request.url!);
+    sockets.push(socket);
+  });
+
+  let created = 0;
+  const calls: string[] = [];
+  let failKeepAlive = false;
+  const listenKeys = {
+    create: async () => {
+      calls.push('create');
+      return `key${++created}`;
+    },
+    keepAlive: async (listenKey: string) => {
+      calls.push(`keepAlive ${listenKey}`);
+      if (failKeepAlive) throw new Error('listenKey does not exist');
+    },
+    close: async (listenKey: string) => {
+      calls.push(`close ${listenKey}`);
+    },
+  };
+
+  return {
+    url: `ws://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    paths,
+    sockets,
+    calls,
+    listenKeys,
+    failKeepAlive: () => {
+      failKeepAlive = true;
+    },
+    close: () => new Promise((resolve) => server.close(resolve)),
+  };
+}
+
+async function waitFor(check: () => boolean, timeoutMs = 2000) {
+  const start = Date.now();
+  while (!check()) {
+    if (Date.now() - start > timeoutMs) throw new Error('Timed out');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+describe('binance user data stream', () => {
+  const cleanup: Array<() => unknown> = [];
+
+  afterEach(async () => {
+    for (const step of cleanup.splice(0).reverse()) await step();
+  });
+
+  it('should turn a trade report into order totals and a fill with its fee', () => {
+    const report = parseExecutionReport(tradeEvent);
+    expect(report).toMatchObject({
+      symbol: 'BTCUSDT',
+      clientOrderId: 'client-1',
+      orderId: '4293153',
+      side: 'buy',
+      executionType: 'TRADE',
+      rejectReason: null,
+      tradeId: '283194',
+    });
+
+    expect(binanceExecution(report, 'USDT')).toEqual({
+      orderId: '4293153',
+      brokerOrderId: '4293153',
+      status: 'partially_filled',
+      filledQuantity: 0.3,
+      averagePrice: 42000,
+      fills: [
+        {
+          tradeId: '283194',
+          quantity: 0.2,
+          price: 42100,
+          fee: 8.42,
+          liquidity: 'maker',
+          timestamp: new Date(1710495000000),
+        },
+      ],
+      rejectReason: undefined,
+    });
+  });
+
+  it('should value base asset commission, skip other assets and read cancels and rejects', () => {
+    const inBase = binanceExecution(parseExecutionReport({ ...tradeEvent, n: '0.0002', N: 'BTC' }), 'USDT');
+    expect(inBase.fills![0].fee).toBeCloseTo(8.42);
+    const inBnb = binanceExecution(parseExecutionReport({ ...tradeEvent, n: '0.01', N: 'BNB' }), 'USDT');
+    expect(inBnb.fills![0].fee).toBe(0);
+
+    const cancel = parseExecutionReport({
+      ...tradeEvent,
+      x: 'CANCELED',
+      X: 'CANCELED',
+      c: 'cancel-7',
+      C: 'client-1',
+      t: -1,
+    });
+    expect(cancel.clientOrderId).toBe('client-1');
+    expect(binanceExecution(cancel, 'USDT')).toMatchObject({ status: 'cancelled', fills: [] });
+
+    const reject = parseExecutionReport({
+      ...tradeEvent,
+      x: 'REJECTED',
+      X: 'REJECTED',
+      r: 'INSUFFICIENT_BALANCE',
+      z: '0',
+      t: -1,
+    });
+    expect(binanceExecution(reject, 'USDT')).toMatchObject({
+      status: 'rejected',
+      rejectReason: 'INSUFFICIENT_BALANCE',
+      averagePrice: undefined,
+    });
+  });
+
+  it('should connect on a new listen key and deliver order and balance events', async () => {
+    const server = await fakeUserDataServer();
+    const reports: BinanceExecutionReport[] = [];
+    const positions: BinanceAccountPosition[] = [];
+    const stream = new BinanceUserStream({
+      url: server.url,
+      listenKeys: server.listenKeys,
+      onExecutionReport: (report) => reports.push(report),
+      onAccountPosition: (position) => positions.push(position),
+    });
+    cleanup.push(server.close, () => stream.close());
+
+    await stream.start();
+    await waitFor(() => stream.getState() === 'connected');
+    expect(server.paths).toEqual(['/key1']);
+
+    server.sockets[0].send(JSON.stringify(tradeEvent));
+    server.sockets[0].send(
+      JSON.stringify({
+        e: 'outboundAccountPosition',
+        E: 1710495000100,
+        u: 1710495000000,
+        B: [
+          { a: 'BTC', f: '0.30000000', l: '0.00000000' },
+          { a: 'USDT', f: '87391.58000000', l: '8420.00000000' },
+        ],
+      })
+    );
+    await waitFor(() => reports.length === 1 && positions.length === 1);
+
+    expect(reports[0].orderId).toBe('4293153');
+    expect(positions[0]).toEqual({
+      eventTime: new Date(1710495000100),
+      balances: [
+        { asset: 'BTC', free: 0.3, locked: 0 },
+        { asset: 'USDT', free: 87391.58, locked: 8420 },
+      ],
+    });
+  });
+
+  it('should keep the listen key alive and move to a new key when it expires', async () => {
+    const server = await fakeUserDataServer();
+    const stream = new BinanceUserStream({
+      url: server.url,
+      listenKeys: server.listenKeys,
+      onExecutionReport: () => {},
+      keepAliveIntervalMs: 50,
+      reconnectDelayMs: 20,
+    });
+    cleanup.push(server.close, () => stream.close());
+
+    await stream.start();
+    await waitFor(() => server.calls.includes('keepAlive key1'));
+
+    // Binance announces the expiry on the socket
+    server.sockets[0].send(JSON.stringify({ e: 'listenKeyExpired', E: 1710495000100, listenKey: 'key1' }));
+    await waitFor(() => server.paths.length === 2);
+    expect(server.paths[1]).toBe('/key2');
+
+    // A keepalive Binance no longer accepts also moves to a new key
+    server.failKeepAlive();
+    await waitFor(() => server.paths.length === 3);
+    expect(server.paths[2]).toBe('/key3');
+  });
+
+  it('should reconnect on the same key after a drop and give the key back on close', async () => {
+    const server = await fakeUserDataServer();
+    const states: string[] = [];
+    const stream = new BinanceUserStream({
+      url: server.url,
+      listenKeys: server.listenKeys,
+      onExecutionReport: () => {},
+      onStateChange: (state) => states.push(state),
+      reconnectDelayMs: 20,
+    });
+    cleanup.push(server.close);
+
+    await stream.start();
+    await waitFor(() => stream.getState() === 'connected');
+    server.sockets[0].terminate();
+    await waitFor(() => server.paths.length === 2 && stream.getState() === 'connected');
+    expect(server.paths).toEqual(['/key1', '/key1']);
+
+    await stream.close();
+    expect(server.calls).toEqual(['create', 'close key1']);
+    expect(states).toEqual(['connecting', 'connected', 'reconnecting', 'connected', 'closed']);
+
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(server.paths).toHaveLength(2);
+  });
+});
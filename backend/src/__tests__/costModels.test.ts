@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { createCommissionModel, createSlippageModel, FillContext } from '../brokers/costModels';
+
+const fill = (overrides: Partial<FillContext> = {}): FillContext => ({
+  side: 'buy',
+  quantity: 100,
+  price: 50,
+  liquidity: 'taker',
+  orderFilledQuantity: 0,
+  orderFilledNotional: 0,
+  tradedVolume: 0,
+  ...overrides,
+});
+
+describe('commission models', () => {
+  it('should charge nothing by default', () => {
+    expect(createCommissionModel().calculate(fill())).toBe(0);
+  });
+
+  it('should charge the per-order minimum only once across partial fills', () => {
+    const model = createCommissionModel({ type: 'per_share', perShare: 0.005, minimum: 1 });
+
+    const first = model.calculate(fill({ quantity: 10 }));
+    const second = model.calculate(fill({ quantity: 90, orderFilledQuantity: 10, orderFilledNotional: 500 }));
+
+    expect(first).toBe(1);
+    expect(first + second).toBeCloseTo(1, 10);
+  });
+
+  it('should charge a percentage of notional', () => {
+    const model = createCommissionModel({ type: 'percentage', rate: 0.001 });
+    expect(model.calculate(fill())).toBeCloseTo(5, 10);
+  });
+
+  it('should pick maker or taker rates from the volume tier', () => {
+    const model = createCommissionModel({
+      type: 'tiered',
+      tiers: [
+        { minVolume: 0, makerRate: 0.001, takerRate: 0.001 },
+        { minVolume: 1_000_000, makerRate: 0.0009, takerRate: 0.001 },
+      ],
+    });
+
+    expect(model.calculate(fill({ liquidity: 'maker' }))).toBeCloseTo(5, 10);
+    expect(model.calculate(fill({ liquidity: 'maker', tradedVolume: 2_000_000 }))).toBeCloseTo(4.5, 10);
+  });
+
+  it('should cap Zerodha intraday brokerage at Rs 20 per order', () => {
+    const model = createCommissionModel({ type: 'zerodha', product: 'intraday' });
+
+    // Rs 10 lakh turnover: brokerage capped at 20 instead of 300
+    const sell = model.calculate(fill({ side: 'sell', quantity: 1000, price: 1000 }));
+    const brokerage = 20;
+    const stt = 1_000_000 * 0.00025;
+    const exchange = 1_000_000 * 0.0000297;
+    const sebi = 1_000_000 * 0.000001;
+    const gst = (brokerage + exchange + sebi) * 0.18;
+
+    expect(sell).toBeCloseTo(brokerage + stt + exchange + sebi + gst, 6);
+  });
+});
+
+describe('slippage models', () => {
+  const context = { side: 'buy' as const, quantity: 100, price: 100, volatility: 0.02, volume: 10000 };
+
+  it('should move the price against the trader by a fixed number of basis points', () => {
+    const model = createSlippageModel({ type: 'fixed_bps', bps: 10 });
+    expect(model.apply(context)).toBeCloseTo(100.1, 10);
+    expect(model.apply({ ...context, side: 'sell' })).toBeCloseTo(99.9, 10);
+  });
+
+  it('should scale slippage with volatility', () => {
+    const model = createSlippageModel({ type: 'volatility', multiplier: 0.5 });
+    expect(model.apply(context)).toBeCloseTo(101, 10);
+  });
+
+  it('should apply square-root market impact', () => {
+    const model = createSlippageModel({ type: 'square_root', coefficient: 1 });
+    // 0.02 * sqrt(100 / 10000) = 0.002
+    expect(model.apply(context)).toBeCloseTo(100.2, 10);
+    expect(model.apply({ ...context, volume: 0 })).toBe(100);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { FxQuote, instrumentCurrency, resolveRate, splitFxPnl } from '../services/currency';
+
+const quotes: FxQuote[] = [
+  { base: 'USD', quote: 'INR', rate: 80, asOf: new Date('2024-01-01T00:00:00Z') },
+  { base: 'USD', quote: 'INR', rate: 84, asOf: new Date('2024-06-01T00:00:00Z') },
+  { base: 'EUR', quote: 'USD', rate: 1.1, asOf: null },
+  { base: 'USDT', quote: 'USD', rate: 1, asOf: null },
+];
+
+describe('currency', () => {
+  it('should tag instruments with the currency of their broker or quote asset', () => {
+    expect(instrumentCurrency('alpaca', 'AAPL', 'EUR')).toBe('USD');
+    expect(instrumentCurrency('kite', 'RELIANCE', 'EUR')).toBe('INR');
+    expect(instrumentCurrency('binance', 'BTCUSDT', 'EUR')).toBe('USDT');
+    expect(instrumentCurrency('binance', 'ETH/BTC', 'EUR')).toBe('BTC');
+    expect(instrumentCurrency('sandbox', 'AAPL', 'EUR')).toBe('EUR');
+  });
+
+  it('should use a pair directly or inverted', () => {
+    expect(resolveRate(quotes, 'EUR', 'USD')).toBe(1.1);
+    expect(resolveRate(quotes, 'USD', 'EUR')).toBeCloseTo(1 / 1.1);
+    expect(resolveRate(quotes, 'USD', 'USD')).toBe(1);
+  });
+
+  it('should pick the latest rate on or before the requested time', () => {
+    expect(resolveRate(quotes, 'USD', 'INR', new Date('2024-03-01T00:00:00Z'))).toBe(80);
+    expect(resolveRate(quotes, 'USD', 'INR', new Date('2024-07-01T00:00:00Z'))).toBe(84);
+    // Before the first known rate the earliest one applies
+    expect(resolveRate(quotes, 'USD', 'INR', new Date('2023-01-01T00:00:00Z'))).toBe(80);
+  });
+
+  it('should cross through another currency and give null when nothing connects', () => {
+    expect(resolveRate(quotes, 'USDT', 'INR', new Date('2024-07-01T00:00:00Z'))).toBe(84);
+    expect(resolveRate(quotes, 'EUR', 'INR', new Date('2024-07-01T00:00:00Z'))).toBeCloseTo(92.4);
+    expect(resolveRate(quotes, 'JPY', 'USD')).toBeNull();
+  });
+
+  it('should split base currency P&L into asset and FX parts', () => {
+    // Bought 1000 INR of stock at 80 INR/USD, now worth 1100 INR at 84 INR/USD
+    const openRate = 1 / 80;
+    const currentRate = 1 / 84;
+    const { assetPnl, fxPnl } = splitFxPnl(100, 1000, 1, openRate, currentRate);
+
+    expect(assetPnl).toBeCloseTo(100 / 84);
+    expect(fxPnl).toBeCloseTo(1000 / 84 - 1000 / 80);
+    expect(assetPnl + fxPnl).toBeCloseTo(1100 / 84 - 1000 / 80);
+
+    // A short gains when the currency it owes weakens
+    expect(splitFxPnl(0, 1000, -1, openRate, currentRate).fxPnl).toBeGreaterThan(0);
+  });
+});
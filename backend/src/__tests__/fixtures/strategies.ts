@@ -0,0 +1,92 @@
+import { defineStrategy, StrategyDefinition } from '../../strategies/sdk';
+
+/**
+ * Strategies for the strategy host tests, loaded by key in the host's worker.
+ * They report what they see through the strategy log.
+ */
+export const strategies: Record<string, StrategyDefinition<any, any>> = {
+  candles: defineStrategy({
+    description: 'Logs ticks and counts candles',
+    defaultParams: {},
+    initialState: () => ({ candles: 0 }),
+    onTick(tick, context) {
+      context.log.info(`tick ${tick.last}`);
+    },
+    onCandle(candle, context) {
+      context.log.info(`candle ${candle.close}`);
+      context.state.candles++;
+    },
+  }),
+
+  slow_start: defineStrategy({
+    description: 'Keeps the first tick busy for 200 ms',
+    defaultParams: {},
+    initialState: () => ({}),
+    onTick(tick, context) {
+      context.log.info(`tick ${tick.last}`);
+      if (tick.last === 100) {
+        const until = Date.now() + 200;
+        while (Date.now() < until);
+      }
+    },
+  }),
+
+  failing: defineStrategy({
+    description: 'Throws from its tick hook',
+    defaultParams: {},
+    initialState: () => ({}),
+    onTick() {
+      throw new Error('boom');
+    },
+  }),
+
+  hanging: defineStrategy({
+    description: 'Never finishes its tick hook',
+    defaultParams: {},
+    initialState: () => ({}),
+    onTick: () => new Promise<void>(() => {}),
+  }),
+
+  looping: defineStrategy({
+    description: 'Blocks its thread in a tick hook',
+    defaultParams: {},
+    initialState: () => ({}),
+    onTick() {
+      for (;;);
+    },
+  }),
+
+  late_error: defineStrategy({
+    description: 'Throws from a timer after its tick hook returned',
+    defaultParams: {},
+    initialState: () => ({}),
+    onTick() {
+      setTimeout(() => {
+        throw new Error('late');
+      }, 0);
+    },
+  }),
+
+  healthy: defineStrategy({
+    description: 'Counts ticks',
+    defaultParams: {},
+    initialState: () => ({ ticks: 0 }),
+    onTick(_tick, context) {
+      context.state.ticks++;
+    },
+  }),
+
+  trader: defineStrategy({
+    description: 'Buys on every tick and logs its order updates',
+    defaultParams: {},
+    initialState: () => ({}),
+    async onTick(tick, context) {
+      context.log.info(`tick ${tick.last}`);
+      const order = await context.placeOrder({ symbol: tick.symbol, side: 'buy', type: 'market', quantity: 1 });
+      context.log.info(`placed ${order.orderId}`);
+    },
+    onOrderUpdate(order, context) {
+      context.log.info(`order ${order.status}`);
+    },
+  }),
+};
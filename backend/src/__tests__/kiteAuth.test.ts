@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isKiteTokenError,
+  kiteChecksum,
+  kiteLoginUrl,
+  kitePostbackChecksum,
+  kiteSessionExpiry,
+  signLoginState,
+  verifyKitePostback,
+  verifyLoginState,
+} from '../brokers/kiteAuth';
+
+const now = new Date('2024-03-15T10:00:00Z');
+const inTenMinutes = new Date(now.getTime() + 10 * 60 * 1000);
+
+describe('kite auth', () => {
+  it('should checksum the api key, request token and secret with SHA-256', () => {
+    expect(kiteChecksum('apikey123', 'reqtoken456', 'secret789')).toBe(
+      'e5416e408b2e0c1cc2e25c5ad0702328661d5f840b57f03dab7c61b16cfde465'
+    );
+  });
+
+  it('should only accept postbacks with the checksum of the order, its timestamp and the secret', () => {
+    const postback = { order_id: '240315000001192', order_timestamp: '2024-03-15 10:01:02', status: 'COMPLETE' };
+    const checksum = kitePostbackChecksum(postback.order_id, postback.order_timestamp, 'secret789');
+    expect(checksum).toBe('73b1a2a2b392ff38d70316f94c4c75a7e3d86e51bcdfe6120afbf65dfc8f856e');
+
+    expect(verifyKitePostback({ ...postback, checksum }, 'secret789')).toBe(true);
+    expect(verifyKitePostback({ ...postback, checksum }, 'other-secret')).toBe(false);
+    expect(verifyKitePostback({ ...postback, order_id: '240315000001193', checksum }, 'secret789')).toBe(false);
+    expect(verifyKitePostback(postback, 'secret789')).toBe(false);
+  });
+
+  it('should build a login URL that carries the state back in redirect params', () => {
+    const url = new URL(kiteLoginUrl('https://kite.zerodha.com/connect/login', 'apikey123', '7.123.abc'));
+
+    expect(url.origin + url.pathname).toBe('https://kite.zerodha.com/connect/login');
+    expect(url.searchParams.get('v')).toBe('3');
+    expect(url.searchParams.get('api_key')).toBe('apikey123');
+    expect(new URLSearchParams(url.searchParams.get('redirect_params')!).get('state')).toBe('7.123.abc');
+  });
+
+  it('should expire sessions at the next 06:00 IST', () => {
+    // 15:30 IST: valid until 06:00 IST the next morning
+    expect(kiteSessionExpiry(now)).toEqual(new Date('2024-03-16T00:30:00Z'));
+    // 05:45 IST: only until 06:00 IST the same morning
+    expect(kiteSessionExpiry(new Date('2024-03-15T00:15:00Z'))).toEqual(new Date('2024-03-15T00:30:00Z'));
+    // Exactly at the reset: a full day
+    expect(kiteSessionExpiry(new Date('2024-03-15T00:30:00Z'))).toEqual(new Date('2024-03-16T00:30:00Z'));
+  });
+
+  it('should only accept login states it signed that have not expired', () => {
+    const state = signLoginState(42, 'secret', inTenMinutes);
+
+    expect(verifyLoginState(state, 'secret', now)).toBe(42);
+    expect(verifyLoginState(state, 'other-secret', now)).toBeNull();
+    expect(verifyLoginState(state.replace(/^42\./, '43.'), 'secret', now)).toBeNull();
+    expect(verifyLoginState(state, 'secret', new Date(inTenMinutes.getTime() + 1))).toBeNull();
+    expect(verifyLoginState('not-a-state', 'secret', now)).toBeNull();
+  });
+
+  it('should recognise token exceptions', () => {
+    expect(isKiteTokenError(403, { status: 'error', error_type: 'TokenException' })).toBe(true);
+    expect(isKiteTokenError(403, { status: 'error', error_type: 'PermissionException' })).toBe(false);
+    expect(isKiteTokenError(400, { status: 'error', error_type: 'InputException' })).toBe(false);
+    expect(isKiteTokenError(undefined, undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { OrderRuleError } from '../brokers/base';
+import { KiteInstrumentMaster, kiteProduct, parseKiteInstruments, validateKiteOrder } from '../brokers/kiteInstruments';
+
+const csv = [
+  'instrument_token,exchange_token,tradingsymbol,name,last_price,expiry,strike,tick_size,lot_size,instrument_type,segment,exchange',
+  '408065,1594,INFY,"INFOSYS",0,,0,0.05,1,EQ,NSE,NSE',
+  '128053508,500209,INFY,"INFOSYS",0,,0,0.05,1,EQ,BSE,BSE',
+  '256265,1001,NIFTY 50,"NIFTY 50",0,,0,0,0,EQ,INDICES,INDICES',
+  '13238786,51714,NIFTY24MARFUT,"NIFTY",0,2024-03-28,0,0.05,50,FUT,NFO-FUT,NFO',
+  '412675,1612,USDINR24MARFUT,"USDINR",0,2024-03-26,0,0.0025,1,FUT,CDS-FUT,CDS',
+  '2953217,11536,TCS,"TATA CONSULTANCY SERV, LT",0,,0,0.05,1,EQ,NSE,NSE',
+].join('\n');
+
+const master = new KiteInstrumentMaster(parseKiteInstruments(csv));
+
+/** The rule error a check is refused with */
+function violation(check: () => unknown): OrderRuleError {
+  try {
+    check();
+  } catch (error) {
+    if (error instanceof OrderRuleError) return error;
+    throw error;
+  }
+  throw new Error('Order was accepted');
+}
+
+describe('kite instrument master', () => {
+  it('should parse the instruments dump, including quoted names with commas', () => {
+    const instruments = parseKiteInstruments(csv);
+
+    expect(instruments).toHaveLength(6);
+    expect(instruments[3]).toEqual({
+      instrumentToken: 13238786,
+      exchangeToken: 51714,
+      tradingsymbol: 'NIFTY24MARFUT',
+      name: 'NIFTY',
+      expiry: '2024-03-28',
+      strike: 0,
+      tickSize: 0.05,
+      lotSize: 50,
+      instrumentType: 'FUT',
+      segment: 'NFO-FUT',
+      exchange: 'NFO',
+    });
+    expect(instruments[5].name).toBe('TATA CONSULTANCY SERV, LT');
+    expect(() => parseKiteInstruments('tradingsymbol,exchange\nINFY,NSE')).toThrow(/missing columns/);
+  });
+
+  it('should resolve tokens, exchange-qualified and bare symbols, preferring NSE', () => {
+    expect(master.resolve('408065')?.exchange).toBe('NSE');
+    expect(master.resolve('BSE:INFY')?.instrumentToken).toBe(128053508);
+    expect(master.resolve('INFY')?.instrumentToken).toBe(408065);
+    expect(master.resolve('nfo:nifty24marfut')?.lotSize).toBe(50);
+    expect(master.resolve('NSE:UNKNOWN')).toBeUndefined();
+  });
+
+  it('should search by exchange, segment, symbol prefix, token, lot size and tick size', () => {
+    const symbols = (filter: Parameters<KiteInstrumentMaster['search']>[0]) =>
+      master.search(filter).map((instrument) => `${instrument.exchange}:${instrument.tradingsymbol}`);
+
+    expect(symbols({ exchange: 'nse' })).toEqual(['NSE:INFY', 'NSE:TCS']);
+    expect(symbols({ segment: 'NFO-FUT' })).toEqual(['NFO:NIFTY24MARFUT']);
+    expect(symbols({ tradingsymbol: 'IN' })).toEqual(['NSE:INFY', 'BSE:INFY']);
+    expect(symbols({ token: 412675 })).toEqual(['CDS:USDINR24MARFUT']);
+    expect(symbols({ lotSize: 50 })).toEqual(['NFO:NIFTY24MARFUT']);
+    expect(symbols({ tickSize: 0.0025 })).toEqual(['CDS:USDINR24MARFUT']);
+    expect(symbols({ exchange: 'NSE', limit: 1 })).toEqual(['NSE:INFY']);
+  });
+
+  it('should default to CNC for equity and NRML for derivatives and reject mismatched products', () => {
+    const infy = master.resolve('INFY')!;
+    const future = master.resolve('NFO:NIFTY24MARFUT')!;
+
+    expect(kiteProduct(infy)).toBe('CNC');
+    expect(kiteProduct(future)).toBe('NRML');
+    expect(kiteProduct(infy, 'MIS')).toBe('MIS');
+    expect(kiteProduct(future, 'MIS')).toBe('MIS');
+    expect(() => kiteProduct(future, 'CNC')).toThrow(/CNC is only available for equity/);
+    expect(() => kiteProduct(infy, 'NRML')).toThrow(/NRML is only available for derivatives/);
+
+    const product = violation(() => kiteProduct(future, 'CNC'));
+    expect(product.code).toBe('KITE_PRODUCT');
+    expect(product.allowed).toEqual({ products: ['NRML', 'MIS'] });
+  });
+
+  it('should validate whole lots and the tick grid within float error', () => {
+    const future = master.resolve('NFO:NIFTY24MARFUT')!;
+    const currency = master.resolve('CDS:USDINR24MARFUT')!;
+
+    expect(() => validateKiteOrder(future, 100, [22150.35])).not.toThrow();
+    expect(() => validateKiteOrder(currency, 3, [83.1025, 0.1 + 0.2])).not.toThrow();
+    expect(() => validateKiteOrder(future, 75)).toThrow('must be a multiple of the lot size 50');
+    expect(() => validateKiteOrder(future, 50, [22150.33])).toThrow('must be a multiple of the tick size 0.05');
+    expect(() => validateKiteOrder(master.resolve('256265')!, 1)).toThrow(/index and cannot be traded/);
+
+    const lot = violation(() => validateKiteOrder(future, 75));
+    expect(lot.code).toBe('KITE_LOT_SIZE');
+    expect(lot.allowed).toEqual({ lotSize: 50 });
+    expect(violation(() => validateKiteOrder(future, 50, [22150.33])).allowed).toEqual({ tickSize: 0.05 });
+    expect(violation(() => validateKiteOrder(master.resolve('256265')!, 1)).code).toBe('KITE_INDEX_NOT_TRADABLE');
+  });
+});
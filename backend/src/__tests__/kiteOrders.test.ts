@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { kiteOrderState, kiteOrderStatus } from '../brokers/kiteOrders';
+
+/** One entry of an order's history as `GET /orders/:order_id` returns it */
+function entry(status: string, filled: number, averagePrice: number) {
+  return {
+    average_price: averagePrice,
+    cancelled_quantity: 0,
+    disclosed_quantity: 0,
+    exchange: 'NSE',
+    exchange_order_id: status === 'PUT ORDER REQUEST RECEIVED' ? null : '1300000001887410',
+    exchange_timestamp: null,
+    filled_quantity: filled,
+    instrument_token: 408065,
+    order_id: '171222000539943',
+    order_timestamp: '2024-03-15 09:15:02',
+    order_type: 'LIMIT',
+    parent_order_id: null,
+    pending_quantity: 10 - filled,
+    placed_by: 'AB0012',
+    price: 1500,
+    product: 'CNC',
+    quantity: 10,
+    status,
+    status_message: null,
+    tag: null,
+    tradingsymbol: 'INFY',
+    transaction_type: 'BUY',
+    trigger_price: 0,
+    validity: 'DAY',
+    variety: 'regular',
+  };
+}
+
+const response = {
+  status: 'success',
+  data: [
+    entry('PUT ORDER REQUEST RECEIVED', 0, 0),
+    entry('VALIDATION PENDING', 0, 0),
+    entry('OPEN PENDING', 0, 0),
+    entry('OPEN', 0, 0),
+    entry('OPEN', 4, 1499.5),
+    entry('COMPLETE', 10, 1499.8),
+  ],
+};
+
+describe('kite orders', () => {
+  it('should map Kite statuses, treating trigger pending stops as open', () => {
+    expect(kiteOrderStatus('COMPLETE')).toBe('filled');
+    expect(kiteOrderStatus('TRIGGER PENDING')).toBe('open');
+    expect(kiteOrderStatus('CANCELLED')).toBe('cancelled');
+    expect(kiteOrderStatus('AMO REQ RECEIVED')).toBe('pending');
+  });
+
+  it('should read the current state from the last entry of the order history', () => {
+    expect(kiteOrderState(response.data)).toEqual({
+      orderId: '171222000539943',
+      status: 'filled',
+      filledQuantity: 10,
+      averagePrice: 1499.8,
+      brokerOrderId: '171222000539943',
+    });
+
+    // Kite keeps a partly filled order OPEN
+    expect(kiteOrderState(response.data.slice(0, 5))).toMatchObject({
+      status: 'partially_filled',
+      filledQuantity: 4,
+      averagePrice: 1499.5,
+    });
+    expect(kiteOrderState(response.data.slice(0, 2)).status).toBe('pending');
+    expect(() => kiteOrderState([])).toThrow('Kite returned no history for the order');
+  });
+});
@@ -0,0 +1,203 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { AddressInfo } from 'net';
+import WebSocket, { WebSocketServer } from 'ws';
+import { KiteTick, KiteTicker, kiteTickToQuote, parseKiteTicks } from '../brokers/kiteTicker';
+
+const NSE_TOKEN = 408065; // low byte 1: NSE equity, prices in paise
+const CDS_TOKEN = 412675; // low byte 3: NSE currency, prices in 1e-7 rupees
+const exchangeTime = new Date('2024-03-15T09:30:00Z');
+
+function ltpPacket(token: number, price: number): Buffer {
+  const packet = Buffer.alloc(8);
+  packet.writeUInt32BE(token, 0);
+  packet.writeInt32BE(price, 4);
+  return packet;
+}
+
+function fullPacket(token: number): Buffer {
+  const packet = Buffer.alloc(184);
+  // Last price, last quantity, average price, volume, buy and sell quantity, OHLC
+  [token, 150025, 10, 149980, 1250000, 5000, 6000, 149000, 151000, 148500, 148800].forEach((value, i) =>
+    packet.writeUInt32BE(value, i * 4)
+  );
+  packet.writeUInt32BE(exchangeTime.getTime() / 1000 - 1, 44);
+  packet.writeUInt32BE(7000, 48);
+  packet.writeUInt32BE(exchangeTime.getTime() / 1000, 60);
+  for (let i = 0; i < 10; i++) {
+    const bid = i < 5;
+    packet.writeUInt32BE(100 * (i + 1), 64 + i * 12);
+    packet.writeInt32BE(bid ? 150000 - (i % 5) * 5 : 150050 + (i % 5) * 5, 68 + i * 12);
+    packet.writeUInt16BE(i + 1, 72 + i * 12);
+  }
+  return packet;
+}
+
+function frame(...packets: Buffer[]): Buffer {
+  const parts = [Buffer.alloc(2)];
+  parts[0].writeUInt16BE(packets.length, 0);
+  for (const packet of packets) {
+    const length = Buffer.alloc(2);
+    length.writeUInt16BE(packet.length, 0);
+    parts.push(length, packet);
+  }
+  return Buffer.concat(parts);
+}
+
+/** Local stand-in for the Kite ticker that records requests */
+async function fakeTickerServer() {
+  const server = new WebSocketServer({ port: 0 });
+  await new Promise((resolve) => server.once('listening', resolve));
+  const messages: any[] = [];
+  const urls: string[] = [];
+  const sockets: WebSocket[] = [];
+
+  server.on('connection', (socket, request) => {
+    urls.push(request.url!);
+    sockets.push(socket);
+    socket.on('message', (data) => messages.push(JSON.parse(data.toString())));
+  });
+
+  return {
+    url: `ws://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    messages,
+    urls,
+    sockets,
+    close: () => new Promise((resolve) => server.close(resolve)),
+  };
+}
+
+async function waitFor(check: () => boolean, timeoutMs = 2000) {
+  const start = Date.now();
+  while (!check()) {
+    if (Date.now() - start > timeoutMs) throw new Error('Timed out');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+describe('kite ticker', () => {
+  const cleanup: Array<() => unknown> = [];
+
+  afterEach(async () => {
+    for (const step of cleanup.splice(0).reverse()) await step();
+  });
+
+  it('should parse ltp and full packets with five levels of depth', () => {
+    const [ltp, currency, full] = parseKiteTicks(
+      frame(ltpPacket(NSE_TOKEN, 150025), ltpPacket(CDS_TOKEN, 832500000), fullPacket(NSE_TOKEN))
+    );
+
+    expect(ltp).toEqual({ instrumentToken: NSE_TOKEN, mode: 'ltp', tradable: true, lastPrice: 1500.25 });
+    expect(currency.lastPrice).toBe(83.25);
+
+    expect(full).toMatchObject({
+      mode: 'full',
+      lastPrice: 1500.25,
+      lastQuantity: 10,
+      averagePrice: 1499.8,
+      volume: 1250000,
+      buyQuantity: 5000,
+      sellQuantity: 6000,
+      ohlc: { open: 1490, high: 1510, low: 1485, close: 1488 },
+      oi: 7000,
+      exchangeTimestamp: exchangeTime,
+    });
+    expect(full.depth!.buy).toHaveLength(5);
+    expect(full.depth!.buy[0]).toEqual({ quantity: 100, price: 1500, orders: 1 });
+    expect(full.depth!.sell[4]).toEqual({ quantity: 1000, price: 1500.7, orders: 10 });
+  });
+
+  it('should ignore heartbeats and map ticks to quotes', () => {
+    expect(parseKiteTicks(Buffer.alloc(1))).toEqual([]);
+
+    const [full] = parseKiteTicks(frame(fullPacket(NSE_TOKEN)));
+    expect(kiteTickToQuote(full, 'NSE:INFY')).toEqual({
+      symbol: 'NSE:INFY',
+      bid: 1500,
+      ask: 1500.5,
+      last: 1500.25,
+      volume: 1250000,
+      timestamp: exchangeTime,
+    });
+
+    const ltp: KiteTick = { instrumentToken: NSE_TOKEN, mode: 'ltp', tradable: true, lastPrice: 99.5 };
+    expect(kiteTickToQuote(ltp, 'NSE:INFY')).toMatchObject({ bid: 99.5, ask: 99.5, last: 99.5, volume: 0 });
+  });
+
+  it('should authenticate, subscribe and deliver ticks from the server', async () => {
+    const server = await fakeTickerServer();
+    const received: KiteTick[] = [];
+    const ticker = new KiteTicker({
+      url: server.url,
+      apiKey: 'key',
+      accessToken: 'token',
+      onTicks: (ticks) => received.push(...ticks),
+    });
+    cleanup.push(server.close, () => ticker.close());
+
+    ticker.subscribe([NSE_TOKEN], 'full');
+    ticker.connect();
+    await waitFor(() => server.messages.length === 2);
+
+    expect(server.urls[0]).toBe('/?api_key=key&access_token=token');
+    expect(server.messages).toEqual([
+      { a: 'subscribe', v: [NSE_TOKEN] },
+      { a: 'mode', v: ['full', [NSE_TOKEN]] },
+    ]);
+
+    server.sockets[0].send(Buffer.alloc(1));
+    server.sockets[0].send(frame(ltpPacket(NSE_TOKEN, 150100)));
+    await waitFor(() => received.length === 1);
+    expect(received[0].lastPrice).toBe(1501);
+  });
+
+  it('should send mode switches and unsubscribes', async () => {
+    const server = await fakeTickerServer();
+    const ticker = new KiteTicker({ url: server.url, apiKey: 'key', accessToken: 'token', onTicks: () => {} });
+    cleanup.push(server.close, () => ticker.close());
+
+    ticker.connect();
+    await waitFor(() => ticker.getState() === 'connected');
+    ticker.subscribe([NSE_TOKEN, CDS_TOKEN]);
+    ticker.setMode('ltp', [CDS_TOKEN, 1]);
+    ticker.unsubscribe([NSE_TOKEN]);
+    await waitFor(() => server.messages.length === 4);
+
+    expect(server.messages).toEqual([
+      { a: 'subscribe', v: [NSE_TOKEN, CDS_TOKEN] },
+      { a: 'mode', v: ['quote', [NSE_TOKEN, CDS_TOKEN]] },
+      { a: 'mode', v: ['ltp', [CDS_TOKEN]] },
+      { a: 'unsubscribe', v: [NSE_TOKEN] },
+    ]);
+    expect(ticker.getSubscriptions()).toEqual(new Map([[CDS_TOKEN, 'ltp']]));
+  });
+
+  it('should reconnect with backoff and restore subscriptions', async () => {
+    const server = await fakeTickerServer();
+    const states: string[] = [];
+    const ticker = new KiteTicker({
+      url: server.url,
+      apiKey: 'key',
+      accessToken: 'token',
+      onTicks: () => {},
+      onStateChange: (state) => states.push(state),
+      reconnectDelayMs: 20,
+      staleTimeoutMs: 150,
+    });
+    cleanup.push(server.close, () => ticker.close());
+
+    ticker.subscribe([NSE_TOKEN], 'full');
+    ticker.connect();
+    await waitFor(() => server.messages.length === 2);
+
+    // Dropped by the server, then silent without heartbeats
+    server.sockets[0].terminate();
+    await waitFor(() => server.sockets.length === 2 && server.messages.length === 4);
+    await waitFor(() => server.sockets.length === 3 && server.messages.length === 6);
+
+    expect(server.messages.slice(2, 4)).toEqual([
+      { a: 'subscribe', v: [NSE_TOKEN] },
+      { a: 'mode', v: ['full', [NSE_TOKEN]] },
+    ]);
+    expect(states.slice(0, 4)).toEqual(['connecting', 'connected', 'reconnecting', 'connected']);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import {
+  cashChange,
+  cashMovementPostings,
+  emptyBalances,
+  isBalanced,
+  openingPostings,
+  resetPostings,
+  tradePostings,
+} from '../services/ledgerPostings';
+
+describe('ledger postings', () => {
+  it('should settle a buy from cash into securities and pay the fee from cash', () => {
+    const postings = tradePostings('buy', 10, 150, 1.5);
+
+    expect(isBalanced(postings)).toBe(true);
+    expect(cashChange(postings)).toBeCloseTo(-1501.5);
+    expect(postings).toContainEqual({ account: 'securities', amount: 1500 });
+    expect(postings).toContainEqual({ account: 'fees', amount: 1.5 });
+  });
+
+  it('should credit cash with the proceeds of a sell less the fee', () => {
+    const postings = tradePostings('sell', 10, 150, 1.5);
+
+    expect(isBalanced(postings)).toBe(true);
+    expect(cashChange(postings)).toBeCloseTo(1498.5);
+  });
+
+  it('should balance every cash movement against its counter-account', () => {
+    expect(cashMovementPostings('deposit', 500)).toEqual([
+      { account: 'cash', amount: 500 },
+      { account: 'capital', amount: -500 },
+    ]);
+    expect(cashChange(cashMovementPostings('withdrawal', 200))).toBe(-200);
+    expect(cashChange(cashMovementPostings('dividend', 12))).toBe(12);
+    // Interest charged on a debit balance
+    expect(cashChange(cashMovementPostings('interest', -3))).toBe(-3);
+
+    for (const type of ['deposit', 'withdrawal', 'fee', 'dividend', 'interest'] as const) {
+      expect(isBalanced(cashMovementPostings(type, 42))).toBe(true);
+    }
+  });
+
+  it('should restore the starting cash and write off positions on reset', () => {
+    const balances = { ...emptyBalances(), cash: 70000, securities: 32000, capital: -100000, fees: 40, dividends: -2040 };
+    const postings = resetPostings(balances, 100000);
+
+    expect(isBalanced(postings)).toBe(true);
+    expect(balances.cash + cashChange(postings)).toBe(100000);
+    expect(postings).toContainEqual({ account: 'securities', amount: -32000 });
+  });
+
+  it('should open an existing account as capital paid in', () => {
+    const postings = openingPostings(100000, 0);
+
+    expect(postings).toEqual([
+      { account: 'cash', amount: 100000 },
+      { account: 'capital', amount: -100000 },
+    ]);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { LotTrade, matchLots } from '../services/lotMatching';
+
+let nextId = 1;
+const trade = (side: 'buy' | 'sell', quantity: number, price: number, date: string, fee = 0): LotTrade => ({
+  id: nextId++,
+  symbol: 'AAPL',
+  side,
+  quantity,
+  price,
+  fee,
+  executedAt: new Date(date),
+});
+
+const trades = [
+  trade('buy', 10, 100, '2023-01-02T15:00:00Z', 10),
+  trade('buy', 10, 120, '2024-03-01T15:00:00Z', 10),
+  trade('sell', 15, 130, '2024-06-03T15:00:00Z', 15),
+];
+
+describe('lot matching', () => {
+  it('should close the oldest lots first with FIFO', () => {
+    const { open, closed } = matchLots(trades, 'fifo');
+
+    expect(closed).toHaveLength(2);
+    expect(closed[0]).toMatchObject({ quantity: 10, openPrice: 100, term: 'long' });
+    expect(closed[0].realizedPnl).toBeCloseTo(300 - 10 - 10);
+    expect(closed[1]).toMatchObject({ quantity: 5, openPrice: 120, term: 'short', holdingPeriodDays: 94 });
+    expect(closed[1].realizedPnl).toBeCloseTo(50 - 5 - 5);
+    expect(open).toEqual([expect.objectContaining({ quantity: 5, price: 120 })]);
+  });
+
+  it('should close the newest lots first with LIFO', () => {
+    const { open, closed } = matchLots(trades, 'lifo');
+
+    expect(closed.map((lot) => [lot.quantity, lot.openPrice])).toEqual([
+      [10, 120],
+      [5, 100],
+    ]);
+    expect(open).toEqual([expect.objectContaining({ quantity: 5, price: 100 })]);
+  });
+
+  it('should realize against the pooled average cost', () => {
+    const { open, closed } = matchLots(trades, 'average');
+    const realized = closed.reduce((sum, lot) => sum + lot.realizedPnl, 0);
+
+    // 15 sold at 130 against an average of 110, less 15 opening and 15 closing fees
+    expect(realized).toBeCloseTo(300 - 15 - 15);
+    expect(open[0].price).toBeCloseTo(110);
+  });
+
+  it('should not count an open position as a loss', () => {
+    const { closed } = matchLots([trade('buy', 10, 100, '2024-01-02T15:00:00Z')], 'fifo');
+    expect(closed).toHaveLength(0);
+  });
+
+  it('should open a short lot for a sell beyond the held quantity', () => {
+    const { open, closed } = matchLots(
+      [
+        trade('buy', 5, 100, '2024-01-02T15:00:00Z'),
+        trade('sell', 8, 110, '2024-01-03T15:00:00Z'),
+        trade('buy', 3, 90, '2024-01-04T15:00:00Z'),
+      ],
+      'fifo'
+    );
+
+    expect(closed.map((lot) => [lot.direction, lot.quantity, lot.realizedPnl])).toEqual([
+      ['long', 5, 50],
+      ['short', 3, 60],
+    ]);
+    expect(open).toHaveLength(0);
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { MarketGenerator } from '../brokers/marketGenerator';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+const start = new Date('2024-03-15T00:00:00Z');
+
+function at(offset: number): Date {
+  return new Date(start.getTime() + offset);
+}
+
+/** Annualized standard deviation of minute log returns */
+function realizedVolatility(closes: number[]): number {
+  const returns = closes.slice(1).map((close, i) => Math.log(close / closes[i]));
+  const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const variance = returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length - 1);
+  return Math.sqrt(variance * 365 * 24 * 60);
+}
+
+describe('market generator', () => {
+  it('should reproduce the same data from the same seed in any order', () => {
+    const first = new MarketGenerator({ seed: 42 });
+    const second = new MarketGenerator({ seed: 42 });
+
+    // Ask the second generator in reverse, from far away, to exercise the checkpoints
+    second.quote('AAPL', at(30 * DAY));
+    const later = second.candles('AAPL', at(0), at(2 * HOUR), 5 * MINUTE);
+    const quote = second.quote('AAPL', at(37 * MINUTE + 12 * 1000));
+
+    expect(first.quote('AAPL', at(37 * MINUTE + 12 * 1000))).toEqual(quote);
+    expect(first.candles('AAPL', at(0), at(2 * HOUR), 5 * MINUTE)).toEqual(later);
+    expect(new MarketGenerator({ seed: 43 }).quote('AAPL', at(0)).last).not.toBe(quote.last);
+    expect(first.quote('MSFT', at(0)).last).not.toBe(first.quote('AAPL', at(0)).last);
+  });
+
+  it('should keep ticks inside their candles and candles continuous', () => {
+    const generator = new MarketGenerator({ seed: 7, origin: start, initialPrice: 100 });
+    const minutes = generator.candles('AAPL', at(-30 * MINUTE), at(30 * MINUTE), MINUTE);
+
+    expect(minutes).toHaveLength(60);
+    // The path runs backwards from the origin as well as forwards
+    expect(minutes[30].open).toBeCloseTo(100, 10);
+    minutes.slice(1).forEach((candle, i) => expect(candle.open).toBeCloseTo(minutes[i].close, 10));
+
+    for (const [i, candle] of minutes.slice(25, 35).entries()) {
+      const minute = (i - 5) * MINUTE;
+      expect(generator.quote('AAPL', at(minute)).last).toBeCloseTo(candle.open, 10);
+      for (let second = 0; second < 60; second++) {
+        const { last, bid, ask } = generator.quote('AAPL', at(minute + second * 1000));
+        expect(last).toBeGreaterThanOrEqual(candle.low - 1e-9);
+        expect(last).toBeLessThanOrEqual(candle.high + 1e-9);
+        expect(bid).toBeLessThan(last);
+        expect(ask).toBeGreaterThan(last);
+      }
+    }
+
+    // An open candle ends at the latest quote
+    const [current] = generator.candles('AAPL', at(10 * MINUTE), at(10 * MINUTE + 25 * 1000), HOUR);
+    expect(current.close).toBe(generator.quote('AAPL', at(10 * MINUTE + 25 * 1000)).last);
+
+    // Longer candles aggregate the minutes, aligned to the interval
+    const [hour] = generator.candles('AAPL', at(20 * MINUTE), at(HOUR), HOUR);
+    const hourMinutes = generator.candles('AAPL', at(0), at(HOUR), MINUTE);
+    expect(hour.timestamp).toEqual(at(0));
+    expect(hour.open).toBe(hourMinutes[0].open);
+    expect(hour.close).toBe(hourMinutes[59].close);
+    expect(hour.high).toBe(Math.max(...hourMinutes.map((c) => c.high)));
+    expect(hour.low).toBe(Math.min(...hourMinutes.map((c) => c.low)));
+    expect(hour.volume).toBe(hourMinutes.reduce((sum, c) => sum + c.volume, 0));
+  });
+
+  it('should move with the configured volatility, jumps and regimes', () => {
+    const closes = (options: object) =>
+      new MarketGenerator({ seed: 3, drift: 0, volatility: 0.2, ...options })
+        .candles('AAPL', at(0), at(10 * DAY), MINUTE)
+        .map((candle) => candle.close);
+    const largestMove = (prices: number[]) =>
+      Math.max(...prices.slice(1).map((close, i) => Math.abs(Math.log(close / prices[i]))));
+
+    const plain = closes({});
+    expect(realizedVolatility(plain)).toBeGreaterThan(0.19);
+    expect(realizedVolatility(plain)).toBeLessThan(0.21);
+
+    const jumpy = closes({ jumps: { intensity: 500, mean: 0, stdDev: 0.05 } });
+    expect(largestMove(jumpy)).toBeGreaterThan(10 * largestMove(plain));
+
+    const regimes = [
+      { volatilityMultiplier: 1, meanDurationHours: 12 },
+      { volatilityMultiplier: 4, meanDurationHours: 12 },
+    ];
+    const switching = realizedVolatility(closes({ regimes }));
+    expect(switching).toBeGreaterThan(0.3);
+    expect(switching).toBeLessThan(0.8);
+  });
+
+  it('should pull prices back to the mean reversion level', () => {
+    const options = { seed: 5, drift: 0.5, volatility: 0.6, initialPrice: 100 };
+    const final = (generator: MarketGenerator) => generator.candles('AAPL', at(0), at(60 * DAY), DAY).at(-1)!.close;
+
+    const reverting = [1, 2, 3, 4, 5].map((seed) =>
+      final(new MarketGenerator({ ...options, seed, meanReversion: { speed: 200, level: 80 } }))
+    );
+    reverting.forEach((price) => {
+      expect(price).toBeGreaterThan(70);
+      expect(price).toBeLessThan(92);
+    });
+    expect(final(new MarketGenerator(options))).not.toBeCloseTo(80, 0);
+  });
+
+  it('should trade more at the open and close of the session than midday', () => {
+    const generator = new MarketGenerator({
+      seed: 9,
+      volume: { perMinute: 1000, smile: 3, sessionStartHour: 14, sessionEndHour: 21 },
+    });
+    const day = generator.candles('AAPL', at(5 * DAY), at(6 * DAY), 30 * MINUTE);
+    const volumeAt = (hour: number) => day[hour * 2].volume;
+
+    expect(volumeAt(14)).toBeGreaterThan(2 * volumeAt(17));
+    expect(volumeAt(20.5)).toBeGreaterThan(2 * volumeAt(17));
+    expect(volumeAt(17)).toBeGreaterThan(10 * volumeAt(3));
+
+    // Quotes report the volume traded since midnight
+    const noon = generator.quote('AAPL', at(5 * DAY + 17 * HOUR));
+    expect(noon.volume).toBe(day.slice(0, 34).reduce((sum, c) => sum + c.volume, 0));
+  });
+});
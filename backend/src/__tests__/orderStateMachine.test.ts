@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { canTransition, TERMINAL_STATUSES } from '../services/orderStateMachine';
+
+describe('order state machine', () => {
+  it('should allow the normal lifecycle', () => {
+    expect(canTransition('pending', 'open')).toBe(true);
+    expect(canTransition('open', 'partially_filled')).toBe(true);
+    expect(canTransition('partially_filled', 'partially_filled')).toBe(true);
+    expect(canTransition('partially_filled', 'filled')).toBe(true);
+    expect(canTransition('held', 'open')).toBe(true);
+  });
+
+  it('should never leave a terminal status', () => {
+    for (const status of TERMINAL_STATUSES) {
+      expect(canTransition(status, 'open')).toBe(false);
+      expect(canTransition(status, 'pending')).toBe(false);
+      expect(canTransition(status, status)).toBe(true);
+    }
+    expect(canTransition('filled', 'cancelled')).toBe(false);
+  });
+
+  it('should not move backwards', () => {
+    expect(canTransition('open', 'pending')).toBe(false);
+    expect(canTransition('partially_filled', 'open')).toBe(false);
+    expect(canTransition('open', 'held')).toBe(false);
+  });
+});
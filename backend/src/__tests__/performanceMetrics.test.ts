@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { ClosedLot } from '../services/lotMatching';
+import {
+  maxDrawdown,
+  moneyWeightedReturn,
+  periodBuckets,
+  periodReturns,
+  positionSeries,
+  SeriesPoint,
+  sliceSeries,
+  timeWeightedReturn,
+  tradeStats,
+} from '../services/performanceMetrics';
+
+const point = (date: string, value: number, flow = 0): SeriesPoint => ({ timestamp: new Date(date), value, flow });
+
+const closedLot = (closeTradeId: number, realizedPnl: number): ClosedLot => ({
+  symbol: 'AAPL',
+  direction: 'long',
+  quantity: 1,
+  openTradeId: 0,
+  closeTradeId,
+  openedAt: new Date('2024-01-01'),
+  closedAt: new Date('2024-01-02'),
+  openPrice: 100,
+  closePrice: 100 + realizedPnl,
+  costBasis: 100,
+  proceeds: 100 + realizedPnl,
+  fees: 0,
+  realizedPnl,
+  holdingPeriodDays: 1,
+  term: 'short',
+});
+
+describe('performance metrics', () => {
+  it('should exclude deposits from the time-weighted return but not the money-weighted one', () => {
+    // +10%, then 1000 deposited, then -10%
+    const points = [
+      point('2024-01-01T00:00:00Z', 1000),
+      point('2024-01-02T00:00:00Z', 2100, 1000),
+      point('2024-01-03T00:00:00Z', 1890),
+    ];
+
+    expect(timeWeightedReturn(periodReturns(points))).toBeCloseTo(1.1 * 0.9 - 1);
+    // More money was at work during the loss, so the investor did worse than the TWR
+    const mwr = moneyWeightedReturn(points)!;
+    expect(mwr).toBeLessThan(1.1 * 0.9 - 1);
+    expect(1000 * (1 + mwr) + 1000 * (1 + mwr) ** 0.5).toBeCloseTo(1890);
+  });
+
+  it('should find the deepest drawdown with its peak, trough and recovery', () => {
+    const points = [
+      point('2024-01-01T00:00:00Z', 100),
+      point('2024-01-02T00:00:00Z', 120),
+      point('2024-01-03T00:00:00Z', 90),
+      point('2024-01-04T00:00:00Z', 130),
+      point('2024-01-05T00:00:00Z', 117),
+    ];
+
+    const drawdown = maxDrawdown(periodReturns(points), points[0].timestamp);
+    expect(drawdown?.depth).toBeCloseTo(0.25);
+    expect(drawdown?.peakAt).toEqual(new Date('2024-01-02T00:00:00Z'));
+    expect(drawdown?.troughAt).toEqual(new Date('2024-01-03T00:00:00Z'));
+    expect(drawdown?.recoveredAt).toEqual(new Date('2024-01-04T00:00:00Z'));
+  });
+
+  it('should net the lots of one closing trade before counting wins and losses', () => {
+    const stats = tradeStats([closedLot(1, 30), closedLot(1, -10), closedLot(2, -40), closedLot(3, 60)]);
+
+    expect(stats).toMatchObject({ trades: 3, wins: 2, losses: 1, averageWin: 40, averageLoss: -40 });
+    expect(stats.winRate).toBeCloseTo(2 / 3);
+    expect(stats.profitFactor).toBeCloseTo(2);
+    expect(stats.expectancy).toBeCloseTo(40 / 3);
+  });
+
+  it('should let a short position gain when the price falls', () => {
+    const points = positionSeries([
+      { id: 1, symbol: 'TSLA', side: 'sell', quantity: 10, price: 200, fee: 0, executedAt: new Date('2024-01-02') },
+      { id: 2, symbol: 'TSLA', side: 'buy', quantity: 10, price: 180, fee: 0, executedAt: new Date('2024-01-05') },
+    ]);
+
+    expect(timeWeightedReturn(periodReturns(points))).toBeCloseTo(0.1);
+  });
+
+  it('should carry the last value into a window and split it into calendar periods', () => {
+    const points = [point('2024-01-01T00:00:00Z', 100), point('2024-01-10T00:00:00Z', 110, 5)];
+    const window = sliceSeries(points, new Date('2024-01-08T00:00:00Z'), new Date('2024-01-14T23:59:59Z'));
+
+    expect(window.map((p) => [p.value, p.flow])).toEqual([
+      [100, 0],
+      [110, 5],
+    ]);
+
+    // Monday 2024-01-08 starts a week
+    const weeks = periodBuckets(new Date('2024-01-03T00:00:00Z'), new Date('2024-01-20T00:00:00Z'), 'week');
+    expect(weeks.map((week) => week.start.toISOString().slice(0, 10))).toEqual([
+      '2024-01-03',
+      '2024-01-08',
+      '2024-01-15',
+    ]);
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import { BookOrder, findBreaks, ReconciliationInput } from '../services/reconciliationChecks';
+
+const now = new Date('2024-03-01T12:00:00Z');
+
+function order(overrides: Partial<BookOrder> = {}): BookOrder {
+  return {
+    orderId: 'ord-1',
+    brokerOrderId: 'brk-1',
+    symbol: 'AAPL',
+    status: 'open',
+    filledQuantity: 0,
+    averagePrice: null,
+    tradedQuantity: 0,
+    tradedValue: 0,
+    ...overrides,
+  };
+}
+
+function input(overrides: Partial<ReconciliationInput> = {}): ReconciliationInput {
+  return {
+    brokerPositions: [],
+    bookPositions: [],
+    orders: [],
+    brokerStatuses: new Map(),
+    openOrders: [],
+    knownBrokerOrderIds: new Set(),
+    ...overrides,
+  };
+}
+
+describe('reconciliation checks', () => {
+  it('should report nothing when broker and records agree', () => {
+    const breaks = findBreaks(
+      input({
+        brokerPositions: [{ symbol: 'AAPL', quantity: 10 }],
+        bookPositions: [{ symbol: 'AAPL', quantity: 10 }],
+        orders: [order()],
+        brokerStatuses: new Map([['brk-1', { orderId: 'brk-1', status: 'open', filledQuantity: 0 }]]),
+        openOrders: [
+          { orderId: 'brk-1', brokerOrderId: 'brk-1', status: 'open', symbol: 'AAPL', side: 'buy', quantity: 5 },
+        ],
+        knownBrokerOrderIds: new Set(['brk-1']),
+      }),
+      now
+    );
+
+    expect(breaks).toEqual([]);
+  });
+
+  it('should repair a missing fill with a fill priced to match the broker average', () => {
+    const breaks = findBreaks(
+      input({
+        orders: [order({ status: 'partially_filled', filledQuantity: 4, tradedQuantity: 4, tradedValue: 400 })],
+        brokerStatuses: new Map([
+          ['brk-1', { orderId: 'brk-1', status: 'filled', filledQuantity: 10, averagePrice: 103 }],
+        ]),
+      }),
+      now
+    );
+
+    expect(breaks).toHaveLength(1);
+    expect(breaks[0]).toMatchObject({ type: 'missing_fill', expected: 10, actual: 4 });
+    expect(breaks[0].repair).toMatchObject({ status: 'filled', filledQuantity: 10 });
+    // 4 @ 100 recorded, so the other 6 must average 105 for 10 @ 103
+    expect(breaks[0].repair!.fills).toEqual([
+      { tradeId: 'reconcile-brk-1-10', quantity: 6, price: 105, timestamp: now },
+    ]);
+  });
+
+  it('should mark orders finished at the broker or unknown to it as stale', () => {
+    const breaks = findBreaks(
+      input({
+        orders: [order(), order({ orderId: 'ord-2', brokerOrderId: 'brk-2' })],
+        brokerStatuses: new Map([
+          ['brk-1', { orderId: 'brk-1', status: 'cancelled', filledQuantity: 0 }],
+          ['brk-2', null],
+        ]),
+      }),
+      now
+    );
+
+    expect(breaks.map((found) => [found.type, found.orderId])).toEqual([
+      ['stale_order', 'ord-1'],
+      ['stale_order', 'ord-2'],
+    ]);
+    expect(breaks[0].repair).toMatchObject({ status: 'cancelled', fills: [] });
+    expect(breaks[1].repair).toBeNull();
+  });
+
+  it('should flag working broker orders we never recorded', () => {
+    const breaks = findBreaks(
+      input({
+        openOrders: [
+          { orderId: 'brk-9', brokerOrderId: 'brk-9', status: 'open', symbol: 'TSLA', side: 'sell', quantity: 3 },
+        ],
+      }),
+      now
+    );
+
+    expect(breaks).toHaveLength(1);
+    expect(breaks[0]).toMatchObject({ type: 'unknown_order', symbol: 'TSLA', brokerOrderId: 'brk-9', expected: 3 });
+    expect(breaks[0].repair).toBeNull();
+  });
+
+  it('should compare position quantities per symbol, including symbols on one side only', () => {
+    const breaks = findBreaks(
+      input({
+        brokerPositions: [
+          { symbol: 'AAPL', quantity: 10 },
+          { symbol: 'MSFT', quantity: 2 },
+        ],
+        bookPositions: [
+          { symbol: 'AAPL', quantity: 8 },
+          { symbol: 'NVDA', quantity: 1 },
+        ],
+      }),
+      now
+    );
+
+    expect(breaks.map((found) => [found.symbol, found.expected, found.actual])).toEqual([
+      ['AAPL', 10, 8],
+      ['MSFT', 2, 0],
+      ['NVDA', 0, 1],
+    ]);
+    expect(breaks.every((found) => found.type === 'quantity_mismatch' && found.repair === null)).toBe(true);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { MarketQuote } from '../brokers/base';
+import { candleTicks, MarketReplay, ReplaySpeed, ReplayState } from '../services/replayEngine';
+
+const SECOND = 1000;
+const start = new Date('2024-03-15T14:30:00Z').getTime();
+
+function tick(symbol: string, last: number, at: number): MarketQuote {
+  return { symbol, bid: last - 0.01, ask: last + 0.01, last, volume: 0, timestamp: new Date(start + at) };
+}
+
+const ticks = [
+  tick('AAPL', 100, 0),
+  tick('MSFT', 300, 5 * SECOND),
+  tick('AAPL', 101, 10 * SECOND),
+  tick('AAPL', 102, 20 * SECOND),
+];
+
+function replay(speed: ReplaySpeed) {
+  const sent: number[] = [];
+  const states: ReplayState[] = [];
+  const instance = new MarketReplay(ticks, (quote) => sent.push(quote.last), {
+    speed,
+    onStateChange: (state) => states.push(state),
+  });
+  return { instance, sent, states };
+}
+
+describe('market replay', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should turn candles into ticks along their path with cumulative volume', () => {
+    const candle = { symbol: 'AAPL', timestamp: new Date(start), open: 10, high: 13, low: 9, close: 12, volume: 400 };
+    const result = candleTicks([candle, { ...candle, timestamp: new Date(start + 60 * SECOND) }], 60 * SECOND, 10);
+
+    expect(result.slice(0, 4).map((quote) => quote.last)).toEqual([10, 9, 13, 12]);
+    expect(result.slice(0, 4).map((quote) => quote.timestamp.getTime() - start)).toEqual([0, 15000, 30000, 45000]);
+    expect(result[3].volume).toBe(400);
+    expect(result[7].volume).toBe(800);
+    expect(result[0].bid).toBeCloseTo(9.99);
+    expect(result[0].ask).toBeCloseTo(10.01);
+  });
+
+  it('should keep the gaps between ticks divided by the speed', () => {
+    const { instance, sent } = replay(10);
+    instance.play();
+
+    vi.advanceTimersByTime(0);
+    expect(sent).toEqual([100]);
+    vi.advanceTimersByTime(499);
+    expect(sent).toEqual([100]);
+    vi.advanceTimersByTime(1);
+    expect(sent).toEqual([100, 300]);
+    vi.advanceTimersByTime(1500);
+    expect(sent).toEqual([100, 300, 101, 102]);
+    expect(instance.getState()).toMatchObject({ status: 'finished', position: 4, total: 4 });
+  });
+
+  it('should play everything at max speed and only on request at step speed', () => {
+    const fast = replay('max');
+    fast.instance.play();
+    vi.runAllTimers();
+    expect(fast.sent).toEqual([100, 300, 101, 102]);
+    expect(fast.states.at(-1)?.status).toBe('finished');
+
+    const stepped = replay('step');
+    stepped.instance.play();
+    vi.advanceTimersByTime(60 * SECOND);
+    expect(stepped.sent).toEqual([]);
+    expect(stepped.instance.step(2)).toBe(2);
+    expect(stepped.sent).toEqual([100, 300]);
+    expect(stepped.instance.getState()).toMatchObject({ status: 'paused', position: 2 });
+  });
+
+  it('should seek by sending the latest quote of each symbol before the time', () => {
+    const { instance, sent } = replay(1);
+    instance.seek(new Date(start + 15 * SECOND));
+
+    expect(sent).toEqual([300, 101]);
+    expect(instance.getState()).toMatchObject({ status: 'paused', position: 3 });
+    expect(instance.getState().currentTime).toEqual(new Date(start + 15 * SECOND));
+
+    // Playing on from the seek point waits the remaining five seconds
+    instance.play();
+    vi.advanceTimersByTime(4999);
+    expect(sent).toEqual([300, 101]);
+    vi.advanceTimersByTime(1);
+    expect(sent).toEqual([300, 101, 102]);
+  });
+
+  it('should hold while paused and stop for good', () => {
+    const { instance, sent, states } = replay(1);
+    instance.play();
+    vi.advanceTimersByTime(0);
+    instance.pause();
+    vi.advanceTimersByTime(60 * SECOND);
+    expect(sent).toEqual([100]);
+
+    instance.setSpeed(10);
+    instance.play();
+    vi.advanceTimersByTime(500);
+    expect(sent).toEqual([100, 300]);
+
+    instance.stop();
+    instance.play();
+    vi.advanceTimersByTime(60 * SECOND);
+    expect(sent).toEqual([100, 300]);
+    expect(states.map((state) => state.status)).toEqual(['playing', 'paused', 'paused', 'playing', 'stopped']);
+  });
+});
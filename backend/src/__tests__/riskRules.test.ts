@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { OrderRequest } from '../brokers/base';
+import { DEFAULT_RISK_LIMITS, evaluateOrderRisk, realizedPnlSince, RiskContext } from '../services/riskRules';
+
+const context: RiskContext = {
+  quote: { symbol: 'AAPL', bid: 99.9, ask: 100.1, last: 100, volume: 0, timestamp: new Date() },
+  positionQuantity: 0,
+  openOrders: 0,
+  realizedPnlToday: 0,
+};
+
+const buy = (overrides: Partial<OrderRequest> = {}): OrderRequest => ({
+  symbol: 'AAPL',
+  side: 'buy',
+  type: 'market',
+  quantity: 10,
+  ...overrides,
+});
+
+describe('pre-trade risk rules', () => {
+  it('should approve an order within every limit', () => {
+    const assessment = evaluateOrderRisk(buy(), DEFAULT_RISK_LIMITS, context);
+
+    expect(assessment.violation).toBeNull();
+    expect(assessment.notional).toBeCloseTo(1001);
+    expect(assessment.resultingPosition).toBe(10);
+  });
+
+  it('should reject restricted symbols and prices outside the band', () => {
+    const limits = { ...DEFAULT_RISK_LIMITS, restrictedSymbols: ['aapl'] };
+    expect(evaluateOrderRisk(buy(), limits, context).violation?.code).toBe('RISK_RESTRICTED_SYMBOL');
+
+    const fatFinger = buy({ type: 'limit', price: 1000 });
+    expect(evaluateOrderRisk(fatFinger, DEFAULT_RISK_LIMITS, context).violation?.code).toBe('RISK_PRICE_BAND');
+    expect(evaluateOrderRisk(buy({ type: 'limit', price: 105 }), DEFAULT_RISK_LIMITS, context).violation).toBeNull();
+  });
+
+  it('should enforce notional, position and open order limits', () => {
+    const limits = { ...DEFAULT_RISK_LIMITS, maxOrderNotional: 500, maxPositionNotional: 1500, maxOpenOrders: 3 };
+
+    expect(evaluateOrderRisk(buy(), limits, context).violation?.code).toBe('RISK_MAX_ORDER_NOTIONAL');
+    expect(
+      evaluateOrderRisk(buy({ quantity: 4 }), limits, { ...context, positionQuantity: 12 }).violation?.code
+    ).toBe('RISK_MAX_POSITION');
+    expect(evaluateOrderRisk(buy({ quantity: 4 }), limits, { ...context, openOrders: 3 }).violation?.code).toBe(
+      'RISK_MAX_OPEN_ORDERS'
+    );
+
+    // Reducing an oversized position is always allowed
+    const sell = buy({ side: 'sell', quantity: 4 });
+    expect(evaluateOrderRisk(sell, limits, { ...context, positionQuantity: 20 }).violation).toBeNull();
+  });
+
+  it('should only allow reducing orders once the daily loss limit is hit', () => {
+    const limits = { ...DEFAULT_RISK_LIMITS, dailyLossLimit: 200 };
+    const losing = { ...context, positionQuantity: 10, realizedPnlToday: -250 };
+
+    expect(evaluateOrderRisk(buy(), limits, losing).violation?.code).toBe('RISK_DAILY_LOSS_LIMIT');
+    expect(evaluateOrderRisk(buy({ side: 'sell' }), limits, losing).violation).toBeNull();
+  });
+
+  it('should realize P&L against the average cost of earlier trades', () => {
+    const since = new Date('2024-01-02T00:00:00Z');
+    const trades = [
+      { symbol: 'AAPL', side: 'buy' as const, quantity: 10, price: 100, fee: 1, executedAt: new Date('2024-01-01T15:00:00Z') },
+      { symbol: 'AAPL', side: 'buy' as const, quantity: 10, price: 110, fee: 1, executedAt: new Date('2024-01-02T14:00:00Z') },
+      { symbol: 'AAPL', side: 'sell' as const, quantity: 5, price: 95, fee: 1, executedAt: new Date('2024-01-02T15:00:00Z') },
+    ];
+
+    // 5 sold at 95 against an average of 105, less today's two fees
+    expect(realizedPnlSince(trades, since)).toBeCloseTo(-52);
+  });
+});
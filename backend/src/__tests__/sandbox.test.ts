@@ -1,6 +1,8 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { SandboxBroker } from '../brokers/sandbox';
 import { MarketQuote } from '../brokers/base';
+import { createCommissionModel, createSlippageModel } from '../brokers/costModels';
+import { SandboxMarket } from '../brokers/sandboxMarket';
 
 describe('SandboxBroker', () => {
   let broker: SandboxBroker;
@@ -68,6 +70,463 @@ describe('SandboxBroker', () => {
     });
   });
 
+  describe('cancelOrder', () => {
+    it('should cancel an open order', async () => {
+      const quote = await broker.getQuote('AAPL');
+      const order = await broker.placeOrder({
+        symbol: 'AAPL',
+        side: 'buy',
+        type: 'limit',
+        quantity: 10,
+        price: quote.ask - 10,
+      });
+
+      const cancelled = await broker.cancelOrder(order.orderId, 'AAPL');
+      expect(cancelled.status).toBe('cancelled');
+    });
+
+    it('should reject cancelling a filled order', async () => {
+      const order = await broker.placeOrder({
+        symbol: 'AAPL',
+        side: 'buy',
+        type: 'market',
+        quantity: 10,
+      });
+
+      await expect(broker.cancelOrder(order.orderId, 'AAPL')).rejects.toThrow('cannot be cancelled');
+    });
+  });
+
+  describe('replaceOrder', () => {
+    it('should amend an open order and fill it once the new price crosses', async () => {
+      const quote = await broker.getQuote('AAPL');
+      const request = {
+        symbol: 'AAPL',
+        side: 'buy' as const,
+        type: 'limit' as const,
+        quantity: 10,
+        price: quote.ask - 10,
+      };
+      const order = await broker.placeOrder(request);
+
+      const amended = await broker.replaceOrder(order.orderId, { ...request, quantity: 4, price: quote.ask + 1 });
+      expect(amended.status).toBe('filled');
+      expect(amended.filledQuantity).toBe(4);
+    });
+  });
+
+  describe('depth-aware matching', () => {
+    const quote: MarketQuote = {
+      symbol: 'AAPL',
+      bid: 99.9,
+      ask: 100.1,
+      last: 100,
+      volume: 1000,
+      timestamp: new Date(),
+    };
+
+    beforeEach(() => {
+      broker = new SandboxBroker({ bookDepth: 2, levelSize: 10 });
+      broker.updateMarketData({ ...quote });
+    });
+
+    it('should walk the book and report a volume-weighted average price', async () => {
+      const order = await broker.placeOrder({
+        symbol: 'AAPL',
+        side: 'buy',
+        type: 'market',
+        quantity: 20,
+      });
+
+      // 10 @ 100.1 then 10 @ 100.2
+      expect(order.status).toBe('filled');
+      expect(order.fills).toHaveLength(2);
+      expect(order.averagePrice).toBeCloseTo(100.15, 6);
+    });
+
+    it('should partially fill when the book is exhausted and complete on the next tick', async () => {
+      const fills: number[] = [];
+      broker.onExecution((_order, fill) => fills.push(fill.quantity));
+
+      const order = await broker.placeOrder({
+        symbol: 'AAPL',
+        side: 'buy',
+        type: 'market',
+        quantity: 40,
+      });
+
+      expect(order.status).toBe('partially_filled');
+      expect(order.filledQuantity).toBe(30);
+
+      broker.updateMarketData({ ...quote });
+
+      const updated = await broker.getOrderStatus(order.orderId);
+      expect(updated.status).toBe('filled');
+      expect(updated.filledQuantity).toBe(40);
+      expect(fills).toEqual([10, 20, 10]);
+    });
+
+    it('should apply slippage and commission to each fill', async () => {
+      const order = await broker.placeOrder(
+        { symbol: 'AAPL', side: 'buy', type: 'market', quantity: 10 },
+        {
+          commissionModel: createCommissionModel({ type: 'percentage', rate: 0.001 }),
+          slippageModel: createSlippageModel({ type: 'fixed_bps', bps: 10 }),
+        }
+      );
+
+      const [fill] = order.fills!;
+      expect(fill.price).toBeCloseTo(100.1 * 1.001, 6);
+      expect(fill.fee).toBeCloseTo(fill.price * 10 * 0.001, 6);
+      expect(fill.liquidity).toBe('taker');
+    });
+
+    it('should only consume levels within the limit price', async () => {
+      await broker.placeOrder({ symbol: 'AAPL', side: 'buy', type: 'market', quantity: 25 });
+
+      const order = await broker.placeOrder({
+        symbol: 'AAPL',
+        side: 'sell',
+        type: 'limit',
+        quantity: 25,
+        price: 99.9,
+      });
+
+      expect(order.status).toBe('partially_filled');
+      expect(order.filledQuantity).toBe(10);
+      expect(order.averagePrice).toBeCloseTo(99.9, 6);
+    });
+  });
+
+  describe('stop, trailing stop and time in force', () => {
+    const quote: MarketQuote = {
+      symbol: 'AAPL',
+      bid: 99.9,
+      ask: 100.1,
+      last: 100,
+      volume: 1000,
+      timestamp: new Date(),
+    };
+    const tick = (last: number) => ({ ...quote, bid: last - 0.1, ask: last + 0.1, last });
+
+    beforeEach(() => {
+      broker = new SandboxBroker();
+      broker.updateMarketData({ ...quote });
+    });
+
+    it('should rest a triggered stop-limit order until its limit crosses', async () => {
+      const order = await broker.placeOrder({
+        symbol: 'AAPL',
+        side: 'buy',
+        type: 'stop_limit',
+        quantity: 5,
+        stopPrice: 102,
+        price: 102.5,
+      });
+      expect(order.status).toBe('open');
+
+      // Triggered, but the ask is above the limit
+      broker.updateMarketData(tick(103));
+      expect((await broker.getOrderStatus(order.orderId)).status).toBe('open');
+
+      broker.updateMarketData(tick(102.2));
+      const filled = await broker.getOrderStatus(order.orderId);
+      expect(filled.status).toBe('filled');
+      expect(filled.averagePrice).toBeLessThanOrEqual(102.5);
+    });
+
+    it('should trail a sell stop behind the high-water mark', async () => {
+      await broker.placeOrder({ symbol: 'AAPL', side: 'buy', type: 'market', quantity: 5 });
+      const order = await broker.placeOrder({
+        symbol: 'AAPL',
+        side: 'sell',
+        type: 'trailing_stop',
+        quantity: 5,
+        trailAmount: 2,
+      });
+
+      broker.updateMarketData(tick(105));
+      // 103.5 would have triggered the original 98 stop only after falling much further
+      broker.updateMarketData(tick(103.5));
+      expect((await broker.getOrderStatus(order.orderId)).status).toBe('open');
+
+      broker.updateMarketData(tick(102.9));
+      expect((await broker.getOrderStatus(order.orderId)).status).toBe('filled');
+    });
+
+    it('should trail a buy stop by percent above the low-water mark', async () => {
+      const order = await broker.placeOrder({
+        symbol: 'AAPL',
+        side: 'buy',
+        type: 'trailing_stop',
+        quantity: 1,
+        trailPercent: 5,
+      });
+
+      broker.updateMarketData(tick(90));
+      broker.updateMarketData(tick(94));
+      expect((await broker.getOrderStatus(order.orderId)).status).toBe('open');
+
+      broker.updateMarketData(tick(94.6));
+      expect((await broker.getOrderStatus(order.orderId)).status).toBe('filled');
+    });
+
+    it('should cancel the unfilled remainder of an IOC order', async () => {
+      const updates: string[] = [];
+      broker.onOrderUpdate((update) => updates.push(update.status));
+
+      const order = await broker.placeOrder({
+        symbol: 'AAPL',
+        side: 'buy',
+        type: 'limit',
+        quantity: 150,
+        price: 100.1,
+        timeInForce: 'ioc',
+      });
+
+      expect(order.status).toBe('cancelled');
+      expect(order.filledQuantity).toBe(100);
+      expect(updates).toEqual(['cancelled']);
+    });
+
+    it('should kill a FOK order that cannot fill completely', async () => {
+      const order = await broker.placeOrder({
+        symbol: 'AAPL',
+        side: 'buy',
+        type: 'limit',
+        quantity: 150,
+        price: 100.1,
+        timeInForce: 'fok',
+      });
+
+      expect(order.status).toBe('cancelled');
+      expect(order.filledQuantity).toBeUndefined();
+      expect(order.fills).toHaveLength(0);
+    });
+
+    it('should fill a FOK order when the book is deep enough', async () => {
+      const order = await broker.placeOrder({
+        symbol: 'AAPL',
+        side: 'buy',
+        type: 'market',
+        quantity: 150,
+        timeInForce: 'fok',
+      });
+
+      expect(order.status).toBe('filled');
+    });
+
+    it('should expire day and gtd orders', async () => {
+      const day = await broker.placeOrder({
+        symbol: 'AAPL',
+        side: 'buy',
+        type: 'limit',
+        quantity: 1,
+        price: 90,
+        timeInForce: 'day',
+      });
+      const gtd = await broker.placeOrder({
+        symbol: 'AAPL',
+        side: 'buy',
+        type: 'limit',
+        quantity: 1,
+        price: 90,
+        timeInForce: 'gtd',
+        expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      });
+
+      broker.expireOrders(new Date(Date.now() + 2 * 60 * 60 * 1000));
+      expect((await broker.getOrderStatus(gtd.orderId)).status).toBe('expired');
+      expect((await broker.getOrderStatus(day.orderId)).status).toBe('open');
+
+      broker.expireOrders(new Date(Date.now() + 25 * 60 * 60 * 1000));
+      expect((await broker.getOrderStatus(day.orderId)).status).toBe('expired');
+    });
+  });
+
+  describe('order groups', () => {
+    const quote: MarketQuote = {
+      symbol: 'AAPL',
+      bid: 99.9,
+      ask: 100.1,
+      last: 100,
+      volume: 1000,
+      timestamp: new Date(),
+    };
+    const tick = (last: number) => ({ ...quote, bid: last - 0.1, ask: last + 0.1, last });
+    const takeProfit = { symbol: 'AAPL', side: 'sell', type: 'limit', quantity: 5, price: 105 } as const;
+    const stopLoss = { symbol: 'AAPL', side: 'sell', type: 'stop', quantity: 5, stopPrice: 95 } as const;
+
+    beforeEach(() => {
+      broker = new SandboxBroker();
+      broker.updateMarketData({ ...quote });
+    });
+
+    it('should hold bracket exits until the entry fills', async () => {
+      const [entry, profit, loss] = await broker.placeBracket(
+        { symbol: 'AAPL', side: 'buy', type: 'limit', quantity: 5, price: 99 },
+        takeProfit,
+        stopLoss
+      );
+      expect(entry.status).toBe('open');
+      expect(profit.status).toBe('held');
+      expect(loss.status).toBe('held');
+
+      // Held exits ignore prices that would otherwise trigger them
+      broker.updateMarketData(tick(105.5));
+      expect((await broker.getOrderStatus(profit.orderId)).status).toBe('held');
+
+      broker.updateMarketData(tick(98.8));
+      expect((await broker.getOrderStatus(entry.orderId)).status).toBe('filled');
+      expect((await broker.getOrderStatus(profit.orderId)).status).toBe('open');
+      expect((await broker.getOrderStatus(loss.orderId)).status).toBe('open');
+
+      broker.updateMarketData(tick(105.5));
+      expect((await broker.getOrderStatus(profit.orderId)).status).toBe('filled');
+      expect((await broker.getOrderStatus(loss.orderId)).status).toBe('cancelled');
+      expect(broker.getPosition('AAPL')).toBeUndefined();
+    });
+
+    it('should activate exits at once when the entry fills on placement', async () => {
+      const [entry, profit, loss] = await broker.placeBracket(
+        { symbol: 'AAPL', side: 'buy', type: 'market', quantity: 5 },
+        takeProfit,
+        stopLoss
+      );
+
+      expect(entry.status).toBe('filled');
+      expect(profit.status).toBe('open');
+      expect(loss.status).toBe('open');
+    });
+
+    it('should cancel held exits with their entry', async () => {
+      const [entry, profit, loss] = await broker.placeBracket(
+        { symbol: 'AAPL', side: 'buy', type: 'limit', quantity: 5, price: 99 },
+        takeProfit,
+        stopLoss
+      );
+
+      await broker.cancelOrder(entry.orderId, 'AAPL');
+      expect((await broker.getOrderStatus(profit.orderId)).status).toBe('cancelled');
+      expect((await broker.getOrderStatus(loss.orderId)).status).toBe('cancelled');
+    });
+
+    it('should cancel the other OCO leg when one executes', async () => {
+      await broker.placeOrder({ symbol: 'AAPL', side: 'buy', type: 'market', quantity: 5 });
+      const updates: string[] = [];
+      broker.onOrderUpdate((update) => updates.push(`${update.orderId}:${update.status}`));
+
+      const [limit, stop] = await broker.placeOco([{ ...takeProfit, price: 110 }, stopLoss]);
+      expect(limit.status).toBe('open');
+      expect(stop.status).toBe('open');
+
+      broker.updateMarketData(tick(94));
+      expect((await broker.getOrderStatus(stop.orderId)).status).toBe('filled');
+      expect((await broker.getOrderStatus(limit.orderId)).status).toBe('cancelled');
+      expect(updates).toContain(`${limit.orderId}:cancelled`);
+    });
+  });
+
+  describe('buying power', () => {
+    const quote: MarketQuote = {
+      symbol: 'AAPL',
+      bid: 99.9,
+      ask: 100.1,
+      last: 100,
+      volume: 1000,
+      timestamp: new Date(),
+    };
+
+    beforeEach(() => {
+      broker = new SandboxBroker({ startingCash: 1000 });
+      broker.updateMarketData({ ...quote });
+    });
+
+    it('should debit cash and fees on buys and credit proceeds on sells', async () => {
+      const costs = { commissionModel: createCommissionModel({ type: 'percentage', rate: 0.001 }) };
+      await broker.placeOrder({ symbol: 'AAPL', side: 'buy', type: 'market', quantity: 5 }, costs);
+      expect(broker.getCash()).toBeCloseTo(1000 - 500.5 - 0.5005, 6);
+
+      await broker.placeOrder({ symbol: 'AAPL', side: 'sell', type: 'market', quantity: 5 }, costs);
+      expect(broker.getCash()).toBeCloseTo(1000 - 500.5 - 0.5005 + 499.5 - 0.4995, 6);
+    });
+
+    it('should reject buys that exceed available cash', async () => {
+      const order = await broker.placeOrder({ symbol: 'AAPL', side: 'buy', type: 'market', quantity: 20 });
+
+      expect(order.status).toBe('rejected');
+      expect(order.rejectReason).toContain('Insufficient buying power');
+      expect(broker.getCash()).toBe(1000);
+    });
+
+    it('should reserve cash for working limit orders', async () => {
+      await broker.placeOrder({ symbol: 'AAPL', side: 'buy', type: 'limit', quantity: 6, price: 90 });
+      expect(broker.getAccount().buyingPower).toBeCloseTo(460, 6);
+
+      const second = await broker.placeOrder({ symbol: 'AAPL', side: 'buy', type: 'limit', quantity: 6, price: 90 });
+      expect(second.status).toBe('rejected');
+    });
+
+    it('should reject sells larger than the position', async () => {
+      await broker.placeOrder({ symbol: 'AAPL', side: 'buy', type: 'market', quantity: 3 });
+
+      const order = await broker.placeOrder({ symbol: 'AAPL', side: 'sell', type: 'market', quantity: 4 });
+      expect(order.status).toBe('rejected');
+      expect(order.rejectReason).toContain('Insufficient position');
+    });
+
+    it('should restore persisted state', async () => {
+      broker.restore({
+        cash: 250,
+        positions: [{ symbol: 'AAPL', quantity: 2, averagePrice: 95 }],
+        orders: [
+          {
+            orderId: 'SANDBOX-restored',
+            request: { symbol: 'AAPL', side: 'buy', type: 'limit', quantity: 1, price: 101 },
+            status: 'open',
+          },
+        ],
+      });
+
+      expect(broker.getAccount().equity).toBeCloseTo(250 + 2 * 100, 6);
+
+      broker.updateMarketData({ ...quote });
+      const order = await broker.getOrderStatus('SANDBOX-restored');
+      expect(order.status).toBe('filled');
+      expect(broker.getPosition('AAPL')?.quantity).toBe(3);
+    });
+  });
+
+  describe('shared market', () => {
+    it('should keep accounts isolated while sharing prices', async () => {
+      const market = new SandboxMarket({ clock: () => new Date('2024-06-03T15:00:00Z') });
+      const first = new SandboxBroker({ market, startingCash: 10000 });
+      const second = new SandboxBroker({ market, startingCash: 10000 });
+
+      await first.placeOrder({ symbol: 'AAPL', side: 'buy', type: 'market', quantity: 10 });
+
+      expect(await first.getPositions()).toHaveLength(1);
+      expect(await second.getPositions()).toHaveLength(0);
+      expect(second.getCash()).toBe(10000);
+      expect(await second.getQuote('AAPL')).toBe(await first.getQuote('AAPL'));
+    });
+
+    it('should process resting orders of every account on a shared tick', async () => {
+      const market = new SandboxMarket();
+      const first = new SandboxBroker({ market });
+      const second = new SandboxBroker({ market });
+      const quote = market.getQuote('AAPL');
+
+      const a = await first.placeOrder({ symbol: 'AAPL', side: 'buy', type: 'limit', quantity: 1, price: quote.ask - 5 });
+      const b = await second.placeOrder({ symbol: 'AAPL', side: 'buy', type: 'limit', quantity: 1, price: quote.ask - 5 });
+
+      market.update({ ...quote, bid: quote.bid - 10, ask: quote.ask - 10, last: quote.last - 10 });
+
+      expect((await first.getOrderStatus(a.orderId)).status).toBe('filled');
+      expect((await second.getOrderStatus(b.orderId)).status).toBe('filled');
+    });
+  });
+
   describe('getPositions', () => {
     it('should return positions after filled orders', async () => {
       await broker.placeOrder({
@@ -90,12 +549,13 @@ describe('SandboxBroker', () => {
     it('should process pending orders when market data updates', async () => {
       const quote: MarketQuote = {
         symbol: 'AAPL',
-        bid: 150,
-        ask: 151,
-        last: 150.5,
+        bid: 152.5,
+        ask: 153,
+        last: 152.75,
         volume: 1000,
         timestamp: new Date(),
       };
+      broker.updateMarketData(quote);
 
       // Place a limit order
       const order = await broker.placeOrder({
@@ -103,7 +563,7 @@ describe('SandboxBroker', () => {
         side: 'buy',
         type: 'limit',
         quantity: 5,
-        price: 152, // Above current ask
+        price: 152, // Below current ask
       });
 
       expect(order.status).toBe('open');
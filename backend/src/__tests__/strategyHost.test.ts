@@ -0,0 +1,153 @@
+import { describe, it, expect, vi } from 'vitest';
+import { MarketQuote } from '../brokers/base';
+import { StrategyOrder } from '../strategies/sdk';
+import { CandleBuilder, moduleUrl, StrategyEnvironment, StrategyHost } from '../services/strategyHost';
+
+const MINUTE = 60 * 1000;
+const start = new Date('2024-01-01T00:00:00Z').getTime();
+
+function quote(symbol: string, last: number, at: number, volume = 0): MarketQuote {
+  return { symbol, bid: last - 0.01, ask: last + 0.01, last, volume, timestamp: new Date(start + at) };
+}
+
+function environment(): StrategyEnvironment & { saved: unknown[]; crashes: Error[]; seen: string[] } {
+  const saved: unknown[] = [];
+  const crashes: Error[] = [];
+  const seen: string[] = [];
+  return {
+    saved,
+    crashes,
+    seen,
+    placeOrder: vi.fn(async (order) => ({ orderId: `o-${order.symbol}`, status: 'pending' }) as StrategyOrder),
+    cancelOrder: vi.fn(),
+    getPosition: vi.fn(async () => 0),
+    saveState: async (state) => {
+      saved.push(state);
+    },
+    log: (level, message) => {
+      if (level === 'info') seen.push(message);
+    },
+    onCrash: (error) => crashes.push(error),
+  };
+}
+
+// Strategies are loaded by key from this module in each host's worker
+const module = moduleUrl('./fixtures/strategies', import.meta.url);
+
+function host(strategy: string, env: StrategyEnvironment, hookTimeoutMs = 1000): StrategyHost {
+  return new StrategyHost({ module, strategy }, { ...options, hookTimeoutMs }, env);
+}
+
+const options = {
+  strategyId: 1,
+  params: {},
+  symbols: ['AAPL', 'MSFT'],
+  state: null,
+  candleIntervalMs: MINUTE,
+  hookTimeoutMs: 1000,
+};
+
+describe('strategy host', { timeout: 30_000 }, () => {
+  it('should build candles from quotes and close them when the next interval starts', () => {
+    const builder = new CandleBuilder(MINUTE);
+
+    expect(builder.update(quote('AAPL', 100, 0, 1000))).toBeNull();
+    expect(builder.update(quote('AAPL', 103, 10_000, 1200))).toBeNull();
+    expect(builder.update(quote('AAPL', 99, 20_000, 1500))).toBeNull();
+    expect(builder.update(quote('AAPL', 101, 59_000, 1600))).toBeNull();
+
+    expect(builder.update(quote('AAPL', 102, MINUTE, 1700))).toEqual({
+      symbol: 'AAPL',
+      timestamp: new Date(start),
+      open: 100,
+      high: 103,
+      low: 99,
+      close: 101,
+      volume: 600,
+    });
+  });
+
+  it('should deliver candles before ticks and save state when a hook changes it', async () => {
+    const env = environment();
+    const candles = host('candles', env);
+    await candles.start();
+
+    candles.handleQuote(quote('AAPL', 100, 0));
+    await vi.waitFor(() => expect(env.seen).toHaveLength(1));
+    candles.handleQuote(quote('AAPL', 101, MINUTE));
+    await vi.waitFor(() => expect(env.seen).toHaveLength(3));
+
+    expect(env.seen).toEqual(['tick 100', 'candle 100', 'tick 101']);
+    expect(env.saved).toEqual([{ candles: 1 }]);
+    await candles.stop();
+  });
+
+  it('should coalesce quotes of a symbol while a hook is busy', async () => {
+    const env = environment();
+    const slow = host('slow_start', env);
+    await slow.start();
+
+    slow.handleQuote(quote('AAPL', 100, 0));
+    slow.handleQuote(quote('AAPL', 101, 1000));
+    slow.handleQuote(quote('MSFT', 300, 1000));
+    slow.handleQuote(quote('AAPL', 102, 2000));
+
+    await vi.waitFor(() => expect(env.seen).toEqual(['tick 100', 'tick 102', 'tick 300']));
+    await slow.stop();
+  });
+
+  it('should crash only the failing strategy when a hook throws, times out, loops or a timer throws', async () => {
+    const envs = [environment(), environment(), environment(), environment(), environment()];
+    const hosts = [
+      host('failing', envs[0]),
+      host('hanging', envs[1], 20),
+      host('looping', envs[2], 20),
+      host('late_error', envs[3]),
+      host('healthy', envs[4]),
+    ];
+    await Promise.all(hosts.map((strategy) => strategy.start()));
+
+    hosts.forEach((strategy) => strategy.handleQuote(quote('AAPL', 100, 0)));
+    await vi.waitFor(() => expect(envs.slice(0, 4).map((env) => env.crashes.length)).toEqual([1, 1, 1, 1]));
+
+    expect(envs[0].crashes[0].message).toBe('boom');
+    expect(envs[1].crashes[0].message).toContain('onTick did not finish within 20 ms');
+    expect(envs[2].crashes[0].message).toContain('onTick did not finish within 20 ms');
+    expect(envs[3].crashes[0].message).toBe('late');
+    expect(hosts.map((strategy) => strategy.getStatus())).toEqual([
+      'crashed',
+      'crashed',
+      'crashed',
+      'crashed',
+      'running',
+    ]);
+
+    // The healthy strategy keeps handling events, and a crashed one gets none
+    hosts[4].handleQuote(quote('AAPL', 101, 1000));
+    await vi.waitFor(() => expect(envs[4].saved).toEqual([{ ticks: 1 }, { ticks: 2 }]));
+    hosts[0].handleQuote(quote('AAPL', 101, 1000));
+    expect(envs[0].crashes).toHaveLength(1);
+    await hosts[4].stop();
+  });
+
+  it('should keep delivering order updates but no market data while paused', async () => {
+    const env = environment();
+    const trader = host('trader', env);
+    await trader.start();
+    trader.pause();
+
+    trader.handleQuote(quote('AAPL', 100, 0));
+    trader.handleOrderUpdate({ orderId: 'o-1', status: 'filled' } as StrategyOrder);
+    await vi.waitFor(() => expect(env.seen).toEqual(['order filled']));
+
+    trader.resume();
+    trader.handleQuote(quote('AAPL', 101, 1000));
+    await vi.waitFor(() => expect(env.seen).toEqual(['order filled', 'tick 101', 'placed o-AAPL']));
+    expect(env.placeOrder).toHaveBeenCalledWith({ symbol: 'AAPL', side: 'buy', type: 'market', quantity: 1 });
+
+    await trader.stop();
+    expect(trader.getStatus()).toBe('stopped');
+    trader.handleOrderUpdate({ orderId: 'o-1', status: 'cancelled' } as StrategyOrder);
+    expect(env.seen).toHaveLength(3);
+  });
+});
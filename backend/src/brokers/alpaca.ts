@@ -1,9 +1,23 @@
 import axios, { AxiosInstance } from 'axios';
 import WebSocket from 'ws';
-import { Broker, BrokerConfig, MarketQuote, Candle, OrderRequest, OrderResponse, Position } from './base';
+import {
+  Broker,
+  BrokerConfig,
+  BrokerOrder,
+  MarketQuote,
+  Candle,
+  OrderRequest,
+  OrderResponse,
+  OrderRuleError,
+  Position,
+  TimeInForce,
+} from './base';
 import { logger } from '../utils/logger';
 import { config } from '../config';
 
+/** Alpaca has no good-till-date orders */
+const TIMES_IN_FORCE: TimeInForce[] = ['day', 'gtc', 'ioc', 'fok'];
+
 /**
  * Alpaca Broker Connector
  * 
@@ -101,6 +115,18 @@ export class AlpacaBroker implements Broker {
     }
   }
 
+  /**
+   * Refuse a time in force Alpaca does not offer before the order is saved
+   */
+  async prepareOrder(order: OrderRequest): Promise<OrderRequest> {
+    if (order.timeInForce && !TIMES_IN_FORCE.includes(order.timeInForce)) {
+      throw new OrderRuleError('ALPACA_TIME_IN_FORCE', `Alpaca does not support time in force ${order.timeInForce}`, {
+        timeInForce: TIMES_IN_FORCE,
+      });
+    }
+    return order;
+  }
+
   async placeOrder(order: OrderRequest): Promise<OrderResponse> {
     try {
       // Map order type to Alpaca format
@@ -109,6 +135,7 @@ export class AlpacaBroker implements Broker {
         limit: 'limit',
         stop: 'stop',
         stop_limit: 'stop_limit',
+        trailing_stop: 'trailing_stop',
       };
 
       const side = order.side === 'buy' ? 'buy' : 'sell';
@@ -119,9 +146,13 @@ export class AlpacaBroker implements Broker {
         qty: order.quantity.toString(),
         side,
         type: orderType,
-        time_in_force: 'day',
+        time_in_force: this.mapTimeInForce(order.timeInForce),
       };
 
+      if (order.clientOrderId) {
+        orderData.client_order_id = order.clientOrderId;
+      }
+
       if (order.type === 'limit' && order.price) {
         orderData.limit_price = order.price.toString();
       }
@@ -135,6 +166,14 @@ export class AlpacaBroker implements Broker {
         orderData.stop_price = order.stopPrice.toString();
       }
 
+      if (order.type === 'trailing_stop') {
+        if (order.trailPercent !== undefined) {
+          orderData.trail_percent = order.trailPercent.toString();
+        } else if (order.trailAmount !== undefined) {
+          orderData.trail_price = order.trailAmount.toString();
+        }
+      }
+
       const response = await this.apiClient.post('/v2/orders', orderData);
 
       return {
@@ -165,6 +204,78 @@ export class AlpacaBroker implements Broker {
     }
   }
 
+  async cancelOrder(orderId: string, symbol: string): Promise<OrderResponse> {
+    try {
+      // Alpaca accepts the cancel request asynchronously (204 No Content); the
+      // order may still fill before it is cancelled, so report where it stands now
+      await this.apiClient.delete(`/v2/orders/${orderId}`);
+    } catch (error: any) {
+      logger.error({ error, orderId, symbol }, 'Failed to cancel order with Alpaca');
+      throw new Error(`Failed to cancel order: ${error.message}`);
+    }
+
+    return this.getOrderStatus(orderId);
+  }
+
+  async replaceOrder(orderId: string, order: OrderRequest): Promise<OrderResponse> {
+    try {
+      const changes: any = {
+        qty: order.quantity.toString(),
+      };
+
+      if ((order.type === 'limit' || order.type === 'stop_limit') && order.price) {
+        changes.limit_price = order.price.toString();
+      }
+
+      if ((order.type === 'stop' || order.type === 'stop_limit') && order.stopPrice) {
+        changes.stop_price = order.stopPrice.toString();
+      }
+
+      // Alpaca takes the new trail distance in the unit the order was placed with
+      if (order.type === 'trailing_stop') {
+        const trail = order.trailPercent ?? order.trailAmount;
+        if (trail !== undefined) {
+          changes.trail = trail.toString();
+        }
+      }
+
+      // Alpaca replaces the order with a new one and returns the new order ID
+      const response = await this.apiClient.patch(`/v2/orders/${orderId}`, changes);
+
+      return {
+        orderId: response.data.id,
+        status: this.mapOrderStatus(response.data.status),
+        filledQuantity: parseFloat(response.data.filled_qty || '0'),
+        brokerOrderId: response.data.id,
+      };
+    } catch (error: any) {
+      logger.error({ error, orderId, order }, 'Failed to replace order with Alpaca');
+      throw new Error(`Failed to replace order: ${error.message}`);
+    }
+  }
+
+  async getOpenOrders(): Promise<BrokerOrder[]> {
+    try {
+      const response = await this.apiClient.get('/v2/orders', {
+        params: { status: 'open', limit: 500 },
+      });
+
+      return response.data.map((order: any) => ({
+        orderId: order.id,
+        status: this.mapOrderStatus(order.status),
+        symbol: order.symbol,
+        side: order.side,
+        quantity: parseFloat(order.qty || '0'),
+        filledQuantity: parseFloat(order.filled_qty || '0'),
+        averagePrice: parseFloat(order.filled_avg_price || '0'),
+        brokerOrderId: order.id,
+      }));
+    } catch (error: any) {
+      logger.error({ error }, 'Failed to get open orders from Alpaca');
+      throw new Error(`Failed to get open orders: ${error.message}`);
+    }
+  }
+
   async getPositions(): Promise<Position[]> {
     try {
       const response = await this.apiClient.get('/v2/positions');
@@ -267,15 +378,27 @@ export class AlpacaBroker implements Broker {
     const statusMap: Record<string, OrderResponse['status']> = {
       new: 'pending',
       accepted: 'open',
+      pending_cancel: 'open',
+      pending_replace: 'open',
       filled: 'filled',
       partially_filled: 'partially_filled',
       canceled: 'cancelled',
-      expired: 'cancelled',
+      expired: 'expired',
       rejected: 'rejected',
     };
     return statusMap[status] || 'pending';
   }
 
+  /**
+   * Alpaca has no good-till-date orders; Alpaca's own default is day
+   */
+  private mapTimeInForce(timeInForce: OrderRequest['timeInForce']): string {
+    if (timeInForce === 'gtd') {
+      throw new Error('Alpaca does not support good-till-date (gtd) orders');
+    }
+    return timeInForce || 'day';
+  }
+
   disconnect() {
     if (this.wsClient) {
       this.wsClient.close();
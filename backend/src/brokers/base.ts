@@ -23,21 +23,87 @@ export interface Candle {
   volume: number;
 }
 
+export type OrderType = 'market' | 'limit' | 'stop' | 'stop_limit' | 'trailing_stop';
+
+/**
+ * day: until the end of the trading day; gtc: until cancelled; ioc: fill what is
+ * possible immediately and cancel the rest; fok: fill completely at once or cancel;
+ * gtd: until `expiresAt`
+ */
+export type TimeInForce = 'day' | 'gtc' | 'ioc' | 'fok' | 'gtd';
+
+/** Kite products: intraday (MIS), equity delivery (CNC) and carry-forward derivatives (NRML) */
+export type OrderProduct = 'MIS' | 'CNC' | 'NRML';
+
 export interface OrderRequest {
   symbol: string;
   side: 'buy' | 'sell';
-  type: 'market' | 'limit' | 'stop' | 'stop_limit';
+  type: OrderType;
   quantity: number;
   price?: number;
   stopPrice?: number;
+  /** Trailing stop distance in price units */
+  trailAmount?: number;
+  /** Trailing stop distance as a percentage of the high-water mark */
+  trailPercent?: number;
+  /** Broker default applies when omitted */
+  timeInForce?: TimeInForce;
+  /** Expiry for good-till-date orders */
+  expiresAt?: Date;
+  /** Our ID for the order, echoed back by the broker on order updates */
+  clientOrderId?: string;
+  /** Brokers with products pick one by instrument when omitted; others ignore it */
+  product?: OrderProduct;
+}
+
+/**
+ * bracket: an entry plus take-profit and stop-loss exits that activate once the
+ * entry fills; oco: one-cancels-other legs where the first execution cancels the rest
+ */
+export type OrderGroupType = 'bracket' | 'oco';
+
+export type OrderGroupRole = 'entry' | 'take_profit' | 'stop_loss' | 'leg';
+
+export interface OrderFill {
+  tradeId: string;
+  quantity: number;
+  price: number;
+  fee?: number;
+  liquidity?: 'maker' | 'taker';
+  timestamp: Date;
 }
 
 export interface OrderResponse {
   orderId: string;
-  status: 'pending' | 'open' | 'filled' | 'partially_filled' | 'cancelled' | 'rejected';
+  /** 'held' orders are bracket children waiting for their entry to fill */
+  status: 'pending' | 'open' | 'filled' | 'partially_filled' | 'cancelled' | 'rejected' | 'expired' | 'held';
   filledQuantity?: number;
   averagePrice?: number;
   brokerOrderId?: string;
+  fills?: OrderFill[];
+  /** Why the broker refused the order, when status is 'rejected' */
+  rejectReason?: string;
+}
+
+/**
+ * A working order as the broker lists it
+ */
+export interface BrokerOrder extends OrderResponse {
+  symbol: string;
+  side: 'buy' | 'sell';
+  quantity: number;
+}
+
+export interface OrderBookLevel {
+  price: number;
+  quantity: number;
+}
+
+export interface OrderBook {
+  symbol: string;
+  bids: OrderBookLevel[];
+  asks: OrderBookLevel[];
+  timestamp: Date;
 }
 
 export interface Position {
@@ -48,14 +114,56 @@ export interface Position {
   unrealizedPnl: number;
 }
 
+/**
+ * Exchange trading rules for a symbol. Limits of zero are not enforced.
+ */
+export interface SymbolRules {
+  symbol: string;
+  /** False while the symbol is halted or in a break */
+  trading: boolean;
+  quantity: { min: number; max: number; step: number };
+  price: { min: number; max: number; tick: number };
+  /** Order value limits; market orders are valued at the average price when they apply */
+  notional: { min: number; max: number; applyMinToMarket: boolean; applyMaxToMarket: boolean };
+  /** Limit price bands as multiples of the average price over the last `averagePriceMins` minutes */
+  percentPrice: { buyUp: number; buyDown: number; sellUp: number; sellDown: number; averagePriceMins: number } | null;
+}
+
+/**
+ * An order that breaks the broker's trading rules, caught before it is sent.
+ * `allowed` holds the limits it broke, e.g. { minQuantity: 0.001, quantityStep: 0.001 },
+ * or the choices it may pick from, e.g. { products: ['MIS', 'NRML'] }.
+ */
+export class OrderRuleError extends Error {
+  name = 'OrderRuleError';
+
+  constructor(
+    public code: string,
+    message: string,
+    public allowed: Record<string, number | string[]> = {}
+  ) {
+    super(message);
+  }
+}
+
 export interface Broker {
   name: string;
   getQuote(symbol: string): Promise<MarketQuote>;
   getCandles(symbol: string, from: Date, to: Date, interval: string): Promise<Candle[]>;
   placeOrder(order: OrderRequest): Promise<OrderResponse>;
-  getOrderStatus(orderId: string): Promise<OrderResponse>;
+  /** Some brokers (Binance) also need the order's symbol */
+  getOrderStatus(orderId: string, symbol?: string): Promise<OrderResponse>;
+  /** Requests the cancel and reports the order's status at the broker, which may still be working */
+  cancelOrder(orderId: string, symbol: string): Promise<OrderResponse>;
+  replaceOrder(orderId: string, order: OrderRequest): Promise<OrderResponse>;
+  /** Orders still working at the broker, including ones not placed through us */
+  getOpenOrders(): Promise<BrokerOrder[]>;
   getPositions(): Promise<Position[]>;
   subscribeToMarketData(symbols: string[], callback: (data: MarketQuote) => void): Promise<void>;
   unsubscribeFromMarketData(symbols: string[]): Promise<void>;
+  /** Trading rules for brokers that publish them (Binance) */
+  getSymbolRules?(symbol: string): Promise<SymbolRules>;
+  /** Round an order to the symbol's rules, or throw an OrderRuleError for one the broker would reject */
+  prepareOrder?(order: OrderRequest): Promise<OrderRequest>;
 }
 
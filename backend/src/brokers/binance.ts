@@ -1,9 +1,42 @@
 import axios, { AxiosInstance } from 'axios';
 import WebSocket from 'ws';
 import crypto from 'crypto';
-import { Broker, BrokerConfig, MarketQuote, Candle, OrderRequest, OrderResponse, Position } from './base';
+import {
+  Broker,
+  BrokerConfig,
+  BrokerOrder,
+  MarketQuote,
+  Candle,
+  OrderRequest,
+  OrderResponse,
+  OrderRuleError,
+  Position,
+  SymbolRules,
+  TimeInForce,
+} from './base';
 import { logger } from '../utils/logger';
 import { config } from '../config';
+import { applySymbolRules, needsAveragePrice, parseSymbolRules } from './binanceFilters';
+import {
+  BinanceAccountPosition,
+  BinanceExecutionReport,
+  binanceOrderStatus,
+  BinanceUserStream,
+} from './binanceUserStream';
+
+export interface BinanceUserDataHandlers {
+  onExecutionReport: (report: BinanceExecutionReport) => void;
+  onAccountPosition?: (position: BinanceAccountPosition) => void;
+}
+
+/** Filters rarely change; cached rules are refetched after this long */
+const EXCHANGE_INFO_TTL_MS = 60 * 60 * 1000;
+
+/** Binance spot has no day or good-till-date orders */
+const TIMES_IN_FORCE: TimeInForce[] = ['gtc', 'ioc', 'fok'];
+
+/** Trading rules by API host and symbol, shared by every account's broker */
+const symbolRulesCache: Map<string, { rules: SymbolRules; expiresAt: number }> = new Map();
 
 /**
  * Binance Broker Connector
@@ -11,6 +44,7 @@ import { config } from '../config';
  * Documentation: https://binance-docs.github.io/apidocs/spot/en/
  * API Reference: https://binance-docs.github.io/apidocs/spot/en/#general-info
  * WebSocket: https://binance-docs.github.io/apidocs/spot/en/#websocket-market-data
+ * User data stream: https://binance-docs.github.io/apidocs/spot/en/#user-data-streams
  */
 export class BinanceBroker implements Broker {
   name = 'binance';
@@ -18,6 +52,7 @@ export class BinanceBroker implements Broker {
   private wsClient: WebSocket | null = null;
   private subscriptions: Set<string> = new Set();
   private marketDataCallbacks: Map<string, (data: MarketQuote) => void> = new Map();
+  private userStream: BinanceUserStream | null = null;
 
   constructor(private brokerConfig: BrokerConfig) {
     const baseURL = brokerConfig.sandboxMode
@@ -110,23 +145,64 @@ export class BinanceBroker implements Broker {
     }
   }
 
-  async placeOrder(order: OrderRequest): Promise<OrderResponse> {
+  /**
+   * Trading rules for a symbol from exchangeInfo, cached for an hour
+   */
+  async getSymbolRules(symbol: string): Promise<SymbolRules> {
+    const binanceSymbol = symbol.toUpperCase();
+    const key = `${this.apiClient.defaults.baseURL}|${binanceSymbol}`;
+    const cached = symbolRulesCache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.rules;
+    }
+
     try {
-      const binanceSymbol = order.symbol.toUpperCase();
-      const side = order.side.toUpperCase();
-      const type = order.type === 'market' ? 'MARKET' : 'LIMIT';
+      const response = await this.apiClient.get('/v3/exchangeInfo', { params: { symbol: binanceSymbol } });
+      const info = response.data.symbols?.[0];
+      if (!info) {
+        throw new OrderRuleError('BINANCE_INVALID_SYMBOL', `Unknown Binance symbol ${binanceSymbol}`);
+      }
+
+      const rules = parseSymbolRules(info);
+      symbolRulesCache.set(key, { rules, expiresAt: Date.now() + EXCHANGE_INFO_TTL_MS });
+      return rules;
+    } catch (error: any) {
+      if (error instanceof OrderRuleError) throw error;
+      // -1121: Invalid symbol
+      if (error.response?.data?.code === -1121) {
+        throw new OrderRuleError('BINANCE_INVALID_SYMBOL', `Unknown Binance symbol ${binanceSymbol}`);
+      }
+      logger.error({ error, symbol }, 'Failed to get exchange info from Binance');
+      throw new Error(`Failed to get trading rules: ${error.message}`);
+    }
+  }
+
+  /**
+   * Round an order to the symbol's step and tick sizes and check it and its time
+   * in force against the exchangeInfo filters, so orders Binance would reject are refused here
+   */
+  async prepareOrder(order: OrderRequest): Promise<OrderRequest> {
+    if (order.timeInForce && !TIMES_IN_FORCE.includes(order.timeInForce)) {
+      throw new OrderRuleError('BINANCE_TIME_IN_FORCE', `Binance does not support time in force ${order.timeInForce}`, {
+        timeInForce: TIMES_IN_FORCE,
+      });
+    }
 
+    const rules = await this.getSymbolRules(order.symbol);
+    const averagePrice = needsAveragePrice(order, rules) ? await this.getAveragePrice(order.symbol) : null;
+    return applySymbolRules(order, rules, averagePrice);
+  }
+
+  async placeOrder(order: OrderRequest): Promise<OrderResponse> {
+    try {
+      order = await this.prepareOrder(order);
       const params: Record<string, string> = {
-        symbol: binanceSymbol,
-        side,
-        type,
-        quantity: order.quantity.toString(),
+        ...this.buildOrderParams(order),
         timestamp: Date.now().toString(),
       };
 
-      if (order.type === 'limit' && order.price) {
-        params.price = order.price.toString();
-        params.timeInForce = 'GTC';
+      if (order.clientOrderId) {
+        params.newClientOrderId = order.clientOrderId;
       }
 
       // Sign request
@@ -146,22 +222,149 @@ export class BinanceBroker implements Broker {
         brokerOrderId: response.data.orderId.toString(),
       };
     } catch (error: any) {
+      if (error instanceof OrderRuleError) throw error;
       logger.error({ error, order }, 'Failed to place order with Binance');
       throw new Error(`Failed to place order: ${error.message}`);
     }
   }
 
-  async getOrderStatus(orderId: string): Promise<OrderResponse> {
+  async getOrderStatus(orderId: string, symbol?: string): Promise<OrderResponse> {
     try {
-      // Note: Binance requires symbol to check order status
-      // This is a simplified version - in production, you'd need to store symbol with order
-      throw new Error('Binance order status check requires symbol - use getOrderBySymbol instead');
+      if (!symbol) {
+        throw new Error('Binance order status requires the order symbol');
+      }
+
+      const params: Record<string, string> = {
+        symbol: symbol.toUpperCase(),
+        orderId,
+        timestamp: Date.now().toString(),
+      };
+
+      const signature = this.signRequest(params);
+      params.signature = signature;
+
+      const response = await this.apiClient.get('/v3/order', {
+        params,
+        headers: {
+          'X-MBX-APIKEY': this.brokerConfig.apiKey,
+        },
+      });
+
+      const executedQty = parseFloat(response.data.executedQty || '0');
+      return {
+        orderId: response.data.orderId.toString(),
+        status: this.mapOrderStatus(response.data.status),
+        filledQuantity: executedQty,
+        // Binance reports the quote amount traded rather than an average price
+        averagePrice: executedQty > 0 ? parseFloat(response.data.cummulativeQuoteQty) / executedQty : undefined,
+        brokerOrderId: response.data.orderId.toString(),
+      };
     } catch (error: any) {
-      logger.error({ error, orderId }, 'Failed to get order status from Binance');
+      logger.error({ error, orderId, symbol }, 'Failed to get order status from Binance');
       throw new Error(`Failed to get order status: ${error.message}`);
     }
   }
 
+  async cancelOrder(orderId: string, symbol: string): Promise<OrderResponse> {
+    try {
+      const params: Record<string, string> = {
+        symbol: symbol.toUpperCase(),
+        orderId,
+        timestamp: Date.now().toString(),
+      };
+
+      const signature = this.signRequest(params);
+      params.signature = signature;
+
+      const response = await this.apiClient.delete('/v3/order', {
+        params,
+        headers: {
+          'X-MBX-APIKEY': this.brokerConfig.apiKey,
+        },
+      });
+
+      return {
+        orderId: response.data.orderId.toString(),
+        status: this.mapOrderStatus(response.data.status),
+        filledQuantity: parseFloat(response.data.executedQty || '0'),
+        brokerOrderId: response.data.orderId.toString(),
+      };
+    } catch (error: any) {
+      logger.error({ error, orderId, symbol }, 'Failed to cancel order with Binance');
+      throw new Error(`Failed to cancel order: ${error.message}`);
+    }
+  }
+
+  async replaceOrder(orderId: string, order: OrderRequest): Promise<OrderResponse> {
+    try {
+      order = await this.prepareOrder(order);
+      // Binance has no in-place amend for spot - cancel and re-place atomically
+      const params: Record<string, string> = {
+        ...this.buildOrderParams(order),
+        cancelReplaceMode: 'STOP_ON_FAILURE',
+        cancelOrderId: orderId,
+        timestamp: Date.now().toString(),
+      };
+
+      const signature = this.signRequest(params);
+      params.signature = signature;
+
+      const response = await this.apiClient.post('/v3/order/cancelReplace', null, {
+        params,
+        headers: {
+          'X-MBX-APIKEY': this.brokerConfig.apiKey,
+        },
+      });
+
+      const newOrder = response.data.newOrderResponse;
+      return {
+        orderId: newOrder.orderId.toString(),
+        status: this.mapOrderStatus(newOrder.status),
+        filledQuantity: parseFloat(newOrder.executedQty || '0'),
+        brokerOrderId: newOrder.orderId.toString(),
+      };
+    } catch (error: any) {
+      if (error instanceof OrderRuleError) throw error;
+      logger.error({ error, orderId, order }, 'Failed to replace order with Binance');
+      throw new Error(`Failed to replace order: ${error.message}`);
+    }
+  }
+
+  async getOpenOrders(): Promise<BrokerOrder[]> {
+    try {
+      const params: Record<string, string> = {
+        timestamp: Date.now().toString(),
+      };
+
+      const signature = this.signRequest(params);
+      params.signature = signature;
+
+      const response = await this.apiClient.get('/v3/openOrders', {
+        params,
+        headers: {
+          'X-MBX-APIKEY': this.brokerConfig.apiKey,
+        },
+      });
+
+      return response.data.map((order: any) => {
+        const executedQty = parseFloat(order.executedQty || '0');
+        return {
+          orderId: order.orderId.toString(),
+          status: this.mapOrderStatus(order.status),
+          symbol: order.symbol,
+          side: order.side.toLowerCase(),
+          quantity: parseFloat(order.origQty),
+          filledQuantity: executedQty,
+          averagePrice: executedQty > 0 ? parseFloat(order.cummulativeQuoteQty) / executedQty : undefined,
+          brokerOrderId: order.orderId.toString(),
+        };
+      });
+    } catch (error: any) {
+      logger.error({ error }, 'Failed to get open orders from Binance');
+      throw new Error(`Failed to get open orders: ${error.message}`);
+    }
+  }
+
   async getPositions(): Promise<Position[]> {
     try {
       const params: Record<string, string> = {
@@ -198,9 +401,7 @@ export class BinanceBroker implements Broker {
     callback: (data: MarketQuote) => void
   ): Promise<void> {
     try {
-      const wsUrl = this.brokerConfig.sandboxMode
-        ? config.BINANCE_WS_URL || 'wss://testnet.binance.vision/ws'
-        : 'wss://stream.binance.com:9443/ws';
+      const wsUrl = this.wsUrl();
 
       // Create stream names (lowercase for Binance)
       const streams = symbols.map((s) => `${s.toLowerCase()}@bookTicker`).join('/');
@@ -246,16 +447,117 @@ export class BinanceBroker implements Broker {
     // Binance doesn't support unsubscribe - would need to close and reconnect
   }
 
+  /**
+   * Receive this account's execution reports and balance changes as they happen.
+   * The stream's listen key is kept alive until `stopUserDataStream` or `disconnect`.
+   */
+  async startUserDataStream(handlers: BinanceUserDataHandlers): Promise<void> {
+    if (this.userStream) return;
+
+    const headers = { 'X-MBX-APIKEY': this.brokerConfig.apiKey };
+    const stream = new BinanceUserStream({
+      url: this.wsUrl(),
+      listenKeys: {
+        create: async () => (await this.apiClient.post('/v3/userDataStream', null, { headers })).data.listenKey,
+        keepAlive: async (listenKey) => {
+          await this.apiClient.put('/v3/userDataStream', null, { params: { listenKey }, headers });
+        },
+        close: async (listenKey) => {
+          await this.apiClient.delete('/v3/userDataStream', { params: { listenKey }, headers });
+        },
+      },
+      ...handlers,
+    });
+
+    this.userStream = stream;
+    try {
+      await stream.start();
+    } catch (error: any) {
+      this.userStream = null;
+      logger.error({ error }, 'Failed to start Binance user data stream');
+      throw new Error(`Failed to start user data stream: ${error.message}`);
+    }
+  }
+
+  async stopUserDataStream(): Promise<void> {
+    const stream = this.userStream;
+    this.userStream = null;
+    await stream?.close();
+  }
+
+  /**
+   * Average price over the window PERCENT_PRICE and market order notional checks use
+   */
+  private async getAveragePrice(symbol: string): Promise<number> {
+    const response = await this.apiClient.get('/v3/avgPrice', { params: { symbol: symbol.toUpperCase() } });
+    return parseFloat(response.data.price);
+  }
+
+  private wsUrl(): string {
+    return this.brokerConfig.sandboxMode
+      ? config.BINANCE_WS_URL || 'wss://testnet.binance.vision/ws'
+      : 'wss://stream.binance.com:9443/ws';
+  }
+
   private mapOrderStatus(status: string): OrderResponse['status'] {
-    const statusMap: Record<string, OrderResponse['status']> = {
-      NEW: 'pending',
-      PARTIALLY_FILLED: 'partially_filled',
-      FILLED: 'filled',
-      CANCELED: 'cancelled',
-      REJECTED: 'rejected',
-      EXPIRED: 'cancelled',
+    return binanceOrderStatus(status);
+  }
+
+  /**
+   * Map an order onto Binance spot order parameters. Stops become STOP_LOSS /
+   * STOP_LOSS_LIMIT; trailing stops use trailingDelta, which Binance expresses
+   * in basis points, so only percentage trails are supported.
+   */
+  private buildOrderParams(order: OrderRequest): Record<string, string> {
+    const typeMap: Record<OrderRequest['type'], string> = {
+      market: 'MARKET',
+      limit: 'LIMIT',
+      stop: 'STOP_LOSS',
+      stop_limit: 'STOP_LOSS_LIMIT',
+      trailing_stop: 'STOP_LOSS',
+    };
+
+    // Validated for every order type even though Binance only accepts it on limit types
+    const timeInForce = this.mapTimeInForce(order.timeInForce);
+
+    const params: Record<string, string> = {
+      symbol: order.symbol.toUpperCase(),
+      side: order.side.toUpperCase(),
+      type: typeMap[order.type],
+      quantity: order.quantity.toString(),
     };
-    return statusMap[status] || 'pending';
+
+    if ((order.type === 'limit' || order.type === 'stop_limit') && order.price) {
+      params.price = order.price.toString();
+      params.timeInForce = timeInForce;
+    }
+
+    if ((order.type === 'stop' || order.type === 'stop_limit') && order.stopPrice) {
+      params.stopPrice = order.stopPrice.toString();
+    }
+
+    if (order.type === 'trailing_stop') {
+      if (order.trailPercent === undefined) {
+        throw new Error('Binance trailing stops must use trailPercent');
+      }
+      params.trailingDelta = Math.round(order.trailPercent * 100).toString();
+    }
+
+    return params;
+  }
+
+  private mapTimeInForce(timeInForce: OrderRequest['timeInForce']): string {
+    switch (timeInForce) {
+      case undefined:
+      case 'gtc':
+        return 'GTC';
+      case 'ioc':
+        return 'IOC';
+      case 'fok':
+        return 'FOK';
+      default:
+        throw new Error(`Binance does not support time in force ${timeInForce}`);
+    }
   }
 
   disconnect() {
@@ -265,6 +567,7 @@ export class BinanceBroker implements Broker {
     }
     this.subscriptions.clear();
     this.marketDataCallbacks.clear();
+    this.stopUserDataStream();
   }
 }
 
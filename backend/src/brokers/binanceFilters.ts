@@ -0,0 +1,181 @@
+import { OrderRequest, OrderRuleError, SymbolRules } from './base';
+
+/**
+ * Trading rules from one entry of exchangeInfo's `symbols`, read from its
+ * LOT_SIZE, PRICE_FILTER, MIN_NOTIONAL / NOTIONAL and PERCENT_PRICE(_BY_SIDE) filters
+ */
+export function parseSymbolRules(info: any): SymbolRules {
+  const filters: Record<string, any> = Object.fromEntries(
+    (info.filters ?? []).map((filter: any) => [filter.filterType, filter])
+  );
+  const number = (value: unknown) => parseFloat(String(value ?? '0')) || 0;
+
+  const lotSize = filters.LOT_SIZE ?? {};
+  const priceFilter = filters.PRICE_FILTER ?? {};
+  // NOTIONAL replaced MIN_NOTIONAL on most symbols; it adds a maximum and per-limit market flags
+  const notional = filters.NOTIONAL;
+  const minNotional = filters.MIN_NOTIONAL;
+  const percentPrice = filters.PERCENT_PRICE;
+  const bySide = filters.PERCENT_PRICE_BY_SIDE;
+
+  return {
+    symbol: info.symbol,
+    trading: info.status === 'TRADING',
+    quantity: { min: number(lotSize.minQty), max: number(lotSize.maxQty), step: number(lotSize.stepSize) },
+    price: { min: number(priceFilter.minPrice), max: number(priceFilter.maxPrice), tick: number(priceFilter.tickSize) },
+    notional: notional
+      ? {
+          min: number(notional.minNotional),
+          max: number(notional.maxNotional),
+          applyMinToMarket: Boolean(notional.applyMinToMarket),
+          applyMaxToMarket: Boolean(notional.applyMaxToMarket),
+        }
+      : {
+          min: number(minNotional?.minNotional),
+          max: 0,
+          applyMinToMarket: Boolean(minNotional?.applyToMarket),
+          applyMaxToMarket: false,
+        },
+    percentPrice: bySide
+      ? {
+          buyUp: number(bySide.bidMultiplierUp),
+          buyDown: number(bySide.bidMultiplierDown),
+          sellUp: number(bySide.askMultiplierUp),
+          sellDown: number(bySide.askMultiplierDown),
+          averagePriceMins: number(bySide.avgPriceMins),
+        }
+      : percentPrice
+        ? {
+            buyUp: number(percentPrice.multiplierUp),
+            buyDown: number(percentPrice.multiplierDown),
+            sellUp: number(percentPrice.multiplierUp),
+            sellDown: number(percentPrice.multiplierDown),
+            averagePriceMins: number(percentPrice.avgPriceMins),
+          }
+        : null,
+  };
+}
+
+/**
+ * Whether checking the order needs the symbol's average price: for the price
+ * band of a limit price, or to value a market order against the notional limits
+ */
+export function needsAveragePrice(order: OrderRequest, rules: SymbolRules): boolean {
+  if (limitPrice(order) !== undefined) {
+    return rules.percentPrice !== null;
+  }
+  return (
+    (rules.notional.applyMinToMarket && rules.notional.min > 0) ||
+    (rules.notional.applyMaxToMarket && rules.notional.max > 0)
+  );
+}
+
+/**
+ * Round the order to the symbol's grid, quantity down to the step size and prices
+ * to the nearest tick, then check it the way Binance would. Throws an OrderRuleError
+ * naming the filter and the allowed values; returns the rounded order otherwise.
+ */
+export function applySymbolRules(
+  order: OrderRequest,
+  rules: SymbolRules,
+  averagePrice: number | null = null
+): OrderRequest {
+  const symbol = rules.symbol;
+  if (!rules.trading) {
+    throw new OrderRuleError('BINANCE_SYMBOL_NOT_TRADING', `${symbol} is not trading on Binance`);
+  }
+
+  const rounded: OrderRequest = { ...order, quantity: roundToStep(order.quantity, rules.quantity.step, 'down') };
+  if (order.price !== undefined) rounded.price = roundToStep(order.price, rules.price.tick, 'nearest');
+  if (order.stopPrice !== undefined) rounded.stopPrice = roundToStep(order.stopPrice, rules.price.tick, 'nearest');
+
+  const { quantity } = rules;
+  if (
+    rounded.quantity <= 0 ||
+    rounded.quantity < quantity.min ||
+    (quantity.max > 0 && rounded.quantity > quantity.max)
+  ) {
+    throw new OrderRuleError(
+      'BINANCE_LOT_SIZE',
+      `Quantity ${order.quantity} for ${symbol} must be between ${quantity.min} and ${quantity.max} in steps of ${quantity.step}`,
+      { minQuantity: quantity.min, maxQuantity: quantity.max, quantityStep: quantity.step }
+    );
+  }
+
+  const { price } = rules;
+  const stop = order.type === 'stop' || order.type === 'stop_limit' ? rounded.stopPrice : undefined;
+  for (const value of [limitPrice(rounded), stop]) {
+    if (value === undefined) continue;
+    if (value <= 0 || (price.min > 0 && value < price.min) || (price.max > 0 && value > price.max)) {
+      throw new OrderRuleError(
+        'BINANCE_PRICE_FILTER',
+        `Price ${value} for ${symbol} must be between ${price.min} and ${price.max} in ticks of ${price.tick}`,
+        { minPrice: price.min, maxPrice: price.max, tickSize: price.tick }
+      );
+    }
+  }
+
+  const limit = limitPrice(rounded);
+  if (limit !== undefined && rules.percentPrice && averagePrice) {
+    const band = rules.percentPrice;
+    const [up, down] = order.side === 'buy' ? [band.buyUp, band.buyDown] : [band.sellUp, band.sellDown];
+    const minPrice = roundToStep(averagePrice * down, price.tick, 'up');
+    const maxPrice = roundToStep(averagePrice * up, price.tick, 'down');
+    if (limit < minPrice || limit > maxPrice) {
+      throw new OrderRuleError(
+        'BINANCE_PERCENT_PRICE',
+        `Price ${limit} for ${symbol} must be between ${minPrice} and ${maxPrice} ` +
+          `(${down}x to ${up}x the ${band.averagePriceMins} minute average price ${averagePrice})`,
+        { minPrice, maxPrice, averagePrice }
+      );
+    }
+  }
+
+  const { notional } = rules;
+  const valuedAt = limit ?? averagePrice;
+  if (valuedAt) {
+    const value = rounded.quantity * valuedAt;
+    const market = limit === undefined;
+    if (notional.min > 0 && (!market || notional.applyMinToMarket) && value < notional.min) {
+      throw new OrderRuleError(
+        'BINANCE_MIN_NOTIONAL',
+        `Order value ${round(value)} for ${symbol} is below the minimum of ${notional.min}`,
+        { minNotional: notional.min, minQuantity: roundToStep(notional.min / valuedAt, quantity.step, 'up') }
+      );
+    }
+    if (notional.max > 0 && (!market || notional.applyMaxToMarket) && value > notional.max) {
+      throw new OrderRuleError(
+        'BINANCE_MAX_NOTIONAL',
+        `Order value ${round(value)} for ${symbol} is above the maximum of ${notional.max}`,
+        { maxNotional: notional.max, maxQuantity: roundToStep(notional.max / valuedAt, quantity.step, 'down') }
+      );
+    }
+  }
+
+  return rounded;
+}
+
+/**
+ * Snap a value to a multiple of step, trimming float error to the step's decimals
+ */
+export function roundToStep(value: number, step: number, mode: 'down' | 'up' | 'nearest'): number {
+  if (step <= 0) return value;
+  const steps = value / step;
+  // Quotients like 0.3 / 0.1 land a hair off the whole number
+  const whole =
+    mode === 'down' ? Math.floor(steps + 1e-9) : mode === 'up' ? Math.ceil(steps - 1e-9) : Math.round(steps);
+  return Number((whole * step).toFixed(stepDecimals(step)));
+}
+
+function stepDecimals(step: number): number {
+  return step.toFixed(12).replace(/0+$/, '').split('.')[1]?.length ?? 0;
+}
+
+/** The price the order trades at when it rests on the book; market-type orders have none */
+function limitPrice(order: OrderRequest): number | undefined {
+  return order.type === 'limit' || order.type === 'stop_limit' ? order.price : undefined;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1e8) / 1e8;
+}
@@ -0,0 +1,323 @@
+import WebSocket from 'ws';
+import { OrderFill, OrderResponse } from './base';
+import { logger } from '../utils/logger';
+
+/**
+ * An executionReport event: one change to an order, with the trade when it filled
+ */
+export interface BinanceExecutionReport {
+  eventTime: Date;
+  symbol: string;
+  /** Client order ID the order was placed with (not the cancel request's) */
+  clientOrderId: string;
+  orderId: string;
+  side: 'buy' | 'sell';
+  /** NEW, CANCELED, REPLACED, REJECTED, TRADE, EXPIRED or TRADE_PREVENTION */
+  executionType: string;
+  orderStatus: string;
+  rejectReason: string | null;
+  quantity: number;
+  cumulativeQuantity: number;
+  cumulativeQuoteQuantity: number;
+  lastQuantity: number;
+  lastPrice: number;
+  commission: number;
+  commissionAsset: string | null;
+  /** Null unless the event is a trade */
+  tradeId: string | null;
+  maker: boolean;
+  transactionTime: Date;
+}
+
+/**
+ * An outboundAccountPosition event: balances of the assets that just changed
+ */
+export interface BinanceAccountPosition {
+  eventTime: Date;
+  balances: Array<{ asset: string; free: number; locked: number }>;
+}
+
+export type BinanceUserStreamState = 'connecting' | 'connected' | 'reconnecting' | 'closed';
+
+/** Listen key requests against the REST API */
+export interface BinanceListenKeys {
+  create(): Promise<string>;
+  keepAlive(listenKey: string): Promise<void>;
+  close(listenKey: string): Promise<void>;
+}
+
+export interface BinanceUserStreamOptions {
+  /** Raw stream endpoint; the listen key is appended as a path segment */
+  url: string;
+  listenKeys: BinanceListenKeys;
+  onExecutionReport: (report: BinanceExecutionReport) => void;
+  onAccountPosition?: (position: BinanceAccountPosition) => void;
+  onStateChange?: (state: BinanceUserStreamState) => void;
+  /** Listen keys expire after 60 minutes without a keepalive */
+  keepAliveIntervalMs?: number;
+  /** Delay before the first reconnect; doubles on each failed attempt */
+  reconnectDelayMs?: number;
+  maxReconnectDelayMs?: number;
+}
+
+const ORDER_STATUSES: Record<string, OrderResponse['status']> = {
+  NEW: 'pending',
+  PARTIALLY_FILLED: 'partially_filled',
+  FILLED: 'filled',
+  CANCELED: 'cancelled',
+  PENDING_CANCEL: 'open',
+  REJECTED: 'rejected',
+  EXPIRED: 'expired',
+  EXPIRED_IN_MATCH: 'expired',
+};
+
+export function binanceOrderStatus(status: string): OrderResponse['status'] {
+  return ORDER_STATUSES[status] || 'pending';
+}
+
+export function parseExecutionReport(event: any): BinanceExecutionReport {
+  return {
+    eventTime: new Date(event.E),
+    symbol: event.s,
+    // On cancels c is the cancel request's ID and C the order's
+    clientOrderId: event.C || event.c,
+    orderId: String(event.i),
+    side: String(event.S).toLowerCase() as 'buy' | 'sell',
+    executionType: event.x,
+    orderStatus: event.X,
+    rejectReason: event.r && event.r !== 'NONE' ? event.r : null,
+    quantity: parseFloat(event.q || '0'),
+    cumulativeQuantity: parseFloat(event.z || '0'),
+    cumulativeQuoteQuantity: parseFloat(event.Z || '0'),
+    lastQuantity: parseFloat(event.l || '0'),
+    lastPrice: parseFloat(event.L || '0'),
+    commission: parseFloat(event.n || '0'),
+    commissionAsset: event.N ?? null,
+    tradeId: event.t !== undefined && event.t !== -1 ? String(event.t) : null,
+    maker: Boolean(event.m),
+    transactionTime: new Date(event.T ?? event.E),
+  };
+}
+
+export function parseAccountPosition(event: any): BinanceAccountPosition {
+  return {
+    eventTime: new Date(event.E),
+    balances: (event.B ?? []).map((balance: any) => ({
+      asset: balance.a,
+      free: parseFloat(balance.f),
+      locked: parseFloat(balance.l),
+    })),
+  };
+}
+
+/**
+ * The order state an execution report leaves behind, with its trade as a fill.
+ * Fees are in the quote asset: commission in the base asset is valued at the
+ * trade price, and commission in other assets (e.g. BNB) is not counted.
+ */
+export function binanceExecution(report: BinanceExecutionReport, quoteAsset: string | null): OrderResponse {
+  const fills: OrderFill[] = [];
+  if (report.executionType === 'TRADE' && report.tradeId) {
+    let fee = 0;
+    if (report.commissionAsset === quoteAsset) {
+      fee = report.commission;
+    } else if (quoteAsset && report.symbol === `${report.commissionAsset}${quoteAsset}`) {
+      fee = report.commission * report.lastPrice;
+    }
+
+    fills.push({
+      tradeId: report.tradeId,
+      quantity: report.lastQuantity,
+      price: report.lastPrice,
+      fee,
+      liquidity: report.maker ? 'maker' : 'taker',
+      timestamp: report.transactionTime,
+    });
+  }
+
+  return {
+    orderId: report.orderId,
+    brokerOrderId: report.orderId,
+    status: binanceOrderStatus(report.orderStatus),
+    filledQuantity: report.cumulativeQuantity,
+    // Binance reports the quote amount traded rather than an average price
+    averagePrice:
+      report.cumulativeQuantity > 0 ? report.cumulativeQuoteQuantity / report.cumulativeQuantity : undefined,
+    fills,
+    rejectReason: report.rejectReason ?? undefined,
+  };
+}
+
+/**
+ * Binance user data stream: a listen key from the REST API, kept alive on a
+ * timer, and a websocket on it that delivers order and balance events.
+ * Dropped connections reconnect with backoff, on a new key when the old one expired.
+ */
+export class BinanceUserStream {
+  private socket: WebSocket | null = null;
+  private listenKey: string | null = null;
+  private state: BinanceUserStreamState = 'closed';
+  private attempts = 0;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private keepAliveTimer: NodeJS.Timeout | null = null;
+
+  constructor(private options: BinanceUserStreamOptions) {}
+
+  /**
+   * Create a listen key and connect; rejects when no key can be created
+   */
+  async start(): Promise<void> {
+    if (this.state !== 'closed') return;
+    this.setState('connecting');
+
+    try {
+      this.listenKey = await this.createListenKey();
+    } catch (error) {
+      this.setState('closed');
+      throw error;
+    }
+    if (this.state === 'closed') return;
+
+    this.keepAliveTimer = setInterval(() => this.keepAlive(), this.options.keepAliveIntervalMs ?? 30 * 60 * 1000);
+    this.keepAliveTimer.unref();
+    this.connect();
+  }
+
+  getState(): BinanceUserStreamState {
+    return this.state;
+  }
+
+  /**
+   * Stop for good and give the listen key back
+   */
+  async close(): Promise<void> {
+    this.setState('closed');
+    this.attempts = 0;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.keepAliveTimer) {
+      clearInterval(this.keepAliveTimer);
+      this.keepAliveTimer = null;
+    }
+
+    const socket = this.socket;
+    this.socket = null;
+    socket?.removeAllListeners('close');
+    socket?.on('error', () => {});
+    socket?.terminate();
+
+    const listenKey = this.listenKey;
+    this.listenKey = null;
+    if (listenKey) {
+      await this.options.listenKeys.close(listenKey).catch((error) => {
+        logger.warn({ error }, 'Failed to close Binance listen key');
+      });
+    }
+  }
+
+  private connect() {
+    if (this.socket || !this.listenKey) return;
+
+    const socket = new WebSocket(`${this.options.url}/${this.listenKey}`);
+    this.socket = socket;
+
+    socket.on('open', () => {
+      this.attempts = 0;
+      this.setState('connected');
+    });
+
+    socket.on('message', (data: WebSocket.Data) => {
+      try {
+        this.handleEvent(JSON.parse(data.toString()));
+      } catch (error) {
+        logger.error({ error }, 'Error handling Binance user data event');
+      }
+    });
+
+    socket.on('error', (error) => {
+      logger.warn({ error }, 'Binance user data stream error');
+    });
+
+    socket.on('close', () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      if (this.state !== 'closed') {
+        this.scheduleReconnect();
+      }
+    });
+  }
+
+  private handleEvent(event: any) {
+    switch (event.e) {
+      case 'executionReport':
+        this.options.onExecutionReport(parseExecutionReport(event));
+        break;
+      case 'outboundAccountPosition':
+        this.options.onAccountPosition?.(parseAccountPosition(event));
+        break;
+      case 'listenKeyExpired':
+        // The key is dead; reconnecting fetches a new one
+        logger.warn('Binance listen key expired');
+        this.listenKey = null;
+        this.socket?.terminate();
+        break;
+    }
+  }
+
+  /**
+   * A new listen key, or null when the stream was closed while it was being created
+   */
+  private async createListenKey(): Promise<string | null> {
+    const listenKey = await this.options.listenKeys.create();
+    if (this.state === 'closed') {
+      await this.options.listenKeys.close(listenKey).catch(() => {});
+      return null;
+    }
+    return listenKey;
+  }
+
+  private async keepAlive() {
+    if (!this.listenKey) return;
+    try {
+      await this.options.listenKeys.keepAlive(this.listenKey);
+    } catch (error) {
+      logger.warn({ error }, 'Binance listen key keepalive failed, reconnecting on a new key');
+      this.listenKey = null;
+      this.socket?.terminate();
+    }
+  }
+
+  private scheduleReconnect() {
+    const base = this.options.reconnectDelayMs ?? 1000;
+    const delay = Math.min(base * 2 ** this.attempts, this.options.maxReconnectDelayMs ?? 30000);
+    this.attempts++;
+    this.setState('reconnecting');
+
+    logger.info({ attempt: this.attempts, delay }, 'Reconnecting to Binance user data stream');
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = null;
+      if (!this.listenKey) {
+        try {
+          this.listenKey = await this.createListenKey();
+        } catch (error) {
+          logger.warn({ error }, 'Failed to create Binance listen key');
+        }
+      }
+
+      if (this.state === 'closed') return;
+      if (this.listenKey) {
+        this.connect();
+      } else {
+        this.scheduleReconnect();
+      }
+    }, delay);
+  }
+
+  private setState(state: BinanceUserStreamState) {
+    if (this.state === state) return;
+    this.state = state;
+    this.options.onStateChange?.(state);
+  }
+}
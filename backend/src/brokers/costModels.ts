@@ -0,0 +1,261 @@
+/**
+ * Transaction cost models for the sandbox engine
+ *
+ * Commission models price a single fill; slippage models move the fill price
+ * away from the quoted level against the trader. Both are configured per broker
+ * profile as plain JSON (see `commissionModelSchema` / `slippageModelSchema`).
+ */
+
+export type Liquidity = 'maker' | 'taker';
+
+export interface FillContext {
+  side: 'buy' | 'sell';
+  quantity: number;
+  price: number;
+  liquidity: Liquidity;
+  /** Quantity the order had already executed before this fill */
+  orderFilledQuantity: number;
+  /** Notional the order had already executed before this fill */
+  orderFilledNotional: number;
+  /** Account notional traded over the last 30 days, used for volume tiers */
+  tradedVolume: number;
+}
+
+export interface SlippageContext {
+  side: 'buy' | 'sell';
+  quantity: number;
+  price: number;
+  /** EWMA volatility of tick-to-tick returns for the symbol */
+  volatility: number;
+  /** Reference volume for the symbol, from the latest quote */
+  volume: number;
+}
+
+export interface CommissionModel {
+  type: string;
+  calculate(fill: FillContext): number;
+}
+
+export interface SlippageModel {
+  type: string;
+  apply(context: SlippageContext): number;
+}
+
+export interface FeeTier {
+  minVolume: number;
+  makerRate: number;
+  takerRate: number;
+}
+
+export type CommissionModelConfig =
+  | { type: 'none' }
+  | { type: 'per_share'; perShare: number; minimum?: number; maximumRate?: number }
+  | { type: 'percentage'; rate: number; minimum?: number }
+  | { type: 'tiered'; tiers: FeeTier[] }
+  | { type: 'zerodha'; product: 'intraday' | 'delivery' };
+
+export type SlippageModelConfig =
+  | { type: 'none' }
+  | { type: 'fixed_bps'; bps: number }
+  | { type: 'volatility'; multiplier: number }
+  | { type: 'square_root'; coefficient: number };
+
+/**
+ * Fee for the order's cumulative execution minus what earlier fills already paid,
+ * so per-order minimums and caps are charged once however the order is split
+ */
+function incrementalFee(fill: FillContext, orderFee: (quantity: number, notional: number) => number): number {
+  const before =
+    fill.orderFilledQuantity > 0 ? orderFee(fill.orderFilledQuantity, fill.orderFilledNotional) : 0;
+  const after = orderFee(
+    fill.orderFilledQuantity + fill.quantity,
+    fill.orderFilledNotional + fill.quantity * fill.price
+  );
+  return Math.max(0, after - before);
+}
+
+class NoCommission implements CommissionModel {
+  type = 'none';
+
+  calculate(): number {
+    return 0;
+  }
+}
+
+/**
+ * Fixed rate per share with an optional per-order minimum and a cap expressed
+ * as a fraction of notional (e.g. IBKR fixed pricing)
+ */
+class PerShareCommission implements CommissionModel {
+  type = 'per_share';
+
+  constructor(private perShare: number, private minimum = 0, private maximumRate?: number) {}
+
+  calculate(fill: FillContext): number {
+    return incrementalFee(fill, (quantity, notional) => {
+      let fee = Math.max(quantity * this.perShare, this.minimum);
+      if (this.maximumRate !== undefined) {
+        fee = Math.min(fee, notional * this.maximumRate);
+      }
+      return fee;
+    });
+  }
+}
+
+class PercentageCommission implements CommissionModel {
+  type = 'percentage';
+
+  constructor(private rate: number, private minimum = 0) {}
+
+  calculate(fill: FillContext): number {
+    return incrementalFee(fill, (_quantity, notional) => Math.max(notional * this.rate, this.minimum));
+  }
+}
+
+/**
+ * Maker/taker rates selected by 30-day traded volume (Binance VIP levels)
+ */
+class TieredCommission implements CommissionModel {
+  type = 'tiered';
+  private tiers: FeeTier[];
+
+  constructor(tiers: FeeTier[]) {
+    this.tiers = [...tiers].sort((a, b) => a.minVolume - b.minVolume);
+  }
+
+  calculate(fill: FillContext): number {
+    let tier = this.tiers[0];
+    for (const candidate of this.tiers) {
+      if (fill.tradedVolume >= candidate.minVolume) {
+        tier = candidate;
+      }
+    }
+    if (!tier) return 0;
+
+    const rate = fill.liquidity === 'maker' ? tier.makerRate : tier.takerRate;
+    return fill.quantity * fill.price * rate;
+  }
+}
+
+/**
+ * Zerodha equity charges: brokerage, STT, NSE transaction charges, SEBI fees,
+ * stamp duty and GST
+ * https://zerodha.com/charges
+ */
+class ZerodhaCommission implements CommissionModel {
+  type = 'zerodha';
+
+  private static readonly BROKERAGE_RATE = 0.0003;
+  private static readonly BROKERAGE_CAP = 20;
+  private static readonly EXCHANGE_RATE = 0.0000297;
+  private static readonly SEBI_RATE = 0.000001;
+  private static readonly GST_RATE = 0.18;
+
+  constructor(private product: 'intraday' | 'delivery') {}
+
+  calculate(fill: FillContext): number {
+    const turnover = fill.quantity * fill.price;
+    const intraday = this.product === 'intraday';
+
+    // Intraday brokerage is 0.03% capped at Rs 20 per executed order; delivery is free
+    const brokerage = intraday
+      ? incrementalFee(fill, (_quantity, notional) =>
+          Math.min(notional * ZerodhaCommission.BROKERAGE_RATE, ZerodhaCommission.BROKERAGE_CAP)
+        )
+      : 0;
+
+    let stt = 0;
+    if (intraday) {
+      stt = fill.side === 'sell' ? turnover * 0.00025 : 0;
+    } else {
+      stt = turnover * 0.001;
+    }
+
+    const stampDuty = fill.side === 'buy' ? turnover * (intraday ? 0.00003 : 0.00015) : 0;
+    const exchangeCharges = turnover * ZerodhaCommission.EXCHANGE_RATE;
+    const sebiFees = turnover * ZerodhaCommission.SEBI_RATE;
+    const gst = (brokerage + exchangeCharges + sebiFees) * ZerodhaCommission.GST_RATE;
+
+    return brokerage + stt + stampDuty + exchangeCharges + sebiFees + gst;
+  }
+}
+
+class NoSlippage implements SlippageModel {
+  type = 'none';
+
+  apply(context: SlippageContext): number {
+    return context.price;
+  }
+}
+
+function adverse(context: SlippageContext, fraction: number): number {
+  return context.side === 'buy' ? context.price * (1 + fraction) : context.price * (1 - fraction);
+}
+
+class FixedBpsSlippage implements SlippageModel {
+  type = 'fixed_bps';
+
+  constructor(private bps: number) {}
+
+  apply(context: SlippageContext): number {
+    return adverse(context, this.bps / 10000);
+  }
+}
+
+/**
+ * Slippage proportional to the symbol's recent volatility
+ */
+class VolatilitySlippage implements SlippageModel {
+  type = 'volatility';
+
+  constructor(private multiplier: number) {}
+
+  apply(context: SlippageContext): number {
+    return adverse(context, this.multiplier * context.volatility);
+  }
+}
+
+/**
+ * Square-root market impact: coefficient * volatility * sqrt(quantity / volume)
+ */
+class SquareRootImpactSlippage implements SlippageModel {
+  type = 'square_root';
+
+  constructor(private coefficient: number) {}
+
+  apply(context: SlippageContext): number {
+    if (context.volume <= 0) {
+      return context.price;
+    }
+    const impact = this.coefficient * context.volatility * Math.sqrt(context.quantity / context.volume);
+    return adverse(context, impact);
+  }
+}
+
+export function createCommissionModel(config?: CommissionModelConfig | null): CommissionModel {
+  switch (config?.type) {
+    case 'per_share':
+      return new PerShareCommission(config.perShare, config.minimum, config.maximumRate);
+    case 'percentage':
+      return new PercentageCommission(config.rate, config.minimum);
+    case 'tiered':
+      return new TieredCommission(config.tiers);
+    case 'zerodha':
+      return new ZerodhaCommission(config.product);
+    default:
+      return new NoCommission();
+  }
+}
+
+export function createSlippageModel(config?: SlippageModelConfig | null): SlippageModel {
+  switch (config?.type) {
+    case 'fixed_bps':
+      return new FixedBpsSlippage(config.bps);
+    case 'volatility':
+      return new VolatilitySlippage(config.multiplier);
+    case 'square_root':
+      return new SquareRootImpactSlippage(config.coefficient);
+    default:
+      return new NoSlippage();
+  }
+}
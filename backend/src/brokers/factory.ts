@@ -2,7 +2,11 @@ import { Broker, BrokerConfig } from './base';
 import { AlpacaBroker } from './alpaca';
 import { BinanceBroker } from './binance';
 import { KiteBroker } from './kite';
-import { SandboxBroker } from './sandbox';
+import { KiteInstrumentMaster } from './kiteInstruments';
+import { readFileSync } from 'fs';
+import { MarketGeneratorOptions } from './marketGenerator';
+import { SandboxMarket } from './sandboxMarket';
+import { config } from '../config';
 import { db } from '../db';
 import { decrypt } from '../utils/encryption';
 import { logger } from '../utils/logger';
@@ -22,7 +26,7 @@ export async function getBrokerInstance(
 
   // Get broker config from database
   const result = await db.getPool().query(
-    `SELECT api_key_encrypted, api_secret_encrypted, sandbox_mode
+    `SELECT api_key_encrypted, api_secret_encrypted, sandbox_mode, access_token_encrypted, session_expires_at
      FROM broker_configs
      WHERE user_id = $1 AND broker_type = $2`,
     [userId, brokerType]
@@ -49,9 +53,17 @@ export async function getBrokerInstance(
     case 'binance':
       broker = new BinanceBroker(brokerConfig);
       break;
-    case 'kite':
-      broker = new KiteBroker(brokerConfig);
+    case 'kite': {
+      const kite = new KiteBroker(brokerConfig, {
+        onSessionExpired: () => expireBrokerSession(userId, 'kite'),
+        instruments: kiteInstruments,
+      });
+      if (config.access_token_encrypted && new Date(config.session_expires_at) > new Date()) {
+        kite.setAccessToken(decrypt(config.access_token_encrypted), new Date(config.session_expires_at));
+      }
+      broker = kite;
       break;
+    }
     default:
       throw new Error(`Unsupported broker type: ${brokerType}`);
   }
@@ -62,6 +74,42 @@ export async function getBrokerInstance(
   return broker;
 }
 
-// Export singleton sandbox broker
-export const sandboxBroker = new SandboxBroker();
+/**
+ * Drop a cached broker so the next request builds it from the stored configuration
+ */
+export function clearBrokerInstance(userId: number, brokerType: string) {
+  brokerInstances.delete(`${userId}-${brokerType}`);
+}
+
+/**
+ * Record that the broker no longer accepts the stored session, so the user is asked to log in again
+ */
+function expireBrokerSession(userId: number, brokerType: string) {
+  logger.warn({ userId, brokerType }, 'Broker session expired');
+  db.getPool()
+    .query(
+      `UPDATE broker_configs SET session_expires_at = LEAST(session_expires_at, CURRENT_TIMESTAMP)
+       WHERE user_id = $1 AND broker_type = $2`,
+      [userId, brokerType]
+    )
+    .catch((error) => logger.error({ error, userId, brokerType }, 'Failed to record expired broker session'));
+}
+
+/**
+ * Generator settings of the sandbox market: the seed, plus the optional JSON file
+ */
+function sandboxMarketConfig(): MarketGeneratorOptions {
+  const file = config.SANDBOX_MARKET_CONFIG_FILE;
+  const settings = file ? JSON.parse(readFileSync(file, 'utf8')) : {};
+  if (settings.origin) {
+    settings.origin = new Date(settings.origin);
+  }
+  return { ...settings, seed: config.SANDBOX_MARKET_SEED };
+}
+
+// Kite instrument master shared by every Kite broker, loaded by services/kiteInstruments
+export const kiteInstruments = new KiteInstrumentMaster();
+
+// Simulated market shared by every user's sandbox account (see services/sandboxAccounts)
+export const sandboxMarket = new SandboxMarket({ generator: sandboxMarketConfig() });
 
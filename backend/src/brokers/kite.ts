@@ -1,7 +1,40 @@
 import axios, { AxiosInstance } from 'axios';
-import { Broker, BrokerConfig, MarketQuote, Candle, OrderRequest, OrderResponse, Position } from './base';
+import {
+  Broker,
+  BrokerConfig,
+  BrokerOrder,
+  MarketQuote,
+  Candle,
+  OrderRequest,
+  OrderResponse,
+  OrderRuleError,
+  Position,
+  TimeInForce,
+} from './base';
 import { logger } from '../utils/logger';
 import { config } from '../config';
+import { isKiteTokenError, kiteChecksum, kiteSessionExpiry } from './kiteAuth';
+import { KiteTicker, kiteTickToQuote } from './kiteTicker';
+import { KiteInstrument, KiteInstrumentMaster, kiteProduct, validateKiteOrder } from './kiteInstruments';
+import { kiteOrderState, kiteOrderStatus } from './kiteOrders';
+
+/** Kite validities; good-till-date orders are sent as TTL orders */
+const TIMES_IN_FORCE: TimeInForce[] = ['day', 'ioc', 'gtd'];
+
+/** A Kite Connect session created from a login's request token */
+export interface KiteSession {
+  accessToken: string;
+  brokerUserId: string;
+  loginTime: Date;
+  expiresAt: Date;
+}
+
+export interface KiteBrokerOptions {
+  /** Called once when Kite rejects the access token or it reaches its daily expiry */
+  onSessionExpired?: () => void;
+  /** Resolves symbols to exchanges, tokens, lot and tick sizes once loaded */
+  instruments?: KiteInstrumentMaster;
+}
 
 /**
  * Kite Connect (Zerodha) Broker Connector
@@ -14,48 +47,133 @@ export class KiteBroker implements Broker {
   name = 'kite';
   private apiClient: AxiosInstance;
   private accessToken: string | null = null;
+  private expiresAt: Date | null = null;
+  private ticker: KiteTicker | null = null;
+  private marketDataCallbacks: Map<string, (data: MarketQuote) => void> = new Map();
+  /** Instrument tokens of streamed symbols, both ways */
+  private symbolTokens: Map<string, number> = new Map();
+  private tokenSymbols: Map<number, string> = new Map();
 
-  constructor(private brokerConfig: BrokerConfig) {
+  constructor(
+    private brokerConfig: BrokerConfig,
+    private options: KiteBrokerOptions = {}
+  ) {
     const baseURL = config.KITE_API_URL || 'https://kite.zerodha.com';
 
     this.apiClient = axios.create({
       baseURL,
       timeout: 10000,
+      headers: { 'X-Kite-Version': '3' },
+    });
+
+    // A rejected token ends the session until the user logs in again
+    this.apiClient.interceptors.response.use(undefined, (error) => {
+      if (this.accessToken && isKiteTokenError(error.response?.status, error.response?.data)) {
+        this.endSession();
+        error.message = 'Kite session expired. Reconnect Kite to continue.';
+      }
+      return Promise.reject(error);
     });
   }
 
   /**
-   * Initialize Kite Connect session
-   * Note: Kite requires a two-step auth flow:
-   * 1. User authorizes app and gets request token
-   * 2. Exchange request token for access token
-   * This method assumes access token is already obtained
+   * Use an access token from an earlier login, until it expires
    */
-  setAccessToken(token: string) {
+  setAccessToken(token: string, expiresAt: Date | null = null) {
     this.accessToken = token;
+    this.expiresAt = expiresAt;
     this.apiClient.defaults.headers.common['Authorization'] = `token ${this.brokerConfig.apiKey}:${token}`;
   }
 
+  /**
+   * Exchange the request token from Kite's login redirect for an access token
+   * and start using it
+   */
+  async createSession(requestToken: string): Promise<KiteSession> {
+    try {
+      const response = await this.apiClient.post(
+        '/oms/session/token',
+        new URLSearchParams({
+          api_key: this.brokerConfig.apiKey,
+          request_token: requestToken,
+          checksum: kiteChecksum(this.brokerConfig.apiKey, requestToken, this.brokerConfig.apiSecret),
+        })
+      );
+
+      const data = response.data.data;
+      // Kite reports the login time in IST without an offset
+      const loginTime = data.login_time ? new Date(`${data.login_time.replace(' ', 'T')}+05:30`) : new Date();
+      const session: KiteSession = {
+        accessToken: data.access_token,
+        brokerUserId: data.user_id,
+        loginTime,
+        expiresAt: kiteSessionExpiry(loginTime),
+      };
+
+      this.setAccessToken(session.accessToken, session.expiresAt);
+      return session;
+    } catch (error: any) {
+      logger.error({ error }, 'Failed to create Kite session');
+      throw new Error(`Failed to create session: ${error.response?.data?.message ?? error.message}`);
+    }
+  }
+
+  /**
+   * Log the access token out at Kite; the session ends here either way
+   */
+  async invalidateSession(): Promise<void> {
+    const token = this.accessToken;
+    this.disconnect();
+    if (!token) return;
+
+    try {
+      await this.apiClient.delete('/oms/session/token', {
+        params: { api_key: this.brokerConfig.apiKey, access_token: token },
+      });
+    } catch (error: any) {
+      logger.warn({ error }, 'Failed to invalidate Kite session');
+    }
+  }
+
+  /**
+   * Whether requests can be made: a token is set and has not reached its expiry
+   */
+  hasSession(): boolean {
+    if (this.accessToken && this.expiresAt && this.expiresAt <= new Date()) {
+      this.endSession();
+    }
+    return this.accessToken !== null;
+  }
+
+  private assertSession() {
+    if (!this.hasSession()) {
+      throw new Error('No active Kite session. Reconnect Kite to continue.');
+    }
+  }
+
+  private endSession() {
+    this.disconnect();
+    this.options.onSessionExpired?.();
+  }
+
   async getQuote(symbol: string): Promise<MarketQuote> {
     try {
-      if (!this.accessToken) {
-        throw new Error('Access token not set. Please complete Kite Connect authorization flow.');
-      }
+      this.assertSession();
 
-      // Kite uses instrument tokens - this is simplified
-      // In production, you'd need to map symbols to instrument tokens
+      const key = this.instrumentKey(symbol);
       const response = await this.apiClient.get('/quote/ltp', {
-        params: {
-          i: symbol, // Instrument token or trading symbol
-        },
+        params: { i: key },
       });
 
-      const data = response.data.data[symbol];
+      const data = response.data.data[key];
+      if (!data) {
+        throw new Error(`Unknown Kite instrument ${key}`);
+      }
       return {
         symbol,
-        bid: data.ltp || 0,
-        ask: data.ltp || 0,
-        last: data.ltp || 0,
+        bid: data.last_price || 0,
+        ask: data.last_price || 0,
+        last: data.last_price || 0,
         volume: data.volume || 0,
         timestamp: new Date(),
       };
@@ -72,9 +190,7 @@ export class KiteBroker implements Broker {
     interval: string
   ): Promise<Candle[]> {
     try {
-      if (!this.accessToken) {
-        throw new Error('Access token not set');
-      }
+      this.assertSession();
 
       // Map interval to Kite format
       const intervalMap: Record<string, string> = {
@@ -90,8 +206,10 @@ export class KiteBroker implements Broker {
       const kiteInterval = intervalMap[interval] || 'hour';
       const fromDate = from.toISOString().split('T')[0];
       const toDate = to.toISOString().split('T')[0];
+      // Historical data is keyed by instrument token
+      const token = (await this.resolveInstrumentTokens([symbol])).get(symbol);
 
-      const response = await this.apiClient.get(`/oms/instruments/historical/${symbol}/${kiteInterval}`, {
+      const response = await this.apiClient.get(`/oms/instruments/historical/${token}/${kiteInterval}`, {
         params: {
           from: fromDate,
           to: toDate,
@@ -115,24 +233,39 @@ export class KiteBroker implements Broker {
     }
   }
 
+  /**
+   * Check an order against its instrument before it is saved or sent: a validity
+   * Kite offers, a known symbol, whole lots, prices on the tick grid and a product
+   * its segment takes.
+   * The default product is filled in, so the saved order records it.
+   */
+  async prepareOrder(order: OrderRequest): Promise<OrderRequest> {
+    if (order.timeInForce && !TIMES_IN_FORCE.includes(order.timeInForce)) {
+      throw new OrderRuleError('KITE_TIME_IN_FORCE', `Kite does not support time in force ${order.timeInForce}`, {
+        timeInForce: TIMES_IN_FORCE,
+      });
+    }
+
+    const instrument = this.lookupInstrument(order.symbol);
+    if (!instrument) {
+      return order;
+    }
+    validateKiteOrder(instrument, order.quantity, orderPrices(order));
+    return { ...order, product: kiteProduct(instrument, order.product) };
+  }
+
   async placeOrder(order: OrderRequest): Promise<OrderResponse> {
     try {
-      if (!this.accessToken) {
-        throw new Error('Access token not set');
-      }
+      this.assertSession();
 
       const orderData: any = {
-        exchange: 'NSE', // Default - should be determined from symbol
-        tradingsymbol: order.symbol,
+        ...this.orderInstrument(order),
         transaction_type: order.side.toUpperCase(),
-        quantity: order.quantity,
-        order_type: order.type === 'market' ? 'MARKET' : 'LIMIT',
-        product: 'MIS', // Margin Intraday Square-off
-        validity: 'DAY',
+        ...this.buildOrderParams(order),
       };
 
-      if (order.type === 'limit' && order.price) {
-        orderData.price = order.price;
+      if (order.clientOrderId) {
+        orderData.tag = toKiteTag(order.clientOrderId);
       }
 
       const response = await this.apiClient.post('/oms/orders/regular', orderData);
@@ -143,6 +276,7 @@ export class KiteBroker implements Broker {
         brokerOrderId: response.data.data.order_id,
       };
     } catch (error: any) {
+      if (error instanceof OrderRuleError) throw error;
       logger.error({ error, order }, 'Failed to place order with Kite');
       throw new Error(`Failed to place order: ${error.message}`);
     }
@@ -150,31 +284,84 @@ export class KiteBroker implements Broker {
 
   async getOrderStatus(orderId: string): Promise<OrderResponse> {
     try {
-      if (!this.accessToken) {
-        throw new Error('Access token not set');
-      }
+      this.assertSession();
 
+      // Kite answers with the order's history; the last entry is its current state
       const response = await this.apiClient.get(`/oms/orders/${orderId}`);
+      return kiteOrderState(response.data.data);
+    } catch (error: any) {
+      logger.error({ error, orderId }, 'Failed to get order status from Kite');
+      throw new Error(`Failed to get order status: ${error.message}`);
+    }
+  }
+
+  async cancelOrder(orderId: string, symbol: string): Promise<OrderResponse> {
+    try {
+      this.assertSession();
+
+      // Kite only acknowledges the cancel request; the exchange may still fill
+      // the order first, so report where it stands now
+      await this.apiClient.delete(`/oms/orders/regular/${orderId}`);
+    } catch (error: any) {
+      logger.error({ error, orderId, symbol }, 'Failed to cancel order with Kite');
+      throw new Error(`Failed to cancel order: ${error.message}`);
+    }
+
+    return this.getOrderStatus(orderId);
+  }
+
+  async replaceOrder(orderId: string, order: OrderRequest): Promise<OrderResponse> {
+    try {
+      this.assertSession();
+
+      const instrument = this.lookupInstrument(order.symbol);
+      if (instrument) {
+        validateKiteOrder(instrument, order.quantity, orderPrices(order));
+      }
+      const orderData: any = this.buildOrderParams(order);
+
+      const response = await this.apiClient.put(`/oms/orders/regular/${orderId}`, orderData);
 
-      const order = response.data.data;
       return {
-        orderId: order.order_id,
-        status: this.mapOrderStatus(order.status),
-        filledQuantity: parseFloat(order.filled_quantity || '0'),
-        averagePrice: parseFloat(order.average_price || '0'),
-        brokerOrderId: order.order_id,
+        orderId: response.data.data.order_id,
+        status: 'pending',
+        brokerOrderId: response.data.data.order_id,
       };
     } catch (error: any) {
-      logger.error({ error, orderId }, 'Failed to get order status from Kite');
-      throw new Error(`Failed to get order status: ${error.message}`);
+      if (error instanceof OrderRuleError) throw error;
+      logger.error({ error, orderId, order }, 'Failed to modify order with Kite');
+      throw new Error(`Failed to modify order: ${error.message}`);
+    }
+  }
+
+  async getOpenOrders(): Promise<BrokerOrder[]> {
+    try {
+      this.assertSession();
+
+      // Kite lists the day's orders in every status
+      const response = await this.apiClient.get('/oms/orders');
+
+      return response.data.data
+        .map((order: any) => ({
+          orderId: order.order_id,
+          status: this.mapOrderStatus(order.status),
+          symbol: order.tradingsymbol,
+          side: order.transaction_type.toLowerCase(),
+          quantity: parseFloat(order.quantity || '0'),
+          filledQuantity: parseFloat(order.filled_quantity || '0'),
+          averagePrice: parseFloat(order.average_price || '0'),
+          brokerOrderId: order.order_id,
+        }))
+        .filter((order: BrokerOrder) => ['pending', 'open', 'partially_filled'].includes(order.status));
+    } catch (error: any) {
+      logger.error({ error }, 'Failed to get open orders from Kite');
+      throw new Error(`Failed to get open orders: ${error.message}`);
     }
   }
 
   async getPositions(): Promise<Position[]> {
     try {
-      if (!this.accessToken) {
-        throw new Error('Access token not set');
-      }
+      this.assertSession();
 
       const response = await this.apiClient.get('/oms/portfolio/positions');
 
@@ -191,35 +378,236 @@ export class KiteBroker implements Broker {
     }
   }
 
-  async subscribeToMarketData(
-    symbols: string[],
-    callback: (data: MarketQuote) => void
-  ): Promise<void> {
-    // Kite WebSocket requires special setup with KiteTicker library
-    // This is a placeholder - full implementation would use KiteTicker
-    logger.warn('Kite WebSocket subscription requires KiteTicker library - not implemented in this demo');
-    throw new Error('Kite WebSocket subscription not fully implemented. Use REST API for market data.');
+  /**
+   * Stream quotes over the Kite ticker in full mode, so bid and ask come from the depth.
+   * Symbols are instrument tokens or exchange:tradingsymbol pairs (e.g. NSE:INFY).
+   */
+  async subscribeToMarketData(symbols: string[], callback: (data: MarketQuote) => void): Promise<void> {
+    try {
+      this.assertSession();
+
+      const tokens = await this.resolveInstrumentTokens(symbols);
+      for (const [symbol, token] of tokens) {
+        this.symbolTokens.set(symbol, token);
+        this.tokenSymbols.set(token, symbol);
+        this.marketDataCallbacks.set(symbol, callback);
+      }
+
+      if (!this.ticker) {
+        this.ticker = new KiteTicker({
+          url: config.KITE_TICKER_URL,
+          apiKey: this.brokerConfig.apiKey,
+          accessToken: this.accessToken!,
+          onTicks: (ticks) => {
+            for (const tick of ticks) {
+              const symbol = this.tokenSymbols.get(tick.instrumentToken);
+              const listener = symbol ? this.marketDataCallbacks.get(symbol) : undefined;
+              listener?.(kiteTickToQuote(tick, symbol!));
+            }
+          },
+          onUnauthorized: () => this.endSession(),
+        });
+        this.ticker.connect();
+      }
+      this.ticker.subscribe([...tokens.values()], 'full');
+    } catch (error: any) {
+      logger.error({ error, symbols }, 'Failed to subscribe to Kite market data');
+      throw new Error(`Failed to subscribe: ${error.message}`);
+    }
   }
 
   async unsubscribeFromMarketData(symbols: string[]): Promise<void> {
-    // Placeholder
+    const tokens: number[] = [];
+    for (const symbol of symbols) {
+      const token = this.symbolTokens.get(symbol);
+      if (token === undefined) continue;
+      tokens.push(token);
+      this.symbolTokens.delete(symbol);
+      this.tokenSymbols.delete(token);
+      this.marketDataCallbacks.delete(symbol);
+    }
+
+    if (tokens.length > 0) {
+      this.ticker?.unsubscribe(tokens);
+    }
+    // Nothing left to stream
+    if (this.symbolTokens.size === 0) {
+      this.closeTicker();
+    }
+  }
+
+  /**
+   * Instrument tokens for symbols, from the instrument master when it knows them; other
+   * names are looked up with the LTP endpoint, which returns their tokens
+   */
+  private async resolveInstrumentTokens(symbols: string[]): Promise<Map<string, number>> {
+    const tokens = new Map<string, number>();
+    const names: string[] = [];
+    for (const symbol of symbols) {
+      const known = /^\d+$/.test(symbol)
+        ? Number(symbol)
+        : (this.symbolTokens.get(symbol) ?? this.lookupInstrument(symbol)?.instrumentToken);
+      if (known !== undefined) {
+        tokens.set(symbol, known);
+      } else {
+        names.push(symbol);
+      }
+    }
+
+    if (names.length > 0) {
+      // Kite takes repeated i= parameters
+      const params = new URLSearchParams(names.map((name) => ['i', this.instrumentKey(name)]));
+      const response = await this.apiClient.get('/quote/ltp', { params });
+      for (const name of names) {
+        const token = response.data.data[this.instrumentKey(name)]?.instrument_token;
+        if (!token) {
+          throw new Error(`Unknown Kite instrument ${name}`);
+        }
+        tokens.set(name, token);
+      }
+    }
+    return tokens;
+  }
+
+  /**
+   * The symbol's instrument from the master. Once the master is loaded, symbols
+   * it does not know are rejected rather than guessed at.
+   */
+  private lookupInstrument(symbol: string): KiteInstrument | undefined {
+    const instruments = this.options.instruments;
+    if (!instruments || instruments.size === 0) {
+      return undefined;
+    }
+
+    const instrument = instruments.resolve(symbol);
+    if (!instrument) {
+      throw new OrderRuleError('KITE_UNKNOWN_INSTRUMENT', `Unknown Kite instrument ${symbol}`);
+    }
+    return instrument;
+  }
+
+  /**
+   * EXCHANGE:TRADINGSYMBOL (or the instrument token) that Kite's quote endpoints key on
+   */
+  private instrumentKey(symbol: string): string {
+    const instrument = this.lookupInstrument(symbol);
+    if (instrument) {
+      return `${instrument.exchange}:${instrument.tradingsymbol}`;
+    }
+    return /^\d+$/.test(symbol) || symbol.includes(':') ? symbol : `NSE:${symbol}`;
+  }
+
+  /**
+   * Exchange, trading symbol and product for a new order, checked against the
+   * instrument's lot and tick sizes. Without the master, symbols name their exchange
+   * (NSE when they do not) and the product defaults to delivery.
+   */
+  private orderInstrument(order: OrderRequest): Record<string, string> {
+    const instrument = this.lookupInstrument(order.symbol);
+    if (instrument) {
+      validateKiteOrder(instrument, order.quantity, orderPrices(order));
+      return {
+        exchange: instrument.exchange,
+        tradingsymbol: instrument.tradingsymbol,
+        product: kiteProduct(instrument, order.product),
+      };
+    }
+
+    const key = this.instrumentKey(order.symbol);
+    if (!key.includes(':')) {
+      throw new OrderRuleError('KITE_UNKNOWN_INSTRUMENT', 'Orders by instrument token need the Kite instrument master');
+    }
+    const [exchange, tradingsymbol] = key.split(':');
+    return { exchange, tradingsymbol, product: order.product ?? 'CNC' };
+  }
+
+  private closeTicker() {
+    this.ticker?.close();
+    this.ticker = null;
   }
 
   private mapOrderStatus(status: string): OrderResponse['status'] {
-    const statusMap: Record<string, OrderResponse['status']> = {
-      'PUT ORDER REQUEST RECEIVED': 'pending',
-      'VALIDATION PENDING': 'pending',
-      'OPEN PENDING': 'pending',
-      'OPEN': 'open',
-      'COMPLETE': 'filled',
-      'REJECTED': 'rejected',
-      'CANCELLED': 'cancelled',
+    return kiteOrderStatus(status);
+  }
+
+  /**
+   * Order type, prices and validity shared by place and modify. Stops map to
+   * SL (stop-limit) and SL-M (stop-market); Kite has no trailing stops.
+   */
+  private buildOrderParams(order: OrderRequest): Record<string, string | number> {
+    const typeMap: Partial<Record<OrderRequest['type'], string>> = {
+      market: 'MARKET',
+      limit: 'LIMIT',
+      stop: 'SL-M',
+      stop_limit: 'SL',
+    };
+
+    const orderType = typeMap[order.type];
+    if (!orderType) {
+      throw new Error(`Kite does not support ${order.type} orders`);
+    }
+
+    const params: Record<string, string | number> = {
+      quantity: order.quantity,
+      order_type: orderType,
+      ...this.mapValidity(order),
     };
-    return statusMap[status] || 'pending';
+
+    if ((order.type === 'limit' || order.type === 'stop_limit') && order.price) {
+      params.price = order.price;
+    }
+
+    if ((order.type === 'stop' || order.type === 'stop_limit') && order.stopPrice) {
+      params.trigger_price = order.stopPrice;
+    }
+
+    return params;
+  }
+
+  /**
+   * Kite validity is DAY, IOC or TTL (minutes, within the trading day), so
+   * good-till-date orders become TTL orders running until their expiry
+   */
+  private mapValidity(order: OrderRequest): Record<string, string | number> {
+    switch (order.timeInForce) {
+      case undefined:
+      case 'day':
+        return { validity: 'DAY' };
+      case 'ioc':
+        return { validity: 'IOC' };
+      case 'gtd': {
+        const minutes = Math.ceil((new Date(order.expiresAt!).getTime() - Date.now()) / 60000);
+        return { validity: 'TTL', validity_ttl: Math.max(1, minutes) };
+      }
+      default:
+        throw new Error(`Kite does not support time in force ${order.timeInForce}`);
+    }
   }
 
   disconnect() {
+    this.closeTicker();
     this.accessToken = null;
+    this.expiresAt = null;
+    delete this.apiClient.defaults.headers.common['Authorization'];
   }
 }
 
+/** Limit and trigger prices an order sends to Kite */
+function orderPrices(order: OrderRequest): number[] {
+  const prices: number[] = [];
+  if ((order.type === 'limit' || order.type === 'stop_limit') && order.price) {
+    prices.push(order.price);
+  }
+  if ((order.type === 'stop' || order.type === 'stop_limit') && order.stopPrice) {
+    prices.push(order.stopPrice);
+  }
+  return prices;
+}
+
+/**
+ * Kite tags are alphanumeric and at most 20 characters, so the client order ID
+ * is reduced to its first 20 alphanumeric characters
+ */
+export function toKiteTag(clientOrderId: string): string {
+  return clientOrderId.replace(/[^A-Za-z0-9]/g, '').slice(0, 20);
+}
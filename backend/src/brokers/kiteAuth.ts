@@ -0,0 +1,92 @@
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+
+/** Kite Connect access tokens are invalidated at 06:00 IST (00:30 UTC) every day */
+const SESSION_RESET_UTC_MINUTES = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Checksum Kite expects when exchanging a request token: SHA-256 of api_key + request_token + api_secret
+ */
+export function kiteChecksum(apiKey: string, requestToken: string, apiSecret: string): string {
+  return createHash('sha256')
+    .update(apiKey + requestToken + apiSecret)
+    .digest('hex');
+}
+
+/**
+ * Checksum Kite sends with an order postback: SHA-256 of order_id + order_timestamp + api_secret
+ */
+export function kitePostbackChecksum(orderId: string, orderTimestamp: string, apiSecret: string): string {
+  return createHash('sha256')
+    .update(orderId + orderTimestamp + apiSecret)
+    .digest('hex');
+}
+
+/**
+ * Whether a postback carries the checksum of the app's API secret, so it came from Kite
+ */
+export function verifyKitePostback(
+  payload: { order_id?: string; order_timestamp?: string; checksum?: string },
+  apiSecret: string
+): boolean {
+  if (!payload.order_id || !payload.order_timestamp || typeof payload.checksum !== 'string') return false;
+
+  const expected = Buffer.from(kitePostbackChecksum(payload.order_id, payload.order_timestamp, apiSecret));
+  const actual = Buffer.from(payload.checksum);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Kite login page for an app; Kite sends `state` back to the redirect URL with the request token
+ */
+export function kiteLoginUrl(loginUrl: string, apiKey: string, state: string): string {
+  const params = new URLSearchParams({
+    v: '3',
+    api_key: apiKey,
+    redirect_params: new URLSearchParams({ state }).toString(),
+  });
+  return `${loginUrl}?${params}`;
+}
+
+/**
+ * When a session started at `loginTime` stops working: the next daily reset
+ */
+export function kiteSessionExpiry(loginTime: Date): Date {
+  const offset = SESSION_RESET_UTC_MINUTES * 60 * 1000;
+  const dayStart = Math.floor((loginTime.getTime() - offset) / DAY_MS) * DAY_MS + offset;
+  return new Date(dayStart + DAY_MS);
+}
+
+/**
+ * Opaque login state naming the user, signed so the unauthenticated callback can trust it
+ */
+export function signLoginState(userId: number, secret: string, expiresAt: Date): string {
+  const payload = `${userId}.${expiresAt.getTime()}`;
+  return `${payload}.${stateSignature(payload, secret)}`;
+}
+
+/**
+ * User ID of a login state, or null when it is forged or expired
+ */
+export function verifyLoginState(state: string, secret: string, now: Date = new Date()): number | null {
+  const [userId, expiresAt, signature] = state.split('.');
+  if (!userId || !expiresAt || !signature) return null;
+
+  const expected = Buffer.from(stateSignature(`${userId}.${expiresAt}`, secret));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+  if (Number(expiresAt) <= now.getTime()) return null;
+
+  return Number(userId);
+}
+
+function stateSignature(payload: string, secret: string): string {
+  return createHmac('sha256', secret).update(`kite-login:${payload}`).digest('base64url');
+}
+
+/**
+ * Kite answers requests made with an expired or revoked access token with a TokenException
+ */
+export function isKiteTokenError(status: number | undefined, body: any): boolean {
+  return status === 403 && body?.error_type === 'TokenException';
+}
@@ -0,0 +1,254 @@
+import { OrderProduct, OrderRuleError } from './base';
+
+/**
+ * One row of the Kite Connect instruments dump (https://api.kite.trade/instruments)
+ */
+export interface KiteInstrument {
+  instrumentToken: number;
+  exchangeToken: number;
+  tradingsymbol: string;
+  name: string;
+  expiry: string | null;
+  strike: number;
+  tickSize: number;
+  lotSize: number;
+  instrumentType: string;
+  segment: string;
+  exchange: string;
+}
+
+export interface KiteInstrumentFilter {
+  token?: number;
+  exchange?: string;
+  segment?: string;
+  /** Trading symbols starting with this prefix */
+  tradingsymbol?: string;
+  lotSize?: number;
+  tickSize?: number;
+  limit?: number;
+}
+
+const REQUIRED_COLUMNS = [
+  'instrument_token',
+  'exchange_token',
+  'tradingsymbol',
+  'name',
+  'expiry',
+  'strike',
+  'tick_size',
+  'lot_size',
+  'instrument_type',
+  'segment',
+  'exchange',
+];
+
+/** Cash segments, the only ones delivery (CNC) orders are taken in */
+const EQUITY_SEGMENTS = new Set(['NSE', 'BSE']);
+
+/** Exchanges tried, in order, for symbols without one */
+const DEFAULT_EXCHANGES = ['NSE', 'BSE'];
+
+/**
+ * Parse the instruments CSV. Names may be quoted and contain commas.
+ */
+export function parseKiteInstruments(csv: string): KiteInstrument[] {
+  const lines = csv.split(/\r?\n/).filter((line) => line.trim() !== '');
+  if (lines.length === 0) {
+    return [];
+  }
+
+  const header = splitCsvLine(lines[0]).map((column) => column.trim());
+  const missing = REQUIRED_COLUMNS.filter((column) => !header.includes(column));
+  if (missing.length > 0) {
+    throw new Error(`Kite instruments CSV is missing columns: ${missing.join(', ')}`);
+  }
+  const index = Object.fromEntries(header.map((column, i) => [column, i]));
+
+  return lines.slice(1).map((line, i) => {
+    const fields = splitCsvLine(line);
+    const field = (column: string) => fields[index[column]] ?? '';
+    const instrumentToken = Number(field('instrument_token'));
+    if (!Number.isInteger(instrumentToken) || instrumentToken <= 0) {
+      throw new Error(`Invalid instrument_token on line ${i + 2} of the Kite instruments CSV`);
+    }
+
+    return {
+      instrumentToken,
+      exchangeToken: Number(field('exchange_token')),
+      tradingsymbol: field('tradingsymbol'),
+      name: field('name'),
+      expiry: field('expiry') || null,
+      strike: Number(field('strike')) || 0,
+      tickSize: Number(field('tick_size')) || 0,
+      lotSize: Number(field('lot_size')) || 1,
+      instrumentType: field('instrument_type'),
+      segment: field('segment'),
+      exchange: field('exchange'),
+    };
+  });
+}
+
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current);
+  return fields;
+}
+
+/**
+ * In-memory instrument master with lookups by token and exchange:tradingsymbol.
+ * `load` swaps the whole dump, so brokers holding the master see reloads.
+ */
+export class KiteInstrumentMaster {
+  private instruments: KiteInstrument[] = [];
+  private tokens = new Map<number, KiteInstrument>();
+  private symbols = new Map<string, KiteInstrument>();
+
+  constructor(instruments: KiteInstrument[] = []) {
+    this.load(instruments);
+  }
+
+  load(instruments: KiteInstrument[]) {
+    this.instruments = instruments;
+    this.tokens = new Map(instruments.map((instrument) => [instrument.instrumentToken, instrument]));
+    this.symbols = new Map(
+      instruments.map((instrument) => [`${instrument.exchange}:${instrument.tradingsymbol}`, instrument])
+    );
+  }
+
+  get size(): number {
+    return this.instruments.length;
+  }
+
+  byToken(token: number): KiteInstrument | undefined {
+    return this.tokens.get(token);
+  }
+
+  find(exchange: string, tradingsymbol: string): KiteInstrument | undefined {
+    return this.symbols.get(`${exchange.toUpperCase()}:${tradingsymbol.toUpperCase()}`);
+  }
+
+  /**
+   * Instrument for an order or quote symbol: an instrument token, EXCHANGE:TRADINGSYMBOL,
+   * or a bare trading symbol, which is looked up on NSE and then BSE
+   */
+  resolve(symbol: string): KiteInstrument | undefined {
+    if (/^\d+$/.test(symbol)) {
+      return this.byToken(Number(symbol));
+    }
+
+    const separator = symbol.indexOf(':');
+    if (separator !== -1) {
+      return this.find(symbol.slice(0, separator), symbol.slice(separator + 1));
+    }
+
+    for (const exchange of DEFAULT_EXCHANGES) {
+      const instrument = this.find(exchange, symbol);
+      if (instrument) return instrument;
+    }
+    return undefined;
+  }
+
+  search(filter: KiteInstrumentFilter = {}): KiteInstrument[] {
+    const exchange = filter.exchange?.toUpperCase();
+    const segment = filter.segment?.toUpperCase();
+    const prefix = filter.tradingsymbol?.toUpperCase();
+    const limit = filter.limit ?? 100;
+    const matches: KiteInstrument[] = [];
+    const tokenMatch = filter.token !== undefined ? this.byToken(filter.token) : undefined;
+    const candidates = filter.token === undefined ? this.instruments : tokenMatch ? [tokenMatch] : [];
+
+    for (const instrument of candidates) {
+      if (matches.length >= limit) break;
+      if (exchange && instrument.exchange !== exchange) continue;
+      if (segment && instrument.segment !== segment) continue;
+      if (prefix && !instrument.tradingsymbol.startsWith(prefix)) continue;
+      if (filter.lotSize !== undefined && instrument.lotSize !== filter.lotSize) continue;
+      if (filter.tickSize !== undefined && Math.abs(instrument.tickSize - filter.tickSize) > 1e-9) continue;
+      matches.push(instrument);
+    }
+    return matches;
+  }
+}
+
+/**
+ * Product for an order on an instrument. Cash segments default to delivery (CNC) and
+ * derivatives to carry-forward (NRML); intraday (MIS) is taken everywhere.
+ */
+export function kiteProduct(instrument: KiteInstrument, requested?: OrderProduct): OrderProduct {
+  const equity = EQUITY_SEGMENTS.has(instrument.segment);
+  if (!requested) {
+    return equity ? 'CNC' : 'NRML';
+  }
+  if (requested === 'CNC' && !equity) {
+    throw new OrderRuleError(
+      'KITE_PRODUCT',
+      `CNC is only available for equity; use NRML or MIS for ${instrument.segment} instruments`,
+      { products: ['NRML', 'MIS'] }
+    );
+  }
+  if (requested === 'NRML' && equity) {
+    throw new OrderRuleError(
+      'KITE_PRODUCT',
+      `NRML is only available for derivatives; use CNC or MIS for ${instrument.segment} instruments`,
+      { products: ['CNC', 'MIS'] }
+    );
+  }
+  return requested;
+}
+
+/**
+ * Reject quantities that are not whole lots and prices off the tick grid, with
+ * an OrderRuleError naming the lot or tick size
+ */
+export function validateKiteOrder(instrument: KiteInstrument, quantity: number, prices: number[] = []) {
+  const name = `${instrument.exchange}:${instrument.tradingsymbol}`;
+  if (instrument.segment === 'INDICES') {
+    throw new OrderRuleError('KITE_INDEX_NOT_TRADABLE', `${name} is an index and cannot be traded`);
+  }
+  if (!isMultiple(quantity, instrument.lotSize, 1e-9)) {
+    throw new OrderRuleError(
+      'KITE_LOT_SIZE',
+      `Quantity for ${name} must be a multiple of the lot size ${instrument.lotSize}`,
+      { lotSize: instrument.lotSize }
+    );
+  }
+  for (const price of prices) {
+    if (instrument.tickSize > 0 && !isMultiple(price, instrument.tickSize, 1e-6)) {
+      throw new OrderRuleError(
+        'KITE_TICK_SIZE',
+        `Price ${price} for ${name} must be a multiple of the tick size ${instrument.tickSize}`,
+        { tickSize: instrument.tickSize }
+      );
+    }
+  }
+}
+
+/** Whether value is a whole multiple of step, within a relative tolerance for float error */
+function isMultiple(value: number, step: number, tolerance: number): boolean {
+  if (step <= 0) return false;
+  const ratio = value / step;
+  return Math.abs(ratio - Math.round(ratio)) < tolerance;
+}
@@ -0,0 +1,40 @@
+import { OrderResponse } from './base';
+
+const ORDER_STATUSES: Record<string, OrderResponse['status']> = {
+  'PUT ORDER REQUEST RECEIVED': 'pending',
+  'VALIDATION PENDING': 'pending',
+  'OPEN PENDING': 'pending',
+  'OPEN': 'open',
+  // Stop orders waiting at the exchange for their trigger
+  'TRIGGER PENDING': 'open',
+  'COMPLETE': 'filled',
+  'REJECTED': 'rejected',
+  'CANCELLED': 'cancelled',
+};
+
+/** Our status for a Kite order status, as the API and postbacks report it */
+export function kiteOrderStatus(status: string): OrderResponse['status'] {
+  return ORDER_STATUSES[status] || 'pending';
+}
+
+/**
+ * Current state of an order from its history, as `GET /orders/:order_id`
+ * returns it: one entry per status change, oldest first
+ */
+export function kiteOrderState(history: any[]): OrderResponse {
+  const order = history[history.length - 1];
+  if (!order) {
+    throw new Error('Kite returned no history for the order');
+  }
+
+  const filledQuantity = parseFloat(order.filled_quantity || '0');
+  const status = kiteOrderStatus(order.status);
+  return {
+    orderId: order.order_id,
+    // Kite keeps a partly filled order OPEN
+    status: status === 'open' && filledQuantity > 0 ? 'partially_filled' : status,
+    filledQuantity,
+    averagePrice: parseFloat(order.average_price || '0'),
+    brokerOrderId: order.order_id,
+  };
+}
@@ -0,0 +1,360 @@
+import WebSocket from 'ws';
+import { MarketQuote, OrderBookLevel } from './base';
+import { logger } from '../utils/logger';
+
+/**
+ * Kite Connect ticker (WebSocket streaming) client
+ *
+ * Protocol: https://kite.trade/docs/connect/v3/websocket/
+ * Requests are JSON text frames; market data arrives as binary frames holding
+ * one or more packets whose length gives their mode. One-byte frames are
+ * heartbeats.
+ */
+
+export type KiteTickerMode = 'ltp' | 'quote' | 'full';
+
+export interface KiteDepthLevel extends OrderBookLevel {
+  orders: number;
+}
+
+export interface KiteTick {
+  instrumentToken: number;
+  mode: KiteTickerMode;
+  /** Indices are not traded, so carry no quantities or depth */
+  tradable: boolean;
+  lastPrice: number;
+  lastQuantity?: number;
+  averagePrice?: number;
+  /** Volume traded today */
+  volume?: number;
+  buyQuantity?: number;
+  sellQuantity?: number;
+  ohlc?: { open: number; high: number; low: number; close: number };
+  change?: number;
+  lastTradeTime?: Date;
+  oi?: number;
+  oiDayHigh?: number;
+  oiDayLow?: number;
+  exchangeTimestamp?: Date;
+  depth?: { buy: KiteDepthLevel[]; sell: KiteDepthLevel[] };
+}
+
+export type KiteTickerState = 'connecting' | 'connected' | 'reconnecting' | 'closed';
+
+export interface KiteTickerOptions {
+  url: string;
+  apiKey: string;
+  accessToken: string;
+  onTicks: (ticks: KiteTick[]) => void;
+  onStateChange?: (state: KiteTickerState) => void;
+  /** Kite refused the access token; the ticker stops reconnecting */
+  onUnauthorized?: () => void;
+  /** Delay before the first reconnect; doubles on each failed attempt */
+  reconnectDelayMs?: number;
+  maxReconnectDelayMs?: number;
+  /** Reconnect when nothing, not even a heartbeat, arrives for this long */
+  staleTimeoutMs?: number;
+}
+
+// Packet lengths by mode
+const LTP_PACKET = 8;
+const INDEX_QUOTE_PACKET = 28;
+const INDEX_FULL_PACKET = 32;
+const QUOTE_PACKET = 44;
+const FULL_PACKET = 184;
+
+// Exchange segments (low byte of the instrument token) whose prices are not in paise
+const SEGMENT_NSE_CD = 3;
+const SEGMENT_BSE_CD = 6;
+const SEGMENT_INDICES = 9;
+
+/**
+ * Split a binary ticker frame into ticks; heartbeats and unknown packets give none
+ */
+export function parseKiteTicks(frame: Buffer): KiteTick[] {
+  if (frame.length < 2) return [];
+
+  const ticks: KiteTick[] = [];
+  const count = frame.readUInt16BE(0);
+  let offset = 2;
+
+  for (let i = 0; i < count && offset + 2 <= frame.length; i++) {
+    const length = frame.readUInt16BE(offset);
+    const packet = frame.subarray(offset + 2, offset + 2 + length);
+    offset += 2 + length;
+
+    const tick = parsePacket(packet);
+    if (tick) ticks.push(tick);
+  }
+  return ticks;
+}
+
+function parsePacket(packet: Buffer): KiteTick | null {
+  if (packet.length < LTP_PACKET) return null;
+
+  const instrumentToken = packet.readUInt32BE(0);
+  const segment = instrumentToken & 0xff;
+  const divisor = segment === SEGMENT_NSE_CD ? 10000000 : segment === SEGMENT_BSE_CD ? 10000 : 100;
+  const price = (at: number) => packet.readInt32BE(at) / divisor;
+  const int = (at: number) => packet.readUInt32BE(at);
+  const time = (at: number) => new Date(packet.readUInt32BE(at) * 1000);
+
+  if (packet.length === LTP_PACKET) {
+    return { instrumentToken, mode: 'ltp', tradable: segment !== SEGMENT_INDICES, lastPrice: price(4) };
+  }
+
+  if (packet.length === INDEX_QUOTE_PACKET || packet.length === INDEX_FULL_PACKET) {
+    const ohlc = { high: price(8), low: price(12), open: price(16), close: price(20) };
+    const tick: KiteTick = {
+      instrumentToken,
+      mode: packet.length === INDEX_FULL_PACKET ? 'full' : 'quote',
+      tradable: false,
+      lastPrice: price(4),
+      ohlc,
+      change: ohlc.close ? ((price(4) - ohlc.close) * 100) / ohlc.close : 0,
+    };
+    if (packet.length === INDEX_FULL_PACKET) tick.exchangeTimestamp = time(28);
+    return tick;
+  }
+
+  if (packet.length !== QUOTE_PACKET && packet.length !== FULL_PACKET) return null;
+
+  const ohlc = { open: price(28), high: price(32), low: price(36), close: price(40) };
+  const tick: KiteTick = {
+    instrumentToken,
+    mode: packet.length === FULL_PACKET ? 'full' : 'quote',
+    tradable: segment !== SEGMENT_INDICES,
+    lastPrice: price(4),
+    lastQuantity: int(8),
+    averagePrice: price(12),
+    volume: int(16),
+    buyQuantity: int(20),
+    sellQuantity: int(24),
+    ohlc,
+    change: ohlc.close ? ((price(4) - ohlc.close) * 100) / ohlc.close : 0,
+  };
+
+  if (packet.length === FULL_PACKET) {
+    tick.lastTradeTime = time(44);
+    tick.oi = int(48);
+    tick.oiDayHigh = int(52);
+    tick.oiDayLow = int(56);
+    tick.exchangeTimestamp = time(60);
+
+    // Five bid levels, then five ask levels, 12 bytes each: quantity, price, orders, padding
+    const level = (at: number): KiteDepthLevel => ({
+      quantity: int(at),
+      price: price(at + 4),
+      orders: packet.readUInt16BE(at + 8),
+    });
+    tick.depth = {
+      buy: [0, 1, 2, 3, 4].map((i) => level(64 + i * 12)),
+      sell: [5, 6, 7, 8, 9].map((i) => level(64 + i * 12)),
+    };
+  }
+  return tick;
+}
+
+/**
+ * Quote for a tick: best bid and ask from the depth when streamed in full mode, else the last price
+ */
+export function kiteTickToQuote(tick: KiteTick, symbol: string): MarketQuote {
+  const bestBid = tick.depth?.buy.find((level) => level.quantity > 0);
+  const bestAsk = tick.depth?.sell.find((level) => level.quantity > 0);
+
+  return {
+    symbol,
+    bid: bestBid?.price ?? tick.lastPrice,
+    ask: bestAsk?.price ?? tick.lastPrice,
+    last: tick.lastPrice,
+    volume: tick.volume ?? 0,
+    timestamp: tick.exchangeTimestamp ?? new Date(),
+  };
+}
+
+/**
+ * One ticker connection: keeps the subscribed instruments and their modes,
+ * and restores them after reconnecting with exponential backoff
+ */
+export class KiteTicker {
+  private socket: WebSocket | null = null;
+  private subscriptions: Map<number, KiteTickerMode> = new Map();
+  private state: KiteTickerState = 'closed';
+  private attempts = 0;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private staleTimer: NodeJS.Timeout | null = null;
+
+  constructor(private options: KiteTickerOptions) {}
+
+  connect() {
+    if (this.socket) return;
+    this.setState(this.attempts === 0 ? 'connecting' : 'reconnecting');
+
+    const url = new URL(this.options.url);
+    url.searchParams.set('api_key', this.options.apiKey);
+    url.searchParams.set('access_token', this.options.accessToken);
+
+    const socket = new WebSocket(url.toString());
+    socket.binaryType = 'nodebuffer';
+    this.socket = socket;
+
+    socket.on('open', () => {
+      this.attempts = 0;
+      this.setState('connected');
+      this.touch();
+      this.resubscribe();
+    });
+
+    socket.on('message', (data: Buffer, isBinary: boolean) => {
+      this.touch();
+      if (!isBinary) {
+        this.handleText(data.toString());
+        return;
+      }
+      const ticks = parseKiteTicks(data);
+      if (ticks.length > 0) {
+        this.options.onTicks(ticks);
+      }
+    });
+
+    // The upgrade is refused with 403 when the access token is invalid or expired
+    socket.on('unexpected-response', (_request, response) => {
+      logger.warn({ status: response.statusCode }, 'Kite ticker refused the connection');
+      if (response.statusCode === 403) {
+        this.close();
+        this.options.onUnauthorized?.();
+      } else {
+        socket.terminate();
+      }
+    });
+
+    socket.on('error', (error) => {
+      logger.warn({ error }, 'Kite ticker error');
+    });
+
+    socket.on('close', () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.clearStaleTimer();
+      if (this.state !== 'closed') {
+        this.scheduleReconnect();
+      }
+    });
+  }
+
+  /**
+   * Stream instruments in a mode (quote unless given)
+   */
+  subscribe(tokens: number[], mode: KiteTickerMode = 'quote') {
+    tokens.forEach((token) => this.subscriptions.set(token, mode));
+    this.send({ a: 'subscribe', v: tokens });
+    this.send({ a: 'mode', v: [mode, tokens] });
+  }
+
+  unsubscribe(tokens: number[]) {
+    tokens.forEach((token) => this.subscriptions.delete(token));
+    this.send({ a: 'unsubscribe', v: tokens });
+  }
+
+  /**
+   * Switch subscribed instruments to another mode
+   */
+  setMode(mode: KiteTickerMode, tokens: number[]) {
+    const subscribed = tokens.filter((token) => this.subscriptions.has(token));
+    subscribed.forEach((token) => this.subscriptions.set(token, mode));
+    this.send({ a: 'mode', v: [mode, subscribed] });
+  }
+
+  getSubscriptions(): Map<number, KiteTickerMode> {
+    return new Map(this.subscriptions);
+  }
+
+  getState(): KiteTickerState {
+    return this.state;
+  }
+
+  /**
+   * Close for good; subscriptions are kept in case of a later connect()
+   */
+  close() {
+    this.setState('closed');
+    this.attempts = 0;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.clearStaleTimer();
+
+    const socket = this.socket;
+    this.socket = null;
+    socket?.removeAllListeners('close');
+    socket?.on('error', () => {});
+    socket?.terminate();
+  }
+
+  private resubscribe() {
+    const byMode = new Map<KiteTickerMode, number[]>();
+    for (const [token, mode] of this.subscriptions) {
+      byMode.set(mode, [...(byMode.get(mode) ?? []), token]);
+    }
+    for (const [mode, tokens] of byMode) {
+      this.send({ a: 'subscribe', v: tokens });
+      this.send({ a: 'mode', v: [mode, tokens] });
+    }
+  }
+
+  private send(message: { a: string; v: unknown }) {
+    // Requests made while disconnected are sent from the subscriptions on reconnect
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  private handleText(text: string) {
+    try {
+      const message = JSON.parse(text);
+      if (message.type === 'error') {
+        logger.warn({ message: message.data }, 'Kite ticker reported an error');
+      }
+    } catch (error) {
+      logger.warn({ error }, 'Unreadable Kite ticker message');
+    }
+  }
+
+  private scheduleReconnect() {
+    const base = this.options.reconnectDelayMs ?? 1000;
+    const delay = Math.min(base * 2 ** this.attempts, this.options.maxReconnectDelayMs ?? 30000);
+    this.attempts++;
+    this.setState('reconnecting');
+
+    logger.info({ attempt: this.attempts, delay }, 'Reconnecting to Kite ticker');
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  /**
+   * Kite sends a heartbeat every second; silence means the connection is dead
+   */
+  private touch() {
+    this.clearStaleTimer();
+    this.staleTimer = setTimeout(() => {
+      logger.warn('Kite ticker went quiet, reconnecting');
+      this.socket?.terminate();
+    }, this.options.staleTimeoutMs ?? 5000);
+  }
+
+  private clearStaleTimer() {
+    if (this.staleTimer) {
+      clearTimeout(this.staleTimer);
+      this.staleTimer = null;
+    }
+  }
+
+  private setState(state: KiteTickerState) {
+    if (this.state === state) return;
+    this.state = state;
+    this.options.onStateChange?.(state);
+  }
+}
@@ -0,0 +1,425 @@
+import { Candle, MarketQuote } from './base';
+
+/** Price process of one symbol; rates are annual */
+export interface PathConfig {
+  /** Price at the origin; a seeded price between 100 and 200 when omitted */
+  initialPrice?: number;
+  drift: number;
+  volatility: number;
+  spreadBps: number;
+  /** Poisson jumps with normally distributed log sizes (Merton) */
+  jumps?: { intensity: number; mean: number; stdDev: number };
+  /** Markov-switching volatility: the path stays in a regime for meanDurationHours on average */
+  regimes?: Array<{ volatilityMultiplier: number; meanDurationHours: number }>;
+  /** Pull of the log price towards a level (Ornstein-Uhlenbeck); the level defaults to the initial price */
+  meanReversion?: { speed: number; level?: number };
+  /** Volume per minute, U-shaped over the session (UTC hours) and light outside it */
+  volume: { perMinute: number; smile: number; sessionStartHour: number; sessionEndHour: number };
+}
+
+/** Settings to override; volume settings merge one by one */
+export type PathOverrides = Partial<Omit<PathConfig, 'volume'>> & { volume?: Partial<PathConfig['volume']> };
+
+export interface MarketGeneratorConfig extends PathConfig {
+  seed: number;
+  /** Where every path starts; paths extend both ways from here */
+  origin: Date;
+  /** Overrides per symbol */
+  symbols?: Record<string, PathOverrides>;
+}
+
+/** Generator settings to override the defaults with */
+export type MarketGeneratorOptions = Partial<Omit<MarketGeneratorConfig, 'volume'>> & PathOverrides;
+
+export const DEFAULT_GENERATOR_CONFIG: MarketGeneratorConfig = {
+  seed: 1,
+  origin: new Date('2024-01-01T00:00:00Z'),
+  drift: 0.05,
+  volatility: 0.3,
+  spreadBps: 10,
+  volume: { perMinute: 1000, smile: 2, sessionStartHour: 0, sessionEndHour: 24 },
+};
+
+const MINUTE_MS = 60 * 1000;
+const YEAR_MINUTES = 365 * 24 * 60;
+const DT = 1 / YEAR_MINUTES;
+/** Path states are kept once a day so any time is a short walk away */
+const CHECKPOINT_STEPS = 24 * 60;
+/** Share of session volume traded per minute outside the session */
+const OFF_SESSION_VOLUME = 0.05;
+
+// Independent random streams, so e.g. volume draws never shift the price path
+const STREAM = { initial: 1, step: 2, jump: 3, regime: 4, range: 5, volume: 6, bridge: 7 };
+
+interface PathState {
+  logPrice: number;
+  regime: number;
+}
+
+interface SymbolPath {
+  config: PathConfig & { initialPrice: number };
+  key: number;
+  checkpoints: Map<number, PathState>;
+}
+
+/** One minute of the path */
+interface MinuteBar {
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+/**
+ * Seeded, deterministic price paths: geometric Brownian motion per minute with
+ * optional jumps, volatility regimes and mean reversion. Every random draw is a
+ * hash of the seed, symbol and time, so the same seed gives the same quotes,
+ * ticks and candles in any order and on any machine. Within a minute, prices
+ * follow a Brownian bridge between the minute's open and close, kept inside
+ * its high and low.
+ */
+export class MarketGenerator {
+  private config: MarketGeneratorConfig;
+  private paths: Map<string, SymbolPath> = new Map();
+  private bridges: Map<string, { minute: number; logPrices: number[] }> = new Map();
+  private dayVolumes: Map<string, { day: number; minute: number; total: number }> = new Map();
+
+  constructor(config: MarketGeneratorOptions = {}) {
+    this.config = {
+      ...DEFAULT_GENERATOR_CONFIG,
+      ...config,
+      volume: { ...DEFAULT_GENERATOR_CONFIG.volume, ...config.volume },
+    };
+  }
+
+  /**
+   * Quote at a time, to the second
+   */
+  quote(symbol: string, time: Date): MarketQuote {
+    const path = this.path(symbol);
+    const minute = this.minuteIndex(time);
+    const second = Math.floor((time.getTime() - this.minuteStart(minute)) / 1000);
+    const price = Math.exp(this.bridge(symbol, minute)[second]);
+    const state = this.stateAt(path, minute);
+    const halfSpread = (price * path.config.spreadBps * this.regimeMultiplier(path, state)) / 20000;
+
+    return {
+      symbol,
+      bid: price - halfSpread,
+      ask: price + halfSpread,
+      last: price,
+      volume: this.cumulativeVolume(symbol, minute, second / 60),
+      timestamp: new Date(this.minuteStart(minute) + second * 1000),
+    };
+  }
+
+  /**
+   * Candles of the intervals (multiples of a minute) from the one containing
+   * `from` up to `to`; a candle still open at `to` ends at its price then
+   */
+  candles(symbol: string, from: Date, to: Date, intervalMs: number): Candle[] {
+    const path = this.path(symbol);
+    const minutesPerCandle = Math.max(1, Math.round(intervalMs / MINUTE_MS));
+    const first = Math.floor(from.getTime() / intervalMs) * intervalMs;
+    const end = to.getTime();
+    const candles: Candle[] = [];
+
+    let minute = this.minuteIndex(new Date(first));
+    let state = this.stateAt(path, minute);
+
+    for (let start = first; start < end; start += intervalMs) {
+      let candle: Candle | null = null;
+
+      for (let i = 0; i < minutesPerCandle && this.minuteStart(minute) < end; i++, minute++) {
+        const next = this.forward(path, minute, state);
+        const bar =
+          this.minuteStart(minute + 1) > end
+            ? this.partialBar(symbol, minute, end)
+            : this.minuteBar(path, minute, state, next);
+        state = next;
+
+        if (!candle) {
+          const { open, high, low, close, volume } = bar;
+          candle = { symbol, timestamp: new Date(start), open, high, low, close, volume };
+        } else {
+          candle.high = Math.max(candle.high, bar.high);
+          candle.low = Math.min(candle.low, bar.low);
+          candle.close = bar.close;
+          candle.volume += bar.volume;
+        }
+      }
+      candles.push(candle!);
+    }
+
+    return candles;
+  }
+
+  private path(symbol: string): SymbolPath {
+    let path = this.paths.get(symbol);
+    if (!path) {
+      const key = hashString(symbol);
+      const overrides = this.config.symbols?.[symbol] ?? {};
+      const initialPrice =
+        overrides.initialPrice ?? this.config.initialPrice ?? 100 + 100 * this.uniform(key, STREAM.initial, 0, 0);
+      const config = {
+        ...this.config,
+        ...overrides,
+        volume: { ...this.config.volume, ...overrides.volume },
+        initialPrice,
+      };
+
+      path = { config, key, checkpoints: new Map([[0, { logPrice: Math.log(initialPrice), regime: 0 }]]) };
+      this.paths.set(symbol, path);
+    }
+    return path;
+  }
+
+  /**
+   * Path state at the start of a minute, walking from the nearest daily checkpoint
+   */
+  private stateAt(path: SymbolPath, minute: number): PathState {
+    const checkpoint =
+      minute >= 0
+        ? Math.floor(minute / CHECKPOINT_STEPS) * CHECKPOINT_STEPS
+        : Math.ceil(minute / CHECKPOINT_STEPS) * CHECKPOINT_STEPS;
+    let state = this.checkpoint(path, checkpoint);
+
+    if (minute >= checkpoint) {
+      for (let step = checkpoint; step < minute; step++) state = this.forward(path, step, state);
+    } else {
+      for (let step = checkpoint - 1; step >= minute; step--) state = this.backward(path, step, state);
+    }
+    return state;
+  }
+
+  private checkpoint(path: SymbolPath, checkpoint: number): PathState {
+    const cached = path.checkpoints.get(checkpoint);
+    if (cached) return cached;
+
+    // Walk out from the nearest checkpoint towards the origin, keeping each one passed
+    const direction = checkpoint > 0 ? 1 : -1;
+    let at = checkpoint - direction * CHECKPOINT_STEPS;
+    while (!path.checkpoints.has(at)) at -= direction * CHECKPOINT_STEPS;
+
+    let state = path.checkpoints.get(at)!;
+    while (at !== checkpoint) {
+      if (direction > 0) {
+        for (let step = at; step < at + CHECKPOINT_STEPS; step++) state = this.forward(path, step, state);
+      } else {
+        for (let step = at - 1; step >= at - CHECKPOINT_STEPS; step--) state = this.backward(path, step, state);
+      }
+      at += direction * CHECKPOINT_STEPS;
+      path.checkpoints.set(at, state);
+    }
+    return state;
+  }
+
+  /**
+   * State at the end of a minute, given the state at its start
+   */
+  private forward(path: SymbolPath, minute: number, state: PathState): PathState {
+    return {
+      logPrice: state.logPrice + this.increment(path, minute, state),
+      regime: this.nextRegime(path, minute, state.regime),
+    };
+  }
+
+  /**
+   * State at the start of a minute, given the state at its end
+   */
+  private backward(path: SymbolPath, minute: number, state: PathState): PathState {
+    const regime = this.nextRegime(path, minute, state.regime);
+    return { logPrice: state.logPrice - this.increment(path, minute, { ...state, regime }), regime };
+  }
+
+  /**
+   * Change of log price over a minute: drift, diffusion, reversion and jumps
+   */
+  private increment(path: SymbolPath, minute: number, state: PathState): number {
+    const { config, key } = path;
+    const sigma = config.volatility * this.regimeMultiplier(path, state);
+    let drift = config.drift - (sigma * sigma) / 2;
+
+    if (config.meanReversion) {
+      const level = Math.log(config.meanReversion.level ?? config.initialPrice);
+      drift += config.meanReversion.speed * (level - state.logPrice);
+    }
+
+    let change = drift * DT + sigma * Math.sqrt(DT) * this.normal(key, STREAM.step, minute);
+
+    if (config.jumps && this.uniform(key, STREAM.jump, minute, 0) < config.jumps.intensity * DT) {
+      change += config.jumps.mean + config.jumps.stdDev * this.normal(key, STREAM.jump, minute, 1);
+    }
+    return change;
+  }
+
+  private nextRegime(path: SymbolPath, minute: number, regime: number): number {
+    const regimes = path.config.regimes;
+    if (!regimes || regimes.length < 2) return regime;
+
+    const leaveProbability = 1 / (regimes[regime].meanDurationHours * 60);
+    if (this.uniform(path.key, STREAM.regime, minute, 0) >= leaveProbability) return regime;
+
+    // Move to one of the other regimes with equal odds
+    const offset = 1 + Math.floor(this.uniform(path.key, STREAM.regime, minute, 1) * (regimes.length - 1));
+    return (regime + offset) % regimes.length;
+  }
+
+  /**
+   * Variance of the log price's diffusion over one minute
+   */
+  private minuteVariance(path: SymbolPath, state: PathState): number {
+    const sigma = path.config.volatility * this.regimeMultiplier(path, state);
+    return sigma * sigma * DT;
+  }
+
+  private regimeMultiplier(path: SymbolPath, state: PathState): number {
+    return path.config.regimes?.[state.regime]?.volatilityMultiplier ?? 1;
+  }
+
+  /**
+   * Open, close and volume of a minute, with the high and low drawn from the
+   * distribution of a Brownian bridge's extremes between open and close
+   */
+  private minuteBar(path: SymbolPath, minute: number, start: PathState, end: PathState): MinuteBar {
+    const variance = this.minuteVariance(path, start);
+    const a = start.logPrice;
+    const b = end.logPrice;
+    const spread = (b - a) * (b - a);
+    const up = Math.sqrt(spread - 2 * variance * Math.log(this.uniform(path.key, STREAM.range, minute, 0)));
+    const down = Math.sqrt(spread - 2 * variance * Math.log(this.uniform(path.key, STREAM.range, minute, 1)));
+
+    return {
+      open: Math.exp(a),
+      high: Math.exp((a + b + up) / 2),
+      low: Math.exp((a + b - down) / 2),
+      close: Math.exp(b),
+      volume: this.minuteVolume(path, minute),
+    };
+  }
+
+  /**
+   * The part of a minute before a time, from the prices quoted each second
+   */
+  private partialBar(symbol: string, minute: number, until: number): MinuteBar {
+    const second = Math.floor((until - this.minuteStart(minute)) / 1000);
+    const prices = this.bridge(symbol, minute)
+      .slice(0, second + 1)
+      .map((logPrice) => Math.exp(logPrice));
+
+    return {
+      open: prices[0],
+      high: Math.max(...prices),
+      low: Math.min(...prices),
+      close: prices[second],
+      volume: Math.round((this.minuteVolume(this.path(symbol), minute) * second) / 60),
+    };
+  }
+
+  /**
+   * Log prices at each second of a minute (index 0 is the open, 60 the close)
+   */
+  private bridge(symbol: string, minute: number): number[] {
+    const cached = this.bridges.get(symbol);
+    if (cached?.minute === minute) return cached.logPrices;
+
+    const path = this.path(symbol);
+    const start = this.stateAt(path, minute);
+    const end = this.forward(path, minute, start);
+    const bar = this.minuteBar(path, minute, start, end);
+    const [low, high] = [Math.log(bar.low), Math.log(bar.high)];
+
+    // A random walk over the minute, pinned to the open and close
+    const walk = [0];
+    const stepDeviation = Math.sqrt(this.minuteVariance(path, start) / 60);
+    for (let second = 1; second <= 60; second++) {
+      walk.push(walk[second - 1] + stepDeviation * this.normal(path.key, STREAM.bridge, minute, second));
+    }
+    const logPrices = walk.map((value, second) => {
+      const pinned = start.logPrice + value - (second / 60) * (walk[60] - (end.logPrice - start.logPrice));
+      return Math.min(high, Math.max(low, pinned));
+    });
+
+    this.bridges.set(symbol, { minute, logPrices });
+    return logPrices;
+  }
+
+  private minuteVolume(path: SymbolPath, minute: number): number {
+    const { perMinute, smile, sessionStartHour, sessionEndHour } = path.config.volume;
+    const hour = (((this.minuteStart(minute) % 86400000) + 86400000) % 86400000) / 3600000;
+
+    let shape = OFF_SESSION_VOLUME;
+    if (hour >= sessionStartHour && hour < sessionEndHour) {
+      const x = (hour - sessionStartHour) / (sessionEndHour - sessionStartHour);
+      shape = 1 + smile * (2 * x - 1) * (2 * x - 1);
+    }
+    // Log-normal noise with a mean of one
+    const noise = Math.exp(0.5 * this.normal(path.key, STREAM.volume, minute) - 0.125);
+    return Math.round(perMinute * shape * noise);
+  }
+
+  /**
+   * Volume since midnight UTC, as live feeds report it
+   */
+  private cumulativeVolume(symbol: string, minute: number, fraction: number): number {
+    const path = this.path(symbol);
+    const day = Math.floor(this.minuteStart(minute) / 86400000);
+    const dayStart = this.minuteIndex(new Date(day * 86400000));
+
+    let cached = this.dayVolumes.get(symbol);
+    if (!cached || cached.day !== day || cached.minute > minute) {
+      cached = { day, minute: dayStart, total: 0 };
+    }
+    for (; cached.minute < minute; cached.minute++) {
+      cached.total += this.minuteVolume(path, cached.minute);
+    }
+    this.dayVolumes.set(symbol, cached);
+
+    return cached.total + Math.round(this.minuteVolume(path, minute) * fraction);
+  }
+
+  private minuteIndex(time: Date): number {
+    return Math.floor((time.getTime() - this.config.origin.getTime()) / MINUTE_MS);
+  }
+
+  private minuteStart(minute: number): number {
+    return this.config.origin.getTime() + minute * MINUTE_MS;
+  }
+
+  /** Uniform in (0, 1) */
+  private uniform(key: number, stream: number, index: number, draw: number): number {
+    return (hash([this.config.seed, key, stream, index, draw]) + 0.5) / 4294967296;
+  }
+
+  /** Standard normal (Box-Muller) */
+  private normal(key: number, stream: number, index: number, draw = 0): number {
+    const u1 = this.uniform(key, stream, index, draw * 2);
+    const u2 = this.uniform(key, stream, index, draw * 2 + 1);
+    return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+  }
+}
+
+/**
+ * 32-bit hash of integers (murmur3 finalizer per value)
+ */
+function hash(values: number[]): number {
+  let h = 0x811c9dc5;
+  for (const value of values) {
+    h = Math.imul(h ^ (value | 0), 0x9e3779b1);
+    h ^= h >>> 16;
+    h = Math.imul(h, 0x85ebca6b);
+    h ^= h >>> 13;
+    h = Math.imul(h, 0xc2b2ae35);
+    h ^= h >>> 16;
+  }
+  return h >>> 0;
+}
+
+function hashString(value: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h = Math.imul(h ^ value.charCodeAt(i), 0x01000193);
+  }
+  return h >>> 0;
+}
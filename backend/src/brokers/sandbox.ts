@@ -1,46 +1,187 @@
-import { Broker, MarketQuote, Candle, OrderRequest, OrderResponse, Position } from './base';
+import {
+  Broker,
+  BrokerOrder,
+  MarketQuote,
+  Candle,
+  OrderRequest,
+  OrderResponse,
+  OrderFill,
+  OrderBook,
+  OrderBookLevel,
+  OrderGroupRole,
+  Position,
+} from './base';
+import { randomUUID } from 'crypto';
 import { logger } from '../utils/logger';
+import { CommissionModel, Liquidity, SlippageModel, createCommissionModel, createSlippageModel } from './costModels';
+import { SandboxMarket, QuoteListener } from './sandboxMarket';
+
+export const DEFAULT_STARTING_CASH = 100000;
+
+export interface SandboxOptions {
+  /** Number of simulated price levels on each side of the book */
+  bookDepth?: number;
+  /** Quantity resting at the best level; deeper levels hold proportionally more */
+  levelSize?: number;
+  /** Market to trade against; accounts sharing a market see the same prices */
+  market?: SandboxMarket;
+  /** Cash the account starts with */
+  startingCash?: number;
+  /** Current time for fills and order expiry; backtests replay simulated time */
+  clock?: () => Date;
+}
+
+/**
+ * Cost models applied to an order's fills, chosen from the user's broker profile
+ */
+export interface SandboxCosts {
+  commissionModel?: CommissionModel;
+  slippageModel?: SlippageModel;
+  /** 30-day traded notional, used by volume-tiered commission models */
+  tradedVolume?: number;
+}
+
+type SandboxOrder = OrderResponse & {
+  request: OrderRequest;
+  fills: OrderFill[];
+  costs: Required<SandboxCosts>;
+  /** Stop-type orders only become executable once their stop price is hit */
+  triggered: boolean;
+  /** Best price seen since placement (highest for sells, lowest for buys), for trailing stops */
+  waterMark?: number;
+  expiresAt?: Date;
+  group?: SandboxOrderGroup;
+};
+
+export interface SandboxOrderGroup {
+  id: string;
+  role: OrderGroupRole;
+  /** Entry order a bracket exit waits for */
+  parentId?: string;
+}
+
+export type ExecutionListener = (order: OrderResponse, fill: OrderFill) => void;
+
+/**
+ * Notified when an order changes status without a fill being the cause: expiry,
+ * IOC/FOK and one-cancels-other cancellations, and bracket exits activating
+ */
+export type OrderUpdateListener = (order: OrderResponse) => void;
+
+export interface SandboxAccountSummary {
+  cash: number;
+  /** Cash committed to working buy orders */
+  reservedCash: number;
+  buyingPower: number;
+  positionsValue: number;
+  equity: number;
+}
+
+/**
+ * Persisted account state used to rebuild an account after a restart
+ */
+export interface SandboxAccountState {
+  cash: number;
+  positions: Array<{ symbol: string; quantity: number; averagePrice: number }>;
+  orders: Array<{
+    orderId: string;
+    request: OrderRequest;
+    status: OrderResponse['status'];
+    filledQuantity?: number;
+    averagePrice?: number;
+    group?: SandboxOrderGroup;
+    /** Day orders expire at the end of the day they were placed */
+    createdAt?: Date;
+  }>;
+}
 
 /**
  * Sandbox Paper Trading Engine
- * Simulates order matching at best bid/ask from incoming market ticks
+ * Simulates order matching against a multi-level book built around incoming market ticks.
+ * Orders consume liquidity level by level, so large orders walk the book and may fill
+ * partially until the book is replenished by the next tick.
+ *
+ * Each instance is one paper account with its own cash, positions and orders;
+ * prices come from a SandboxMarket that may be shared between accounts.
  */
 export class SandboxBroker implements Broker {
   name = 'sandbox';
-  private marketData: Map<string, MarketQuote> = new Map();
-  private orders: Map<string, OrderResponse & { request: OrderRequest }> = new Map();
+  readonly market: SandboxMarket;
+  private books: Map<string, OrderBook> = new Map();
+  private orders: Map<string, SandboxOrder> = new Map();
   private positions: Map<string, Position> = new Map();
-  private orderIdCounter = 1;
-
-  constructor() {
-    // Initialize with some default market data
-    this.initializeDefaultMarketData();
-  }
-
-  private initializeDefaultMarketData() {
-    const defaultSymbols = ['AAPL', 'GOOGL', 'MSFT', 'TSLA', 'BTCUSDT', 'ETHUSDT'];
-    defaultSymbols.forEach((symbol) => {
-      const basePrice = 100 + Math.random() * 100;
-      this.marketData.set(symbol, {
-        symbol,
-        bid: basePrice - 0.1,
-        ask: basePrice + 0.1,
-        last: basePrice,
-        volume: Math.floor(Math.random() * 1000000),
-        timestamp: new Date(),
-      });
-    });
+  private executionListeners: ExecutionListener[] = [];
+  private orderUpdateListeners: OrderUpdateListener[] = [];
+  private feeds: Map<string, QuoteListener> = new Map();
+  private detachMarket: () => void;
+  private bookDepth: number;
+  private levelSize: number;
+  private cash: number;
+  private clock: () => Date;
+
+  constructor(options: SandboxOptions = {}) {
+    this.bookDepth = options.bookDepth ?? 5;
+    this.levelSize = options.levelSize ?? 100;
+    this.cash = options.startingCash ?? DEFAULT_STARTING_CASH;
+    this.market = options.market ?? new SandboxMarket();
+    this.clock = options.clock ?? (() => new Date());
+    this.detachMarket = this.market.onQuote((quote) => this.onMarketData(quote));
+  }
+
+  /**
+   * Stop receiving market data, e.g. when the account is reset and replaced
+   */
+  dispose() {
+    this.detachMarket();
+    this.unsubscribeFromMarketData(Array.from(this.feeds.keys()));
+  }
+
+  /**
+   * Register a listener that is notified of every fill, including fills
+   * triggered later by market data updates
+   */
+  onExecution(listener: ExecutionListener) {
+    this.executionListeners.push(listener);
+  }
+
+  onOrderUpdate(listener: OrderUpdateListener) {
+    this.orderUpdateListeners.push(listener);
   }
 
   updateMarketData(quote: MarketQuote) {
-    this.marketData.set(quote.symbol, quote);
+    this.market.update(quote);
+  }
+
+  private onMarketData(quote: MarketQuote) {
+    // Each tick replenishes the simulated book around the new quote
+    this.books.set(quote.symbol, this.buildOrderBook(quote));
     this.processPendingOrders(quote);
   }
 
+  getOrderBook(symbol: string): OrderBook | undefined {
+    return this.books.get(symbol);
+  }
+
+  private buildOrderBook(quote: MarketQuote): OrderBook {
+    const spacing = Math.max(0.01, (quote.ask - quote.bid) / 2);
+    const bids: OrderBookLevel[] = [];
+    const asks: OrderBookLevel[] = [];
+
+    for (let level = 0; level < this.bookDepth; level++) {
+      const quantity = this.levelSize * (level + 1);
+      bids.push({ price: quote.bid - spacing * level, quantity });
+      asks.push({ price: quote.ask + spacing * level, quantity });
+    }
+
+    return { symbol: quote.symbol, bids, asks, timestamp: quote.timestamp };
+  }
+
   private processPendingOrders(quote: MarketQuote) {
-    // Process pending orders that can be filled
-    for (const [orderId, order] of this.orders.entries()) {
-      if (order.status !== 'pending' && order.status !== 'open') {
+    const now = this.clock();
+
+    // Process working orders that can be filled, in time priority
+    for (const order of this.orders.values()) {
+      if (!this.isWorking(order)) {
         continue;
       }
 
@@ -48,53 +189,315 @@ export class SandboxBroker implements Broker {
         continue;
       }
 
-      // Market orders - fill immediately
-      if (order.request.type === 'market') {
-        this.fillOrder(orderId, quote);
+      if (this.expireIfDue(order, now)) {
         continue;
       }
 
-      // Limit orders
-      if (order.request.type === 'limit' && order.request.price) {
-        if (order.request.side === 'buy' && quote.ask <= order.request.price) {
-          this.fillOrder(orderId, quote);
-        } else if (order.request.side === 'sell' && quote.bid >= order.request.price) {
-          this.fillOrder(orderId, quote);
-        }
+      this.matchOrder(order, quote, false);
+    }
+  }
+
+  /**
+   * Trigger stop-type orders and execute whatever crosses the quote.
+   * `arriving` marks an order's first match attempt (placement or amend), where
+   * marketable limit orders take liquidity instead of being hit as resting orders.
+   */
+  private matchOrder(order: SandboxOrder, quote: MarketQuote, arriving: boolean) {
+    const { request } = order;
+    let liquidity: Liquidity = arriving ? 'taker' : 'maker';
+    let activated = arriving;
+
+    if (!order.triggered) {
+      if (!this.checkTrigger(order, quote)) {
+        return;
       }
+      order.triggered = true;
+      liquidity = 'taker';
+      activated = true;
+      logger.info({ orderId: order.orderId, symbol: request.symbol, last: quote.last }, 'Sandbox stop triggered');
+    }
 
-      // Stop orders
-      if (order.request.type === 'stop' && order.request.stopPrice) {
-        if (order.request.side === 'buy' && quote.last >= order.request.stopPrice) {
-          // Convert stop to market order
-          order.request.type = 'market';
-          this.fillOrder(orderId, quote);
-        } else if (order.request.side === 'sell' && quote.last <= order.request.stopPrice) {
-          order.request.type = 'market';
-          this.fillOrder(orderId, quote);
-        }
+    const limitPrice = this.getLimitPrice(order);
+    const crosses =
+      limitPrice === undefined ||
+      (request.side === 'buy' ? quote.ask <= limitPrice : quote.bid >= limitPrice);
+
+    if (crosses) {
+      if (request.timeInForce === 'fok' && this.availableLiquidity(order, quote) < this.remainingQuantity(order)) {
+        this.endOrder(order, 'cancelled', 'Fill-or-kill order could not be filled completely');
+        return;
       }
+      this.fillOrder(order, quote, limitPrice === undefined ? 'taker' : liquidity);
+    }
+
+    // Immediate-or-cancel orders get a single attempt once they become active
+    if (activated && this.isWorking(order) && (request.timeInForce === 'ioc' || request.timeInForce === 'fok')) {
+      this.endOrder(order, 'cancelled', 'Unfilled quantity cancelled (immediate-or-cancel)');
     }
   }
 
-  private fillOrder(orderId: string, quote: MarketQuote) {
-    const order = this.orders.get(orderId);
-    if (!order) return;
+  /**
+   * Whether a stop-type order's trigger condition is met. Trailing stops first
+   * move their water mark, then compare against the stop trailing it.
+   */
+  private checkTrigger(order: SandboxOrder, quote: MarketQuote): boolean {
+    const { request } = order;
+
+    if (request.type === 'trailing_stop') {
+      const stopPrice = this.updateTrailingStop(order, quote.last);
+      return request.side === 'sell' ? quote.last <= stopPrice : quote.last >= stopPrice;
+    }
+
+    if (request.stopPrice === undefined) {
+      return true;
+    }
+    return request.side === 'buy' ? quote.last >= request.stopPrice : quote.last <= request.stopPrice;
+  }
+
+  private updateTrailingStop(order: SandboxOrder, last: number): number {
+    const { request } = order;
+    const sell = request.side === 'sell';
+
+    if (order.waterMark === undefined) {
+      order.waterMark = last;
+    } else {
+      order.waterMark = sell ? Math.max(order.waterMark, last) : Math.min(order.waterMark, last);
+    }
+
+    const distance =
+      request.trailPercent !== undefined ? (order.waterMark * request.trailPercent) / 100 : request.trailAmount ?? 0;
+    return sell ? order.waterMark - distance : order.waterMark + distance;
+  }
+
+  private getLimitPrice(order: SandboxOrder): number | undefined {
+    const { type, price } = order.request;
+    return type === 'limit' || type === 'stop_limit' ? price : undefined;
+  }
+
+  private remainingQuantity(order: SandboxOrder): number {
+    return order.request.quantity - (order.filledQuantity || 0);
+  }
+
+  /**
+   * Quantity the current book could execute for the order within its limit price
+   */
+  private availableLiquidity(order: SandboxOrder, quote: MarketQuote): number {
+    const book = this.getBook(quote);
+    const { side } = order.request;
+    const limitPrice = this.getLimitPrice(order);
+
+    let available = 0;
+    for (const level of side === 'buy' ? book.asks : book.bids) {
+      if (limitPrice !== undefined && (side === 'buy' ? level.price > limitPrice : level.price < limitPrice)) {
+        break;
+      }
+      available += level.quantity;
+    }
+    return available;
+  }
+
+  private getBook(quote: MarketQuote): OrderBook {
+    let book = this.books.get(quote.symbol);
+    if (!book) {
+      book = this.buildOrderBook(quote);
+      this.books.set(quote.symbol, book);
+    }
+    return book;
+  }
+
+  /**
+   * Walk the opposite side of the book, consuming liquidity until the order
+   * is complete, the book is exhausted or the limit price is reached
+   */
+  private fillOrder(order: SandboxOrder, quote: MarketQuote, liquidity: Liquidity) {
+    const book = this.getBook(quote);
+    const { request } = order;
+    const levels = request.side === 'buy' ? book.asks : book.bids;
+    const limitPrice = this.getLimitPrice(order);
+    let remaining = this.remainingQuantity(order);
+
+    for (const level of levels) {
+      if (remaining <= 0) break;
+      if (level.quantity <= 0) continue;
+
+      if (limitPrice !== undefined) {
+        const crosses = request.side === 'buy' ? level.price <= limitPrice : level.price >= limitPrice;
+        if (!crosses) break;
+      }
+
+      const quantity = Math.min(remaining, level.quantity);
+      level.quantity -= quantity;
+      remaining -= quantity;
+
+      let price = order.costs.slippageModel.apply({
+        side: request.side,
+        quantity,
+        price: level.price,
+        volatility: this.market.getVolatility(quote.symbol),
+        volume: quote.volume,
+      });
+
+      // Slippage never pushes a limit order through its limit
+      if (limitPrice !== undefined) {
+        price = request.side === 'buy' ? Math.min(price, limitPrice) : Math.max(price, limitPrice);
+      }
+
+      this.recordFill(order, quantity, price, liquidity);
+    }
+  }
+
+  /**
+   * Expire orders whose time in force has run out. Runs on every tick for the
+   * order's symbol; call it periodically so quiet symbols expire too.
+   */
+  expireOrders(now: Date = this.clock()) {
+    for (const order of this.orders.values()) {
+      if (this.isWorking(order)) {
+        this.expireIfDue(order, now);
+      }
+    }
+  }
+
+  private expireIfDue(order: SandboxOrder, now: Date): boolean {
+    if (!order.expiresAt || now < order.expiresAt) {
+      return false;
+    }
+    this.endOrder(order, 'expired', `Order expired (${order.request.timeInForce})`);
+    return true;
+  }
+
+  private endOrder(order: SandboxOrder, status: 'cancelled' | 'expired', reason: string) {
+    order.status = status;
+    logger.info({ orderId: order.orderId, symbol: order.request.symbol, reason }, `Sandbox order ${status}`);
+    this.notifyOrderUpdate(order);
+    this.releaseChildren(order);
+  }
 
-    const fillPrice = order.request.side === 'buy' ? quote.ask : quote.bid;
-    const filledQuantity = order.request.quantity;
+  private notifyOrderUpdate(order: SandboxOrder) {
+    const snapshot = this.toResponse(order);
+    for (const listener of this.orderUpdateListeners) {
+      try {
+        listener(snapshot);
+      } catch (error) {
+        logger.error({ error, orderId: order.orderId }, 'Sandbox order update listener failed');
+      }
+    }
+  }
 
-    order.status = 'filled';
+  private recordFill(order: SandboxOrder, quantity: number, price: number, liquidity: Liquidity) {
+    const previousQuantity = order.filledQuantity || 0;
+    const filledQuantity = previousQuantity + quantity;
+
+    const fee = order.costs.commissionModel.calculate({
+      side: order.request.side,
+      quantity,
+      price,
+      liquidity,
+      orderFilledQuantity: previousQuantity,
+      orderFilledNotional: previousQuantity * (order.averagePrice || 0),
+      tradedVolume: order.costs.tradedVolume,
+    });
+
+    // Volume-weighted average across all fills
+    order.averagePrice = ((order.averagePrice || 0) * previousQuantity + price * quantity) / filledQuantity;
     order.filledQuantity = filledQuantity;
-    order.averagePrice = fillPrice;
+    order.status = filledQuantity >= order.request.quantity ? 'filled' : 'partially_filled';
+
+    const fill: OrderFill = {
+      tradeId: randomUUID(),
+      quantity,
+      price,
+      fee,
+      liquidity,
+      timestamp: this.clock(),
+    };
+    order.fills.push(fill);
 
-    // Update position
-    this.updatePosition(order.request.symbol, order.request.side, filledQuantity, fillPrice);
+    // Update position and cash
+    this.updatePosition(order.request.symbol, order.request.side, quantity, price);
+    this.cash += order.request.side === 'buy' ? -(quantity * price + fee) : quantity * price - fee;
 
     logger.info(
-      { orderId, symbol: order.request.symbol, side: order.request.side, fillPrice, filledQuantity },
+      {
+        orderId: order.orderId,
+        symbol: order.request.symbol,
+        side: order.request.side,
+        fillPrice: price,
+        fillQuantity: quantity,
+        fee,
+        filledQuantity,
+        status: order.status,
+      },
       'Sandbox order filled'
     );
+
+    const snapshot = this.toResponse(order);
+    for (const listener of this.executionListeners) {
+      try {
+        listener(snapshot, fill);
+      } catch (error) {
+        logger.error({ error, orderId: order.orderId }, 'Sandbox execution listener failed');
+      }
+    }
+
+    this.resolveGroup(order);
+  }
+
+  private groupMembers(order: SandboxOrder): SandboxOrder[] {
+    const groupId = order.group?.id;
+    if (!groupId) return [];
+    return Array.from(this.orders.values()).filter(
+      (candidate) => candidate.group?.id === groupId && candidate.orderId !== order.orderId
+    );
+  }
+
+  private isSameOrGroup(candidate: SandboxOrder, order: SandboxOrder): boolean {
+    return candidate.orderId === order.orderId || (!!order.group && candidate.group?.id === order.group.id);
+  }
+
+  /**
+   * A filled bracket entry activates its exits; the first execution of an exit
+   * or OCO leg cancels the alternatives
+   */
+  private resolveGroup(order: SandboxOrder) {
+    if (!order.group) return;
+
+    if (order.group.role === 'entry') {
+      if (order.status === 'filled') {
+        this.releaseChildren(order);
+      }
+      return;
+    }
+
+    for (const sibling of this.groupMembers(order)) {
+      if (sibling.group?.role !== 'entry' && (this.isWorking(sibling) || sibling.status === 'held')) {
+        this.endOrder(sibling, 'cancelled', 'One-cancels-other: sibling order executed');
+      }
+    }
+  }
+
+  /**
+   * Activate or cancel the held exits of a bracket entry that is done. Exits of an
+   * entry that ended partially filled cover the filled quantity only.
+   */
+  private releaseChildren(entry: SandboxOrder) {
+    if (entry.group?.role !== 'entry' || this.isWorking(entry)) return;
+
+    const filled = entry.filledQuantity || 0;
+    for (const child of this.groupMembers(entry)) {
+      if (child.group?.parentId !== entry.orderId || child.status !== 'held') continue;
+
+      if (filled <= 0) {
+        this.endOrder(child, 'cancelled', 'Bracket entry did not fill');
+        continue;
+      }
+
+      child.request = { ...child.request, quantity: Math.min(child.request.quantity, filled) };
+      child.status = 'open';
+      logger.info({ orderId: child.orderId, role: child.group.role }, 'Sandbox bracket exit activated');
+      this.notifyOrderUpdate(child);
+      this.matchOrder(child, this.market.getQuote(child.request.symbol), true);
+    }
   }
 
   private updatePosition(symbol: string, side: 'buy' | 'sell', quantity: number, price: number) {
@@ -126,20 +529,7 @@ export class SandboxBroker implements Broker {
   }
 
   async getQuote(symbol: string): Promise<MarketQuote> {
-    const quote = this.marketData.get(symbol);
-    if (!quote) {
-      // Generate random quote if not found
-      const basePrice = 100 + Math.random() * 100;
-      return {
-        symbol,
-        bid: basePrice - 0.1,
-        ask: basePrice + 0.1,
-        last: basePrice,
-        volume: Math.floor(Math.random() * 1000000),
-        timestamp: new Date(),
-      };
-    }
-    return quote;
+    return this.market.getQuote(symbol);
   }
 
   async getCandles(
@@ -148,96 +538,383 @@ export class SandboxBroker implements Broker {
     to: Date,
     interval: string
   ): Promise<Candle[]> {
-    // Generate mock candles
-    const candles: Candle[] = [];
-    const intervalMs = this.getIntervalMs(interval);
-    let current = new Date(from);
-
-    while (current <= to) {
-      const basePrice = 100 + Math.random() * 100;
-      const open = basePrice;
-      const close = basePrice + (Math.random() - 0.5) * 10;
-      const high = Math.max(open, close) + Math.random() * 5;
-      const low = Math.min(open, close) - Math.random() * 5;
-
-      candles.push({
-        symbol,
-        timestamp: new Date(current),
-        open,
-        high,
-        low,
-        close,
-        volume: Math.floor(Math.random() * 1000000),
-      });
+    return this.market.getCandles(symbol, from, to, interval);
+  }
+
+  async placeOrder(order: OrderRequest, costs: SandboxCosts = {}): Promise<OrderResponse> {
+    const quote = await this.getQuote(order.symbol);
+    const orderResponse = this.createOrder(order, costs);
 
-      current = new Date(current.getTime() + intervalMs);
+    const rejectReason = this.checkBuyingPower(order, quote);
+    if (rejectReason) {
+      this.reject([orderResponse], rejectReason);
+      return this.toResponse(orderResponse);
     }
 
-    return candles;
+    this.orders.set(orderResponse.orderId, orderResponse);
+    this.tryImmediateFill(orderResponse, quote);
+
+    return this.toResponse(orderResponse);
   }
 
-  private getIntervalMs(interval: string): number {
-    const map: Record<string, number> = {
-      '1m': 60 * 1000,
-      '5m': 5 * 60 * 1000,
-      '15m': 15 * 60 * 1000,
-      '30m': 30 * 60 * 1000,
-      '1h': 60 * 60 * 1000,
-      '4h': 4 * 60 * 60 * 1000,
-      '1d': 24 * 60 * 60 * 1000,
-    };
-    return map[interval] || 60 * 60 * 1000;
+  /**
+   * Place an entry with take-profit and stop-loss exits. The exits are held
+   * until the entry fills, then work as one-cancels-other.
+   * Returns the entry, take-profit and stop-loss orders in that order.
+   */
+  async placeBracket(
+    entry: OrderRequest,
+    takeProfit: OrderRequest,
+    stopLoss: OrderRequest,
+    costs: SandboxCosts = {}
+  ): Promise<OrderResponse[]> {
+    const quote = await this.getQuote(entry.symbol);
+    const groupId = randomUUID();
+
+    const entryOrder = this.createOrder(entry, costs, { id: groupId, role: 'entry' });
+    const exits = [
+      this.createOrder(takeProfit, costs, { id: groupId, role: 'take_profit', parentId: entryOrder.orderId }),
+      this.createOrder(stopLoss, costs, { id: groupId, role: 'stop_loss', parentId: entryOrder.orderId }),
+    ];
+    const group = [entryOrder, ...exits];
+
+    const rejectReason = this.checkBuyingPower(entry, quote);
+    if (rejectReason) {
+      this.reject(group, rejectReason);
+      return group.map((order) => this.toResponse(order));
+    }
+
+    for (const order of group) {
+      this.orders.set(order.orderId, order);
+    }
+    exits.forEach((exit) => (exit.status = 'held'));
+    this.tryImmediateFill(entryOrder, quote);
+
+    return group.map((order) => this.toResponse(order));
   }
 
-  async placeOrder(order: OrderRequest): Promise<OrderResponse> {
-    const orderId = `SANDBOX-${this.orderIdCounter++}`;
-    const quote = await this.getQuote(order.symbol);
+  /**
+   * Place one-cancels-other legs: the first execution of any leg cancels the others
+   */
+  async placeOco(legs: OrderRequest[], costs: SandboxCosts = {}): Promise<OrderResponse[]> {
+    const groupId = randomUUID();
+    const group = legs.map((leg) => this.createOrder(leg, costs, { id: groupId, role: 'leg' }));
+
+    for (const order of group) {
+      const quote = await this.getQuote(order.request.symbol);
+      // Only one leg can execute, so each is checked as if it were alone
+      const rejectReason = this.checkBuyingPower(order.request, quote);
+      if (rejectReason) {
+        this.reject(group, rejectReason);
+        return group.map((leg) => this.toResponse(leg));
+      }
+    }
+
+    for (const order of group) {
+      this.orders.set(order.orderId, order);
+    }
+    for (const order of group) {
+      this.tryImmediateFill(order, await this.getQuote(order.request.symbol));
+    }
+
+    return group.map((order) => this.toResponse(order));
+  }
 
-    const orderResponse: OrderResponse & { request: OrderRequest } = {
-      orderId,
+  private createOrder(order: OrderRequest, costs: SandboxCosts, group?: SandboxOrderGroup): SandboxOrder {
+    return {
+      orderId: `SANDBOX-${randomUUID()}`,
       status: 'pending',
       request: order,
+      fills: [],
+      costs: this.resolveCosts(costs),
+      triggered: !this.isStopType(order),
+      expiresAt: this.resolveExpiry(order),
+      group,
+    };
+  }
+
+  private reject(orders: SandboxOrder[], rejectReason: string) {
+    for (const order of orders) {
+      order.status = 'rejected';
+      order.rejectReason = rejectReason;
+      this.orders.set(order.orderId, order);
+    }
+    logger.info(
+      { orderIds: orders.map((order) => order.orderId), symbol: orders[0].request.symbol, rejectReason },
+      'Sandbox order rejected'
+    );
+  }
+
+  private isStopType(order: OrderRequest): boolean {
+    return order.type === 'stop' || order.type === 'stop_limit' || order.type === 'trailing_stop';
+  }
+
+  /**
+   * Day orders expire at the end of the current UTC day, good-till-date orders at their expiry
+   */
+  private resolveExpiry(order: OrderRequest, now: Date = this.clock()): Date | undefined {
+    if (order.timeInForce === 'day') {
+      return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+    }
+    if (order.timeInForce === 'gtd') {
+      return order.expiresAt;
+    }
+    return undefined;
+  }
+
+  private resolveCosts(costs: SandboxCosts): Required<SandboxCosts> {
+    return {
+      commissionModel: costs.commissionModel ?? createCommissionModel(),
+      slippageModel: costs.slippageModel ?? createSlippageModel(),
+      tradedVolume: costs.tradedVolume ?? 0,
     };
+  }
+
+  /**
+   * Buys must be covered by cash not already committed to other working buys;
+   * sells by position quantity not already committed to other working sells
+   * (the sandbox does not allow short selling). Returns a reason on failure.
+   */
+  private checkBuyingPower(
+    order: OrderRequest,
+    quote: MarketQuote,
+    exclude?: (candidate: SandboxOrder) => boolean
+  ): string | null {
+    if (order.side === 'buy') {
+      const price = order.type === 'market' ? quote.ask : order.price ?? quote.ask;
+      const required = order.quantity * price;
+      const available = this.cash - this.getReservedCash(exclude);
+      if (required > available) {
+        return `Insufficient buying power: order requires ${required.toFixed(2)}, available ${available.toFixed(2)}`;
+      }
+      return null;
+    }
 
-    this.orders.set(orderId, orderResponse);
+    const held = this.positions.get(order.symbol)?.quantity ?? 0;
+    const committed = this.sumWorking(
+      'sell',
+      (working) => this.remainingQuantity(working),
+      (working) => working.request.symbol !== order.symbol || (exclude?.(working) ?? false)
+    );
+
+    if (order.quantity > held - committed) {
+      return `Insufficient position: selling ${order.quantity} ${order.symbol}, available ${Math.max(0, held - committed)}`;
+    }
+    return null;
+  }
+
+  private getReservedCash(exclude?: (candidate: SandboxOrder) => boolean): number {
+    return this.sumWorking(
+      'buy',
+      (order) => this.remainingQuantity(order) * (order.request.price ?? this.market.getQuote(order.request.symbol).ask),
+      exclude
+    );
+  }
 
-    // Try to fill immediately if possible
-    if (order.type === 'market') {
-      this.fillOrder(orderId, quote);
-    } else if (order.type === 'limit' && order.price) {
-      if (order.side === 'buy' && quote.ask <= order.price) {
-        this.fillOrder(orderId, quote);
-      } else if (order.side === 'sell' && quote.bid >= order.price) {
-        this.fillOrder(orderId, quote);
+  /**
+   * Sum a value over working orders on one side. Legs of the same group are
+   * alternatives (only one can execute), so a group counts once, at its largest leg.
+   */
+  private sumWorking(
+    side: 'buy' | 'sell',
+    value: (order: SandboxOrder) => number,
+    exclude?: (order: SandboxOrder) => boolean
+  ): number {
+    let total = 0;
+    const groups = new Map<string, number>();
+
+    for (const order of this.orders.values()) {
+      if (!this.isWorking(order) || order.request.side !== side || exclude?.(order)) {
+        continue;
+      }
+      const amount = value(order);
+      if (order.group) {
+        groups.set(order.group.id, Math.max(groups.get(order.group.id) ?? 0, amount));
       } else {
-        orderResponse.status = 'open';
+        total += amount;
       }
-    } else {
-      orderResponse.status = 'open';
+    }
+
+    for (const amount of groups.values()) {
+      total += amount;
+    }
+    return total;
+  }
+
+  getCash(): number {
+    return this.cash;
+  }
+
+  /**
+   * Move cash in or out of the account outside of trading (deposits, withdrawals, dividends)
+   */
+  adjustCash(amount: number) {
+    this.cash += amount;
+  }
+
+  getAccount(): SandboxAccountSummary {
+    const reservedCash = this.getReservedCash();
+    let positionsValue = 0;
+    for (const position of this.positions.values()) {
+      positionsValue += position.quantity * this.market.getQuote(position.symbol).last;
     }
 
     return {
-      orderId: orderResponse.orderId,
-      status: orderResponse.status,
-      filledQuantity: orderResponse.filledQuantity,
-      averagePrice: orderResponse.averagePrice,
+      cash: this.cash,
+      reservedCash,
+      buyingPower: Math.max(0, this.cash - reservedCash),
+      positionsValue,
+      equity: this.cash + positionsValue,
     };
   }
 
+  getPosition(symbol: string): Position | undefined {
+    return this.positions.get(symbol);
+  }
+
+  /**
+   * Rebuild account state loaded from storage. Restored orders keep their
+   * fill totals but not individual fills, which are already persisted.
+   */
+  restore(state: SandboxAccountState, costs: SandboxCosts = {}) {
+    this.cash = state.cash;
+    this.positions.clear();
+    for (const position of state.positions) {
+      const currentPrice = this.market.getQuote(position.symbol).last;
+      this.positions.set(position.symbol, {
+        symbol: position.symbol,
+        quantity: position.quantity,
+        averagePrice: position.averagePrice,
+        currentPrice,
+        unrealizedPnl: (currentPrice - position.averagePrice) * position.quantity,
+      });
+    }
+
+    this.orders.clear();
+    for (const order of state.orders) {
+      this.orders.set(order.orderId, {
+        orderId: order.orderId,
+        status: order.status,
+        filledQuantity: order.filledQuantity,
+        averagePrice: order.averagePrice,
+        request: { ...order.request },
+        fills: [],
+        costs: this.resolveCosts(costs),
+        // Trigger state and trailing water marks are not persisted: stops
+        // re-evaluate against the next tick
+        triggered: !this.isStopType(order.request) || order.status === 'partially_filled',
+        expiresAt: this.resolveExpiry(order.request, order.createdAt),
+        group: order.group,
+      });
+    }
+  }
+
+  private tryImmediateFill(order: SandboxOrder, quote: MarketQuote) {
+    // An OCO sibling may already have cancelled this leg
+    if (!this.isWorking(order)) return;
+
+    // Marketable orders take liquidity right away; stops may already be triggered
+    this.matchOrder(order, quote, true);
+
+    // Nothing executed (or the book was exhausted) - the order rests
+    if (order.status === 'pending') {
+      order.status = 'open';
+    }
+  }
+
+  async cancelOrder(orderId: string, symbol: string): Promise<OrderResponse> {
+    const order = this.orders.get(orderId);
+    if (!order) {
+      throw new Error(`Order ${orderId} not found`);
+    }
+
+    if (!this.isWorking(order) && order.status !== 'held') {
+      throw new Error(`Order ${orderId} is ${order.status} and cannot be cancelled`);
+    }
+
+    order.status = 'cancelled';
+    logger.info({ orderId, symbol }, 'Sandbox order cancelled');
+    this.releaseChildren(order);
+
+    return this.getOrderStatus(orderId);
+  }
+
+  async replaceOrder(orderId: string, request: OrderRequest): Promise<OrderResponse> {
+    const order = this.orders.get(orderId);
+    if (!order) {
+      throw new Error(`Order ${orderId} not found`);
+    }
+
+    if (!this.isWorking(order) && order.status !== 'held') {
+      throw new Error(`Order ${orderId} is ${order.status} and cannot be modified`);
+    }
+
+    const amended = { ...order.request, ...request };
+    const quote = await this.getQuote(amended.symbol);
+    const remaining = { ...amended, quantity: amended.quantity - (order.filledQuantity || 0) };
+    const rejectReason =
+      remaining.quantity > 0 && order.status !== 'held'
+        ? this.checkBuyingPower(remaining, quote, (candidate) => this.isSameOrGroup(candidate, order))
+        : null;
+    if (rejectReason) {
+      throw new Error(rejectReason);
+    }
+
+    order.request = amended;
+    logger.info({ orderId, request: order.request }, 'Sandbox order replaced');
+
+    if (order.status === 'held') {
+      return this.getOrderStatus(orderId);
+    }
+
+    if ((order.filledQuantity || 0) >= order.request.quantity) {
+      order.status = 'filled';
+      this.resolveGroup(order);
+      return this.getOrderStatus(orderId);
+    }
+
+    // An amended price may now cross the market
+    this.tryImmediateFill(order, quote);
+
+    return this.getOrderStatus(orderId);
+  }
+
+  private isWorking(order: OrderResponse): boolean {
+    return order.status === 'pending' || order.status === 'open' || order.status === 'partially_filled';
+  }
+
   async getOrderStatus(orderId: string): Promise<OrderResponse> {
     const order = this.orders.get(orderId);
     if (!order) {
       throw new Error(`Order ${orderId} not found`);
     }
 
+    return this.toResponse(order);
+  }
+
+  private toResponse(order: SandboxOrder): OrderResponse {
     return {
       orderId: order.orderId,
       status: order.status,
       filledQuantity: order.filledQuantity,
       averagePrice: order.averagePrice,
+      brokerOrderId: order.orderId,
+      fills: [...order.fills],
+      rejectReason: order.rejectReason,
     };
   }
 
+  async getOpenOrders(): Promise<BrokerOrder[]> {
+    return this.getAllOrders()
+      .filter((order) => this.isWorking(order) || order.status === 'held')
+      .map((order) => ({
+        ...this.toResponse(order),
+        symbol: order.request.symbol,
+        side: order.request.side,
+        quantity: order.request.quantity,
+      }));
+  }
+
   async getPositions(): Promise<Position[]> {
     return Array.from(this.positions.values());
   }
@@ -248,29 +925,26 @@ export class SandboxBroker implements Broker {
   ): Promise<void> {
     // In sandbox, we simulate market data updates
     symbols.forEach((symbol) => {
-      const interval = setInterval(() => {
-        const quote = this.marketData.get(symbol);
-        if (quote) {
-          // Simulate price movement
-          const change = (Math.random() - 0.5) * 0.5;
-          quote.bid += change;
-          quote.ask += change;
-          quote.last += change;
-          quote.timestamp = new Date();
-          this.updateMarketData(quote);
-          callback(quote);
-        }
-      }, 1000); // Update every second
-
-      // Store interval for cleanup (would need proper cleanup in production)
+      const existing = this.feeds.get(symbol);
+      if (existing) {
+        this.market.unsubscribe(symbol, existing);
+      }
+      this.feeds.set(symbol, callback);
+      this.market.subscribe(symbol, callback);
     });
   }
 
   async unsubscribeFromMarketData(symbols: string[]): Promise<void> {
-    // Cleanup subscriptions
+    symbols.forEach((symbol) => {
+      const callback = this.feeds.get(symbol);
+      if (callback) {
+        this.market.unsubscribe(symbol, callback);
+        this.feeds.delete(symbol);
+      }
+    });
   }
 
-  getAllOrders(): Array<OrderResponse & { request: OrderRequest }> {
+  getAllOrders(): SandboxOrder[] {
     return Array.from(this.orders.values());
   }
 }
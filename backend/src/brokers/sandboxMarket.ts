@@ -0,0 +1,184 @@
+import { MarketQuote, Candle } from './base';
+import { MarketGenerator, MarketGeneratorOptions } from './marketGenerator';
+
+export type QuoteListener = (quote: MarketQuote) => void;
+
+export interface SandboxMarketOptions {
+  /** Price process settings; the same seed gives the same market */
+  generator?: MarketGeneratorOptions;
+  /** Current time, for tests */
+  clock?: () => Date;
+}
+
+/**
+ * Simulated market shared by all sandbox accounts
+ * Owns quotes, volatility estimates and the simulated tick feeds, so every
+ * paper account trades against the same prices. Prices follow a seeded
+ * generated path unless another source (a replay or a backtest) sets them.
+ */
+export class SandboxMarket {
+  private marketData: Map<string, MarketQuote> = new Map();
+  private volatility: Map<string, number> = new Map();
+  private lastPrices: Map<string, number> = new Map();
+  private listeners: Set<QuoteListener> = new Set();
+  private feeds: Map<string, { timer: NodeJS.Timeout; callbacks: Set<QuoteListener> }> = new Map();
+  /** Symbols whose prices come from a replay instead of the generated path */
+  private held: Set<string> = new Set();
+  /** Symbols whose latest quote was set from outside rather than generated */
+  private external: Set<string> = new Set();
+  private generator: MarketGenerator;
+  private clock: () => Date;
+
+  constructor(options: SandboxMarketOptions = {}) {
+    this.generator = new MarketGenerator(options.generator);
+    this.clock = options.clock ?? (() => new Date());
+  }
+
+  /**
+   * Listen to every quote update; returns a function that removes the listener
+   */
+  onQuote(listener: QuoteListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Set a quote from outside; the symbol keeps it until the next update
+   */
+  update(quote: MarketQuote) {
+    this.external.add(quote.symbol);
+    this.record(quote);
+    this.notify(quote);
+  }
+
+  private notify(quote: MarketQuote) {
+    for (const listener of this.listeners) {
+      listener(quote);
+    }
+  }
+
+  private record(quote: MarketQuote) {
+    this.updateVolatility(quote);
+    this.marketData.set(quote.symbol, quote);
+  }
+
+  /**
+   * EWMA (lambda 0.94) of squared tick-to-tick log returns, used by volatility-based slippage
+   */
+  private updateVolatility(quote: MarketQuote) {
+    // Outside sources may update a quote in place, so track the previous price separately
+    const previous = this.lastPrices.get(quote.symbol);
+    this.lastPrices.set(quote.symbol, quote.last);
+    if (!previous || previous <= 0 || quote.last <= 0) {
+      return;
+    }
+
+    const logReturn = Math.log(quote.last / previous);
+    const variance = (this.volatility.get(quote.symbol) ?? 0) ** 2;
+    this.volatility.set(quote.symbol, Math.sqrt(0.94 * variance + 0.06 * logReturn * logReturn));
+  }
+
+  /**
+   * Set a quote from an outside source, such as a replay, and send it to the
+   * symbol's feed subscribers as well as the quote listeners
+   */
+  publish(quote: MarketQuote) {
+    this.update(quote);
+    this.feeds.get(quote.symbol)?.callbacks.forEach((cb) => cb(quote));
+  }
+
+  /**
+   * Stop the generated feed of the symbols while another source publishes their
+   * quotes; returns a function that puts them back on the generated path
+   */
+  holdRandomWalk(symbols: string[]): () => void {
+    symbols.forEach((symbol) => this.held.add(symbol));
+    return () =>
+      symbols.forEach((symbol) => {
+        this.held.delete(symbol);
+        this.external.delete(symbol);
+      });
+  }
+
+  getVolatility(symbol: string): number {
+    return this.volatility.get(symbol) ?? 0;
+  }
+
+  getQuote(symbol: string): MarketQuote {
+    const stored = this.marketData.get(symbol);
+    if (stored && this.external.has(symbol)) {
+      return stored;
+    }
+
+    // Generated quotes move once a second; within it, callers share one quote
+    const now = this.clock();
+    if (stored && Math.floor(stored.timestamp.getTime() / 1000) === Math.floor(now.getTime() / 1000)) {
+      return stored;
+    }
+    const quote = this.generator.quote(symbol, now);
+    this.record(quote);
+    return quote;
+  }
+
+  /**
+   * Candles of the generated path, aligned to the interval and ending now at the latest
+   */
+  getCandles(symbol: string, from: Date, to: Date, interval: string): Candle[] {
+    const now = this.clock();
+    const end = to > now ? now : to;
+    if (end < from) {
+      return [];
+    }
+    return this.generator.candles(symbol, from, end, this.getIntervalMs(interval));
+  }
+
+  private getIntervalMs(interval: string): number {
+    const map: Record<string, number> = {
+      '1m': 60 * 1000,
+      '5m': 5 * 60 * 1000,
+      '15m': 15 * 60 * 1000,
+      '30m': 30 * 60 * 1000,
+      '1h': 60 * 60 * 1000,
+      '4h': 4 * 60 * 60 * 1000,
+      '1d': 24 * 60 * 60 * 1000,
+    };
+    return map[interval] || 60 * 60 * 1000;
+  }
+
+  /**
+   * Start (or join) the generated tick feed for a symbol
+   */
+  subscribe(symbol: string, callback: QuoteListener) {
+    const existing = this.feeds.get(symbol);
+    if (existing) {
+      existing.callbacks.add(callback);
+      return;
+    }
+
+    const callbacks = new Set<QuoteListener>([callback]);
+    const timer = setInterval(() => {
+      if (this.held.has(symbol) || this.external.has(symbol)) return;
+      const quote = this.getQuote(symbol);
+      this.notify(quote);
+      this.feeds.get(symbol)?.callbacks.forEach((cb) => cb(quote));
+    }, 1000); // Update every second
+
+    this.feeds.set(symbol, { timer, callbacks });
+  }
+
+  /**
+   * Leave a symbol's feed; the feed stops once nobody is listening
+   */
+  unsubscribe(symbol: string, callback: QuoteListener) {
+    const feed = this.feeds.get(symbol);
+    if (!feed) return;
+
+    feed.callbacks.delete(callback);
+    if (feed.callbacks.size === 0) {
+      clearInterval(feed.timer);
+      this.feeds.delete(symbol);
+    }
+  }
+}
@@ -14,6 +14,8 @@ export const config = {
   NODE_ENV: getEnv('NODE_ENV', 'development'),
   PORT: parseInt(getEnv('PORT', '3000'), 10),
   HOST: getEnv('HOST', '0.0.0.0'),
+  // Where broker login redirects send the user back to
+  FRONTEND_URL: getEnv('FRONTEND_URL', 'http://localhost:8080'),
   
   // JWT
   JWT_SECRET: getEnv('JWT_SECRET'),
@@ -47,8 +49,42 @@ export const config = {
   BINANCE_API_URL: getEnv('BINANCE_API_URL', 'https://testnet.binance.vision/api'),
   BINANCE_WS_URL: getEnv('BINANCE_WS_URL', 'wss://testnet.binance.vision/ws'),
   KITE_API_URL: getEnv('KITE_API_URL', 'https://kite.zerodha.com'),
+  KITE_LOGIN_URL: getEnv('KITE_LOGIN_URL', 'https://kite.zerodha.com/connect/login'),
+  KITE_TICKER_URL: getEnv('KITE_TICKER_URL', 'wss://ws.kite.trade'),
+  // Kite instruments CSV dump (https://api.kite.trade/instruments), loaded at startup when present
+  KITE_INSTRUMENTS_FILE: getEnv('KITE_INSTRUMENTS_FILE', './kite-instruments.csv'),
   
   // Webhooks
   WEBHOOK_SECRET: getEnv('WEBHOOK_SECRET'),
+
+  // Sandbox
+  SANDBOX_STARTING_CASH: parseFloat(getEnv('SANDBOX_STARTING_CASH', '100000')),
+  SANDBOX_MARKET_SEED: parseInt(getEnv('SANDBOX_MARKET_SEED', '1'), 10),
+  // JSON generator settings (drift, volatility, jumps, regimes, per-symbol overrides); optional
+  SANDBOX_MARKET_CONFIG_FILE: process.env.SANDBOX_MARKET_CONFIG_FILE,
+
+  // Order status poller
+  ORDER_POLL_INTERVAL_MS: parseInt(getEnv('ORDER_POLL_INTERVAL_MS', '5000'), 10),
+  ORDER_POLL_MAX_INTERVAL_MS: parseInt(getEnv('ORDER_POLL_MAX_INTERVAL_MS', '300000'), 10),
+
+  // Portfolio history snapshots
+  PORTFOLIO_SNAPSHOT_INTERVAL_MS: parseInt(getEnv('PORTFOLIO_SNAPSHOT_INTERVAL_MS', '300000'), 10),
+
+  // Performance analytics (annual risk-free rate, e.g. 0.04)
+  ANALYTICS_RISK_FREE_RATE: parseFloat(getEnv('ANALYTICS_RISK_FREE_RATE', '0')),
+
+  // Multi-currency (default base currency; FX rates from the 'db' table or a JSON 'file')
+  BASE_CURRENCY: getEnv('BASE_CURRENCY', 'USD'),
+  FX_RATE_SOURCE: getEnv('FX_RATE_SOURCE', 'db'),
+  FX_RATES_FILE: getEnv('FX_RATES_FILE', './fx-rates.json'),
+
+  // Backtesting (most candles one run may replay)
+  BACKTEST_MAX_CANDLES: parseInt(getEnv('BACKTEST_MAX_CANDLES', '50000'), 10),
+
+  // Market replay (most ticks one sandbox replay may hold)
+  REPLAY_MAX_TICKS: parseInt(getEnv('REPLAY_MAX_TICKS', '500000'), 10),
+
+  // Strategy runtime (longest a strategy hook may run before the strategy is stopped)
+  STRATEGY_HOOK_TIMEOUT_MS: parseInt(getEnv('STRATEGY_HOOK_TIMEOUT_MS', '5000'), 10),
 };
 
@@ -53,6 +53,15 @@ class Database {
         )
       `);
 
+      // Admin-only endpoints check the role; admins are promoted directly in the database
+      await client.query(`
+        ALTER TABLE users ADD COLUMN IF NOT EXISTS role VARCHAR(20) NOT NULL DEFAULT 'user'
+          CHECK (role IN ('user', 'admin'));
+        ALTER TABLE users ADD COLUMN IF NOT EXISTS lot_method VARCHAR(10) NOT NULL DEFAULT 'fifo'
+          CHECK (lot_method IN ('fifo', 'lifo', 'average'));
+        ALTER TABLE users ADD COLUMN IF NOT EXISTS base_currency VARCHAR(10);
+      `);
+
       // Create refresh_tokens table
       await client.query(`
         CREATE TABLE IF NOT EXISTS refresh_tokens (
@@ -88,10 +97,15 @@ class Database {
           broker_type VARCHAR(50) NOT NULL,
           symbol VARCHAR(50) NOT NULL,
           side VARCHAR(10) NOT NULL CHECK (side IN ('buy', 'sell')),
-          type VARCHAR(20) NOT NULL CHECK (type IN ('market', 'limit', 'stop', 'stop_limit')),
+          type VARCHAR(20) NOT NULL CHECK (type IN ('market', 'limit', 'stop', 'stop_limit', 'trailing_stop')),
           quantity DECIMAL(20, 8) NOT NULL,
           price DECIMAL(20, 8),
-          status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'open', 'filled', 'partially_filled', 'cancelled', 'rejected')),
+          stop_price DECIMAL(20, 8),
+          trail_amount DECIMAL(20, 8),
+          trail_percent DECIMAL(10, 4),
+          time_in_force VARCHAR(10) CHECK (time_in_force IN ('day', 'gtc', 'ioc', 'fok', 'gtd')),
+          expires_at TIMESTAMP,
+          status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'open', 'filled', 'partially_filled', 'cancelled', 'rejected', 'expired', 'held')),
           filled_quantity DECIMAL(20, 8) DEFAULT 0,
           average_price DECIMAL(20, 8),
           broker_order_id VARCHAR(255),
@@ -101,6 +115,91 @@ class Database {
         )
       `);
 
+      // Columns added after the initial orders schema
+      await client.query(`
+        ALTER TABLE orders ADD COLUMN IF NOT EXISTS stop_price DECIMAL(20, 8)
+      `);
+
+      await client.query(`
+        ALTER TABLE orders ADD COLUMN IF NOT EXISTS trail_amount DECIMAL(20, 8);
+        ALTER TABLE orders ADD COLUMN IF NOT EXISTS trail_percent DECIMAL(10, 4);
+        ALTER TABLE orders ADD COLUMN IF NOT EXISTS time_in_force VARCHAR(10)
+          CHECK (time_in_force IN ('day', 'gtc', 'ioc', 'fok', 'gtd'));
+        ALTER TABLE orders ADD COLUMN IF NOT EXISTS expires_at TIMESTAMP;
+        ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_type_check;
+        ALTER TABLE orders ADD CONSTRAINT orders_type_check
+          CHECK (type IN ('market', 'limit', 'stop', 'stop_limit', 'trailing_stop'));
+        ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_status_check;
+        ALTER TABLE orders ADD CONSTRAINT orders_status_check
+          CHECK (status IN ('pending', 'open', 'filled', 'partially_filled', 'cancelled', 'rejected', 'expired', 'held'));
+      `);
+
+      // Create order groups table (brackets and one-cancels-other sets)
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS order_groups (
+          id SERIAL PRIMARY KEY,
+          user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          group_id VARCHAR(255) UNIQUE NOT NULL,
+          type VARCHAR(20) NOT NULL CHECK (type IN ('bracket', 'oco')),
+          status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'active', 'completed', 'cancelled')),
+          broker_type VARCHAR(50) NOT NULL,
+          sandbox BOOLEAN DEFAULT true,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+
+      await client.query(`
+        ALTER TABLE orders ADD COLUMN IF NOT EXISTS group_id VARCHAR(255) REFERENCES order_groups(group_id) ON DELETE SET NULL;
+        ALTER TABLE orders ADD COLUMN IF NOT EXISTS group_role VARCHAR(20)
+          CHECK (group_role IN ('entry', 'take_profit', 'stop_loss', 'leg'));
+      `);
+
+      await client.query(`
+        ALTER TABLE orders ADD COLUMN IF NOT EXISTS client_order_id VARCHAR(64);
+        ALTER TABLE orders ADD COLUMN IF NOT EXISTS reject_reason TEXT;
+      `);
+
+      await client.query(`
+        ALTER TABLE broker_configs ADD COLUMN IF NOT EXISTS commission_model JSONB;
+        ALTER TABLE broker_configs ADD COLUMN IF NOT EXISTS slippage_model JSONB;
+      `);
+
+      // Broker login sessions (Kite Connect access tokens expire daily)
+      await client.query(`
+        ALTER TABLE broker_configs ADD COLUMN IF NOT EXISTS access_token_encrypted TEXT;
+        ALTER TABLE broker_configs ADD COLUMN IF NOT EXISTS broker_user_id VARCHAR(50);
+        ALTER TABLE broker_configs ADD COLUMN IF NOT EXISTS session_created_at TIMESTAMP;
+        ALTER TABLE broker_configs ADD COLUMN IF NOT EXISTS session_expires_at TIMESTAMP;
+      `);
+
+      // Product of Kite orders (intraday, delivery or carry-forward)
+      await client.query(`
+        ALTER TABLE orders ADD COLUMN IF NOT EXISTS product VARCHAR(10)
+          CHECK (product IN ('MIS', 'CNC', 'NRML'))
+      `);
+
+      // Order poller schedule: when a live order is next polled, and how many polls found no change
+      await client.query(`
+        ALTER TABLE orders ADD COLUMN IF NOT EXISTS next_poll_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP;
+        ALTER TABLE orders ADD COLUMN IF NOT EXISTS poll_attempts INTEGER NOT NULL DEFAULT 0;
+      `);
+
+      // Create order events table (status transition history)
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS order_events (
+          id SERIAL PRIMARY KEY,
+          order_id INTEGER NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+          user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          from_status VARCHAR(20),
+          to_status VARCHAR(20) NOT NULL,
+          filled_quantity DECIMAL(20, 8) DEFAULT 0,
+          average_price DECIMAL(20, 8),
+          source VARCHAR(20) NOT NULL,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+
       // Create positions table
       await client.query(`
         CREATE TABLE IF NOT EXISTS positions (
@@ -129,18 +228,316 @@ class Database {
           quantity DECIMAL(20, 8) NOT NULL,
           price DECIMAL(20, 8) NOT NULL,
           broker_trade_id VARCHAR(255),
+          fee DECIMAL(20, 8) DEFAULT 0,
           executed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
         )
       `);
 
+      await client.query(`
+        ALTER TABLE trades ADD COLUMN IF NOT EXISTS fee DECIMAL(20, 8) DEFAULT 0
+      `);
+
+      // Currency each position and fill is priced in (NULL on rows from before multi-currency)
+      await client.query(`
+        ALTER TABLE trades ADD COLUMN IF NOT EXISTS currency VARCHAR(10);
+        ALTER TABLE positions ADD COLUMN IF NOT EXISTS currency VARCHAR(10);
+      `);
+
+      // Create FX rates table (one base unit in quote units; used by the 'db' FX rate source)
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS fx_rates (
+          id SERIAL PRIMARY KEY,
+          base VARCHAR(10) NOT NULL,
+          quote VARCHAR(10) NOT NULL,
+          rate DECIMAL(20, 10) NOT NULL CHECK (rate > 0),
+          as_of TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE(base, quote, as_of)
+        )
+      `);
+
+      // Create closed lots table (sells matched to buy lots, rebuilt from trades)
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS closed_lots (
+          id SERIAL PRIMARY KEY,
+          user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          sandbox BOOLEAN NOT NULL,
+          method VARCHAR(10) NOT NULL,
+          symbol VARCHAR(50) NOT NULL,
+          direction VARCHAR(10) NOT NULL CHECK (direction IN ('long', 'short')),
+          quantity DECIMAL(20, 8) NOT NULL,
+          open_trade_id INTEGER NOT NULL REFERENCES trades(id) ON DELETE CASCADE,
+          close_trade_id INTEGER NOT NULL REFERENCES trades(id) ON DELETE CASCADE,
+          opened_at TIMESTAMP NOT NULL,
+          closed_at TIMESTAMP NOT NULL,
+          open_price DECIMAL(20, 8) NOT NULL,
+          close_price DECIMAL(20, 8) NOT NULL,
+          cost_basis DECIMAL(20, 8) NOT NULL,
+          proceeds DECIMAL(20, 8) NOT NULL,
+          fees DECIMAL(20, 8) NOT NULL DEFAULT 0,
+          realized_pnl DECIMAL(20, 8) NOT NULL,
+          holding_period_days INTEGER NOT NULL,
+          term VARCHAR(10) NOT NULL CHECK (term IN ('short', 'long')),
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+
+      // Create cash ledger tables (double-entry: each entry's postings sum to zero, debits positive)
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS ledger_entries (
+          id SERIAL PRIMARY KEY,
+          user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          broker_type VARCHAR(50) NOT NULL,
+          type VARCHAR(20) NOT NULL CHECK (type IN (
+            'opening_balance', 'deposit', 'withdrawal', 'trade', 'fee', 'dividend', 'interest', 'reset'
+          )),
+          description TEXT,
+          symbol VARCHAR(50),
+          trade_id INTEGER UNIQUE REFERENCES trades(id) ON DELETE SET NULL,
+          occurred_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS ledger_postings (
+          id SERIAL PRIMARY KEY,
+          entry_id INTEGER NOT NULL REFERENCES ledger_entries(id) ON DELETE CASCADE,
+          account VARCHAR(20) NOT NULL CHECK (account IN (
+            'cash', 'securities', 'capital', 'fees', 'dividends', 'interest'
+          )),
+          amount DECIMAL(20, 8) NOT NULL
+        )
+      `);
+
+      // Create portfolio history table (periodic equity snapshots per broker)
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS portfolio_history (
+          id SERIAL PRIMARY KEY,
+          user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          broker_type VARCHAR(50) NOT NULL,
+          sandbox BOOLEAN NOT NULL,
+          total_value DECIMAL(20, 8) NOT NULL,
+          cash_balance DECIMAL(20, 8),
+          positions_value DECIMAL(20, 8) NOT NULL,
+          total_pnl DECIMAL(20, 8) NOT NULL,
+          total_pnl_percent DECIMAL(12, 6) NOT NULL,
+          snapshot_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+
+      // Create reconciliation tables (one run per account check, with the breaks it found)
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS reconciliation_runs (
+          id SERIAL PRIMARY KEY,
+          user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          broker_type VARCHAR(50) NOT NULL,
+          sandbox BOOLEAN NOT NULL,
+          auto_repair BOOLEAN NOT NULL DEFAULT false,
+          status VARCHAR(20) NOT NULL CHECK (status IN ('clean', 'breaks', 'repaired')),
+          break_count INTEGER NOT NULL DEFAULT 0,
+          repaired_count INTEGER NOT NULL DEFAULT 0,
+          started_at TIMESTAMP NOT NULL,
+          completed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS reconciliation_findings (
+          id SERIAL PRIMARY KEY,
+          run_id INTEGER NOT NULL REFERENCES reconciliation_runs(id) ON DELETE CASCADE,
+          type VARCHAR(30) NOT NULL CHECK (type IN ('missing_fill', 'quantity_mismatch', 'unknown_order', 'stale_order')),
+          symbol VARCHAR(50) NOT NULL,
+          order_id VARCHAR(255),
+          broker_order_id VARCHAR(255),
+          expected DECIMAL(20, 8),
+          actual DECIMAL(20, 8),
+          message TEXT NOT NULL,
+          repairable BOOLEAN NOT NULL DEFAULT false,
+          repaired BOOLEAN NOT NULL DEFAULT false,
+          repair_error TEXT
+        )
+      `);
+
+      // Create backtests table (queued runs with their settings; results stored once complete)
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS backtests (
+          id SERIAL PRIMARY KEY,
+          user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          name VARCHAR(100),
+          symbol VARCHAR(50) NOT NULL,
+          interval VARCHAR(10) NOT NULL,
+          source VARCHAR(10) NOT NULL CHECK (source IN ('broker', 'import')),
+          params JSONB NOT NULL,
+          candles JSONB,
+          status VARCHAR(20) NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+          error TEXT,
+          candle_count INTEGER,
+          final_equity DECIMAL(20, 8),
+          total_return DECIMAL(20, 10),
+          rejected_orders INTEGER,
+          metrics JSONB,
+          trades JSONB,
+          equity_curve JSONB,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          started_at TIMESTAMP,
+          completed_at TIMESTAMP
+        )
+      `);
+
+      // Create market ticks table (recorded quotes for sandbox replays)
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS market_ticks (
+          id SERIAL PRIMARY KEY,
+          symbol VARCHAR(50) NOT NULL,
+          timestamp TIMESTAMP NOT NULL,
+          bid DECIMAL(20, 8) NOT NULL,
+          ask DECIMAL(20, 8) NOT NULL,
+          last DECIMAL(20, 8) NOT NULL,
+          volume DECIMAL(30, 8) NOT NULL DEFAULT 0,
+          UNIQUE(symbol, timestamp)
+        )
+      `);
+
+      // Create strategies table (user-defined strategies with their persisted state)
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS strategies (
+          id SERIAL PRIMARY KEY,
+          user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          name VARCHAR(100) NOT NULL,
+          strategy VARCHAR(50) NOT NULL,
+          symbols TEXT[] NOT NULL,
+          params JSONB NOT NULL,
+          state JSONB,
+          candle_interval VARCHAR(10) NOT NULL,
+          status VARCHAR(20) NOT NULL DEFAULT 'stopped' CHECK (status IN ('stopped', 'running', 'paused', 'crashed')),
+          last_error TEXT,
+          started_at TIMESTAMP,
+          stopped_at TIMESTAMP,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE(user_id, name)
+        )
+      `);
+
+      // Orders placed by a strategy, for per-strategy P&L
+      await client.query(`
+        ALTER TABLE orders ADD COLUMN IF NOT EXISTS strategy_id INTEGER REFERENCES strategies(id) ON DELETE SET NULL
+      `);
+
+      // Create strategy logs table (messages from strategy code and the runtime)
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS strategy_logs (
+          id SERIAL PRIMARY KEY,
+          strategy_id INTEGER NOT NULL REFERENCES strategies(id) ON DELETE CASCADE,
+          level VARCHAR(10) NOT NULL CHECK (level IN ('info', 'warn', 'error')),
+          message TEXT NOT NULL,
+          data JSONB,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+
+      // Create sandbox accounts table (one paper account per user)
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS sandbox_accounts (
+          id SERIAL PRIMARY KEY,
+          user_id INTEGER NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+          starting_cash DECIMAL(20, 8) NOT NULL,
+          cash DECIMAL(20, 8) NOT NULL,
+          reset_at TIMESTAMP,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+
+      // Create sandbox positions table
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS sandbox_positions (
+          id SERIAL PRIMARY KEY,
+          account_id INTEGER NOT NULL REFERENCES sandbox_accounts(id) ON DELETE CASCADE,
+          symbol VARCHAR(50) NOT NULL,
+          quantity DECIMAL(20, 8) NOT NULL,
+          average_price DECIMAL(20, 8) NOT NULL,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE(account_id, symbol)
+        )
+      `);
+
+      // Create risk limits table (pre-trade limits per user; NULL disables a limit)
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS risk_limits (
+          id SERIAL PRIMARY KEY,
+          user_id INTEGER NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+          max_order_notional DECIMAL(20, 8),
+          max_position_notional DECIMAL(20, 8),
+          max_open_orders INTEGER,
+          daily_loss_limit DECIMAL(20, 8),
+          price_band_percent DECIMAL(10, 4),
+          restricted_symbols TEXT[] NOT NULL DEFAULT '{}',
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+
+      // Create trading halts table (kill switch; user_id NULL halts every user, active until resumed)
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS trading_halts (
+          id SERIAL PRIMARY KEY,
+          user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+          reason TEXT,
+          flatten BOOLEAN NOT NULL DEFAULT false,
+          halted_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+          resumed_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          resumed_at TIMESTAMP
+        )
+      `);
+
+      // Create risk audit log (every pre-trade decision)
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS risk_audit_log (
+          id SERIAL PRIMARY KEY,
+          user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          order_id VARCHAR(255) NOT NULL,
+          symbol VARCHAR(50) NOT NULL,
+          side VARCHAR(10) NOT NULL,
+          quantity DECIMAL(20, 8) NOT NULL,
+          price DECIMAL(20, 8),
+          sandbox BOOLEAN NOT NULL,
+          decision VARCHAR(20) NOT NULL CHECK (decision IN ('approved', 'rejected')),
+          code VARCHAR(50),
+          reason TEXT,
+          details JSONB,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+
       // Create indexes
       await client.query(`
         CREATE INDEX IF NOT EXISTS idx_orders_user_id ON orders(user_id);
         CREATE INDEX IF NOT EXISTS idx_orders_status ON orders(status);
         CREATE INDEX IF NOT EXISTS idx_orders_created_at ON orders(created_at);
+        CREATE INDEX IF NOT EXISTS idx_orders_group_id ON orders(group_id);
+        CREATE INDEX IF NOT EXISTS idx_orders_next_poll_at ON orders(next_poll_at)
+          WHERE sandbox = false AND status IN ('pending', 'open', 'partially_filled');
+        CREATE INDEX IF NOT EXISTS idx_order_events_order_id ON order_events(order_id);
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_orders_user_client_order_id ON orders(user_id, client_order_id);
+        CREATE INDEX IF NOT EXISTS idx_order_groups_user_id ON order_groups(user_id);
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_trading_halts_active ON trading_halts((COALESCE(user_id, 0))) WHERE resumed_at IS NULL;
+        CREATE INDEX IF NOT EXISTS idx_risk_audit_log_user_id ON risk_audit_log(user_id, created_at);
         CREATE INDEX IF NOT EXISTS idx_positions_user_id ON positions(user_id);
         CREATE INDEX IF NOT EXISTS idx_trades_user_id ON trades(user_id);
         CREATE INDEX IF NOT EXISTS idx_trades_order_id ON trades(order_id);
+        CREATE INDEX IF NOT EXISTS idx_closed_lots_user_id ON closed_lots(user_id, sandbox, symbol);
+        CREATE INDEX IF NOT EXISTS idx_portfolio_history_user_id ON portfolio_history(user_id, sandbox, snapshot_at);
+        CREATE INDEX IF NOT EXISTS idx_ledger_entries_user_id ON ledger_entries(user_id, broker_type, occurred_at);
+        CREATE INDEX IF NOT EXISTS idx_ledger_postings_entry_id ON ledger_postings(entry_id);
+        CREATE INDEX IF NOT EXISTS idx_reconciliation_runs_user_id ON reconciliation_runs(user_id, completed_at);
+        CREATE INDEX IF NOT EXISTS idx_reconciliation_findings_run_id ON reconciliation_findings(run_id);
+        CREATE INDEX IF NOT EXISTS idx_backtests_user_id ON backtests(user_id, created_at);
+        CREATE INDEX IF NOT EXISTS idx_orders_strategy_id ON orders(strategy_id);
+        CREATE INDEX IF NOT EXISTS idx_strategy_logs_strategy_id ON strategy_logs(strategy_id, created_at);
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_trades_order_broker_trade ON trades(order_id, broker_trade_id);
         CREATE INDEX IF NOT EXISTS idx_refresh_tokens_user_id ON refresh_tokens(user_id);
         CREATE INDEX IF NOT EXISTS idx_refresh_tokens_token ON refresh_tokens(token);
       `);
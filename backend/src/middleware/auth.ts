@@ -1,5 +1,6 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
 import { AppError } from './errorHandler';
+import { db } from '../db';
 
 export interface AuthenticatedRequest extends FastifyRequest {
   user: {
@@ -21,3 +22,15 @@ export async function authenticate(
   }
 }
 
+/**
+ * Allow only admins; run after authenticate. The role is read from the database
+ * so a demotion takes effect without waiting for the token to expire.
+ */
+export async function requireAdmin(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+  const { user } = request as AuthenticatedRequest;
+  const result = await db.getPool().query('SELECT role FROM users WHERE id = $1', [user.id]);
+
+  if (result.rows[0]?.role !== 'admin') {
+    throw new AppError(403, 'FORBIDDEN', 'Admin access required');
+  }
+}
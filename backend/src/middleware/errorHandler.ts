@@ -11,12 +11,15 @@ export interface ApiError extends FastifyError {
 export class AppError extends Error implements ApiError {
   statusCode: number;
   code: string;
+  /** Sent with the error, e.g. the allowed values of a rejected order */
+  details?: unknown;
   name = 'AppError';
 
-  constructor(statusCode: number, code: string, message: string) {
+  constructor(statusCode: number, code: string, message: string, details?: unknown) {
     super(message);
     this.statusCode = statusCode;
     this.code = code;
+    this.details = details;
   }
 }
 
@@ -45,6 +48,7 @@ export const errorHandler = (
       error: {
         code: error.code,
         message: error.message,
+        ...(error.details !== undefined && { details: error.details }),
       },
     });
   }
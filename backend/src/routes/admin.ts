@@ -0,0 +1,383 @@
+import { FastifyInstance, FastifyReply } from 'fastify';
+import { db } from '../db';
+import { fxRatesSchema, haltTradingSchema, marketTicksSchema, replaySchema } from '../utils/validation';
+import { authenticate, requireAdmin, AuthenticatedRequest } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
+import { getActiveHalts, haltTrading, resumeTrading } from '../services/killSwitch';
+import { saveFxRates } from '../services/fx';
+import { importKiteInstruments } from '../services/kiteInstruments';
+import { ReplayRequest, saveMarketTicks, startReplay, stopReplay } from '../services/marketReplay';
+import { replayStateResponse } from './sandbox';
+import { HaltBody, tradingHaltResponse, unwindResultResponse } from './user';
+
+const haltBodySchema = {
+  type: 'object',
+  properties: {
+    reason: { type: 'string' },
+    flatten: { type: 'boolean', default: false },
+  },
+};
+
+const haltResponse = {
+  type: 'object',
+  properties: {
+    message: { type: 'string' },
+    halt: tradingHaltResponse,
+    results: { type: 'array', items: unwindResultResponse },
+  },
+};
+
+const resumeResponse = {
+  type: 'object',
+  properties: {
+    message: { type: 'string' },
+    halt: tradingHaltResponse,
+  },
+};
+
+interface FxRatesBody {
+  rates: Array<{ base: string; quote: string; rate: number; asOf?: string }>;
+}
+
+interface MarketTicksBody {
+  ticks: Array<{ symbol: string; timestamp: string; bid: number; ask: number; last: number; volume?: number }>;
+}
+
+const userParamsSchema = {
+  type: 'object',
+  required: ['userId'],
+  properties: {
+    userId: { type: 'integer' },
+  },
+};
+
+export async function adminRoutes(fastify: FastifyInstance) {
+  // Every admin route needs an authenticated admin
+  fastify.decorate('authenticate', authenticate);
+  fastify.addHook('onRequest', async (request, reply) => {
+    if (request.url.startsWith('/api/admin')) {
+      await authenticate(request, reply);
+      await requireAdmin(request, reply);
+    }
+  });
+
+  // List active halts
+  fastify.get(
+    '/kill-switch',
+    {
+      schema: {
+        description: 'List the global and per-user trading halts in force',
+        tags: ['admin'],
+        security: [{ bearerAuth: [] }],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              halts: { type: 'array', items: tradingHaltResponse },
+            },
+          },
+        },
+      },
+    },
+    async (request: AuthenticatedRequest, reply: FastifyReply) => {
+      return reply.send({ halts: await getActiveHalts() });
+    }
+  );
+
+  // Halt all trading
+  fastify.post<{ Body: HaltBody }>(
+    '/kill-switch',
+    {
+      schema: {
+        description: 'Halt trading for every user: block new orders, cancel working orders, optionally flatten',
+        tags: ['admin'],
+        security: [{ bearerAuth: [] }],
+        body: haltBodySchema,
+        response: {
+          200: haltResponse,
+        },
+      },
+    },
+    async (request: AuthenticatedRequest<{ Body: HaltBody }>, reply: FastifyReply) => {
+      const validated = haltTradingSchema.parse(request.body || {});
+      const { halt, results } = await haltTrading(null, { ...validated, haltedBy: request.user.id });
+
+      return reply.send({ message: 'Trading halted for all users', halt, results });
+    }
+  );
+
+  // Resume all trading
+  fastify.delete(
+    '/kill-switch',
+    {
+      schema: {
+        description: 'Lift the global halt; per-user halts stay in force',
+        tags: ['admin'],
+        security: [{ bearerAuth: [] }],
+        response: {
+          200: resumeResponse,
+        },
+      },
+    },
+    async (request: AuthenticatedRequest, reply: FastifyReply) => {
+      const halt = await resumeTrading(null, request.user.id);
+      if (!halt) {
+        throw new AppError(404, 'HALT_NOT_FOUND', 'Trading is not halted globally');
+      }
+
+      return reply.send({ message: 'Trading resumed for all users', halt });
+    }
+  );
+
+  // Halt one user's trading
+  fastify.post<{ Params: { userId: number }; Body: HaltBody }>(
+    '/users/:userId/kill-switch',
+    {
+      schema: {
+        description: "Halt a user's trading: block new orders, cancel working orders, optionally flatten",
+        tags: ['admin'],
+        security: [{ bearerAuth: [] }],
+        params: userParamsSchema,
+        body: haltBodySchema,
+        response: {
+          200: haltResponse,
+        },
+      },
+    },
+    async (
+      request: AuthenticatedRequest<{ Params: { userId: number }; Body: HaltBody }>,
+      reply: FastifyReply
+    ) => {
+      const { userId } = request.params;
+      const validated = haltTradingSchema.parse(request.body || {});
+
+      const user = await db.getPool().query('SELECT id FROM users WHERE id = $1', [userId]);
+      if (user.rows.length === 0) {
+        throw new AppError(404, 'USER_NOT_FOUND', 'User not found');
+      }
+
+      const { halt, results } = await haltTrading(userId, { ...validated, haltedBy: request.user.id });
+      return reply.send({ message: 'Trading halted for user', halt, results });
+    }
+  );
+
+  // Resume one user's trading
+  fastify.delete<{ Params: { userId: number } }>(
+    '/users/:userId/kill-switch',
+    {
+      schema: {
+        description: "Lift a user's halt, whoever set it",
+        tags: ['admin'],
+        security: [{ bearerAuth: [] }],
+        params: userParamsSchema,
+        response: {
+          200: resumeResponse,
+        },
+      },
+    },
+    async (request: AuthenticatedRequest<{ Params: { userId: number } }>, reply: FastifyReply) => {
+      const halt = await resumeTrading(request.params.userId, request.user.id);
+      if (!halt) {
+        throw new AppError(404, 'HALT_NOT_FOUND', 'Trading is not halted for this user');
+      }
+
+      return reply.send({ message: 'Trading resumed for user', halt });
+    }
+  );
+
+  // Store FX rates
+  fastify.post<{ Body: FxRatesBody }>(
+    '/fx-rates',
+    {
+      schema: {
+        description: 'Add or replace FX rates (one base unit in quote units) read by the db FX rate source',
+        tags: ['admin'],
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: 'object',
+          required: ['rates'],
+          properties: {
+            rates: {
+              type: 'array',
+              items: {
+                type: 'object',
+                required: ['base', 'quote', 'rate'],
+                properties: {
+                  base: { type: 'string' },
+                  quote: { type: 'string' },
+                  rate: { type: 'number' },
+                  asOf: { type: 'string', format: 'date-time' },
+                },
+              },
+            },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              saved: { type: 'number' },
+            },
+          },
+        },
+      },
+    },
+    async (request: AuthenticatedRequest<{ Body: FxRatesBody }>, reply: FastifyReply) => {
+      const validated = fxRatesSchema.parse(request.body);
+      const saved = await saveFxRates(validated.rates.map((fx) => ({ ...fx, asOf: fx.asOf ?? null })));
+
+      return reply.send({ message: 'FX rates saved', saved });
+    }
+  );
+
+  // Reload the Kite instrument master
+  fastify.post(
+    '/kite-instruments/import',
+    {
+      schema: {
+        description:
+          'Replace the Kite instrument master with the instruments CSV dump at KITE_INSTRUMENTS_FILE, e.g. after the daily download',
+        tags: ['admin'],
+        security: [{ bearerAuth: [] }],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              imported: { type: 'number' },
+            },
+          },
+        },
+      },
+    },
+    async (request: AuthenticatedRequest, reply: FastifyReply) => {
+      const imported = await importKiteInstruments();
+      return reply.send({ message: 'Kite instruments imported', imported });
+    }
+  );
+
+  // Store recorded ticks for replay
+  fastify.post<{ Body: MarketTicksBody }>(
+    '/market-ticks',
+    {
+      schema: {
+        description: 'Add or replace recorded ticks that sandbox market replays can play back',
+        tags: ['admin'],
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: 'object',
+          required: ['ticks'],
+          properties: {
+            ticks: {
+              type: 'array',
+              items: {
+                type: 'object',
+                required: ['symbol', 'timestamp', 'bid', 'ask', 'last'],
+                properties: {
+                  symbol: { type: 'string' },
+                  timestamp: { type: 'string', format: 'date-time' },
+                  bid: { type: 'number' },
+                  ask: { type: 'number' },
+                  last: { type: 'number' },
+                  volume: { type: 'number' },
+                },
+              },
+            },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              saved: { type: 'number' },
+            },
+          },
+        },
+      },
+    },
+    async (request: AuthenticatedRequest<{ Body: MarketTicksBody }>, reply: FastifyReply) => {
+      const validated = marketTicksSchema.parse(request.body);
+      const saved = await saveMarketTicks(validated.ticks);
+
+      return reply.send({ message: 'Market ticks saved', saved });
+    }
+  );
+
+  // Start a market replay
+  fastify.post<{ Body: ReplayRequest }>(
+    '/replay',
+    {
+      schema: {
+        description:
+          'Replay stored ticks or broker candles into the shared sandbox market; control it over the WebSocket',
+        tags: ['admin'],
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: 'object',
+          required: ['symbols', 'from', 'to'],
+          properties: {
+            symbols: { type: 'array', items: { type: 'string' } },
+            from: { type: 'string', format: 'date-time' },
+            to: { type: 'string', format: 'date-time' },
+            source: { type: 'string', enum: ['ticks', 'candles'] },
+            interval: { type: 'string', enum: ['1m', '5m', '15m', '30m', '1h', '4h', '1d'] },
+            spreadBps: { type: 'number' },
+            speed: { anyOf: [{ type: 'number' }, { type: 'string', enum: ['max', 'step'] }] },
+            autoplay: { type: 'boolean' },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              replay: replayStateResponse,
+            },
+          },
+        },
+      },
+    },
+    async (request: AuthenticatedRequest<{ Body: ReplayRequest }>, reply: FastifyReply) => {
+      const validated = replaySchema.parse(request.body);
+
+      try {
+        const replay = await startReplay(request.user.id, validated);
+        return reply.send({ message: 'Market replay started', replay });
+      } catch (error: any) {
+        if (error instanceof AppError) throw error;
+        throw new AppError(500, 'REPLAY_ERROR', `Failed to start market replay: ${error.message}`);
+      }
+    }
+  );
+
+  // Stop the market replay
+  fastify.delete(
+    '/replay',
+    {
+      schema: {
+        description: 'Stop the market replay; its symbols return to simulated prices',
+        tags: ['admin'],
+        security: [{ bearerAuth: [] }],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              replay: replayStateResponse,
+            },
+          },
+        },
+      },
+    },
+    async (_request: AuthenticatedRequest, reply: FastifyReply) => {
+      const replay = stopReplay();
+      if (!replay) {
+        throw new AppError(409, 'REPLAY_NOT_RUNNING', 'No market replay is running');
+      }
+
+      return reply.send({ message: 'Market replay stopped', replay });
+    }
+  );
+}
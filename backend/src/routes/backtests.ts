@@ -0,0 +1,317 @@
+import { FastifyInstance, FastifyReply } from 'fastify';
+import { authenticate, AuthenticatedRequest } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { backtestCompareQuerySchema, backtestSchema, backtestsQuerySchema } from '../utils/validation';
+import {
+  BacktestRequest,
+  compareBacktests,
+  createBacktest,
+  deleteBacktest,
+  getBacktest,
+  listBacktests,
+} from '../services/backtests';
+
+const nullableNumber = { type: ['number', 'null'] };
+
+const backtestParamsSchema = {
+  type: 'object',
+  required: ['id'],
+  properties: {
+    id: { type: 'integer' },
+  },
+};
+
+const equityPointResponse = {
+  type: 'object',
+  properties: {
+    timestamp: { type: 'string', format: 'date-time' },
+    equity: { type: 'number' },
+    cash: { type: 'number' },
+    positionsValue: { type: 'number' },
+  },
+};
+
+const backtestTradeResponse = {
+  type: 'object',
+  properties: {
+    orderId: { type: 'string' },
+    side: { type: 'string' },
+    quantity: { type: 'number' },
+    price: { type: 'number' },
+    fee: { type: 'number' },
+    liquidity: { type: ['string', 'null'] },
+    executedAt: { type: 'string', format: 'date-time' },
+  },
+};
+
+const backtestProperties = {
+  id: { type: 'number' },
+  name: { type: ['string', 'null'] },
+  symbol: { type: 'string' },
+  interval: { type: 'string' },
+  source: { type: 'string' },
+  params: { type: 'object', additionalProperties: true },
+  status: { type: 'string' },
+  error: { type: ['string', 'null'] },
+  candleCount: { type: ['integer', 'null'] },
+  finalEquity: nullableNumber,
+  totalReturn: nullableNumber,
+  rejectedOrders: { type: ['integer', 'null'] },
+  metrics: {
+    type: ['object', 'null'],
+    properties: {
+      twr: nullableNumber,
+      mwr: nullableNumber,
+      volatility: nullableNumber,
+      sharpe: nullableNumber,
+      sortino: nullableNumber,
+      maxDrawdown: {
+        type: ['object', 'null'],
+        properties: {
+          depth: { type: 'number' },
+          peakAt: { type: 'string', format: 'date-time' },
+          troughAt: { type: 'string', format: 'date-time' },
+          recoveredAt: { type: ['string', 'null'], format: 'date-time' },
+        },
+      },
+      trades: { type: 'number' },
+      wins: { type: 'number' },
+      losses: { type: 'number' },
+      winRate: nullableNumber,
+      profitFactor: nullableNumber,
+      averageWin: nullableNumber,
+      averageLoss: nullableNumber,
+      expectancy: nullableNumber,
+      realizedPnl: { type: 'number' },
+    },
+  },
+  createdAt: { type: 'string', format: 'date-time' },
+  startedAt: { type: ['string', 'null'], format: 'date-time' },
+  completedAt: { type: ['string', 'null'], format: 'date-time' },
+};
+
+const backtestResponse = {
+  type: 'object',
+  properties: {
+    ...backtestProperties,
+    trades: { type: 'array', items: backtestTradeResponse },
+    equityCurve: { type: 'array', items: equityPointResponse },
+  },
+};
+
+export async function backtestRoutes(fastify: FastifyInstance) {
+  fastify.decorate('authenticate', authenticate);
+
+  // Queue a backtest
+  fastify.post<{ Body: BacktestRequest }>(
+    '/',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description:
+          'Queue a strategy backtest over broker candles (from/to) or imported candles; poll GET /api/backtests/:id for results',
+        tags: ['backtests'],
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: 'object',
+          required: ['symbol', 'strategy'],
+          properties: {
+            name: { type: 'string' },
+            symbol: { type: 'string' },
+            interval: { type: 'string', enum: ['1m', '5m', '15m', '30m', '1h', '4h', '1d'] },
+            from: { type: 'string', format: 'date-time' },
+            to: { type: 'string', format: 'date-time' },
+            candles: {
+              type: 'array',
+              items: {
+                type: 'object',
+                required: ['timestamp', 'open', 'high', 'low', 'close'],
+                properties: {
+                  timestamp: { type: 'string', format: 'date-time' },
+                  open: { type: 'number' },
+                  high: { type: 'number' },
+                  low: { type: 'number' },
+                  close: { type: 'number' },
+                  volume: { type: 'number' },
+                },
+              },
+            },
+            strategy: {
+              type: 'object',
+              required: ['type'],
+              properties: {
+                type: { type: 'string', enum: ['buy_and_hold', 'sma_crossover'] },
+                fastPeriod: { type: 'integer' },
+                slowPeriod: { type: 'integer' },
+                quantity: { type: 'number' },
+              },
+            },
+            startingCash: { type: 'number' },
+            commissionModel: { type: 'object', additionalProperties: true },
+            slippageModel: { type: 'object', additionalProperties: true },
+            spreadBps: { type: 'number' },
+            riskFreeRate: { type: 'number', minimum: 0, maximum: 1 },
+          },
+        },
+        response: {
+          202: {
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              backtest: { type: 'object', properties: backtestProperties },
+            },
+          },
+        },
+      },
+    },
+    async (request: AuthenticatedRequest<{ Body: BacktestRequest }>, reply: FastifyReply) => {
+      const validated = backtestSchema.parse(request.body);
+
+      try {
+        const backtest = await createBacktest(request.user.id, validated);
+        return reply.code(202).send({ message: 'Backtest queued', backtest });
+      } catch (error: any) {
+        logger.error({ error, userId: request.user.id }, 'Failed to queue backtest');
+        throw new AppError(500, 'BACKTEST_ERROR', `Failed to queue backtest: ${error.message}`);
+      }
+    }
+  );
+
+  // List backtests
+  fastify.get<{ Querystring: { limit?: number; offset?: number } }>(
+    '/',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'List backtests with their status and headline results, newest first',
+        tags: ['backtests'],
+        security: [{ bearerAuth: [] }],
+        querystring: {
+          type: 'object',
+          properties: {
+            limit: { type: 'number', default: 20 },
+            offset: { type: 'number', default: 0 },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              backtests: { type: 'array', items: { type: 'object', properties: backtestProperties } },
+              total: { type: 'number' },
+            },
+          },
+        },
+      },
+    },
+    async (
+      request: AuthenticatedRequest<{ Querystring: { limit?: number; offset?: number } }>,
+      reply: FastifyReply
+    ) => {
+      const { limit, offset } = backtestsQuerySchema.parse(request.query);
+      return reply.send(await listBacktests(request.user.id, limit, offset));
+    }
+  );
+
+  // Compare backtests side by side
+  fastify.get<{ Querystring: { ids: string } }>(
+    '/compare',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Get the results and equity curves of several backtests, in the order given',
+        tags: ['backtests'],
+        security: [{ bearerAuth: [] }],
+        querystring: {
+          type: 'object',
+          required: ['ids'],
+          properties: {
+            ids: { type: 'string', description: 'Comma-separated backtest IDs' },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              backtests: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    ...backtestProperties,
+                    equityCurve: { type: 'array', items: equityPointResponse },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request: AuthenticatedRequest<{ Querystring: { ids: string } }>, reply: FastifyReply) => {
+      const { ids } = backtestCompareQuerySchema.parse(request.query);
+
+      const backtests = await compareBacktests(request.user.id, ids);
+      if (!backtests) {
+        throw new AppError(404, 'BACKTEST_NOT_FOUND', 'One or more backtests not found');
+      }
+
+      return reply.send({ backtests });
+    }
+  );
+
+  // Get a backtest with its trades and equity curve
+  fastify.get<{ Params: { id: number } }>(
+    '/:id',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Get a backtest with its trades, equity curve and analytics',
+        tags: ['backtests'],
+        security: [{ bearerAuth: [] }],
+        params: backtestParamsSchema,
+        response: {
+          200: backtestResponse,
+        },
+      },
+    },
+    async (request: AuthenticatedRequest<{ Params: { id: number } }>, reply: FastifyReply) => {
+      const backtest = await getBacktest(request.user.id, request.params.id);
+      if (!backtest) {
+        throw new AppError(404, 'BACKTEST_NOT_FOUND', 'Backtest not found');
+      }
+
+      return reply.send(backtest);
+    }
+  );
+
+  // Delete a backtest
+  fastify.delete<{ Params: { id: number } }>(
+    '/:id',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Delete a backtest and its results; a queued backtest will not run',
+        tags: ['backtests'],
+        security: [{ bearerAuth: [] }],
+        params: backtestParamsSchema,
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    async (request: AuthenticatedRequest<{ Params: { id: number } }>, reply: FastifyReply) => {
+      if (!(await deleteBacktest(request.user.id, request.params.id))) {
+        throw new AppError(404, 'BACKTEST_NOT_FOUND', 'Backtest not found');
+      }
+
+      return reply.send({ message: 'Backtest deleted' });
+    }
+  );
+}
@@ -0,0 +1,221 @@
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { config } from '../config';
+import { authenticate, AuthenticatedRequest } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
+import { completeKiteLogin, disconnectKite, getKiteLoginUrl, getKiteSessionStatus } from '../services/kiteSession';
+import { kiteInstrumentCount, searchKiteInstruments } from '../services/kiteInstruments';
+import { logger } from '../utils/logger';
+import { kiteCallbackSchema, kiteInstrumentQuerySchema } from '../utils/validation';
+
+interface KiteInstrumentQuery {
+  exchange?: string;
+  segment?: string;
+  tradingsymbol?: string;
+  token?: number;
+  lotSize?: number;
+  tickSize?: number;
+  limit?: number;
+}
+
+interface KiteCallbackQuery {
+  request_token?: string;
+  status?: string;
+  state?: string;
+}
+
+const kiteSessionResponse = {
+  type: 'object',
+  properties: {
+    status: { type: 'string', enum: ['connected', 'expired', 'disconnected', 'not_configured'] },
+    reconnectRequired: { type: 'boolean' },
+    brokerUserId: { type: ['string', 'null'] },
+    loginTime: { type: ['string', 'null'], format: 'date-time' },
+    expiresAt: { type: ['string', 'null'], format: 'date-time' },
+  },
+};
+
+/**
+ * Send the browser back to the frontend settings page with the login outcome
+ */
+function frontendRedirect(reply: FastifyReply, params: Record<string, string>) {
+  return reply.redirect(`${config.FRONTEND_URL}/settings?${new URLSearchParams(params)}`);
+}
+
+export async function kiteRoutes(fastify: FastifyInstance) {
+  fastify.decorate('authenticate', authenticate);
+
+  // Start a Kite login
+  fastify.get(
+    '/login',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: "Get the Kite login URL for the user's saved API key; open it in the browser",
+        tags: ['kite'],
+        security: [{ bearerAuth: [] }],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              loginUrl: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    async (request: AuthenticatedRequest, reply: FastifyReply) => {
+      try {
+        return reply.send({ loginUrl: await getKiteLoginUrl(request.user.id) });
+      } catch (error: any) {
+        if (error instanceof AppError) throw error;
+        logger.error({ error, userId: request.user.id }, 'Failed to start Kite login');
+        throw new AppError(500, 'KITE_SESSION_ERROR', `Failed to start Kite login: ${error.message}`);
+      }
+    }
+  );
+
+  // Kite's login redirect (the app's redirect URL in the Kite developer console)
+  fastify.get<{ Querystring: KiteCallbackQuery }>(
+    '/callback',
+    {
+      schema: {
+        description: 'Exchange the request token from a Kite login and return to the frontend',
+        tags: ['kite'],
+        querystring: {
+          type: 'object',
+          properties: {
+            request_token: { type: 'string' },
+            status: { type: 'string' },
+            action: { type: 'string' },
+            state: { type: 'string' },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Querystring: KiteCallbackQuery }>, reply: FastifyReply) => {
+      const parsed = kiteCallbackSchema.safeParse(request.query);
+      if (!parsed.success) {
+        return frontendRedirect(reply, { kite: 'error', code: 'KITE_LOGIN_EXPIRED' });
+      }
+      if (parsed.data.status !== 'success' || !parsed.data.request_token) {
+        return frontendRedirect(reply, { kite: 'error', code: 'KITE_LOGIN_CANCELLED' });
+      }
+
+      try {
+        await completeKiteLogin(parsed.data.state, parsed.data.request_token);
+        return frontendRedirect(reply, { kite: 'connected' });
+      } catch (error: any) {
+        logger.error({ error }, 'Kite login failed');
+        const code = error instanceof AppError ? error.code : 'KITE_SESSION_ERROR';
+        return frontendRedirect(reply, { kite: 'error', code });
+      }
+    }
+  );
+
+  // Get the Kite session status
+  fastify.get(
+    '/session',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Whether the Kite session is active; sessions expire daily at 06:00 IST',
+        tags: ['kite'],
+        security: [{ bearerAuth: [] }],
+        response: {
+          200: kiteSessionResponse,
+        },
+      },
+    },
+    async (request: AuthenticatedRequest, reply: FastifyReply) => {
+      return reply.send(await getKiteSessionStatus(request.user.id));
+    }
+  );
+
+  // Disconnect Kite
+  fastify.delete(
+    '/session',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Log out of Kite and delete the stored session',
+        tags: ['kite'],
+        security: [{ bearerAuth: [] }],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              session: kiteSessionResponse,
+            },
+          },
+        },
+      },
+    },
+    async (request: AuthenticatedRequest, reply: FastifyReply) => {
+      try {
+        await disconnectKite(request.user.id);
+        return reply.send({ message: 'Kite disconnected', session: await getKiteSessionStatus(request.user.id) });
+      } catch (error: any) {
+        if (error instanceof AppError) throw error;
+        logger.error({ error, userId: request.user.id }, 'Failed to disconnect Kite');
+        throw new AppError(500, 'KITE_SESSION_ERROR', `Failed to disconnect Kite: ${error.message}`);
+      }
+    }
+  );
+  // Look up instruments in the instrument master
+  fastify.get(
+    '/instruments',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description:
+          'Search the Kite instrument master by exchange, segment, trading symbol prefix, token, lot size or tick size',
+        tags: ['kite'],
+        security: [{ bearerAuth: [] }],
+        querystring: {
+          type: 'object',
+          properties: {
+            exchange: { type: 'string' },
+            segment: { type: 'string' },
+            tradingsymbol: { type: 'string' },
+            token: { type: 'integer' },
+            lotSize: { type: 'number' },
+            tickSize: { type: 'number' },
+            limit: { type: 'integer', default: 50 },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              loaded: { type: 'number' },
+              instruments: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    instrumentToken: { type: 'number' },
+                    exchangeToken: { type: 'number' },
+                    tradingsymbol: { type: 'string' },
+                    name: { type: 'string' },
+                    expiry: { type: ['string', 'null'] },
+                    strike: { type: 'number' },
+                    tickSize: { type: 'number' },
+                    lotSize: { type: 'number' },
+                    instrumentType: { type: 'string' },
+                    segment: { type: 'string' },
+                    exchange: { type: 'string' },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request: AuthenticatedRequest<{ Querystring: KiteInstrumentQuery }>, reply: FastifyReply) => {
+      const validated = kiteInstrumentQuerySchema.parse(request.query);
+      return reply.send({ loaded: kiteInstrumentCount(), instruments: searchKiteInstruments(validated) });
+    }
+  );
+}
@@ -0,0 +1,231 @@
+import { FastifyInstance, FastifyReply } from 'fastify';
+import { authenticate, AuthenticatedRequest } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { cashMovementSchema, ledgerStatementQuerySchema } from '../utils/validation';
+import {
+  getLedgerAccount,
+  getLedgerBalances,
+  getLedgerStatement,
+  getLiveReservedCash,
+  recordCashMovement,
+} from '../services/ledger';
+import { getSandboxAccount, recordSandboxCashMovement } from '../services/sandboxAccounts';
+
+interface CashMovementBody {
+  type: 'deposit' | 'withdrawal' | 'fee' | 'dividend' | 'interest';
+  amount: number;
+  description?: string;
+  symbol?: string;
+  occurredAt?: string;
+}
+
+interface StatementQuerystring {
+  from?: string;
+  to?: string;
+  type?: string;
+  limit?: number;
+  offset?: number;
+}
+
+const postingResponse = {
+  type: 'object',
+  properties: {
+    account: { type: 'string' },
+    amount: { type: 'number' },
+  },
+};
+
+const ledgerEntryProperties = {
+  id: { type: 'number' },
+  brokerType: { type: 'string' },
+  type: { type: 'string' },
+  description: { type: ['string', 'null'] },
+  symbol: { type: ['string', 'null'] },
+  tradeId: { type: ['number', 'null'] },
+  occurredAt: { type: 'string', format: 'date-time' },
+  cashAmount: { type: 'number' },
+  postings: { type: 'array', items: postingResponse },
+};
+
+export async function ledgerRoutes(fastify: FastifyInstance) {
+  fastify.decorate('authenticate', authenticate);
+
+  // Get cash balance and buying power
+  fastify.get(
+    '/balance',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Get the cash balance, buying power and ledger account balances of the active broker account',
+        tags: ['ledger'],
+        security: [{ bearerAuth: [] }],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              brokerType: { type: 'string' },
+              sandbox: { type: 'boolean' },
+              cash: { type: 'number' },
+              reservedCash: { type: 'number' },
+              buyingPower: { type: 'number' },
+              balances: {
+                type: 'object',
+                properties: {
+                  cash: { type: 'number' },
+                  securities: { type: 'number' },
+                  capital: { type: 'number' },
+                  fees: { type: 'number' },
+                  dividends: { type: 'number' },
+                  interest: { type: 'number' },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request: AuthenticatedRequest, reply: FastifyReply) => {
+      try {
+        const { brokerType, sandbox } = await getLedgerAccount(request.user.id);
+
+        // Loading the paper account opens its ledger on first use
+        const reservedCash = sandbox
+          ? (await getSandboxAccount(request.user.id)).broker.getAccount().reservedCash
+          : await getLiveReservedCash(request.user.id, brokerType);
+        const balances = await getLedgerBalances(request.user.id, brokerType);
+
+        return reply.send({
+          brokerType,
+          sandbox,
+          cash: balances.cash,
+          reservedCash,
+          buyingPower: Math.max(0, balances.cash - reservedCash),
+          balances,
+        });
+      } catch (error: any) {
+        logger.error({ error, userId: request.user.id }, 'Failed to get cash balance');
+        throw new AppError(500, 'LEDGER_ERROR', `Failed to get cash balance: ${error.message}`);
+      }
+    }
+  );
+
+  // Get ledger statement
+  fastify.get<{ Querystring: StatementQuerystring }>(
+    '/statement',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Get ledger entries with the running cash balance, newest first',
+        tags: ['ledger'],
+        security: [{ bearerAuth: [] }],
+        querystring: {
+          type: 'object',
+          properties: {
+            from: { type: 'string', format: 'date-time' },
+            to: { type: 'string', format: 'date-time' },
+            type: {
+              type: 'string',
+              enum: ['opening_balance', 'deposit', 'withdrawal', 'trade', 'fee', 'dividend', 'interest', 'reset'],
+            },
+            limit: { type: 'number', default: 50 },
+            offset: { type: 'number', default: 0 },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              brokerType: { type: 'string' },
+              openingBalance: { type: 'number' },
+              closingBalance: { type: 'number' },
+              entries: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    ...ledgerEntryProperties,
+                    balance: { type: 'number' },
+                  },
+                },
+              },
+              total: { type: 'number' },
+              limit: { type: 'number' },
+              offset: { type: 'number' },
+            },
+          },
+        },
+      },
+    },
+    async (request: AuthenticatedRequest<{ Querystring: StatementQuerystring }>, reply: FastifyReply) => {
+      const validated = ledgerStatementQuerySchema.parse(request.query);
+
+      try {
+        const { brokerType } = await getLedgerAccount(request.user.id);
+        const statement = await getLedgerStatement(request.user.id, brokerType, {
+          from: validated.from ? new Date(validated.from) : undefined,
+          to: validated.to ? new Date(validated.to) : undefined,
+          type: validated.type,
+          limit: validated.limit,
+          offset: validated.offset,
+        });
+
+        return reply.send({
+          brokerType,
+          ...statement,
+          limit: validated.limit,
+          offset: validated.offset,
+        });
+      } catch (error: any) {
+        logger.error({ error, userId: request.user.id }, 'Failed to get ledger statement');
+        throw new AppError(500, 'LEDGER_ERROR', `Failed to get ledger statement: ${error.message}`);
+      }
+    }
+  );
+
+  // Record a deposit, withdrawal, fee, dividend or interest
+  fastify.post<{ Body: CashMovementBody }>(
+    '/entries',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Record a deposit, withdrawal, fee, dividend or interest on the active broker account',
+        tags: ['ledger'],
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: 'object',
+          required: ['type', 'amount'],
+          properties: {
+            type: { type: 'string', enum: ['deposit', 'withdrawal', 'fee', 'dividend', 'interest'] },
+            amount: { type: 'number' },
+            description: { type: 'string' },
+            symbol: { type: 'string' },
+            occurredAt: { type: 'string', format: 'date-time' },
+          },
+        },
+        response: {
+          201: {
+            type: 'object',
+            properties: ledgerEntryProperties,
+          },
+        },
+      },
+    },
+    async (request: AuthenticatedRequest<{ Body: CashMovementBody }>, reply: FastifyReply) => {
+      const validated = cashMovementSchema.parse(request.body);
+
+      try {
+        const { brokerType, sandbox } = await getLedgerAccount(request.user.id);
+        const entry = sandbox
+          ? await recordSandboxCashMovement(request.user.id, validated)
+          : await recordCashMovement(request.user.id, brokerType, validated);
+
+        return reply.status(201).send(entry);
+      } catch (error: any) {
+        if (error instanceof AppError) throw error;
+        logger.error({ error, userId: request.user.id }, 'Failed to record cash movement');
+        throw new AppError(500, 'LEDGER_ERROR', `Failed to record cash movement: ${error.message}`);
+      }
+    }
+  );
+}
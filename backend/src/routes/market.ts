@@ -1,10 +1,10 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { authenticate, AuthenticatedRequest } from '../middleware/auth';
 import { candlesQuerySchema } from '../utils/validation';
-import { getBrokerInstance } from '../brokers/factory';
+import { getBrokerInstance, sandboxMarket } from '../brokers/factory';
 import { db } from '../db';
 import { AppError } from '../middleware/errorHandler';
-import { sandboxBroker } from '../brokers/sandbox';
+import { OrderRuleError } from '../brokers/base';
 
 export async function marketRoutes(fastify: FastifyInstance) {
   fastify.decorate('authenticate', authenticate);
@@ -54,7 +54,7 @@ export async function marketRoutes(fastify: FastifyInstance) {
 
         if (brokerConfig.rows.length === 0 || brokerConfig.rows[0].sandbox_mode) {
           // Use sandbox
-          quote = await sandboxBroker.getQuote(symbol);
+          quote = sandboxMarket.getQuote(symbol);
         } else {
           // Use real broker
           const broker = await getBrokerInstance(
@@ -74,6 +74,97 @@ export async function marketRoutes(fastify: FastifyInstance) {
     }
   );
 
+  // Get trading rules for a symbol
+  fastify.get<{ Params: { symbol: string } }>(
+    '/:symbol/rules',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Get the quantity, price and order value rules of the active broker for a symbol',
+        tags: ['market'],
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['symbol'],
+          properties: {
+            symbol: { type: 'string' },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              symbol: { type: 'string' },
+              brokerType: { type: 'string' },
+              rules: {
+                type: 'object',
+                nullable: true,
+                properties: {
+                  symbol: { type: 'string' },
+                  trading: { type: 'boolean' },
+                  quantity: {
+                    type: 'object',
+                    properties: { min: { type: 'number' }, max: { type: 'number' }, step: { type: 'number' } },
+                  },
+                  price: {
+                    type: 'object',
+                    properties: { min: { type: 'number' }, max: { type: 'number' }, tick: { type: 'number' } },
+                  },
+                  notional: {
+                    type: 'object',
+                    properties: {
+                      min: { type: 'number' },
+                      max: { type: 'number' },
+                      applyMinToMarket: { type: 'boolean' },
+                      applyMaxToMarket: { type: 'boolean' },
+                    },
+                  },
+                  percentPrice: {
+                    type: 'object',
+                    nullable: true,
+                    properties: {
+                      buyUp: { type: 'number' },
+                      buyDown: { type: 'number' },
+                      sellUp: { type: 'number' },
+                      sellDown: { type: 'number' },
+                      averagePriceMins: { type: 'number' },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request: AuthenticatedRequest<{ Params: { symbol: string } }>, reply: FastifyReply) => {
+      const { symbol } = request.params;
+
+      try {
+        const brokerConfig = await db.getPool().query(
+          `SELECT broker_type, sandbox_mode FROM broker_configs WHERE user_id = $1 LIMIT 1`,
+          [request.user.id]
+        );
+
+        // The sandbox and brokers without published rules take any size and price
+        if (brokerConfig.rows.length === 0 || brokerConfig.rows[0].sandbox_mode) {
+          return reply.send({ symbol, brokerType: 'sandbox', rules: null });
+        }
+
+        const brokerType = brokerConfig.rows[0].broker_type;
+        const broker = await getBrokerInstance(request.user.id, brokerType);
+        const rules = broker.getSymbolRules ? await broker.getSymbolRules(symbol) : null;
+
+        return reply.send({ symbol, brokerType, rules });
+      } catch (error: any) {
+        if (error instanceof OrderRuleError) {
+          throw new AppError(404, error.code, error.message);
+        }
+        throw new AppError(500, 'MARKET_DATA_ERROR', `Failed to get trading rules: ${error.message}`);
+      }
+    }
+  );
+
   // Get candles
   fastify.get(
     '/candles',
@@ -133,7 +224,7 @@ export async function marketRoutes(fastify: FastifyInstance) {
         let candles;
 
         if (brokerConfig.rows.length === 0 || brokerConfig.rows[0].sandbox_mode) {
-          candles = await sandboxBroker.getCandles(
+          candles = sandboxMarket.getCandles(
             validated.symbol,
             new Date(validated.from),
             new Date(validated.to),
@@ -1,21 +1,136 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { randomUUID } from 'crypto';
 import { authenticate, AuthenticatedRequest } from '../middleware/auth';
-import { createOrderSchema, orderQuerySchema } from '../utils/validation';
-import { getBrokerInstance, sandboxBroker } from '../brokers/factory';
+import {
+  clientOrderIdSchema,
+  createOrderSchema,
+  createOrderGroupSchema,
+  amendOrderSchema,
+  orderQuerySchema,
+} from '../utils/validation';
+import { getBrokerInstance } from '../brokers/factory';
+import {
+  Broker,
+  OrderProduct,
+  OrderRequest,
+  OrderResponse,
+  OrderRuleError,
+  OrderType,
+  TimeInForce,
+} from '../brokers/base';
 import { db } from '../db';
 import { AppError } from '../middleware/errorHandler';
 import { logger } from '../utils/logger';
+import { formatOrder, toOrderRequest } from '../services/orders';
+import { getOrderEvents, updateOrderStatus } from '../services/orderLifecycle';
+import { checkOrderRisk } from '../services/riskEngine';
+import { assertTradingAllowed } from '../services/killSwitch';
+import { getSandboxAccount } from '../services/sandboxAccounts';
+import { cancelWorkingOrder, isEmulatedHold, resolveBroker, submitOrder } from '../services/orderPlacement';
+import {
+  buildBracketLegs,
+  cancelOrderGroup,
+  createOrderGroup,
+  getOrderGroup,
+  OrderGroupLeg,
+} from '../services/orderGroups';
 
 interface CreateOrderBody {
   symbol: string;
   side: 'buy' | 'sell';
-  type: 'market' | 'limit' | 'stop' | 'stop_limit';
+  type: OrderType;
   quantity: number;
   price?: number;
   stopPrice?: number;
+  trailAmount?: number;
+  trailPercent?: number;
+  timeInForce?: TimeInForce;
+  expiresAt?: string;
+  clientOrderId?: string;
+  product?: OrderProduct;
 }
 
+type CreateOrderGroupBody =
+  | {
+      type: 'bracket';
+      entry: CreateOrderBody;
+      takeProfit: { price: number };
+      stopLoss: { stopPrice: number; price?: number };
+    }
+  | { type: 'oco'; legs: CreateOrderBody[] };
+
+interface AmendOrderBody {
+  quantity?: number;
+  price?: number;
+  stopPrice?: number;
+  trailAmount?: number;
+  trailPercent?: number;
+}
+
+const WORKING_STATUSES = ['pending', 'open', 'partially_filled'];
+
+const orderBodySchema = {
+  type: 'object',
+  required: ['symbol', 'side', 'type', 'quantity'],
+  properties: {
+    symbol: { type: 'string' },
+    side: { type: 'string', enum: ['buy', 'sell'] },
+    type: { type: 'string', enum: ['market', 'limit', 'stop', 'stop_limit', 'trailing_stop'] },
+    quantity: { type: 'number' },
+    price: { type: 'number' },
+    stopPrice: { type: 'number' },
+    trailAmount: { type: 'number' },
+    trailPercent: { type: 'number' },
+    timeInForce: { type: 'string', enum: ['day', 'gtc', 'ioc', 'fok', 'gtd'] },
+    expiresAt: { type: 'string', format: 'date-time' },
+    clientOrderId: { type: 'string' },
+    product: { type: 'string', enum: ['MIS', 'CNC', 'NRML'] },
+  },
+};
+
+const orderResponseSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'number' },
+    orderId: { type: 'string' },
+    symbol: { type: 'string' },
+    side: { type: 'string' },
+    type: { type: 'string' },
+    quantity: { type: 'number' },
+    price: { type: 'number', nullable: true },
+    stopPrice: { type: 'number', nullable: true },
+    trailAmount: { type: 'number', nullable: true },
+    trailPercent: { type: 'number', nullable: true },
+    timeInForce: { type: 'string', nullable: true },
+    expiresAt: { type: 'string', format: 'date-time', nullable: true },
+    status: { type: 'string' },
+    filledQuantity: { type: 'number' },
+    averagePrice: { type: 'number', nullable: true },
+    brokerOrderId: { type: 'string', nullable: true },
+    clientOrderId: { type: 'string', nullable: true },
+    product: { type: 'string', nullable: true },
+    rejectReason: { type: 'string', nullable: true },
+    groupId: { type: 'string', nullable: true },
+    groupRole: { type: 'string', nullable: true },
+    strategyId: { type: 'number', nullable: true },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' },
+  },
+};
+
+const orderGroupResponseSchema = {
+  type: 'object',
+  properties: {
+    groupId: { type: 'string' },
+    type: { type: 'string' },
+    status: { type: 'string' },
+    sandbox: { type: 'boolean' },
+    orders: { type: 'array', items: orderResponseSchema },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' },
+  },
+};
+
 export async function orderRoutes(fastify: FastifyInstance) {
   fastify.decorate('authenticate', authenticate);
 
@@ -28,27 +143,18 @@ export async function orderRoutes(fastify: FastifyInstance) {
         description: 'Place a new order',
         tags: ['orders'],
         security: [{ bearerAuth: [] }],
-        body: {
-          type: 'object',
-          required: ['symbol', 'side', 'type', 'quantity'],
-          properties: {
-            symbol: { type: 'string' },
-            side: { type: 'string', enum: ['buy', 'sell'] },
-            type: { type: 'string', enum: ['market', 'limit', 'stop', 'stop_limit'] },
-            quantity: { type: 'number' },
-            price: { type: 'number' },
-            stopPrice: { type: 'number' },
-          },
-        },
+        body: orderBodySchema,
         response: {
           201: {
             type: 'object',
             properties: {
               orderId: { type: 'string' },
+              clientOrderId: { type: 'string' },
               status: { type: 'string' },
               filledQuantity: { type: 'number' },
               averagePrice: { type: 'number' },
               brokerOrderId: { type: 'string' },
+              rejectReason: { type: 'string' },
             },
           },
         },
@@ -56,63 +162,177 @@ export async function orderRoutes(fastify: FastifyInstance) {
     },
     async (request: AuthenticatedRequest<{ Body: CreateOrderBody }>, reply: FastifyReply) => {
       const validated = createOrderSchema.parse(request.body);
+      const clientOrderId = resolveClientOrderId(validated.clientOrderId, request.headers['idempotency-key']);
+
+      // A retried request gets the order placed by the first attempt
+      if (clientOrderId) {
+        const existing = await findOrderByClientId(request.user.id, clientOrderId);
+        if (existing) {
+          return replayOrder(reply, request.user.id, existing, validated);
+        }
+      }
+
+      const row = await submitOrder(request.user.id, { ...validated, clientOrderId });
+      if (!row) {
+        const existing = await findOrderByClientId(request.user.id, clientOrderId!);
+        return replayOrder(reply, request.user.id, existing, validated);
+      }
+
+      // Optimistic response - return immediately
+      return reply.status(201).send(toPlacementResponse(row));
+    }
+  );
+
+  // Place bracket or OCO order group
+  fastify.post<{ Body: CreateOrderGroupBody }>(
+    '/groups',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Place a bracket (entry with take-profit and stop-loss) or a one-cancels-other group',
+        tags: ['orders'],
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: 'object',
+          required: ['type'],
+          properties: {
+            type: { type: 'string', enum: ['bracket', 'oco'] },
+            entry: orderBodySchema,
+            takeProfit: {
+              type: 'object',
+              required: ['price'],
+              properties: {
+                price: { type: 'number' },
+              },
+            },
+            stopLoss: {
+              type: 'object',
+              required: ['stopPrice'],
+              properties: {
+                stopPrice: { type: 'number' },
+                price: { type: 'number' },
+              },
+            },
+            legs: { type: 'array', items: orderBodySchema },
+          },
+        },
+        response: {
+          201: orderGroupResponseSchema,
+        },
+      },
+    },
+    async (request: AuthenticatedRequest<{ Body: CreateOrderGroupBody }>, reply: FastifyReply) => {
+      const validated = createOrderGroupSchema.parse(request.body);
+      await assertTradingAllowed(request.user.id);
 
       try {
-        // Get broker config
         const brokerConfig = await db.getPool().query(
-          `SELECT broker_type, sandbox_mode FROM broker_configs WHERE user_id = $1 LIMIT 1`,
+          `SELECT broker_type, sandbox_mode, commission_model, slippage_model
+           FROM broker_configs WHERE user_id = $1 LIMIT 1`,
           [request.user.id]
         );
 
-        const isSandbox = brokerConfig.rows.length === 0 || brokerConfig.rows[0].sandbox_mode;
         const brokerType = brokerConfig.rows[0]?.broker_type || 'sandbox';
+        const sandbox = brokerConfig.rows.length === 0 || brokerConfig.rows[0].sandbox_mode;
+        const legs: OrderGroupLeg[] =
+          validated.type === 'bracket'
+            ? buildBracketLegs(validated.entry, validated.takeProfit, validated.stopLoss)
+            : validated.legs.map((leg) => ({ role: 'leg', request: leg }));
 
-        // Generate order ID
-        const orderId = randomUUID();
-
-        // Place order with broker
-        let brokerResponse;
-        if (isSandbox) {
-          brokerResponse = await sandboxBroker.placeOrder(validated);
-        } else {
-          const broker = await getBrokerInstance(request.user.id, brokerType);
-          brokerResponse = await broker.placeOrder(validated);
+        const broker: Broker = sandbox
+          ? (await getSandboxAccount(request.user.id)).broker
+          : await getBrokerInstance(request.user.id, brokerType);
+        // Every leg reaches the broker eventually, so all are rounded to its trading rules
+        for (const leg of legs) {
+          if (broker.prepareOrder) leg.request = await broker.prepareOrder(leg.request);
         }
 
-        // Save order to database
-        await db.getPool().query(
-          `INSERT INTO orders (
-            user_id, order_id, broker_type, symbol, side, type, quantity, price,
-            status, filled_quantity, average_price, broker_order_id, sandbox
-          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)`,
-          [
-            request.user.id,
-            orderId,
-            brokerType,
-            validated.symbol,
-            validated.side,
-            validated.type,
-            validated.quantity,
-            validated.price || null,
-            brokerResponse.status,
-            brokerResponse.filledQuantity || 0,
-            brokerResponse.averagePrice || null,
-            brokerResponse.brokerOrderId || null,
-            isSandbox,
-          ]
-        );
+        // Bracket exits only reduce the entry's position, so the entry and OCO legs are checked
+        for (const leg of legs.filter(({ role }) => role === 'entry' || role === 'leg')) {
+          await checkOrderRisk(request.user.id, leg.request, { orderId: randomUUID(), broker, sandbox });
+        }
 
-        // Optimistic response - return immediately
-        return reply.status(201).send({
-          orderId,
-          status: brokerResponse.status,
-          filledQuantity: brokerResponse.filledQuantity,
-          averagePrice: brokerResponse.averagePrice,
-          brokerOrderId: brokerResponse.brokerOrderId,
+        const groupId = await createOrderGroup(request.user.id, validated.type, legs, {
+          brokerType,
+          sandbox,
+          profile: brokerConfig.rows[0] ?? null,
         });
+
+        return reply.status(201).send(await getOrderGroup(request.user.id, groupId));
       } catch (error: any) {
-        logger.error({ error, userId: request.user.id, order: validated }, 'Failed to place order');
-        throw new AppError(500, 'ORDER_ERROR', `Failed to place order: ${error.message}`);
+        if (error instanceof AppError) throw error;
+        if (error instanceof OrderRuleError) {
+          throw new AppError(422, error.code, error.message, error.allowed);
+        }
+        logger.error({ error, userId: request.user.id, group: validated }, 'Failed to place order group');
+        throw new AppError(500, 'ORDER_ERROR', `Failed to place order group: ${error.message}`);
+      }
+    }
+  );
+
+  // Get order group
+  fastify.get<{ Params: { groupId: string } }>(
+    '/groups/:groupId',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Get an order group with its orders',
+        tags: ['orders'],
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['groupId'],
+          properties: {
+            groupId: { type: 'string' },
+          },
+        },
+        response: {
+          200: orderGroupResponseSchema,
+        },
+      },
+    },
+    async (request: AuthenticatedRequest<{ Params: { groupId: string } }>, reply: FastifyReply) => {
+      const group = await getOrderGroup(request.user.id, request.params.groupId);
+      if (!group) {
+        throw new AppError(404, 'ORDER_GROUP_NOT_FOUND', 'Order group not found');
+      }
+      return reply.send(group);
+    }
+  );
+
+  // Cancel order group
+  fastify.delete<{ Params: { groupId: string } }>(
+    '/groups/:groupId',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Cancel every working or held order of a group',
+        tags: ['orders'],
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['groupId'],
+          properties: {
+            groupId: { type: 'string' },
+          },
+        },
+        response: {
+          200: orderGroupResponseSchema,
+        },
+      },
+    },
+    async (request: AuthenticatedRequest<{ Params: { groupId: string } }>, reply: FastifyReply) => {
+      const { groupId } = request.params;
+      if (!(await getOrderGroup(request.user.id, groupId))) {
+        throw new AppError(404, 'ORDER_GROUP_NOT_FOUND', 'Order group not found');
+      }
+
+      try {
+        await cancelOrderGroup(request.user.id, groupId);
+        return reply.send(await getOrderGroup(request.user.id, groupId));
+      } catch (error: any) {
+        logger.error({ error, userId: request.user.id, groupId }, 'Failed to cancel order group');
+        throw new AppError(500, 'ORDER_ERROR', `Failed to cancel order group: ${error.message}`);
       }
     }
   );
@@ -129,7 +349,8 @@ export async function orderRoutes(fastify: FastifyInstance) {
         querystring: {
           type: 'object',
           properties: {
-            status: { type: 'string', enum: ['open', 'filled', 'cancelled', 'all'] },
+            status: { type: 'string', enum: ['open', 'held', 'filled', 'cancelled', 'expired', 'rejected', 'all'] },
+            strategyId: { type: 'integer', description: 'Only orders placed by this strategy' },
             limit: { type: 'number', default: 50 },
             offset: { type: 'number', default: 0 },
           },
@@ -140,23 +361,7 @@ export async function orderRoutes(fastify: FastifyInstance) {
             properties: {
               orders: {
                 type: 'array',
-                items: {
-                  type: 'object',
-                  properties: {
-                    id: { type: 'number' },
-                    orderId: { type: 'string' },
-                    symbol: { type: 'string' },
-                    side: { type: 'string' },
-                    type: { type: 'string' },
-                    quantity: { type: 'number' },
-                    price: { type: 'number' },
-                    status: { type: 'string' },
-                    filledQuantity: { type: 'number' },
-                    averagePrice: { type: 'number' },
-                    createdAt: { type: 'string', format: 'date-time' },
-                    updatedAt: { type: 'string', format: 'date-time' },
-                  },
-                },
+                items: orderResponseSchema,
               },
               total: { type: 'number' },
             },
@@ -168,44 +373,32 @@ export async function orderRoutes(fastify: FastifyInstance) {
       const validated = orderQuerySchema.parse(request.query);
 
       try {
-        let query = 'SELECT * FROM orders WHERE user_id = $1';
-        const params: any[] = [request.user.id];
+        let where = 'WHERE user_id = $1';
+        const filterParams: any[] = [request.user.id];
 
         if (validated.status !== 'all') {
-          query += ' AND status = $2';
-          params.push(validated.status);
+          filterParams.push(validated.status);
+          where += ' AND status = $' + filterParams.length;
+        }
+        if (validated.strategyId !== undefined) {
+          filterParams.push(validated.strategyId);
+          where += ' AND strategy_id = $' + filterParams.length;
         }
 
-        query += ' ORDER BY created_at DESC LIMIT $' + (params.length + 1) + ' OFFSET $' + (params.length + 2);
-        params.push(validated.limit, validated.offset);
-
-        const result = await db.getPool().query(query, params);
+        const query =
+          `SELECT * FROM orders ${where} ORDER BY created_at DESC` +
+          ' LIMIT $' +
+          (filterParams.length + 1) +
+          ' OFFSET $' +
+          (filterParams.length + 2);
+        const result = await db.getPool().query(query, [...filterParams, validated.limit, validated.offset]);
 
         // Get total count
-        let countQuery = 'SELECT COUNT(*) FROM orders WHERE user_id = $1';
-        const countParams: any[] = [request.user.id];
-        if (validated.status !== 'all') {
-          countQuery += ' AND status = $2';
-          countParams.push(validated.status);
-        }
-        const countResult = await db.getPool().query(countQuery, countParams);
+        const countResult = await db.getPool().query(`SELECT COUNT(*) FROM orders ${where}`, filterParams);
         const total = parseInt(countResult.rows[0].count, 10);
 
         return reply.send({
-          orders: result.rows.map((row) => ({
-            id: row.id,
-            orderId: row.order_id,
-            symbol: row.symbol,
-            side: row.side,
-            type: row.type,
-            quantity: parseFloat(row.quantity),
-            price: row.price ? parseFloat(row.price) : null,
-            status: row.status,
-            filledQuantity: parseFloat(row.filled_quantity || '0'),
-            averagePrice: row.average_price ? parseFloat(row.average_price) : null,
-            createdAt: row.created_at,
-            updatedAt: row.updated_at,
-          })),
+          orders: result.rows.map(formatOrder),
           total,
         });
       } catch (error: any) {
@@ -244,23 +437,309 @@ export async function orderRoutes(fastify: FastifyInstance) {
         throw new AppError(404, 'ORDER_NOT_FOUND', 'Order not found');
       }
 
-      const row = result.rows[0];
-      return reply.send({
-        id: row.id,
-        orderId: row.order_id,
-        symbol: row.symbol,
-        side: row.side,
-        type: row.type,
-        quantity: parseFloat(row.quantity),
-        price: row.price ? parseFloat(row.price) : null,
-        status: row.status,
-        filledQuantity: parseFloat(row.filled_quantity || '0'),
-        averagePrice: row.average_price ? parseFloat(row.average_price) : null,
-        brokerOrderId: row.broker_order_id,
-        createdAt: row.created_at,
-        updatedAt: row.updated_at,
-      });
+      return reply.send(formatOrder(result.rows[0]));
     }
   );
+
+  // Get order status history
+  fastify.get<{ Params: { orderId: string } }>(
+    '/:orderId/events',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Get the status transitions of an order, oldest first',
+        tags: ['orders'],
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['orderId'],
+          properties: {
+            orderId: { type: 'string' },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              events: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'number' },
+                    orderId: { type: 'string' },
+                    symbol: { type: 'string' },
+                    fromStatus: { type: 'string', nullable: true },
+                    toStatus: { type: 'string' },
+                    filledQuantity: { type: 'number' },
+                    averagePrice: { type: 'number', nullable: true },
+                    source: { type: 'string' },
+                    createdAt: { type: 'string', format: 'date-time' },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request: AuthenticatedRequest<{ Params: { orderId: string } }>, reply: FastifyReply) => {
+      const result = await db.getPool().query(
+        'SELECT id FROM orders WHERE order_id = $1 AND user_id = $2',
+        [request.params.orderId, request.user.id]
+      );
+
+      if (result.rows.length === 0) {
+        throw new AppError(404, 'ORDER_NOT_FOUND', 'Order not found');
+      }
+
+      return reply.send({ events: await getOrderEvents(result.rows[0].id) });
+    }
+  );
+
+  // Cancel order
+  fastify.delete<{ Params: { orderId: string } }>(
+    '/:orderId',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Cancel a working order',
+        tags: ['orders'],
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['orderId'],
+          properties: {
+            orderId: { type: 'string' },
+          },
+        },
+      },
+    },
+    async (request: AuthenticatedRequest<{ Params: { orderId: string } }>, reply: FastifyReply) => {
+      const row = await getWorkingOrder(request.params.orderId, request.user.id);
+
+      try {
+        const updated = await cancelWorkingOrder(request.user.id, row, 'user');
+        return reply.send(formatOrder(updated));
+      } catch (error: any) {
+        logger.error({ error, userId: request.user.id, orderId: row.order_id }, 'Failed to cancel order');
+        throw new AppError(500, 'ORDER_ERROR', `Failed to cancel order: ${error.message}`);
+      }
+    }
+  );
+
+  // Amend order
+  fastify.patch<{ Params: { orderId: string }; Body: AmendOrderBody }>(
+    '/:orderId',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Modify quantity or prices of a working order',
+        tags: ['orders'],
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['orderId'],
+          properties: {
+            orderId: { type: 'string' },
+          },
+        },
+        body: {
+          type: 'object',
+          properties: {
+            quantity: { type: 'number' },
+            price: { type: 'number' },
+            stopPrice: { type: 'number' },
+            trailAmount: { type: 'number' },
+            trailPercent: { type: 'number' },
+          },
+        },
+      },
+    },
+    async (
+      request: AuthenticatedRequest<{ Params: { orderId: string }; Body: AmendOrderBody }>,
+      reply: FastifyReply
+    ) => {
+      const validated = amendOrderSchema.parse(request.body);
+      // An amend can add exposure, so it is blocked like a new order; cancels stay allowed
+      await assertTradingAllowed(request.user.id);
+      const row = await getWorkingOrder(request.params.orderId, request.user.id);
+
+      if (validated.quantity !== undefined && validated.quantity < parseFloat(row.filled_quantity || '0')) {
+        throw new AppError(400, 'INVALID_QUANTITY', 'Quantity cannot be less than the filled quantity');
+      }
+
+      const current = toOrderRequest(row);
+      if (
+        (validated.trailAmount !== undefined && current.trailPercent !== undefined) ||
+        (validated.trailPercent !== undefined && current.trailAmount !== undefined)
+      ) {
+        throw new AppError(400, 'INVALID_TRAIL', 'A trailing stop cannot switch between amount and percent');
+      }
+
+      let amended: OrderRequest = {
+        ...current,
+        quantity: validated.quantity ?? current.quantity,
+        price: validated.price ?? current.price,
+        stopPrice: validated.stopPrice ?? current.stopPrice,
+        trailAmount: validated.trailAmount ?? current.trailAmount,
+        trailPercent: validated.trailPercent ?? current.trailPercent,
+      };
+
+      try {
+        const broker = await resolveBroker(request.user.id, row);
+        // Held exits are sent later, so they are rounded to the trading rules now too
+        if (broker.prepareOrder) {
+          amended = await broker.prepareOrder(amended);
+        }
+
+        // Like new orders, except bracket exits, which only reduce the entry's position
+        if (row.group_role !== 'take_profit' && row.group_role !== 'stop_loss') {
+          await checkOrderRisk(request.user.id, amended, {
+            orderId: row.order_id,
+            broker,
+            sandbox: row.sandbox,
+            amends: { id: row.id, filledQuantity: parseFloat(row.filled_quantity || '0') },
+          });
+        }
+
+        const brokerResponse: OrderResponse = isEmulatedHold(row)
+          ? { orderId: row.order_id, status: 'held' }
+          : await broker.replaceOrder(row.broker_order_id, amended);
+
+        await db.getPool().query(
+          `UPDATE orders
+           SET quantity = $1,
+               price = $2,
+               stop_price = $3,
+               trail_amount = $4,
+               trail_percent = $5
+           WHERE id = $6`,
+          [
+            amended.quantity,
+            amended.price ?? null,
+            amended.stopPrice ?? null,
+            amended.trailAmount ?? null,
+            amended.trailPercent ?? null,
+            row.id,
+          ]
+        );
+
+        const order = formatOrder(
+          await updateOrderStatus(
+            row.id,
+            {
+              status: brokerResponse.status,
+              filledQuantity: brokerResponse.filledQuantity,
+              averagePrice: brokerResponse.averagePrice,
+              brokerOrderId: brokerResponse.brokerOrderId,
+            },
+            'user'
+          )
+        );
+
+        logger.info({ orderId: row.order_id, userId: request.user.id, amended }, 'Order amended');
+        return reply.send(order);
+      } catch (error: any) {
+        if (error instanceof AppError) throw error;
+        if (error instanceof OrderRuleError) {
+          throw new AppError(422, error.code, error.message, error.allowed);
+        }
+        logger.error({ error, userId: request.user.id, orderId: row.order_id }, 'Failed to amend order');
+        throw new AppError(500, 'ORDER_ERROR', `Failed to amend order: ${error.message}`);
+      }
+    }
+  );
+}
+
+/**
+ * Load an order owned by the user and ensure it can still be cancelled or amended
+ */
+async function getWorkingOrder(orderId: string, userId: number) {
+  const result = await db.getPool().query(
+    'SELECT * FROM orders WHERE order_id = $1 AND user_id = $2',
+    [orderId, userId]
+  );
+
+  if (result.rows.length === 0) {
+    throw new AppError(404, 'ORDER_NOT_FOUND', 'Order not found');
+  }
+
+  const row = result.rows[0];
+  if (!WORKING_STATUSES.includes(row.status) && row.status !== 'held') {
+    throw new AppError(409, 'ORDER_NOT_WORKING', `Order is ${row.status} and can no longer be changed`);
+  }
+
+  if (!row.broker_order_id && !isEmulatedHold(row)) {
+    throw new AppError(409, 'ORDER_NOT_ROUTED', 'Order has no broker order ID');
+  }
+
+  return row;
+}
+
+/**
+ * Take the client order ID from the body or the Idempotency-Key header; both may be given if they agree
+ */
+function resolveClientOrderId(bodyValue: string | undefined, header: string | string[] | undefined) {
+  const headerValue = header === undefined ? undefined : clientOrderIdSchema.parse(header);
+  if (bodyValue && headerValue && bodyValue !== headerValue) {
+    throw new AppError(400, 'IDEMPOTENCY_KEY_MISMATCH', 'clientOrderId and Idempotency-Key header differ');
+  }
+  return bodyValue ?? headerValue;
+}
+
+async function findOrderByClientId(userId: number, clientOrderId: string) {
+  const result = await db.getPool().query(
+    'SELECT * FROM orders WHERE user_id = $1 AND client_order_id = $2',
+    [userId, clientOrderId]
+  );
+  return result.rows[0];
 }
 
+/**
+ * Answer a retried placement with the order the first attempt created. The
+ * saved order holds the broker's rounding, so the retry is rounded the same way
+ * before its size and prices are compared.
+ */
+async function replayOrder(reply: FastifyReply, userId: number, row: any, order: OrderRequest) {
+  let request = order;
+  const broker = await resolveBroker(userId, row);
+  if (broker.prepareOrder) {
+    // A retry the rules now refuse (e.g. outside a moved price band) is compared as sent
+    request = await broker.prepareOrder(order).catch(() => order);
+  }
+
+  if (
+    row.symbol !== request.symbol ||
+    row.side !== request.side ||
+    row.type !== request.type ||
+    !sameAmount(row.quantity, request.quantity) ||
+    !sameAmount(row.price, request.price) ||
+    !sameAmount(row.stop_price, request.stopPrice)
+  ) {
+    throw new AppError(422, 'IDEMPOTENCY_KEY_REUSED', 'clientOrderId was already used for a different order');
+  }
+
+  logger.info({ orderId: row.order_id, clientOrderId: row.client_order_id }, 'Replayed order placement');
+  return reply.status(201).header('Idempotent-Replayed', 'true').send(toPlacementResponse(row));
+}
+
+/** Whether a saved numeric column and a request amount agree; unset matches unset */
+function sameAmount(saved: string | null, requested: number | undefined): boolean {
+  if (saved === null || saved === undefined || requested === undefined) {
+    return (saved ?? null) === null && requested === undefined;
+  }
+  return Math.abs(parseFloat(saved) - requested) < 1e-9;
+}
+
+function toPlacementResponse(row: any) {
+  return {
+    orderId: row.order_id,
+    clientOrderId: row.client_order_id,
+    status: row.status,
+    filledQuantity: parseFloat(row.filled_quantity || '0'),
+    averagePrice: row.average_price ? parseFloat(row.average_price) : undefined,
+    brokerOrderId: row.broker_order_id ?? undefined,
+    rejectReason: row.reject_reason ?? undefined,
+  };
+}
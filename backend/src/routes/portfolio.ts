@@ -1,22 +1,159 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { authenticate, AuthenticatedRequest } from '../middleware/auth';
-import { getBrokerInstance, sandboxBroker } from '../brokers/factory';
+import { getBrokerInstance } from '../brokers/factory';
+import { config } from '../config';
 import { db } from '../db';
 import { AppError } from '../middleware/errorHandler';
 import { logger } from '../utils/logger';
+import {
+  analyticsQuerySchema,
+  baseCurrencySchema,
+  lotMethodSchema,
+  lotsQuerySchema,
+  portfolioHistoryQuerySchema,
+  portfolioQuerySchema,
+  reconcileSchema,
+  reconciliationRunsQuerySchema,
+} from '../utils/validation';
+import { getSandboxAccount } from '../services/sandboxAccounts';
+import { setLotMethod, summarizeRealized, syncTaxLots } from '../services/taxLots';
+import { getBaseCurrency, getFxConverter, setBaseCurrency } from '../services/fx';
+import { HeldPosition, valuePortfolio } from '../services/portfolioValuation';
+import { getReconciliationRun, listReconciliationRuns, reconcileAccount } from '../services/reconciliation';
+import { LotMethod } from '../services/lotMatching';
+import { getPortfolioHistory } from '../services/portfolioSnapshots';
+import { getPerformanceAnalytics } from '../services/analytics';
+
+const HISTORY_DEFAULT_DAYS = 30;
+const ANALYTICS_DEFAULT_DAYS = 90;
+
+const realizedSummaryResponse = {
+  type: 'object',
+  properties: {
+    symbol: { type: 'string' },
+    closedQuantity: { type: 'number' },
+    realizedPnl: { type: 'number' },
+    shortTermPnl: { type: 'number' },
+    longTermPnl: { type: 'number' },
+    fees: { type: 'number' },
+    currency: { type: 'string' },
+    assetPnl: { type: 'number' },
+    fxPnl: { type: 'number' },
+  },
+};
+
+const lotResponse = {
+  type: 'object',
+  properties: {
+    symbol: { type: 'string' },
+    direction: { type: 'string' },
+    quantity: { type: 'number' },
+    price: { type: 'number' },
+    feePerUnit: { type: 'number' },
+    openTradeId: { type: 'number' },
+    openedAt: { type: 'string', format: 'date-time' },
+    closeTradeId: { type: 'number' },
+    closedAt: { type: 'string', format: 'date-time' },
+    openPrice: { type: 'number' },
+    closePrice: { type: 'number' },
+    costBasis: { type: 'number' },
+    proceeds: { type: 'number' },
+    fees: { type: 'number' },
+    realizedPnl: { type: 'number' },
+    holdingPeriodDays: { type: 'number' },
+    term: { type: 'string' },
+  },
+};
+
+const nullableNumber = { type: ['number', 'null'] };
+
+const reconciliationRunResponse = {
+  type: 'object',
+  properties: {
+    id: { type: 'number' },
+    brokerType: { type: 'string' },
+    sandbox: { type: 'boolean' },
+    autoRepair: { type: 'boolean' },
+    status: { type: 'string' },
+    breakCount: { type: 'number' },
+    repairedCount: { type: 'number' },
+    startedAt: { type: 'string', format: 'date-time' },
+    completedAt: { type: 'string', format: 'date-time' },
+    findings: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'number' },
+          type: { type: 'string' },
+          symbol: { type: 'string' },
+          orderId: { type: ['string', 'null'] },
+          brokerOrderId: { type: ['string', 'null'] },
+          expected: nullableNumber,
+          actual: nullableNumber,
+          message: { type: 'string' },
+          repairable: { type: 'boolean' },
+          repaired: { type: 'boolean' },
+          repairError: { type: ['string', 'null'] },
+        },
+      },
+    },
+  },
+};
+
+const performanceMetricsProperties = {
+  twr: nullableNumber,
+  mwr: nullableNumber,
+  volatility: nullableNumber,
+  sharpe: nullableNumber,
+  sortino: nullableNumber,
+  maxDrawdown: {
+    type: ['object', 'null'],
+    properties: {
+      depth: { type: 'number' },
+      peakAt: { type: 'string', format: 'date-time' },
+      troughAt: { type: 'string', format: 'date-time' },
+      recoveredAt: { type: ['string', 'null'], format: 'date-time' },
+    },
+  },
+  trades: { type: 'number' },
+  wins: { type: 'number' },
+  losses: { type: 'number' },
+  winRate: nullableNumber,
+  profitFactor: nullableNumber,
+  averageWin: nullableNumber,
+  averageLoss: nullableNumber,
+  expectancy: nullableNumber,
+  realizedPnl: { type: 'number' },
+};
+
+interface AnalyticsQuery {
+  from?: string;
+  to?: string;
+  period?: string;
+  symbol?: string;
+  riskFreeRate?: number;
+}
 
 export async function portfolioRoutes(fastify: FastifyInstance) {
   fastify.decorate('authenticate', authenticate);
 
   // Get portfolio (positions and P&L)
-  fastify.get(
+  fastify.get<{ Querystring: { currency?: string } }>(
     '/',
     {
       preHandler: [authenticate],
       schema: {
-        description: 'Get user portfolio with positions and P&L',
+        description:
+          'Get user portfolio with positions and P&L; totals are in the base currency with FX P&L split from asset P&L',
         tags: ['portfolio'],
         security: [{ bearerAuth: [] }],
+        querystring: {
+          type: 'object',
+          properties: {
+            currency: { type: 'string' },
+          },
+        },
         response: {
           200: {
             type: 'object',
@@ -27,23 +164,35 @@ export async function portfolioRoutes(fastify: FastifyInstance) {
                   type: 'object',
                   properties: {
                     symbol: { type: 'string' },
+                    brokerType: { type: 'string' },
+                    currency: { type: 'string' },
                     quantity: { type: 'number' },
                     averagePrice: { type: 'number' },
                     currentPrice: { type: 'number' },
                     unrealizedPnl: { type: 'number' },
                     realizedPnl: { type: 'number' },
+                    marketValue: { type: 'number' },
+                    assetPnl: { type: 'number' },
+                    fxPnl: { type: 'number' },
                   },
                 },
               },
+              realized: { type: 'array', items: realizedSummaryResponse },
+              lotMethod: { type: 'string' },
+              baseCurrency: { type: 'string' },
               totalUnrealizedPnl: { type: 'number' },
               totalRealizedPnl: { type: 'number' },
+              totalFxPnl: { type: 'number' },
+              totalFees: { type: 'number' },
               totalPnl: { type: 'number' },
             },
           },
         },
       },
     },
-    async (request: AuthenticatedRequest, reply: FastifyReply) => {
+    async (request: AuthenticatedRequest<{ Querystring: { currency?: string } }>, reply: FastifyReply) => {
+      const validated = portfolioQuerySchema.parse(request.query);
+
       try {
         // Get broker config
         const brokerConfig = await db.getPool().query(
@@ -51,88 +200,389 @@ export async function portfolioRoutes(fastify: FastifyInstance) {
           [request.user.id]
         );
 
+        const isSandbox = brokerConfig.rows.length === 0 || brokerConfig.rows[0].sandbox_mode;
+
+        // Get positions from the paper account, or from every live broker
+        let positions: HeldPosition[];
+        if (isSandbox) {
+          const sandboxPositions = await (await getSandboxAccount(request.user.id)).broker.getPositions();
+          positions = sandboxPositions.map((pos) => ({
+            ...pos,
+            brokerType: brokerConfig.rows[0]?.broker_type || 'sandbox',
+          }));
+        } else {
+          const liveConfigs = await db
+            .getPool()
+            .query('SELECT broker_type FROM broker_configs WHERE user_id = $1 AND sandbox_mode = false', [
+              request.user.id,
+            ]);
+          positions = [];
+          for (const { broker_type: brokerType } of liveConfigs.rows) {
+            const broker = await getBrokerInstance(request.user.id, brokerType);
+            const brokerPositions = await broker.getPositions();
+            positions.push(...brokerPositions.map((pos) => ({ ...pos, brokerType })));
+          }
+        }
+
+        // Realized P&L from sells matched against buy lots
+        const { method, open, closed } = await syncTaxLots(request.user.id, isSandbox);
+        const realized = summarizeRealized(closed);
+
+        // Convert everything into the requested or saved base currency
+        const baseCurrency = validated.currency ?? (await getBaseCurrency(request.user.id));
+        const fx = await getFxConverter(baseCurrency);
+        const valuation = await valuePortfolio(request.user.id, isSandbox, positions, { open, closed }, realized, fx);
+
+        // Sync positions to database
+        await syncPositionsToDatabase(request.user.id, valuation.positions);
+
+        return reply.send({
+          ...valuation,
+          lotMethod: method,
+        });
+      } catch (error: any) {
+        if (error instanceof AppError) throw error;
+        logger.error({ error, userId: request.user.id }, 'Failed to get portfolio');
+        throw new AppError(500, 'PORTFOLIO_ERROR', `Failed to get portfolio: ${error.message}`);
+      }
+    }
+  );
+
+  // Get equity curve
+  fastify.get<{ Querystring: { from?: string; to?: string; resolution?: string } }>(
+    '/history',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Get portfolio value and P&L snapshots, last snapshot per resolution bucket',
+        tags: ['portfolio'],
+        security: [{ bearerAuth: [] }],
+        querystring: {
+          type: 'object',
+          properties: {
+            from: { type: 'string', format: 'date-time' },
+            to: { type: 'string', format: 'date-time' },
+            resolution: { type: 'string', enum: ['5m', '15m', '1h', '1d'], default: '1h' },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              from: { type: 'string', format: 'date-time' },
+              to: { type: 'string', format: 'date-time' },
+              resolution: { type: 'string' },
+              points: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    timestamp: { type: 'string', format: 'date-time' },
+                    brokerType: { type: 'string' },
+                    totalValue: { type: 'number' },
+                    cashBalance: { type: ['number', 'null'] },
+                    positionsValue: { type: 'number' },
+                    totalPnl: { type: 'number' },
+                    totalPnlPercent: { type: 'number' },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (
+      request: AuthenticatedRequest<{ Querystring: { from?: string; to?: string; resolution?: string } }>,
+      reply: FastifyReply
+    ) => {
+      const validated = portfolioHistoryQuerySchema.parse(request.query);
+      const to = validated.to ? new Date(validated.to) : new Date();
+      const from = validated.from
+        ? new Date(validated.from)
+        : new Date(to.getTime() - HISTORY_DEFAULT_DAYS * 24 * 60 * 60 * 1000);
+
+      try {
+        const brokerConfig = await db.getPool().query(
+          `SELECT sandbox_mode FROM broker_configs WHERE user_id = $1 LIMIT 1`,
+          [request.user.id]
+        );
+        const isSandbox = brokerConfig.rows.length === 0 || brokerConfig.rows[0].sandbox_mode;
+
+        const points = await getPortfolioHistory(request.user.id, isSandbox, from, to, validated.resolution);
+
+        return reply.send({ from, to, resolution: validated.resolution, points });
+      } catch (error: any) {
+        logger.error({ error, userId: request.user.id }, 'Failed to get portfolio history');
+        throw new AppError(500, 'PORTFOLIO_ERROR', `Failed to get portfolio history: ${error.message}`);
+      }
+    }
+  );
+
+  // Get performance analytics
+  fastify.get<{ Querystring: AnalyticsQuery }>(
+    '/analytics',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description:
+          'Get returns (TWR, MWR), volatility, Sharpe, Sortino, max drawdown and trade statistics, per period and per symbol',
+        tags: ['portfolio'],
+        security: [{ bearerAuth: [] }],
+        querystring: {
+          type: 'object',
+          properties: {
+            from: { type: 'string', format: 'date-time' },
+            to: { type: 'string', format: 'date-time' },
+            period: { type: 'string', enum: ['day', 'week', 'month', 'year'], default: 'week' },
+            symbol: { type: 'string' },
+            riskFreeRate: { type: 'number', minimum: 0, maximum: 1 },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              from: { type: 'string', format: 'date-time' },
+              to: { type: 'string', format: 'date-time' },
+              period: { type: 'string' },
+              symbol: { type: 'string' },
+              riskFreeRate: { type: 'number' },
+              overall: { type: 'object', properties: performanceMetricsProperties },
+              periods: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    start: { type: 'string', format: 'date-time' },
+                    end: { type: 'string', format: 'date-time' },
+                    ...performanceMetricsProperties,
+                  },
+                },
+              },
+              symbols: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    symbol: { type: 'string' },
+                    ...performanceMetricsProperties,
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request: AuthenticatedRequest<{ Querystring: AnalyticsQuery }>, reply: FastifyReply) => {
+      const validated = analyticsQuerySchema.parse(request.query);
+      const to = validated.to ? new Date(validated.to) : new Date();
+      const from = validated.from
+        ? new Date(validated.from)
+        : new Date(to.getTime() - ANALYTICS_DEFAULT_DAYS * 24 * 60 * 60 * 1000);
+      const riskFreeRate = validated.riskFreeRate ?? config.ANALYTICS_RISK_FREE_RATE;
+
+      try {
+        const brokerConfig = await db.getPool().query(
+          `SELECT broker_type, sandbox_mode FROM broker_configs WHERE user_id = $1 LIMIT 1`,
+          [request.user.id]
+        );
         const isSandbox = brokerConfig.rows.length === 0 || brokerConfig.rows[0].sandbox_mode;
         const brokerType = brokerConfig.rows[0]?.broker_type || 'sandbox';
 
-        // Get positions from broker
+        // Open positions are valued at current prices
         let positions;
         if (isSandbox) {
-          positions = await sandboxBroker.getPositions();
+          positions = await (await getSandboxAccount(request.user.id)).broker.getPositions();
         } else {
           const broker = await getBrokerInstance(request.user.id, brokerType);
           positions = await broker.getPositions();
         }
 
-        // Get realized P&L from database
-        const realizedPnlResult = await db.getPool().query(
-          `SELECT symbol, SUM(
-            CASE 
-              WHEN side = 'buy' THEN -quantity * price
-              WHEN side = 'sell' THEN quantity * price
-            END
-          ) as realized_pnl
-          FROM trades
-          WHERE user_id = $1
-          GROUP BY symbol`,
-          [request.user.id]
-        );
-
-        const realizedPnlMap = new Map<string, number>();
-        realizedPnlResult.rows.forEach((row) => {
-          realizedPnlMap.set(row.symbol, parseFloat(row.realized_pnl || '0'));
+        const analytics = await getPerformanceAnalytics(request.user.id, isSandbox, {
+          from,
+          to,
+          period: validated.period,
+          symbol: validated.symbol,
+          riskFreeRate,
+          positions,
         });
 
-        // Merge positions with realized P&L
-        const positionsWithPnl = positions.map((pos) => {
-          const realizedPnl = realizedPnlMap.get(pos.symbol) || 0;
-          return {
-            ...pos,
-            realizedPnl,
-          };
+        return reply.send({
+          from,
+          to,
+          period: validated.period,
+          symbol: validated.symbol,
+          riskFreeRate,
+          ...analytics,
         });
+      } catch (error: any) {
+        logger.error({ error, userId: request.user.id }, 'Failed to get performance analytics');
+        throw new AppError(500, 'PORTFOLIO_ERROR', `Failed to get performance analytics: ${error.message}`);
+      }
+    }
+  );
 
-        // Calculate totals
-        const totalUnrealizedPnl = positionsWithPnl.reduce((sum, pos) => sum + pos.unrealizedPnl, 0);
-        const totalRealizedPnl = positionsWithPnl.reduce((sum, pos) => sum + pos.realizedPnl, 0);
-        const totalPnl = totalUnrealizedPnl + totalRealizedPnl;
+  // Get tax lots
+  fastify.get<{ Querystring: { symbol?: string } }>(
+    '/lots',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Get open lots and closed lots with holding period, fees and realized P&L',
+        tags: ['portfolio'],
+        security: [{ bearerAuth: [] }],
+        querystring: {
+          type: 'object',
+          properties: {
+            symbol: { type: 'string' },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              method: { type: 'string' },
+              openLots: { type: 'array', items: lotResponse },
+              closedLots: { type: 'array', items: lotResponse },
+            },
+          },
+        },
+      },
+    },
+    async (request: AuthenticatedRequest<{ Querystring: { symbol?: string } }>, reply: FastifyReply) => {
+      const validated = lotsQuerySchema.parse(request.query);
 
-        // Sync positions to database
-        await syncPositionsToDatabase(request.user.id, positionsWithPnl);
+      try {
+        const brokerConfig = await db.getPool().query(
+          `SELECT sandbox_mode FROM broker_configs WHERE user_id = $1 LIMIT 1`,
+          [request.user.id]
+        );
+        const isSandbox = brokerConfig.rows.length === 0 || brokerConfig.rows[0].sandbox_mode;
+
+        const { method, open, closed } = await syncTaxLots(request.user.id, isSandbox);
+        const matches = (lot: { symbol: string }) => !validated.symbol || lot.symbol === validated.symbol;
 
         return reply.send({
-          positions: positionsWithPnl,
-          totalUnrealizedPnl,
-          totalRealizedPnl,
-          totalPnl,
+          method,
+          openLots: open.filter(matches),
+          closedLots: closed.filter(matches),
         });
       } catch (error: any) {
-        logger.error({ error, userId: request.user.id }, 'Failed to get portfolio');
-        throw new AppError(500, 'PORTFOLIO_ERROR', `Failed to get portfolio: ${error.message}`);
+        logger.error({ error, userId: request.user.id }, 'Failed to get tax lots');
+        throw new AppError(500, 'PORTFOLIO_ERROR', `Failed to get tax lots: ${error.message}`);
       }
     }
   );
 
+  // Set lot matching method
+  fastify.put<{ Body: { method: LotMethod } }>(
+    '/lot-method',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Choose how sells are matched to lots: fifo, lifo or average cost',
+        tags: ['portfolio'],
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: 'object',
+          required: ['method'],
+          properties: {
+            method: { type: 'string', enum: ['fifo', 'lifo', 'average'] },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              method: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    async (request: AuthenticatedRequest<{ Body: { method: LotMethod } }>, reply: FastifyReply) => {
+      const validated = lotMethodSchema.parse(request.body);
+      await setLotMethod(request.user.id, validated.method);
+
+      return reply.send({
+        message: 'Lot method updated successfully',
+        method: validated.method,
+      });
+    }
+  );
+
+  // Set base currency
+  fastify.put<{ Body: { currency: string } }>(
+    '/base-currency',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Choose the currency portfolio totals are reported in',
+        tags: ['portfolio'],
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: 'object',
+          required: ['currency'],
+          properties: {
+            currency: { type: 'string' },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              currency: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    async (request: AuthenticatedRequest<{ Body: { currency: string } }>, reply: FastifyReply) => {
+      const validated = baseCurrencySchema.parse(request.body);
+      await setBaseCurrency(request.user.id, validated.currency);
+
+      return reply.send({
+        message: 'Base currency updated successfully',
+        currency: validated.currency,
+      });
+    }
+  );
+
   // Reconciliation job endpoint (for periodic reconciliation)
-  fastify.post(
+  fastify.post<{ Body: { autoRepair?: boolean } }>(
     '/reconcile',
     {
       preHandler: [authenticate],
       schema: {
-        description: 'Reconcile portfolio positions with broker',
+        description:
+          'Diff broker positions, working orders and fills against our records, store the breaks found and optionally repair missing fills and stale orders',
         tags: ['portfolio'],
         security: [{ bearerAuth: [] }],
+        body: {
+          type: 'object',
+          properties: {
+            autoRepair: { type: 'boolean', default: false },
+          },
+        },
         response: {
           200: {
             type: 'object',
             properties: {
               message: { type: 'string' },
               reconciled: { type: 'number' },
+              run: reconciliationRunResponse,
             },
           },
         },
       },
     },
-    async (request: AuthenticatedRequest, reply: FastifyReply) => {
+    async (request: AuthenticatedRequest<{ Body: { autoRepair?: boolean } }>, reply: FastifyReply) => {
+      const validated = reconcileSchema.parse(request.body || {});
+
       try {
         const brokerConfig = await db.getPool().query(
           `SELECT broker_type, sandbox_mode FROM broker_configs WHERE user_id = $1 LIMIT 1`,
@@ -142,26 +592,103 @@ export async function portfolioRoutes(fastify: FastifyInstance) {
         const isSandbox = brokerConfig.rows.length === 0 || brokerConfig.rows[0].sandbox_mode;
         const brokerType = brokerConfig.rows[0]?.broker_type || 'sandbox';
 
-        let positions;
-        if (isSandbox) {
-          positions = await sandboxBroker.getPositions();
-        } else {
-          const broker = await getBrokerInstance(request.user.id, brokerType);
-          positions = await broker.getPositions();
-        }
+        const broker = isSandbox
+          ? (await getSandboxAccount(request.user.id)).broker
+          : await getBrokerInstance(request.user.id, brokerType);
+
+        const run = await reconcileAccount(request.user.id, {
+          brokerType: isSandbox ? 'sandbox' : brokerType,
+          sandbox: isSandbox,
+          broker,
+          autoRepair: validated.autoRepair,
+        });
 
-        const reconciled = await syncPositionsToDatabase(request.user.id, positions);
+        // Refresh the positions cache from the broker once fills are settled
+        const reconciled = await syncPositionsToDatabase(request.user.id, await broker.getPositions());
 
         return reply.send({
-          message: 'Portfolio reconciled successfully',
+          message: run.status === 'breaks' ? 'Portfolio reconciled with breaks' : 'Portfolio reconciled successfully',
           reconciled,
+          run,
         });
       } catch (error: any) {
+        if (error instanceof AppError) throw error;
         logger.error({ error, userId: request.user.id }, 'Failed to reconcile portfolio');
         throw new AppError(500, 'RECONCILE_ERROR', `Failed to reconcile: ${error.message}`);
       }
     }
   );
+
+  // List reconciliation runs
+  fastify.get<{ Querystring: { limit?: number; offset?: number } }>(
+    '/reconciliations',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'List reconciliation runs, newest first',
+        tags: ['portfolio'],
+        security: [{ bearerAuth: [] }],
+        querystring: {
+          type: 'object',
+          properties: {
+            limit: { type: 'number', default: 20 },
+            offset: { type: 'number', default: 0 },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              runs: { type: 'array', items: reconciliationRunResponse },
+              total: { type: 'number' },
+              limit: { type: 'number' },
+              offset: { type: 'number' },
+            },
+          },
+        },
+      },
+    },
+    async (
+      request: AuthenticatedRequest<{ Querystring: { limit?: number; offset?: number } }>,
+      reply: FastifyReply
+    ) => {
+      const validated = reconciliationRunsQuerySchema.parse(request.query);
+      const { runs, total } = await listReconciliationRuns(request.user.id, validated.limit, validated.offset);
+
+      return reply.send({ runs, total, limit: validated.limit, offset: validated.offset });
+    }
+  );
+
+  // Get a reconciliation run with its findings
+  fastify.get<{ Params: { runId: number } }>(
+    '/reconciliations/:runId',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Get a reconciliation run with the breaks it found',
+        tags: ['portfolio'],
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['runId'],
+          properties: {
+            runId: { type: 'integer' },
+          },
+        },
+        response: {
+          200: reconciliationRunResponse,
+        },
+      },
+    },
+    async (request: AuthenticatedRequest<{ Params: { runId: number } }>, reply: FastifyReply) => {
+      const run = await getReconciliationRun(request.user.id, request.params.runId);
+      if (!run) {
+        throw new AppError(404, 'RECONCILIATION_NOT_FOUND', 'Reconciliation run not found');
+      }
+
+      return reply.send(run);
+    }
+  );
 }
 
 /**
@@ -171,6 +698,8 @@ async function syncPositionsToDatabase(
   userId: number,
   positions: Array<{
     symbol: string;
+    brokerType?: string;
+    currency?: string;
     quantity: number;
     averagePrice: number;
     currentPrice: number;
@@ -184,17 +713,16 @@ async function syncPositionsToDatabase(
 
     let reconciled = 0;
 
-    for (const pos of positions) {
-      // Get broker type from first position (simplified - in production, track per position)
-      const brokerConfig = await client.query(
-        `SELECT broker_type FROM broker_configs WHERE user_id = $1 LIMIT 1`,
-        [userId]
-      );
-      const brokerType = brokerConfig.rows[0]?.broker_type || 'sandbox';
+    // Positions without a broker belong to the user's configured one
+    const brokerConfig = await client.query(`SELECT broker_type FROM broker_configs WHERE user_id = $1 LIMIT 1`, [
+      userId,
+    ]);
+    const defaultBrokerType = brokerConfig.rows[0]?.broker_type || 'sandbox';
 
+    for (const pos of positions) {
       await client.query(
-        `INSERT INTO positions (user_id, broker_type, symbol, quantity, average_price, current_price, unrealized_pnl, realized_pnl)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        `INSERT INTO positions (user_id, broker_type, symbol, quantity, average_price, current_price, unrealized_pnl, realized_pnl, currency)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
          ON CONFLICT (user_id, broker_type, symbol)
          DO UPDATE SET
            quantity = EXCLUDED.quantity,
@@ -202,16 +730,18 @@ async function syncPositionsToDatabase(
            current_price = EXCLUDED.current_price,
            unrealized_pnl = EXCLUDED.unrealized_pnl,
            realized_pnl = EXCLUDED.realized_pnl,
+           currency = COALESCE(EXCLUDED.currency, positions.currency),
            updated_at = CURRENT_TIMESTAMP`,
         [
           userId,
-          brokerType,
+          pos.brokerType ?? defaultBrokerType,
           pos.symbol,
           pos.quantity,
           pos.averagePrice,
           pos.currentPrice,
           pos.unrealizedPnl,
           pos.realizedPnl || 0,
+          pos.currency ?? null,
         ]
       );
       reconciled++;
@@ -226,4 +756,3 @@ async function syncPositionsToDatabase(
     client.release();
   }
 }
-
@@ -0,0 +1,132 @@
+import { FastifyInstance, FastifyReply } from 'fastify';
+import { authenticate, AuthenticatedRequest } from '../middleware/auth';
+import { sandboxResetSchema } from '../utils/validation';
+import { AppError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { getSandboxAccount, resetSandboxAccount, SandboxAccount } from '../services/sandboxAccounts';
+import { getReplayState } from '../services/marketReplay';
+
+interface ResetBody {
+  startingCash?: number;
+}
+
+const accountResponse = {
+  type: 'object',
+  properties: {
+    accountId: { type: 'number' },
+    startingCash: { type: 'number' },
+    cash: { type: 'number' },
+    reservedCash: { type: 'number' },
+    buyingPower: { type: 'number' },
+    positionsValue: { type: 'number' },
+    equity: { type: 'number' },
+  },
+};
+
+export const replayStateResponse = {
+  type: 'object',
+  properties: {
+    status: { type: 'string' },
+    speed: { anyOf: [{ type: 'number' }, { type: 'string' }] },
+    symbols: { type: 'array', items: { type: 'string' } },
+    from: { type: ['string', 'null'], format: 'date-time' },
+    to: { type: ['string', 'null'], format: 'date-time' },
+    currentTime: { type: ['string', 'null'], format: 'date-time' },
+    position: { type: 'integer' },
+    total: { type: 'integer' },
+  },
+};
+
+export async function sandboxRoutes(fastify: FastifyInstance) {
+  fastify.decorate('authenticate', authenticate);
+
+  // Get sandbox account balances
+  fastify.get(
+    '/account',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Get the paper trading account: cash, buying power and equity',
+        tags: ['sandbox'],
+        security: [{ bearerAuth: [] }],
+        response: {
+          200: accountResponse,
+        },
+      },
+    },
+    async (request: AuthenticatedRequest, reply: FastifyReply) => {
+      try {
+        const account = await getSandboxAccount(request.user.id);
+        return reply.send(formatAccount(account));
+      } catch (error: any) {
+        logger.error({ error, userId: request.user.id }, 'Failed to load sandbox account');
+        throw new AppError(500, 'SANDBOX_ERROR', `Failed to load sandbox account: ${error.message}`);
+      }
+    }
+  );
+
+  // Reset sandbox account
+  fastify.post<{ Body: ResetBody }>(
+    '/reset',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Cancel working sandbox orders, clear positions and restore the starting cash',
+        tags: ['sandbox'],
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: 'object',
+          properties: {
+            startingCash: { type: 'number' },
+          },
+        },
+        response: {
+          200: accountResponse,
+        },
+      },
+    },
+    async (request: AuthenticatedRequest<{ Body: ResetBody }>, reply: FastifyReply) => {
+      const validated = sandboxResetSchema.parse(request.body || {});
+
+      try {
+        const account = await resetSandboxAccount(request.user.id, validated.startingCash);
+        return reply.send(formatAccount(account));
+      } catch (error: any) {
+        logger.error({ error, userId: request.user.id }, 'Failed to reset sandbox account');
+        throw new AppError(500, 'SANDBOX_ERROR', `Failed to reset sandbox account: ${error.message}`);
+      }
+    }
+  );
+
+  // Get the market replay's progress
+  fastify.get(
+    '/replay',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Get the market replay the sandbox is trading, if any; updates also arrive over the WebSocket',
+        tags: ['sandbox'],
+        security: [{ bearerAuth: [] }],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              replay: { ...replayStateResponse, type: ['object', 'null'] },
+            },
+          },
+        },
+      },
+    },
+    async (_request: AuthenticatedRequest, reply: FastifyReply) => {
+      return reply.send({ replay: getReplayState() });
+    }
+  );
+}
+
+function formatAccount(account: SandboxAccount) {
+  return {
+    accountId: account.id,
+    startingCash: account.startingCash,
+    ...account.broker.getAccount(),
+  };
+}
@@ -0,0 +1,378 @@
+import { FastifyInstance, FastifyReply } from 'fastify';
+import { authenticate, AuthenticatedRequest } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
+import { strategies, StrategyLogLevel } from '../strategies';
+import { logger } from '../utils/logger';
+import { stopStrategySchema, strategyLogsQuerySchema, strategySchema } from '../utils/validation';
+import {
+  createStrategy,
+  deleteStrategy,
+  getStrategy,
+  listStrategies,
+  listStrategyLogs,
+  pauseStrategy,
+  startStrategy,
+  stopStrategy,
+  StrategyRequest,
+} from '../services/strategyRuntime';
+
+const strategyParamsSchema = {
+  type: 'object',
+  required: ['id'],
+  properties: {
+    id: { type: 'integer' },
+  },
+};
+
+const pnlResponse = {
+  type: 'object',
+  properties: {
+    realizedPnl: { type: 'number' },
+    unrealizedPnl: { type: 'number' },
+    fees: { type: 'number' },
+    trades: { type: 'integer' },
+    positions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          symbol: { type: 'string' },
+          quantity: { type: 'number' },
+          averagePrice: { type: 'number' },
+          markPrice: { type: 'number' },
+          unrealizedPnl: { type: 'number' },
+        },
+      },
+    },
+  },
+};
+
+const strategyResponse = {
+  type: 'object',
+  properties: {
+    id: { type: 'number' },
+    name: { type: 'string' },
+    strategy: { type: 'string' },
+    symbols: { type: 'array', items: { type: 'string' } },
+    params: { type: 'object', additionalProperties: true },
+    state: { type: ['object', 'null'], additionalProperties: true },
+    candleInterval: { type: 'string' },
+    status: { type: 'string' },
+    lastError: { type: ['string', 'null'] },
+    pnl: pnlResponse,
+    startedAt: { type: ['string', 'null'], format: 'date-time' },
+    stoppedAt: { type: ['string', 'null'], format: 'date-time' },
+    createdAt: { type: 'string', format: 'date-time' },
+    updatedAt: { type: 'string', format: 'date-time' },
+  },
+};
+
+const strategyActionResponse = {
+  200: {
+    type: 'object',
+    properties: {
+      message: { type: 'string' },
+      strategy: strategyResponse,
+    },
+  },
+};
+
+export async function strategyRoutes(fastify: FastifyInstance) {
+  fastify.decorate('authenticate', authenticate);
+
+  // List the strategies that can be run
+  fastify.get(
+    '/available',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'List the strategy types users can create, with their default parameters',
+        tags: ['strategies'],
+        security: [{ bearerAuth: [] }],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              strategies: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    key: { type: 'string' },
+                    description: { type: 'string' },
+                    defaultParams: { type: 'object', additionalProperties: true },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (_request: AuthenticatedRequest, reply: FastifyReply) => {
+      return reply.send({
+        strategies: Object.entries(strategies).map(([key, definition]) => ({
+          key,
+          description: definition.description,
+          defaultParams: definition.defaultParams,
+        })),
+      });
+    }
+  );
+
+  // Create a strategy
+  fastify.post<{ Body: StrategyRequest }>(
+    '/',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Create a strategy from an available type; it starts stopped',
+        tags: ['strategies'],
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: 'object',
+          required: ['name', 'strategy', 'symbols'],
+          properties: {
+            name: { type: 'string' },
+            strategy: { type: 'string' },
+            symbols: { type: 'array', items: { type: 'string' } },
+            params: { type: 'object', additionalProperties: true },
+            candleInterval: { type: 'string', enum: ['1m', '5m', '15m', '30m', '1h', '4h', '1d'] },
+          },
+        },
+        response: {
+          201: {
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              strategy: strategyResponse,
+            },
+          },
+        },
+      },
+    },
+    async (request: AuthenticatedRequest<{ Body: StrategyRequest }>, reply: FastifyReply) => {
+      const validated = strategySchema.parse(request.body);
+
+      try {
+        const strategy = await createStrategy(request.user.id, validated);
+        return reply.code(201).send({ message: 'Strategy created', strategy });
+      } catch (error: any) {
+        if (error instanceof AppError) throw error;
+        logger.error({ error, userId: request.user.id }, 'Failed to create strategy');
+        throw new AppError(500, 'STRATEGY_ERROR', `Failed to create strategy: ${error.message}`);
+      }
+    }
+  );
+
+  // List strategies
+  fastify.get(
+    '/',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'List strategies with their status and P&L',
+        tags: ['strategies'],
+        security: [{ bearerAuth: [] }],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              strategies: { type: 'array', items: strategyResponse },
+            },
+          },
+        },
+      },
+    },
+    async (request: AuthenticatedRequest, reply: FastifyReply) => {
+      return reply.send({ strategies: await listStrategies(request.user.id) });
+    }
+  );
+
+  // Get a strategy
+  fastify.get<{ Params: { id: number } }>(
+    '/:id',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Get a strategy with its state and the P&L of its orders',
+        tags: ['strategies'],
+        security: [{ bearerAuth: [] }],
+        params: strategyParamsSchema,
+        response: {
+          200: strategyResponse,
+        },
+      },
+    },
+    async (request: AuthenticatedRequest<{ Params: { id: number } }>, reply: FastifyReply) => {
+      const strategy = await getStrategy(request.user.id, request.params.id);
+      if (!strategy) {
+        throw new AppError(404, 'STRATEGY_NOT_FOUND', 'Strategy not found');
+      }
+
+      return reply.send(strategy);
+    }
+  );
+
+  // Start or resume a strategy
+  fastify.post<{ Params: { id: number } }>(
+    '/:id/start',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Start a stopped or crashed strategy, or resume a paused one',
+        tags: ['strategies'],
+        security: [{ bearerAuth: [] }],
+        params: strategyParamsSchema,
+        response: strategyActionResponse,
+      },
+    },
+    async (request: AuthenticatedRequest<{ Params: { id: number } }>, reply: FastifyReply) => {
+      try {
+        const strategy = await startStrategy(request.user.id, request.params.id);
+        return reply.send({ message: 'Strategy started', strategy });
+      } catch (error: any) {
+        if (error instanceof AppError) throw error;
+        logger.error({ error, strategyId: request.params.id }, 'Failed to start strategy');
+        throw new AppError(500, 'STRATEGY_ERROR', `Failed to start strategy: ${error.message}`);
+      }
+    }
+  );
+
+  // Pause a strategy
+  fastify.post<{ Params: { id: number } }>(
+    '/:id/pause',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Stop sending market data to a running strategy; it still receives its order updates',
+        tags: ['strategies'],
+        security: [{ bearerAuth: [] }],
+        params: strategyParamsSchema,
+        response: strategyActionResponse,
+      },
+    },
+    async (request: AuthenticatedRequest<{ Params: { id: number } }>, reply: FastifyReply) => {
+      const strategy = await pauseStrategy(request.user.id, request.params.id);
+      return reply.send({ message: 'Strategy paused', strategy });
+    }
+  );
+
+  // Stop a strategy
+  fastify.post<{ Params: { id: number }; Body: { cancelOrders?: boolean } }>(
+    '/:id/stop',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Stop a strategy after its current hook, optionally cancelling its working orders',
+        tags: ['strategies'],
+        security: [{ bearerAuth: [] }],
+        params: strategyParamsSchema,
+        body: {
+          type: 'object',
+          properties: {
+            cancelOrders: { type: 'boolean' },
+          },
+        },
+        response: strategyActionResponse,
+      },
+    },
+    async (
+      request: AuthenticatedRequest<{ Params: { id: number }; Body: { cancelOrders?: boolean } }>,
+      reply: FastifyReply
+    ) => {
+      const { cancelOrders } = stopStrategySchema.parse(request.body ?? {});
+
+      try {
+        const strategy = await stopStrategy(request.user.id, request.params.id, cancelOrders);
+        return reply.send({ message: 'Strategy stopped', strategy });
+      } catch (error: any) {
+        if (error instanceof AppError) throw error;
+        logger.error({ error, strategyId: request.params.id }, 'Failed to stop strategy');
+        throw new AppError(500, 'STRATEGY_ERROR', `Failed to stop strategy: ${error.message}`);
+      }
+    }
+  );
+
+  // Strategy logs
+  fastify.get<{ Params: { id: number }; Querystring: { level?: StrategyLogLevel; limit?: number; offset?: number } }>(
+    '/:id/logs',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Get messages logged by a strategy and the runtime, newest first',
+        tags: ['strategies'],
+        security: [{ bearerAuth: [] }],
+        params: strategyParamsSchema,
+        querystring: {
+          type: 'object',
+          properties: {
+            level: { type: 'string', enum: ['info', 'warn', 'error'] },
+            limit: { type: 'number', default: 100 },
+            offset: { type: 'number', default: 0 },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              logs: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'number' },
+                    level: { type: 'string' },
+                    message: { type: 'string' },
+                    data: { type: ['object', 'null'], additionalProperties: true },
+                    createdAt: { type: 'string', format: 'date-time' },
+                  },
+                },
+              },
+              total: { type: 'number' },
+            },
+          },
+        },
+      },
+    },
+    async (
+      request: AuthenticatedRequest<{
+        Params: { id: number };
+        Querystring: { level?: StrategyLogLevel; limit?: number; offset?: number };
+      }>,
+      reply: FastifyReply
+    ) => {
+      const query = strategyLogsQuerySchema.parse(request.query);
+      return reply.send(await listStrategyLogs(request.user.id, request.params.id, query));
+    }
+  );
+
+  // Delete a strategy
+  fastify.delete<{ Params: { id: number } }>(
+    '/:id',
+    {
+      preHandler: [authenticate],
+      schema: {
+        description: 'Delete a stopped strategy and its logs; its orders are kept',
+        tags: ['strategies'],
+        security: [{ bearerAuth: [] }],
+        params: strategyParamsSchema,
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    async (request: AuthenticatedRequest<{ Params: { id: number } }>, reply: FastifyReply) => {
+      if (!(await deleteStrategy(request.user.id, request.params.id))) {
+        throw new AppError(404, 'STRATEGY_NOT_FOUND', 'Strategy not found');
+      }
+
+      return reply.send({ message: 'Strategy deleted' });
+    }
+  );
+}
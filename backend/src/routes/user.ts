@@ -1,9 +1,67 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { db } from '../db';
-import { brokerConfigSchema } from '../utils/validation';
+import {
+  brokerConfigSchema,
+  costModelsSchema,
+  haltTradingSchema,
+  riskAuditQuerySchema,
+  riskLimitsSchema,
+} from '../utils/validation';
 import { authenticate, AuthenticatedRequest } from '../middleware/auth';
 import { encrypt, decrypt } from '../utils/encryption';
 import { AppError } from '../middleware/errorHandler';
+import { getRiskAuditLog, getRiskLimits, updateRiskLimits } from '../services/riskEngine';
+import { RiskLimits } from '../services/riskRules';
+import { getActiveHalt, getUserHalt, haltTrading, resumeTrading } from '../services/killSwitch';
+import { clearBrokerInstance } from '../brokers/factory';
+
+interface CostModelsBody {
+  commissionModel?: Record<string, unknown>;
+  slippageModel?: Record<string, unknown>;
+}
+
+type RiskLimitsBody = Partial<RiskLimits>;
+
+const riskLimitsResponse = {
+  type: 'object',
+  properties: {
+    maxOrderNotional: { type: 'number', nullable: true },
+    maxPositionNotional: { type: 'number', nullable: true },
+    maxOpenOrders: { type: 'number', nullable: true },
+    dailyLossLimit: { type: 'number', nullable: true },
+    priceBandPercent: { type: 'number', nullable: true },
+    restrictedSymbols: { type: 'array', items: { type: 'string' } },
+  },
+};
+
+export const tradingHaltResponse = {
+  type: 'object',
+  properties: {
+    id: { type: 'number' },
+    scope: { type: 'string' },
+    userId: { type: 'number', nullable: true },
+    reason: { type: 'string', nullable: true },
+    flatten: { type: 'boolean' },
+    haltedBy: { type: 'number', nullable: true },
+    createdAt: { type: 'string', format: 'date-time' },
+  },
+};
+
+export const unwindResultResponse = {
+  type: 'object',
+  properties: {
+    userId: { type: 'number' },
+    cancelledOrders: { type: 'number' },
+    failedCancels: { type: 'number' },
+    flattenOrders: { type: 'number' },
+    error: { type: 'string' },
+  },
+};
+
+export interface HaltBody {
+  reason?: string;
+  flatten?: boolean;
+}
 
 interface BrokerConfigBody {
   brokerType: 'alpaca' | 'binance' | 'kite';
@@ -101,6 +159,10 @@ export async function userRoutes(fastify: FastifyInstance) {
            api_key_encrypted = EXCLUDED.api_key_encrypted,
            api_secret_encrypted = EXCLUDED.api_secret_encrypted,
            sandbox_mode = EXCLUDED.sandbox_mode,
+           access_token_encrypted = NULL,
+           broker_user_id = NULL,
+           session_created_at = NULL,
+           session_expires_at = NULL,
            updated_at = CURRENT_TIMESTAMP`,
         [
           request.user.id,
@@ -111,6 +173,9 @@ export async function userRoutes(fastify: FastifyInstance) {
         ]
       );
 
+      // New keys need a new broker client and, for Kite, a new login
+      clearBrokerInstance(request.user.id, validated.brokerType);
+
       return reply.send({
         message: 'Broker configuration saved successfully',
         brokerType: validated.brokerType,
@@ -138,6 +203,8 @@ export async function userRoutes(fastify: FastifyInstance) {
                   properties: {
                     brokerType: { type: 'string' },
                     sandboxMode: { type: 'boolean' },
+                    commissionModel: { type: 'object', additionalProperties: true, nullable: true },
+                    slippageModel: { type: 'object', additionalProperties: true, nullable: true },
                     createdAt: { type: 'string' },
                     updatedAt: { type: 'string' },
                   },
@@ -150,7 +217,7 @@ export async function userRoutes(fastify: FastifyInstance) {
     },
     async (request: AuthenticatedRequest, reply: FastifyReply) => {
       const result = await db.getPool().query(
-        `SELECT broker_type, sandbox_mode, created_at, updated_at
+        `SELECT broker_type, sandbox_mode, commission_model, slippage_model, created_at, updated_at
          FROM broker_configs
          WHERE user_id = $1`,
         [request.user.id]
@@ -160,6 +227,8 @@ export async function userRoutes(fastify: FastifyInstance) {
         configs: result.rows.map((row) => ({
           brokerType: row.broker_type,
           sandboxMode: row.sandbox_mode,
+          commissionModel: row.commission_model,
+          slippageModel: row.slippage_model,
           createdAt: row.created_at,
           updatedAt: row.updated_at,
         })),
@@ -225,5 +294,281 @@ export async function userRoutes(fastify: FastifyInstance) {
       });
     }
   );
-}
 
+  // Set sandbox cost models
+  fastify.put<{ Params: { brokerType: string }; Body: CostModelsBody }>(
+    '/broker-config/:brokerType/cost-models',
+    {
+      schema: {
+        description: 'Choose the commission and slippage models used for sandbox fills',
+        tags: ['user'],
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['brokerType'],
+          properties: {
+            brokerType: { type: 'string', enum: ['alpaca', 'binance', 'kite'] },
+          },
+        },
+        body: {
+          type: 'object',
+          properties: {
+            commissionModel: { type: 'object', additionalProperties: true },
+            slippageModel: { type: 'object', additionalProperties: true },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              commissionModel: { type: 'object', additionalProperties: true, nullable: true },
+              slippageModel: { type: 'object', additionalProperties: true, nullable: true },
+            },
+          },
+        },
+      },
+    },
+    async (
+      request: AuthenticatedRequest<{ Params: { brokerType: string }; Body: CostModelsBody }>,
+      reply: FastifyReply
+    ) => {
+      const { brokerType } = request.params;
+      const validated = costModelsSchema.parse(request.body);
+
+      const result = await db.getPool().query(
+        `UPDATE broker_configs
+         SET commission_model = COALESCE($1, commission_model),
+             slippage_model = COALESCE($2, slippage_model),
+             updated_at = CURRENT_TIMESTAMP
+         WHERE user_id = $3 AND broker_type = $4
+         RETURNING commission_model, slippage_model`,
+        [
+          validated.commissionModel ? JSON.stringify(validated.commissionModel) : null,
+          validated.slippageModel ? JSON.stringify(validated.slippageModel) : null,
+          request.user.id,
+          brokerType,
+        ]
+      );
+
+      if (result.rows.length === 0) {
+        throw new AppError(404, 'CONFIG_NOT_FOUND', 'Broker configuration not found');
+      }
+
+      return reply.send({
+        message: 'Cost models updated successfully',
+        commissionModel: result.rows[0].commission_model,
+        slippageModel: result.rows[0].slippage_model,
+      });
+    }
+  );
+
+  // Get pre-trade risk limits
+  fastify.get(
+    '/risk-limits',
+    {
+      schema: {
+        description: 'Get the pre-trade risk limits applied to new orders',
+        tags: ['user'],
+        security: [{ bearerAuth: [] }],
+        response: {
+          200: riskLimitsResponse,
+        },
+      },
+    },
+    async (request: AuthenticatedRequest, reply: FastifyReply) => {
+      return reply.send(await getRiskLimits(request.user.id));
+    }
+  );
+
+  // Update pre-trade risk limits
+  fastify.put<{ Body: RiskLimitsBody }>(
+    '/risk-limits',
+    {
+      schema: {
+        description: 'Change pre-trade risk limits; omitted fields are kept and null removes a limit',
+        tags: ['user'],
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: 'object',
+          properties: {
+            maxOrderNotional: { type: 'number', nullable: true },
+            maxPositionNotional: { type: 'number', nullable: true },
+            maxOpenOrders: { type: 'integer', nullable: true },
+            dailyLossLimit: { type: 'number', nullable: true },
+            priceBandPercent: { type: 'number', nullable: true },
+            restrictedSymbols: { type: 'array', items: { type: 'string' } },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              limits: riskLimitsResponse,
+            },
+          },
+        },
+      },
+    },
+    async (request: AuthenticatedRequest<{ Body: RiskLimitsBody }>, reply: FastifyReply) => {
+      const validated = riskLimitsSchema.parse(request.body);
+      const limits = await updateRiskLimits(request.user.id, validated);
+
+      return reply.send({
+        message: 'Risk limits updated successfully',
+        limits,
+      });
+    }
+  );
+
+  // Get pre-trade risk decisions
+  fastify.get(
+    '/risk-audit',
+    {
+      schema: {
+        description: 'Get the audit log of pre-trade risk decisions, newest first',
+        tags: ['user'],
+        security: [{ bearerAuth: [] }],
+        querystring: {
+          type: 'object',
+          properties: {
+            limit: { type: 'number', default: 50 },
+            offset: { type: 'number', default: 0 },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              entries: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'number' },
+                    orderId: { type: 'string' },
+                    symbol: { type: 'string' },
+                    side: { type: 'string' },
+                    quantity: { type: 'number' },
+                    price: { type: 'number', nullable: true },
+                    sandbox: { type: 'boolean' },
+                    decision: { type: 'string' },
+                    code: { type: 'string', nullable: true },
+                    reason: { type: 'string', nullable: true },
+                    details: { type: 'object', additionalProperties: true, nullable: true },
+                    createdAt: { type: 'string', format: 'date-time' },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    async (request: AuthenticatedRequest, reply: FastifyReply) => {
+      const validated = riskAuditQuerySchema.parse(request.query);
+      const entries = await getRiskAuditLog(request.user.id, validated.limit, validated.offset);
+      return reply.send({ entries });
+    }
+  );
+
+  // Get trading halt status
+  fastify.get(
+    '/kill-switch',
+    {
+      schema: {
+        description: 'Whether trading is halted for the current user, by their own or a global halt',
+        tags: ['user'],
+        security: [{ bearerAuth: [] }],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              halted: { type: 'boolean' },
+              halt: { ...tradingHaltResponse, nullable: true },
+            },
+          },
+        },
+      },
+    },
+    async (request: AuthenticatedRequest, reply: FastifyReply) => {
+      const halt = await getActiveHalt(request.user.id);
+      return reply.send({ halted: halt !== null, halt });
+    }
+  );
+
+  // Halt own trading
+  fastify.post<{ Body: HaltBody }>(
+    '/kill-switch',
+    {
+      schema: {
+        description: 'Block new orders, cancel all working orders and optionally flatten positions',
+        tags: ['user'],
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: 'object',
+          properties: {
+            reason: { type: 'string' },
+            flatten: { type: 'boolean', default: false },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              halt: tradingHaltResponse,
+              result: unwindResultResponse,
+            },
+          },
+        },
+      },
+    },
+    async (request: AuthenticatedRequest<{ Body: HaltBody }>, reply: FastifyReply) => {
+      const validated = haltTradingSchema.parse(request.body || {});
+      const { halt, results } = await haltTrading(request.user.id, { ...validated, haltedBy: request.user.id });
+
+      return reply.send({
+        message: 'Trading halted',
+        halt,
+        result: results[0],
+      });
+    }
+  );
+
+  // Resume own trading
+  fastify.delete(
+    '/kill-switch',
+    {
+      schema: {
+        description: 'Lift a halt the user set themselves; halts set by an admin are lifted by an admin',
+        tags: ['user'],
+        security: [{ bearerAuth: [] }],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              message: { type: 'string' },
+              halt: tradingHaltResponse,
+            },
+          },
+        },
+      },
+    },
+    async (request: AuthenticatedRequest, reply: FastifyReply) => {
+      const halt = await getUserHalt(request.user.id);
+      if (!halt) {
+        throw new AppError(404, 'HALT_NOT_FOUND', 'Trading is not halted for this account');
+      }
+      if (halt.haltedBy !== request.user.id) {
+        throw new AppError(403, 'HALT_LOCKED', 'Trading was halted by an admin and can only be resumed by an admin');
+      }
+
+      return reply.send({
+        message: 'Trading resumed',
+        halt: await resumeTrading(request.user.id, request.user.id),
+      });
+    }
+  );
+}
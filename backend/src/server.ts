@@ -13,7 +13,20 @@ import { marketRoutes } from './routes/market';
 import { orderRoutes } from './routes/orders';
 import { portfolioRoutes } from './routes/portfolio';
 import { webhookRoutes } from './routes/webhooks';
+import { sandboxRoutes } from './routes/sandbox';
+import { adminRoutes } from './routes/admin';
+import { ledgerRoutes } from './routes/ledger';
+import { backtestRoutes } from './routes/backtests';
+import { strategyRoutes } from './routes/strategies';
+import { kiteRoutes } from './routes/kite';
 import { setupWebSocket } from './websocket';
+import { startOrderPoller, stopOrderPoller } from './services/orderPoller';
+import { startPortfolioSnapshotter, stopPortfolioSnapshotter } from './services/portfolioSnapshots';
+import { startBacktestRunner, stopBacktestRunner } from './services/backtests';
+import { startStrategyRuntime, stopStrategyRuntime } from './services/strategyRuntime';
+import { stopReplay } from './services/marketReplay';
+import { loadKiteInstruments } from './services/kiteInstruments';
+import { startBinanceUserStreams, stopBinanceUserStreams } from './services/binanceUserData';
 import { errorHandler } from './middleware/errorHandler';
 import { logger } from './utils/logger';
 
@@ -99,6 +112,12 @@ async function build() {
   await server.register(orderRoutes, { prefix: '/api/orders' });
   await server.register(portfolioRoutes, { prefix: '/api/portfolio' });
   await server.register(webhookRoutes, { prefix: '/api/webhooks' });
+  await server.register(sandboxRoutes, { prefix: '/api/sandbox' });
+  await server.register(adminRoutes, { prefix: '/api/admin' });
+  await server.register(ledgerRoutes, { prefix: '/api/ledger' });
+  await server.register(backtestRoutes, { prefix: '/api/backtests' });
+  await server.register(strategyRoutes, { prefix: '/api/strategies' });
+  await server.register(kiteRoutes, { prefix: '/api/kite' });
 
   // Setup WebSocket
   setupWebSocket(server);
@@ -111,6 +130,9 @@ async function start() {
     // Initialize database
     await db.initialize();
 
+    // Kite instrument master, when the dump is present
+    await loadKiteInstruments();
+
     const app = await build();
 
     await app.listen({
@@ -118,6 +140,12 @@ async function start() {
       host: config.HOST,
     });
 
+    startOrderPoller();
+    startPortfolioSnapshotter();
+    startBacktestRunner();
+    startStrategyRuntime();
+    startBinanceUserStreams();
+
     logger.info(`Server listening on http://${config.HOST}:${config.PORT}`);
     logger.info(`API documentation available at http://${config.HOST}:${config.PORT}/api-docs`);
   } catch (err) {
@@ -129,6 +157,12 @@ async function start() {
 // Handle graceful shutdown
 process.on('SIGTERM', async () => {
   logger.info('SIGTERM received, shutting down gracefully');
+  stopOrderPoller();
+  stopPortfolioSnapshotter();
+  stopBacktestRunner();
+  await stopStrategyRuntime();
+  await stopBinanceUserStreams();
+  stopReplay();
   await server.close();
   await db.close();
   process.exit(0);
@@ -136,6 +170,12 @@ process.on('SIGTERM', async () => {
 
 process.on('SIGINT', async () => {
   logger.info('SIGINT received, shutting down gracefully');
+  stopOrderPoller();
+  stopPortfolioSnapshotter();
+  stopBacktestRunner();
+  await stopStrategyRuntime();
+  await stopBinanceUserStreams();
+  stopReplay();
   await server.close();
   await db.close();
   process.exit(0);
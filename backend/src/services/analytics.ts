@@ -0,0 +1,149 @@
+import { Position } from '../brokers/base';
+import { db } from '../db';
+import { LotTrade, matchLots } from './lotMatching';
+import {
+  AnalyticsPeriod,
+  computeMetrics,
+  PerformanceMetrics,
+  periodBuckets,
+  positionSeries,
+  SeriesPoint,
+  sliceSeries,
+} from './performanceMetrics';
+import { getPortfolioHistory } from './portfolioSnapshots';
+import { getLotMethod, getLotTrades } from './taxLots';
+
+export interface AnalyticsOptions {
+  from: Date;
+  to: Date;
+  period: AnalyticsPeriod;
+  /** Restrict the overall and per-period figures to one symbol */
+  symbol?: string;
+  riskFreeRate: number;
+  /** Current positions; when given, what is still held is valued at their prices */
+  positions?: Position[];
+}
+
+export interface PeriodMetrics extends PerformanceMetrics {
+  start: Date;
+  end: Date;
+}
+
+export interface SymbolMetrics extends PerformanceMetrics {
+  symbol: string;
+}
+
+export interface PerformanceAnalytics {
+  overall: PerformanceMetrics;
+  periods: PeriodMetrics[];
+  symbols: SymbolMetrics[];
+}
+
+/**
+ * Returns, risk ratios and trade statistics for the window, per period and
+ * per symbol. The portfolio curve comes from the history snapshots; symbols
+ * are valued at their own trade prices. Trade statistics use the lots closed
+ * in each window with the user's lot method.
+ */
+export async function getPerformanceAnalytics(
+  userId: number,
+  sandbox: boolean,
+  options: AnalyticsOptions
+): Promise<PerformanceAnalytics> {
+  const [method, trades] = await Promise.all([getLotMethod(userId), getLotTrades(userId, sandbox)]);
+  const { closed } = matchLots(trades, method);
+
+  const symbolSeries = new Map<string, SeriesPoint[]>();
+  for (const symbol of new Set(trades.map((trade) => trade.symbol))) {
+    const position = options.positions?.find((pos) => pos.symbol === symbol);
+    const mark = position ? { price: position.currentPrice, timestamp: new Date() } : undefined;
+    symbolSeries.set(
+      symbol,
+      positionSeries(
+        trades.filter((trade) => trade.symbol === symbol),
+        mark
+      )
+    );
+  }
+
+  const series = options.symbol
+    ? symbolSeries.get(options.symbol) ?? []
+    : await getPortfolioSeries(userId, sandbox, options, trades);
+  const closedIn = (start: Date, end: Date, symbol = options.symbol) =>
+    closed.filter((lot) => lot.closedAt >= start && lot.closedAt <= end && (!symbol || lot.symbol === symbol));
+
+  const metricsFor = (points: SeriesPoint[], start: Date, end: Date, symbol?: string) =>
+    computeMetrics(sliceSeries(points, start, end), closedIn(start, end, symbol), options.riskFreeRate);
+
+  const periods = periodBuckets(options.from, options.to, options.period).map(({ start, end }) => ({
+    start,
+    end,
+    ...metricsFor(series, start, end),
+  }));
+
+  // Symbols with a position or a closed lot in the window
+  const symbols: SymbolMetrics[] = [];
+  for (const [symbol, points] of symbolSeries) {
+    if (options.symbol && symbol !== options.symbol) continue;
+
+    const window = sliceSeries(points, options.from, options.to);
+    const held = window.some((point) => point.value !== 0);
+    if (!held && closedIn(options.from, options.to, symbol).length === 0) continue;
+
+    symbols.push({ symbol, ...metricsFor(points, options.from, options.to, symbol) });
+  }
+
+  return {
+    overall: metricsFor(series, options.from, options.to),
+    periods,
+    symbols: symbols.sort((a, b) => a.symbol.localeCompare(b.symbol)),
+  };
+}
+
+/**
+ * Total value of all of the user's accounts at each snapshot. Live snapshots
+ * hold positions only, so money spent buying between snapshots is a flow;
+ * paper snapshots include cash and have none.
+ */
+async function getPortfolioSeries(
+  userId: number,
+  sandbox: boolean,
+  options: AnalyticsOptions,
+  trades: LotTrade[]
+): Promise<SeriesPoint[]> {
+  const resolution = options.period === 'day' ? '1h' : '1d';
+  let history = await getPortfolioHistory(userId, sandbox, options.from, options.to, resolution);
+
+  // Snapshots before a reset belong to the wiped paper account
+  if (sandbox) {
+    const account = await db.getPool().query('SELECT reset_at FROM sandbox_accounts WHERE user_id = $1', [userId]);
+    const resetAt = account.rows[0]?.reset_at;
+    if (resetAt) {
+      history = history.filter((point) => point.timestamp >= resetAt);
+    }
+  }
+
+  const latest = new Map<string, number>();
+  let previous: Date | null = null;
+
+  return history.map((point) => {
+    latest.set(point.brokerType, point.totalValue);
+
+    let flow = 0;
+    if (!sandbox && previous) {
+      for (const trade of trades) {
+        if (trade.executedAt > previous && trade.executedAt <= point.timestamp) {
+          const cost = trade.quantity * trade.price;
+          flow += (trade.side === 'buy' ? cost : -cost) + trade.fee;
+        }
+      }
+    }
+    previous = point.timestamp;
+
+    return {
+      timestamp: point.timestamp,
+      value: [...latest.values()].reduce((sum, value) => sum + value, 0),
+      flow,
+    };
+  });
+}
@@ -0,0 +1,203 @@
+import { Candle, MarketQuote, OrderRequest } from '../brokers/base';
+import { Liquidity } from '../brokers/costModels';
+import { SandboxBroker, SandboxCosts } from '../brokers/sandbox';
+import { SandboxMarket } from '../brokers/sandboxMarket';
+import { LotTrade, matchLots } from './lotMatching';
+import { computeMetrics, PerformanceMetrics } from './performanceMetrics';
+
+export type CandleInterval = '1m' | '5m' | '15m' | '30m' | '1h' | '4h' | '1d';
+
+export const CANDLE_INTERVAL_MS: Record<CandleInterval, number> = {
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '15m': 15 * 60 * 1000,
+  '30m': 30 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '4h': 4 * 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+};
+
+/** Candles replayed between yields to the event loop, so a long run does not stall requests */
+const CANDLES_PER_SLICE = 500;
+
+/** An order a strategy places; it always trades the backtest's symbol */
+export type BacktestOrder = Omit<OrderRequest, 'symbol'>;
+
+export interface BacktestContext {
+  /** Candles seen so far, the current one last */
+  candles: Candle[];
+  cash: number;
+  /** Quantity of the symbol held */
+  position: number;
+  /** Queue an order; it is submitted at the next candle's open */
+  placeOrder(order: BacktestOrder): void;
+  /** Drop queued orders and cancel working ones at the next candle's open */
+  cancelOrders(): void;
+}
+
+export interface BacktestStrategy {
+  /** Called once each candle has closed */
+  onCandle(candle: Candle, context: BacktestContext): void;
+}
+
+export interface BacktestOptions {
+  startingCash: number;
+  costs: SandboxCosts;
+  /** Candle length, used to space the simulated ticks inside each candle */
+  intervalMs: number;
+  /** Distance of the simulated bid and ask from each price, in basis points */
+  spreadBps: number;
+  riskFreeRate: number;
+}
+
+export interface BacktestTrade {
+  orderId: string;
+  side: 'buy' | 'sell';
+  quantity: number;
+  price: number;
+  fee: number;
+  liquidity: Liquidity | null;
+  executedAt: Date;
+}
+
+export interface EquityPoint {
+  timestamp: Date;
+  equity: number;
+  cash: number;
+  positionsValue: number;
+}
+
+export interface BacktestResult {
+  trades: BacktestTrade[];
+  /** Account value at each candle's close */
+  equityCurve: EquityPoint[];
+  metrics: PerformanceMetrics;
+  finalEquity: number;
+  /** Final over starting equity, minus one */
+  totalReturn: number;
+  /** Orders the simulated account refused, e.g. for lack of buying power */
+  rejectedOrders: number;
+}
+
+/**
+ * Prices a candle is assumed to trade through: the open, the extreme nearer the
+ * open's side first (the low for a rising candle, the high for a falling one),
+ * the other extreme, then the close
+ */
+export function candlePath(candle: Candle): number[] {
+  const extremes = candle.close >= candle.open ? [candle.low, candle.high] : [candle.high, candle.low];
+  return [candle.open, ...extremes, candle.close];
+}
+
+/**
+ * Replay candles through a fresh paper account, tick by tick along each
+ * candle's path, so orders fill under the same matching, commission and
+ * slippage rules as live paper trading. The strategy sees each candle after it
+ * closes and its orders go in at the next open, so it never trades on prices
+ * it could not yet have known.
+ */
+export async function runBacktest(
+  symbol: string,
+  candles: Candle[],
+  strategy: BacktestStrategy,
+  options: BacktestOptions
+): Promise<BacktestResult> {
+  let now = candles[0]?.timestamp ?? new Date();
+  const broker = new SandboxBroker({
+    market: new SandboxMarket(),
+    startingCash: options.startingCash,
+    clock: () => now,
+  });
+
+  const fills: Array<Omit<BacktestTrade, 'side'>> = [];
+  broker.onExecution((order, fill) => {
+    fills.push({
+      orderId: order.orderId,
+      quantity: fill.quantity,
+      price: fill.price,
+      fee: fill.fee ?? 0,
+      liquidity: fill.liquidity ?? null,
+      executedAt: fill.timestamp,
+    });
+  });
+
+  const equityCurve: EquityPoint[] = [];
+  const seen: Candle[] = [];
+  let queued: BacktestOrder[] = [];
+  let cancelRequested = false;
+  let rejectedOrders = 0;
+
+  for (const [index, candle] of candles.entries()) {
+    if (index > 0 && index % CANDLES_PER_SLICE === 0) {
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+
+    const path = candlePath(candle);
+    for (const [step, price] of path.entries()) {
+      now = new Date(candle.timestamp.getTime() + (options.intervalMs * step) / path.length);
+
+      if (step === 0 && cancelRequested) {
+        for (const order of await broker.getOpenOrders()) {
+          await broker.cancelOrder(order.orderId, symbol);
+        }
+        cancelRequested = false;
+      }
+
+      broker.updateMarketData(quoteAt(symbol, price, candle.volume, options.spreadBps, now));
+
+      if (step === 0) {
+        for (const order of queued) {
+          const placed = await broker.placeOrder({ ...order, symbol }, options.costs);
+          if (placed.status === 'rejected') rejectedOrders++;
+        }
+        queued = [];
+      }
+    }
+
+    const account = broker.getAccount();
+    equityCurve.push({
+      timestamp: candle.timestamp,
+      equity: account.equity,
+      cash: account.cash,
+      positionsValue: account.positionsValue,
+    });
+
+    seen.push(candle);
+    strategy.onCandle(candle, {
+      candles: seen,
+      cash: account.cash,
+      position: broker.getPosition(symbol)?.quantity ?? 0,
+      placeOrder: (order) => queued.push(order),
+      cancelOrders: () => {
+        queued = [];
+        cancelRequested = true;
+      },
+    });
+  }
+
+  const sides = new Map(broker.getAllOrders().map((order) => [order.orderId, order.request.side]));
+  const trades: BacktestTrade[] = fills.map((fill) => ({ ...fill, side: sides.get(fill.orderId)! }));
+
+  const lotTrades: LotTrade[] = trades.map((trade, index) => ({ id: index + 1, symbol, ...trade }));
+  const { closed } = matchLots(lotTrades, 'fifo');
+  const metrics = computeMetrics(
+    equityCurve.map((point) => ({ timestamp: point.timestamp, value: point.equity, flow: 0 })),
+    closed,
+    options.riskFreeRate
+  );
+
+  const finalEquity = equityCurve.length > 0 ? equityCurve[equityCurve.length - 1].equity : options.startingCash;
+  return {
+    trades,
+    equityCurve,
+    metrics,
+    finalEquity,
+    totalReturn: finalEquity / options.startingCash - 1,
+    rejectedOrders,
+  };
+}
+
+function quoteAt(symbol: string, price: number, volume: number, spreadBps: number, timestamp: Date): MarketQuote {
+  const offset = (price * spreadBps) / 10000;
+  return { symbol, bid: price - offset, ask: price + offset, last: price, volume, timestamp };
+}
@@ -0,0 +1,71 @@
+import { Candle } from '../brokers/base';
+import { BacktestContext, BacktestStrategy } from './backtestEngine';
+
+/**
+ * buy_and_hold: buy once at the start and hold to the end;
+ * sma_crossover: hold while the fast simple moving average of closes is above the slow one.
+ * Without a quantity, strategies buy what the cash covers at the last close.
+ */
+export type BacktestStrategyConfig =
+  | { type: 'buy_and_hold'; quantity?: number }
+  | { type: 'sma_crossover'; fastPeriod: number; slowPeriod: number; quantity?: number };
+
+/** Share of cash left unspent by default sizing, to cover fees and slippage */
+const CASH_BUFFER = 0.01;
+
+export function createBacktestStrategy(config: BacktestStrategyConfig): BacktestStrategy {
+  switch (config.type) {
+    case 'buy_and_hold':
+      return buyAndHold(config.quantity);
+    case 'sma_crossover':
+      return smaCrossover(config.fastPeriod, config.slowPeriod, config.quantity);
+  }
+}
+
+function buyAndHold(quantity?: number): BacktestStrategy {
+  let bought = false;
+
+  return {
+    onCandle(candle, context) {
+      if (bought) return;
+      bought = true;
+      buy(candle, context, quantity);
+    },
+  };
+}
+
+function smaCrossover(fastPeriod: number, slowPeriod: number, quantity?: number): BacktestStrategy {
+  return {
+    onCandle(candle, context) {
+      const { candles } = context;
+      if (candles.length <= slowPeriod) return;
+
+      const fast = average(candles, fastPeriod, 0);
+      const slow = average(candles, slowPeriod, 0);
+      const previousFast = average(candles, fastPeriod, 1);
+      const previousSlow = average(candles, slowPeriod, 1);
+
+      if (fast > slow && previousFast <= previousSlow && context.position === 0) {
+        buy(candle, context, quantity);
+      } else if (fast < slow && previousFast >= previousSlow && context.position > 0) {
+        context.placeOrder({ side: 'sell', type: 'market', quantity: context.position });
+      }
+    },
+  };
+}
+
+/**
+ * Mean close of `period` candles ending `offset` candles before the latest
+ */
+function average(candles: Candle[], period: number, offset: number): number {
+  const end = candles.length - offset;
+  const window = candles.slice(end - period, end);
+  return window.reduce((sum, candle) => sum + candle.close, 0) / window.length;
+}
+
+function buy(candle: Candle, context: BacktestContext, quantity?: number) {
+  const size = quantity ?? Math.floor((context.cash * (1 - CASH_BUFFER)) / candle.close);
+  if (size > 0) {
+    context.placeOrder({ side: 'buy', type: 'market', quantity: size });
+  }
+}
@@ -0,0 +1,340 @@
+import { Candle } from '../brokers/base';
+import {
+  CommissionModelConfig,
+  createCommissionModel,
+  createSlippageModel,
+  SlippageModelConfig,
+} from '../brokers/costModels';
+import { getBrokerInstance, sandboxMarket } from '../brokers/factory';
+import { config } from '../config';
+import { db } from '../db';
+import { logger } from '../utils/logger';
+import { BacktestTrade, CANDLE_INTERVAL_MS, CandleInterval, EquityPoint, runBacktest } from './backtestEngine';
+import { BacktestStrategyConfig, createBacktestStrategy } from './backtestStrategies';
+import { PerformanceMetrics } from './performanceMetrics';
+import { getSandboxCosts } from './sandboxAccounts';
+
+export type BacktestStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface ImportedCandle {
+  timestamp: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface BacktestRequest {
+  name?: string;
+  symbol: string;
+  interval: CandleInterval;
+  from?: string;
+  to?: string;
+  /** Candles to replay instead of fetching the range from the broker */
+  candles?: ImportedCandle[];
+  strategy: BacktestStrategyConfig;
+  startingCash?: number;
+  /** Broker profile models apply when omitted */
+  commissionModel?: CommissionModelConfig;
+  slippageModel?: SlippageModelConfig;
+  spreadBps: number;
+  riskFreeRate?: number;
+}
+
+/** Settings a run was made with, stored so runs can be compared and repeated */
+export interface BacktestParams {
+  from: string | null;
+  to: string | null;
+  strategy: BacktestStrategyConfig;
+  startingCash: number;
+  commissionModel: CommissionModelConfig | null;
+  slippageModel: SlippageModelConfig | null;
+  spreadBps: number;
+  riskFreeRate: number;
+}
+
+export interface Backtest {
+  id: number;
+  name: string | null;
+  symbol: string;
+  interval: CandleInterval;
+  source: 'broker' | 'import';
+  params: BacktestParams;
+  status: BacktestStatus;
+  error: string | null;
+  candleCount: number | null;
+  finalEquity: number | null;
+  totalReturn: number | null;
+  rejectedOrders: number | null;
+  metrics: PerformanceMetrics | null;
+  trades?: BacktestTrade[];
+  equityCurve?: EquityPoint[];
+  createdAt: Date;
+  startedAt: Date | null;
+  completedAt: Date | null;
+}
+
+/** Everything but the stored candles, trades and equity curve */
+const SUMMARY_COLUMNS = `id, name, symbol, interval, source, params, status, error, candle_count, final_equity,
+  total_return, rejected_orders, metrics, created_at, started_at, completed_at`;
+
+let runnerStarted = false;
+// Runs one backtest at a time so replays do not compete with requests for the CPU
+let queue: Promise<void> = Promise.resolve();
+
+/**
+ * Run queued backtests in the background. Backtests still queued from before a
+ * restart are picked up; one that was running when the server stopped is failed.
+ */
+export function startBacktestRunner() {
+  if (runnerStarted) return;
+  runnerStarted = true;
+
+  resumeBacktests().catch((error) => logger.error({ error }, 'Failed to resume queued backtests'));
+  logger.info('Backtest runner started');
+}
+
+/**
+ * Stop picking up backtests; queued ones wait for the next start
+ */
+export function stopBacktestRunner() {
+  runnerStarted = false;
+}
+
+async function resumeBacktests() {
+  const pool = db.getPool();
+  await pool.query(
+    `UPDATE backtests SET status = 'failed', error = 'Interrupted by a server restart', completed_at = NOW()
+     WHERE status = 'running'`
+  );
+
+  const queued = await pool.query(`SELECT id FROM backtests WHERE status = 'queued' ORDER BY id`);
+  for (const row of queued.rows) {
+    enqueueBacktest(row.id);
+  }
+}
+
+function enqueueBacktest(backtestId: number) {
+  queue = queue
+    .then(() => executeBacktest(backtestId))
+    .catch((error) => logger.error({ error, backtestId }, 'Backtest job failed'));
+}
+
+/**
+ * Store a backtest and queue it to run
+ */
+export async function createBacktest(userId: number, request: BacktestRequest): Promise<Backtest> {
+  const params: BacktestParams = {
+    from: request.from ?? null,
+    to: request.to ?? null,
+    strategy: request.strategy,
+    startingCash: request.startingCash ?? config.SANDBOX_STARTING_CASH,
+    commissionModel: request.commissionModel ?? null,
+    slippageModel: request.slippageModel ?? null,
+    spreadBps: request.spreadBps,
+    riskFreeRate: request.riskFreeRate ?? config.ANALYTICS_RISK_FREE_RATE,
+  };
+
+  const result = await db.getPool().query(
+    `INSERT INTO backtests (user_id, name, symbol, interval, source, params, candles)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)
+     RETURNING ${SUMMARY_COLUMNS}`,
+    [
+      userId,
+      request.name ?? null,
+      request.symbol,
+      request.interval,
+      request.candles ? 'import' : 'broker',
+      JSON.stringify(params),
+      request.candles ? JSON.stringify(request.candles) : null,
+    ]
+  );
+
+  const backtest = formatBacktest(result.rows[0]);
+  logger.info({ userId, backtestId: backtest.id, symbol: backtest.symbol }, 'Backtest queued');
+
+  if (runnerStarted) {
+    enqueueBacktest(backtest.id);
+  }
+  return backtest;
+}
+
+async function executeBacktest(backtestId: number) {
+  if (!runnerStarted) return;
+
+  const pool = db.getPool();
+  const claimed = await pool.query(
+    `UPDATE backtests SET status = 'running', started_at = NOW()
+     WHERE id = $1 AND status = 'queued'
+     RETURNING user_id, symbol, interval, params, candles`,
+    [backtestId]
+  );
+  // Deleted while it waited
+  if (claimed.rows.length === 0) return;
+
+  const row = claimed.rows[0];
+  const params: BacktestParams = row.params;
+
+  try {
+    const candles = row.candles
+      ? (row.candles as ImportedCandle[]).map((candle) => ({
+          ...candle,
+          symbol: row.symbol,
+          timestamp: new Date(candle.timestamp),
+        }))
+      : await fetchCandles(row.user_id, row.symbol, params, row.interval);
+
+    if (candles.length === 0) {
+      throw new Error('No candles for the requested range');
+    }
+    if (candles.length > config.BACKTEST_MAX_CANDLES) {
+      throw new Error(
+        `${candles.length} candles exceed the limit of ${config.BACKTEST_MAX_CANDLES}; shorten the range`
+      );
+    }
+    candles.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    // Volume tiers start from zero so repeated runs give the same result
+    const profile = await getSandboxCosts(row.user_id);
+    const costs = {
+      commissionModel: params.commissionModel ? createCommissionModel(params.commissionModel) : profile.commissionModel,
+      slippageModel: params.slippageModel ? createSlippageModel(params.slippageModel) : profile.slippageModel,
+      tradedVolume: 0,
+    };
+
+    const result = await runBacktest(row.symbol, candles, createBacktestStrategy(params.strategy), {
+      startingCash: params.startingCash,
+      costs,
+      intervalMs: CANDLE_INTERVAL_MS[row.interval as CandleInterval],
+      spreadBps: params.spreadBps,
+      riskFreeRate: params.riskFreeRate,
+    });
+
+    await pool.query(
+      `UPDATE backtests SET
+         status = 'completed', candle_count = $2, final_equity = $3, total_return = $4, rejected_orders = $5,
+         metrics = $6, trades = $7, equity_curve = $8, completed_at = NOW()
+       WHERE id = $1`,
+      [
+        backtestId,
+        candles.length,
+        result.finalEquity,
+        result.totalReturn,
+        result.rejectedOrders,
+        JSON.stringify(result.metrics),
+        JSON.stringify(result.trades),
+        JSON.stringify(result.equityCurve),
+      ]
+    );
+
+    logger.info(
+      { backtestId, candles: candles.length, trades: result.trades.length, totalReturn: result.totalReturn },
+      'Backtest completed'
+    );
+  } catch (error: any) {
+    logger.warn({ error, backtestId }, 'Backtest failed');
+    await pool.query(`UPDATE backtests SET status = 'failed', error = $2, completed_at = NOW() WHERE id = $1`, [
+      backtestId,
+      error.message,
+    ]);
+  }
+}
+
+/**
+ * Candles for the range from the user's broker, or the simulated market in paper mode
+ */
+async function fetchCandles(
+  userId: number,
+  symbol: string,
+  params: BacktestParams,
+  interval: CandleInterval
+): Promise<Candle[]> {
+  const from = new Date(params.from!);
+  const to = new Date(params.to!);
+  const brokerConfig = await db
+    .getPool()
+    .query('SELECT broker_type, sandbox_mode FROM broker_configs WHERE user_id = $1 LIMIT 1', [userId]);
+
+  if (brokerConfig.rows.length === 0 || brokerConfig.rows[0].sandbox_mode) {
+    return sandboxMarket.getCandles(symbol, from, to, interval);
+  }
+
+  const broker = await getBrokerInstance(userId, brokerConfig.rows[0].broker_type);
+  return broker.getCandles(symbol, from, to, interval);
+}
+
+export async function listBacktests(
+  userId: number,
+  limit: number,
+  offset: number
+): Promise<{ backtests: Backtest[]; total: number }> {
+  const pool = db.getPool();
+  const result = await pool.query(
+    `SELECT ${SUMMARY_COLUMNS} FROM backtests WHERE user_id = $1
+     ORDER BY created_at DESC, id DESC
+     LIMIT $2 OFFSET $3`,
+    [userId, limit, offset]
+  );
+  const count = await pool.query('SELECT COUNT(*) AS total FROM backtests WHERE user_id = $1', [userId]);
+
+  return { backtests: result.rows.map(formatBacktest), total: parseInt(count.rows[0].total, 10) };
+}
+
+/**
+ * A backtest with its trades and equity curve
+ */
+export async function getBacktest(userId: number, backtestId: number): Promise<Backtest | null> {
+  const result = await db
+    .getPool()
+    .query(`SELECT ${SUMMARY_COLUMNS}, trades, equity_curve FROM backtests WHERE id = $1 AND user_id = $2`, [
+      backtestId,
+      userId,
+    ]);
+
+  return result.rows.length > 0 ? formatBacktest(result.rows[0]) : null;
+}
+
+/**
+ * Backtests with their equity curves, in the order asked for; null if any is missing
+ */
+export async function compareBacktests(userId: number, backtestIds: number[]): Promise<Backtest[] | null> {
+  const result = await db
+    .getPool()
+    .query(`SELECT ${SUMMARY_COLUMNS}, equity_curve FROM backtests WHERE id = ANY($1) AND user_id = $2`, [
+      backtestIds,
+      userId,
+    ]);
+
+  const byId = new Map(result.rows.map((row) => [row.id, formatBacktest(row)]));
+  const backtests = backtestIds.map((id) => byId.get(id));
+  return backtests.every((backtest) => backtest !== undefined) ? (backtests as Backtest[]) : null;
+}
+
+export async function deleteBacktest(userId: number, backtestId: number): Promise<boolean> {
+  const result = await db.getPool().query('DELETE FROM backtests WHERE id = $1 AND user_id = $2', [backtestId, userId]);
+  return (result.rowCount ?? 0) > 0;
+}
+
+function formatBacktest(row: any): Backtest {
+  return {
+    id: row.id,
+    name: row.name,
+    symbol: row.symbol,
+    interval: row.interval,
+    source: row.source,
+    params: row.params,
+    status: row.status,
+    error: row.error,
+    candleCount: row.candle_count,
+    finalEquity: row.final_equity === null ? null : parseFloat(row.final_equity),
+    totalReturn: row.total_return === null ? null : parseFloat(row.total_return),
+    rejectedOrders: row.rejected_orders,
+    metrics: row.metrics,
+    trades: row.trades ?? undefined,
+    equityCurve: row.equity_curve ?? undefined,
+    createdAt: row.created_at,
+    startedAt: row.started_at,
+    completedAt: row.completed_at,
+  };
+}
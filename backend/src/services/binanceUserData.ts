@@ -0,0 +1,141 @@
+import { BinanceBroker } from '../brokers/binance';
+import { BinanceAccountPosition, BinanceExecutionReport, binanceExecution } from '../brokers/binanceUserStream';
+import { getBrokerInstance } from '../brokers/factory';
+import { config } from '../config';
+import { db } from '../db';
+import { logger } from '../utils/logger';
+import { broadcastAccountUpdate } from '../websocket';
+import { instrumentCurrency } from './currency';
+import { recordExecution } from './executions';
+import { OrderEventSource } from './orderLifecycle';
+import { matchByClientOrderId } from './orderUpdates';
+
+/** How often live Binance accounts are checked for streams to start or stop */
+const SYNC_INTERVAL_MS = 60 * 1000;
+
+interface UserStream {
+  broker: BinanceBroker;
+  /** Reports of one account are recorded one after another, in the order they arrived */
+  queue: Promise<void>;
+}
+
+const streams: Map<number, UserStream> = new Map();
+let syncTimer: NodeJS.Timeout | null = null;
+let syncing = false;
+
+/**
+ * Record an executionReport from a user's data stream: the order's status and
+ * totals, and its trade as a fill settled in the ledger. Binance order IDs are
+ * numbered per symbol, so the order is looked up within the stream's account.
+ */
+export async function handleBinanceExecutionReport(
+  userId: number,
+  report: BinanceExecutionReport,
+  source: OrderEventSource
+): Promise<void> {
+  const execution = binanceExecution(report, instrumentCurrency('binance', report.symbol, config.BASE_CURRENCY));
+  const owner = { userId, brokerType: 'binance', symbol: report.symbol };
+  if (await recordExecution(report.orderId, execution, false, source, owner)) {
+    return;
+  }
+
+  // The broker order ID is not stored yet when the report beats our write after placement
+  const id = await matchByClientOrderId({ clientOrderId: report.clientOrderId }, owner);
+  if (!id) {
+    logger.warn(
+      { orderId: report.orderId, clientOrderId: report.clientOrderId },
+      'Order not found for execution report'
+    );
+    return;
+  }
+
+  await db
+    .getPool()
+    .query('UPDATE orders SET broker_order_id = $1 WHERE id = $2 AND broker_order_id IS NULL', [report.orderId, id]);
+  await recordExecution(report.orderId, execution, false, source, owner);
+}
+
+/**
+ * Keep a user data stream open for every live Binance account, so fills land
+ * as they happen rather than on the next poll
+ */
+export function startBinanceUserStreams() {
+  if (syncTimer) return;
+
+  const sync = () => syncUserStreams().catch((error) => logger.error({ error }, 'Binance user stream sync failed'));
+  sync();
+  syncTimer = setInterval(sync, SYNC_INTERVAL_MS);
+  syncTimer.unref();
+
+  logger.info('Binance user data streams started');
+}
+
+export async function stopBinanceUserStreams() {
+  if (syncTimer) {
+    clearInterval(syncTimer);
+    syncTimer = null;
+  }
+
+  const open = [...streams.values()];
+  streams.clear();
+  await Promise.all(open.map((stream) => stream.broker.stopUserDataStream()));
+}
+
+/**
+ * Start streams for live Binance accounts without one and stop those of accounts
+ * that left live trading. Saving new API keys builds a new broker, whose stream
+ * replaces the old one.
+ */
+export async function syncUserStreams() {
+  if (syncing) return;
+  syncing = true;
+
+  try {
+    const result = await db
+      .getPool()
+      .query(`SELECT user_id FROM broker_configs WHERE broker_type = 'binance' AND sandbox_mode = false`);
+    const live = new Set<number>(result.rows.map((row) => row.user_id));
+
+    for (const [userId, stream] of streams) {
+      if (!live.has(userId)) {
+        streams.delete(userId);
+        await stream.broker.stopUserDataStream();
+      }
+    }
+
+    for (const userId of live) {
+      try {
+        const broker = (await getBrokerInstance(userId, 'binance')) as BinanceBroker;
+        const current = streams.get(userId);
+        if (current?.broker === broker) continue;
+
+        streams.delete(userId);
+        await current?.broker.stopUserDataStream();
+        await startUserStream(userId, broker);
+      } catch (error) {
+        // Retried on the next sync
+        logger.warn({ error, userId }, 'Failed to start Binance user data stream');
+      }
+    }
+  } finally {
+    syncing = false;
+  }
+}
+
+async function startUserStream(userId: number, broker: BinanceBroker) {
+  const stream: UserStream = { broker, queue: Promise.resolve() };
+
+  await broker.startUserDataStream({
+    onExecutionReport: (report) => {
+      stream.queue = stream.queue
+        .then(() => handleBinanceExecutionReport(userId, report, 'stream'))
+        .catch((error) =>
+          logger.error({ error, userId, orderId: report.orderId }, 'Failed to record execution report')
+        );
+    },
+    onAccountPosition: (position: BinanceAccountPosition) => {
+      broadcastAccountUpdate(userId, { broker: 'binance', ...position });
+    },
+  });
+  streams.set(userId, stream);
+}
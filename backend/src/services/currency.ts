@@ -0,0 +1,127 @@
+/**
+ * Quote assets Binance pairs are priced in, longest first so USDT wins over USD
+ */
+const BINANCE_QUOTE_ASSETS = [
+  'FDUSD',
+  'USDT',
+  'USDC',
+  'BUSD',
+  'TUSD',
+  'BTC',
+  'ETH',
+  'BNB',
+  'EUR',
+  'GBP',
+  'TRY',
+  'BRL',
+  'JPY',
+  'USD',
+];
+
+/** Rate of one base currency unit in the quote currency, e.g. 1 USD = 83.2 INR */
+export interface FxQuote {
+  base: string;
+  quote: string;
+  rate: number;
+  /** When the rate applied; rates without a date apply at all times */
+  asOf: Date | null;
+}
+
+/**
+ * Currency an instrument trades in: Alpaca equities in USD, Kite instruments
+ * in INR and Binance pairs in their quote asset. Paper accounts without a
+ * broker profile fall back to `fallback`.
+ */
+export function instrumentCurrency(brokerType: string, symbol: string, fallback: string): string {
+  switch (brokerType) {
+    case 'alpaca':
+      return 'USD';
+    case 'kite':
+      return 'INR';
+    case 'binance':
+      return splitBinancePair(symbol)?.quote ?? fallback;
+    default:
+      return fallback;
+  }
+}
+
+/**
+ * Asset a Binance pair trades, e.g. BTC for BTCUSDT. Binance reports holdings
+ * per asset rather than per pair. Null when the quote asset is not recognised.
+ */
+export function binanceBaseAsset(symbol: string): string | null {
+  return splitBinancePair(symbol)?.base ?? null;
+}
+
+function splitBinancePair(symbol: string): { base: string; quote: string } | null {
+  const pair = symbol.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  const quote = BINANCE_QUOTE_ASSETS.find((asset) => pair.endsWith(asset) && pair.length > asset.length);
+  return quote ? { base: pair.slice(0, -quote.length), quote } : null;
+}
+
+/**
+ * Units of `to` per unit of `from` at `at`: the latest rate on or before that
+ * time, or the earliest known one if none is that old. Uses the pair directly,
+ * inverted, or crossed through one other currency. Null when no rate connects them.
+ */
+export function resolveRate(quotes: FxQuote[], from: string, to: string, at: Date = new Date()): number | null {
+  if (from === to) return 1;
+
+  const direct = (base: string, quote: string): number | null => {
+    let best: { rate: number; asOf: number } | null = null;
+    let earliest: { rate: number; asOf: number } | null = null;
+
+    for (const fx of quotes) {
+      let rate: number;
+      if (fx.base === base && fx.quote === quote) {
+        rate = fx.rate;
+      } else if (fx.base === quote && fx.quote === base) {
+        rate = 1 / fx.rate;
+      } else {
+        continue;
+      }
+
+      const asOf = fx.asOf ? fx.asOf.getTime() : -Infinity;
+      if (asOf <= at.getTime() && (!best || asOf > best.asOf)) {
+        best = { rate, asOf };
+      }
+      if (!earliest || asOf < earliest.asOf) {
+        earliest = { rate, asOf };
+      }
+    }
+
+    return (best ?? earliest)?.rate ?? null;
+  };
+
+  const rate = direct(from, to);
+  if (rate !== null) return rate;
+
+  const currencies = new Set(quotes.flatMap((fx) => [fx.base, fx.quote]));
+  for (const pivot of currencies) {
+    if (pivot === from || pivot === to) continue;
+    const first = direct(from, pivot);
+    const second = first === null ? null : direct(pivot, to);
+    if (first !== null && second !== null) {
+      return first * second;
+    }
+  }
+  return null;
+}
+
+/**
+ * Split the base-currency P&L of a holding opened at `openRate` and valued at
+ * `currentRate` into what the asset did (local P&L at today's rate) and what
+ * the currency did to the opening value. `direction` is 1 for long, -1 for short.
+ */
+export function splitFxPnl(
+  localPnl: number,
+  openingValue: number,
+  direction: 1 | -1,
+  openRate: number,
+  currentRate: number
+): { assetPnl: number; fxPnl: number } {
+  return {
+    assetPnl: localPnl * currentRate,
+    fxPnl: direction * openingValue * (currentRate - openRate),
+  };
+}
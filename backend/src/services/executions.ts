@@ -0,0 +1,180 @@
+import { OrderResponse } from '../brokers/base';
+import { config } from '../config';
+import { db } from '../db';
+import { broadcastOrderEvent, broadcastOrderUpdate } from '../websocket';
+import { instrumentCurrency } from './currency';
+import { postEntry } from './ledger';
+import { tradePostings } from './ledgerPostings';
+import { applyOrderUpdate, notifyOrderChange, OrderEventSource } from './orderLifecycle';
+import { handleGroupOrderUpdate } from './orderGroups';
+import { catchUpFill } from './reconciliationChecks';
+
+/** Filled quantities closer than this to the traded quantity need no catch-up fill */
+const FILL_TOLERANCE = 1e-8;
+
+/**
+ * Narrows the order lookup for brokers whose order IDs are only unique per
+ * account and symbol (Binance), so one account's execution cannot match another's order
+ */
+export interface ExecutionOwner {
+  userId: number;
+  brokerType: string;
+  symbol: string;
+}
+
+/**
+ * Apply a broker execution to the matching order row: update its status and
+ * fill totals, write one trades row per fill (tagged with the instrument's
+ * currency) and notify connected clients.
+ * Fills are keyed by broker trade ID, so replaying the same execution is a no-op.
+ * New fills are settled in the cash ledger of the paper or live account.
+ * Grouped orders then drive their bracket/OCO siblings.
+ * Returns false when no order row exists (yet) for the broker order ID (and owner).
+ */
+export async function recordExecution(
+  brokerOrderId: string,
+  execution: OrderResponse,
+  sandbox: boolean,
+  source: OrderEventSource,
+  owner?: ExecutionOwner
+): Promise<boolean> {
+  const client = await db.getPool().connect();
+  let applied: Awaited<ReturnType<typeof applyOrderUpdate>>;
+  try {
+    await client.query('BEGIN');
+
+    const found = owner
+      ? await client.query(
+          `SELECT id FROM orders
+           WHERE broker_order_id = $1 AND sandbox = $2 AND user_id = $3 AND broker_type = $4 AND UPPER(symbol) = $5`,
+          [brokerOrderId, sandbox, owner.userId, owner.brokerType, owner.symbol.toUpperCase()]
+        )
+      : await client.query('SELECT id FROM orders WHERE broker_order_id = $1 AND sandbox = $2', [
+          brokerOrderId,
+          sandbox,
+        ]);
+
+    if (found.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return false;
+    }
+
+    applied = await applyOrderUpdate(
+      client,
+      found.rows[0].id,
+      {
+        status: execution.status,
+        filledQuantity: execution.filledQuantity,
+        averagePrice: execution.averagePrice,
+        rejectReason: execution.rejectReason,
+      },
+      source
+    );
+    const { order } = applied;
+    const currency = instrumentCurrency(order.broker_type, order.symbol, config.BASE_CURRENCY);
+
+    for (const fill of execution.fills || []) {
+      const trade = await client.query(
+        `INSERT INTO trades (user_id, order_id, symbol, side, quantity, price, fee, currency, broker_trade_id, executed_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+         ON CONFLICT (order_id, broker_trade_id) DO NOTHING
+         RETURNING id`,
+        [
+          order.user_id,
+          order.id,
+          order.symbol,
+          order.side,
+          fill.quantity,
+          fill.price,
+          fill.fee ?? 0,
+          currency,
+          fill.tradeId,
+          fill.timestamp,
+        ]
+      );
+
+      // Settle new fills in the cash ledger
+      if (trade.rows.length > 0) {
+        await postEntry(client, order.user_id, sandbox ? 'sandbox' : order.broker_type, {
+          type: 'trade',
+          description: `${order.side} ${fill.quantity} ${order.symbol} @ ${fill.price}`,
+          symbol: order.symbol,
+          tradeId: trade.rows[0].id,
+          occurredAt: fill.timestamp,
+          postings: tradePostings(order.side, fill.quantity, fill.price, fill.fee ?? 0),
+        });
+      }
+    }
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  const { order, event } = applied;
+  broadcastOrderUpdate(order.user_id, {
+    orderId: order.order_id,
+    symbol: order.symbol,
+    side: order.side,
+    status: order.status,
+    filledQuantity: parseFloat(order.filled_quantity || '0'),
+    averagePrice: order.average_price ? parseFloat(order.average_price) : null,
+  });
+  if (event) {
+    broadcastOrderEvent(order.user_id, event);
+  }
+  notifyOrderChange(order);
+
+  await handleGroupOrderUpdate(order);
+
+  return true;
+}
+
+/**
+ * Polled statuses and webhooks report fill totals but not the trades behind them.
+ * Without trades, positions, lots and cash never see the fill, so the units
+ * filled since the recorded trades become one fill at the implied price.
+ */
+export async function withCatchUpFill(
+  orderId: number,
+  execution: OrderResponse,
+  tradeId: string
+): Promise<OrderResponse> {
+  if (execution.fills?.length || !execution.filledQuantity || !execution.averagePrice) {
+    return execution;
+  }
+
+  const traded = await db.getPool().query(
+    `SELECT COALESCE(SUM(quantity), 0) AS quantity, COALESCE(SUM(quantity * price), 0) AS value
+     FROM trades WHERE order_id = $1`,
+    [orderId]
+  );
+  const quantity = parseFloat(traded.rows[0].quantity);
+  const value = parseFloat(traded.rows[0].value);
+  if (execution.filledQuantity - quantity <= FILL_TOLERANCE) {
+    return execution;
+  }
+
+  const fill = catchUpFill(tradeId, execution.filledQuantity, execution.averagePrice, { quantity, value }, new Date());
+  return { ...execution, fills: [fill] };
+}
+
+/**
+ * Record a broker's answer to a cancel request on an order row. Brokers may
+ * still be working the cancel, or may have filled the order first, so the row
+ * only turns cancelled when the broker reports it; until then the poller or
+ * stream records its final status. Fills in the answer become trades.
+ * Returns the updated orders row.
+ */
+export async function recordCancelResponse(row: any, response: OrderResponse, source: OrderEventSource): Promise<any> {
+  const execution = await withCatchUpFill(row.id, response, `cancel-${row.broker_order_id}-${response.filledQuantity}`);
+  await recordExecution(row.broker_order_id, execution, row.sandbox, source, {
+    userId: row.user_id,
+    brokerType: row.broker_type,
+    symbol: row.symbol,
+  });
+  return (await db.getPool().query('SELECT * FROM orders WHERE id = $1', [row.id])).rows[0];
+}
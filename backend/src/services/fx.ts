@@ -0,0 +1,120 @@
+import { readFile } from 'fs/promises';
+import { config } from '../config';
+import { db } from '../db';
+import { AppError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { FxQuote, resolveRate } from './currency';
+
+/**
+ * Where FX rates come from. Sources return every rate they know; picking the
+ * rate for a pair and time happens in `resolveRate`.
+ */
+export interface FxRateSource {
+  loadRates(): Promise<FxQuote[]>;
+}
+
+/**
+ * Rates from a JSON file: an array of { base, quote, rate, asOf? }
+ */
+export class FileFxRateSource implements FxRateSource {
+  constructor(private path: string) {}
+
+  async loadRates(): Promise<FxQuote[]> {
+    const rows = JSON.parse(await readFile(this.path, 'utf8'));
+    if (!Array.isArray(rows)) {
+      throw new Error(`FX rates file ${this.path} must contain an array`);
+    }
+
+    return rows.map((row) => ({
+      base: String(row.base).toUpperCase(),
+      quote: String(row.quote).toUpperCase(),
+      rate: Number(row.rate),
+      asOf: row.asOf ? new Date(row.asOf) : null,
+    }));
+  }
+}
+
+/**
+ * Rates from the fx_rates table
+ */
+export class DbFxRateSource implements FxRateSource {
+  async loadRates(): Promise<FxQuote[]> {
+    const result = await db.getPool().query('SELECT base, quote, rate, as_of FROM fx_rates');
+    return result.rows.map((row) => ({
+      base: row.base,
+      quote: row.quote,
+      rate: parseFloat(row.rate),
+      asOf: row.as_of,
+    }));
+  }
+}
+
+/**
+ * Converts amounts into one base currency with a snapshot of the source's rates
+ */
+export class FxConverter {
+  constructor(
+    readonly baseCurrency: string,
+    private quotes: FxQuote[]
+  ) {}
+
+  /** Base currency units per unit of `currency` at `at` */
+  rate(currency: string, at?: Date): number {
+    const rate = resolveRate(this.quotes, currency, this.baseCurrency, at);
+    if (rate === null) {
+      throw new AppError(422, 'FX_RATE_UNAVAILABLE', `No FX rate from ${currency} to ${this.baseCurrency}`);
+    }
+    return rate;
+  }
+
+  toBase(amount: number, currency: string, at?: Date): number {
+    return amount * this.rate(currency, at);
+  }
+}
+
+let source: FxRateSource | null = null;
+
+export function getFxRateSource(): FxRateSource {
+  if (!source) {
+    source = config.FX_RATE_SOURCE === 'file' ? new FileFxRateSource(config.FX_RATES_FILE) : new DbFxRateSource();
+  }
+  return source;
+}
+
+export async function getFxConverter(baseCurrency: string): Promise<FxConverter> {
+  return new FxConverter(baseCurrency, await getFxRateSource().loadRates());
+}
+
+export async function getBaseCurrency(userId: number): Promise<string> {
+  const result = await db.getPool().query('SELECT base_currency FROM users WHERE id = $1', [userId]);
+  return result.rows[0]?.base_currency ?? config.BASE_CURRENCY;
+}
+
+export async function setBaseCurrency(userId: number, currency: string): Promise<void> {
+  await db
+    .getPool()
+    .query('UPDATE users SET base_currency = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2', [currency, userId]);
+  logger.info({ userId, currency }, 'Base currency changed');
+}
+
+/**
+ * Store rates in the fx_rates table, replacing any for the same pair and time
+ */
+export async function saveFxRates(quotes: FxQuote[]): Promise<number> {
+  if (quotes.length === 0) return 0;
+
+  await db.getPool().query(
+    `INSERT INTO fx_rates (base, quote, rate, as_of)
+     SELECT * FROM unnest($1::varchar[], $2::varchar[], $3::numeric[], $4::timestamp[])
+     ON CONFLICT (base, quote, as_of) DO UPDATE SET rate = EXCLUDED.rate`,
+    [
+      quotes.map((fx) => fx.base),
+      quotes.map((fx) => fx.quote),
+      quotes.map((fx) => fx.rate),
+      quotes.map((fx) => fx.asOf ?? new Date()),
+    ]
+  );
+
+  logger.info({ count: quotes.length }, 'FX rates saved');
+  return quotes.length;
+}
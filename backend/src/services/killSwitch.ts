@@ -0,0 +1,348 @@
+import { randomUUID } from 'crypto';
+import { Broker, OrderRequest, OrderResponse } from '../brokers/base';
+import { getBrokerInstance } from '../brokers/factory';
+import { SandboxBroker } from '../brokers/sandbox';
+import { db } from '../db';
+import { AppError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { broadcastTradingHalt } from '../websocket';
+import { recordCancelResponse, recordExecution } from './executions';
+import { handleGroupOrderUpdate } from './orderGroups';
+import { updateOrderStatus } from './orderLifecycle';
+import { getSandboxAccount, getSandboxCosts } from './sandboxAccounts';
+
+const CANCELLABLE_STATUSES = ['pending', 'open', 'partially_filled', 'held'];
+
+export interface TradingHalt {
+  id: number;
+  scope: 'global' | 'user';
+  userId: number | null;
+  reason: string | null;
+  flatten: boolean;
+  haltedBy: number | null;
+  createdAt: Date;
+}
+
+export interface HaltOptions {
+  reason?: string;
+  /** Close every position with market orders once working orders are cancelled */
+  flatten?: boolean;
+  haltedBy: number;
+}
+
+export interface UnwindResult {
+  userId: number;
+  cancelledOrders: number;
+  failedCancels: number;
+  flattenOrders: number;
+  error?: string;
+}
+
+/**
+ * The halt that currently blocks the user, global halts first, or null
+ */
+export async function getActiveHalt(userId: number): Promise<TradingHalt | null> {
+  const result = await db.getPool().query(
+    `SELECT * FROM trading_halts
+     WHERE resumed_at IS NULL AND (user_id IS NULL OR user_id = $1)
+     ORDER BY user_id NULLS FIRST
+     LIMIT 1`,
+    [userId]
+  );
+  return result.rows[0] ? formatHalt(result.rows[0]) : null;
+}
+
+/**
+ * The user's own halt, ignoring a global one, or null
+ */
+export async function getUserHalt(userId: number): Promise<TradingHalt | null> {
+  const result = await db.getPool().query(
+    'SELECT * FROM trading_halts WHERE resumed_at IS NULL AND user_id = $1',
+    [userId]
+  );
+  return result.rows[0] ? formatHalt(result.rows[0]) : null;
+}
+
+/**
+ * Every halt still in force, for the admin overview
+ */
+export async function getActiveHalts(): Promise<TradingHalt[]> {
+  const result = await db.getPool().query(
+    'SELECT * FROM trading_halts WHERE resumed_at IS NULL ORDER BY user_id NULLS FIRST, created_at'
+  );
+  return result.rows.map(formatHalt);
+}
+
+/**
+ * Refuse new orders while a halt applies to the user
+ */
+export async function assertTradingAllowed(userId: number): Promise<void> {
+  const halt = await getActiveHalt(userId);
+  if (halt) {
+    const scope = halt.scope === 'global' ? 'Trading is halted for all users' : 'Trading is halted for this account';
+    throw new AppError(423, 'TRADING_HALTED', halt.reason ? `${scope}: ${halt.reason}` : scope);
+  }
+}
+
+/**
+ * Halt trading for one user, or for everyone when userId is null: new orders are
+ * refused from this point, then working orders are cancelled at every broker they
+ * were routed to and, if asked, positions are flattened. Halting again while a
+ * halt is active keeps the original halt but still unwinds.
+ */
+export async function haltTrading(
+  userId: number | null,
+  options: HaltOptions
+): Promise<{ halt: TradingHalt; results: UnwindResult[] }> {
+  const inserted = await db.getPool().query(
+    `INSERT INTO trading_halts (user_id, reason, flatten, halted_by)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT ((COALESCE(user_id, 0))) WHERE resumed_at IS NULL DO NOTHING
+     RETURNING *`,
+    [userId, options.reason ?? null, options.flatten ?? false, options.haltedBy]
+  );
+
+  const halt = inserted.rows[0]
+    ? formatHalt(inserted.rows[0])
+    : formatHalt(
+        (
+          await db.getPool().query(
+            'SELECT * FROM trading_halts WHERE resumed_at IS NULL AND user_id IS NOT DISTINCT FROM $1',
+            [userId]
+          )
+        ).rows[0]
+      );
+
+  logger.warn({ scope: halt.scope, userId, haltedBy: options.haltedBy, reason: halt.reason }, 'Trading halted');
+  broadcastTradingHalt(userId, { halted: true, ...halt });
+
+  const userIds = userId === null ? await getTradingUsers() : [userId];
+  const results: UnwindResult[] = [];
+  for (const id of userIds) {
+    // One user's broker failing must not leave the others trading
+    try {
+      results.push(await unwindUser(id, options.flatten ?? false));
+    } catch (error: any) {
+      logger.error({ error, userId: id }, 'Failed to unwind user after trading halt');
+      results.push({ userId: id, cancelledOrders: 0, failedCancels: 0, flattenOrders: 0, error: error.message });
+    }
+  }
+
+  return { halt, results };
+}
+
+/**
+ * Lift the active halt of a user, or the global halt when userId is null.
+ * Returns null when no such halt is active.
+ */
+export async function resumeTrading(userId: number | null, resumedBy: number): Promise<TradingHalt | null> {
+  const result = await db.getPool().query(
+    `UPDATE trading_halts
+     SET resumed_at = CURRENT_TIMESTAMP, resumed_by = $2
+     WHERE resumed_at IS NULL AND user_id IS NOT DISTINCT FROM $1
+     RETURNING *`,
+    [userId, resumedBy]
+  );
+  if (result.rows.length === 0) return null;
+
+  const halt = formatHalt(result.rows[0]);
+  logger.warn({ scope: halt.scope, userId, resumedBy }, 'Trading resumed');
+  broadcastTradingHalt(userId, { halted: false, ...halt });
+  return halt;
+}
+
+/**
+ * Users with working orders or a paper/live account that may hold positions
+ */
+async function getTradingUsers(): Promise<number[]> {
+  const result = await db.getPool().query(
+    `SELECT user_id FROM orders WHERE status = ANY($1)
+     UNION SELECT user_id FROM broker_configs
+     UNION SELECT user_id FROM sandbox_accounts`,
+    [CANCELLABLE_STATUSES]
+  );
+  return result.rows.map((row) => row.user_id);
+}
+
+async function unwindUser(userId: number, flatten: boolean): Promise<UnwindResult> {
+  const { cancelled, failed } = await cancelWorkingOrders(userId);
+  const flattenOrders = flatten ? await flattenPositions(userId) : 0;
+
+  logger.info({ userId, cancelled, failed, flattenOrders }, 'Unwound user after trading halt');
+  return { userId, cancelledOrders: cancelled, failedCancels: failed, flattenOrders };
+}
+
+/**
+ * Cancel every working or held order of the user. Grouped exits go before their
+ * entries so a cancelled entry has no held exits left to release. Rows still being
+ * placed have no broker order ID yet and are left to their placement.
+ */
+async function cancelWorkingOrders(userId: number) {
+  const result = await db.getPool().query(
+    `SELECT * FROM orders
+     WHERE user_id = $1 AND status = ANY($2) AND (broker_order_id IS NOT NULL OR status = 'held')
+     ORDER BY CASE WHEN group_role = 'entry' THEN 1 ELSE 0 END, id`,
+    [userId, CANCELLABLE_STATUSES]
+  );
+
+  const brokers = new Map<string, Broker>();
+  let cancelled = 0;
+  let failed = 0;
+
+  for (const order of result.rows) {
+    // Emulated held exits exist only in the database
+    if (!order.broker_order_id) {
+      const updated = await updateOrderStatus(order.id, { status: 'cancelled' }, 'kill_switch');
+      await handleGroupOrderUpdate(updated);
+      cancelled++;
+      continue;
+    }
+
+    let update: OrderResponse;
+    try {
+      const key = order.sandbox ? 'sandbox' : order.broker_type;
+      let broker = brokers.get(key);
+      if (!broker) {
+        broker = order.sandbox
+          ? (await getSandboxAccount(userId)).broker
+          : await getBrokerInstance(userId, order.broker_type);
+        brokers.set(key, broker);
+      }
+      update = await broker.cancelOrder(order.broker_order_id, order.symbol);
+    } catch (error) {
+      // It may have filled or been cancelled already; its own update will arrive
+      logger.error({ error, orderId: order.order_id }, 'Kill switch failed to cancel order');
+      failed++;
+      continue;
+    }
+
+    // Cancels the broker is still working are confirmed later by the poller or stream
+    const updated = await recordCancelResponse(order, update, 'kill_switch');
+    if (updated.status === 'cancelled') cancelled++;
+  }
+
+  return { cancelled, failed };
+}
+
+/**
+ * Close the user's paper positions and the positions at every live broker with
+ * market orders. These orders bypass the halt and the pre-trade checks since
+ * they only reduce exposure.
+ */
+async function flattenPositions(userId: number): Promise<number> {
+  const configs = await db.getPool().query(
+    `SELECT broker_type, sandbox_mode, commission_model, slippage_model
+     FROM broker_configs WHERE user_id = $1`,
+    [userId]
+  );
+
+  const routes: { broker: Broker; brokerType: string; sandbox: boolean; profile: any }[] = [];
+  // Loading a paper account creates it; users who never paper-traded have nothing to flatten
+  const paper = await db.getPool().query('SELECT 1 FROM sandbox_accounts WHERE user_id = $1', [userId]);
+  if (paper.rows.length > 0) {
+    routes.push({
+      broker: (await getSandboxAccount(userId)).broker,
+      brokerType: configs.rows.find((config) => config.sandbox_mode)?.broker_type ?? 'sandbox',
+      sandbox: true,
+      profile: configs.rows.find((config) => config.sandbox_mode) ?? null,
+    });
+  }
+  for (const config of configs.rows.filter((row) => !row.sandbox_mode)) {
+    routes.push({
+      broker: await getBrokerInstance(userId, config.broker_type),
+      brokerType: config.broker_type,
+      sandbox: false,
+      profile: config,
+    });
+  }
+
+  let placed = 0;
+  for (const route of routes) {
+    let positions;
+    try {
+      positions = await route.broker.getPositions();
+    } catch (error) {
+      logger.error({ error, userId, brokerType: route.brokerType }, 'Kill switch failed to load positions');
+      continue;
+    }
+
+    for (const position of positions.filter((candidate) => candidate.quantity !== 0)) {
+      const order: OrderRequest = {
+        symbol: position.symbol,
+        side: position.quantity > 0 ? 'sell' : 'buy',
+        type: 'market',
+        quantity: Math.abs(position.quantity),
+      };
+      try {
+        await placeFlattenOrder(userId, order, route);
+        placed++;
+      } catch (error) {
+        logger.error({ error, userId, order }, 'Kill switch failed to flatten position');
+      }
+    }
+  }
+
+  return placed;
+}
+
+async function placeFlattenOrder(
+  userId: number,
+  order: OrderRequest,
+  route: { broker: Broker; brokerType: string; sandbox: boolean; profile: any }
+) {
+  const orderId = randomUUID();
+  const inserted = await db.getPool().query(
+    `INSERT INTO orders (user_id, order_id, broker_type, symbol, side, type, quantity, status, sandbox, client_order_id)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, 'pending', $8, $2)
+     RETURNING id`,
+    [userId, orderId, route.brokerType, order.symbol, order.side, order.type, order.quantity, route.sandbox]
+  );
+  const rowId = inserted.rows[0].id;
+
+  let response: OrderResponse;
+  try {
+    response =
+      route.broker instanceof SandboxBroker
+        ? await route.broker.placeOrder(
+            { ...order, clientOrderId: orderId },
+            await getSandboxCosts(userId, route.profile)
+          )
+        : await route.broker.placeOrder({ ...order, clientOrderId: orderId });
+  } catch (error: any) {
+    await updateOrderStatus(rowId, { status: 'rejected', rejectReason: error.message }, 'kill_switch');
+    throw error;
+  }
+
+  await updateOrderStatus(
+    rowId,
+    {
+      status: response.status,
+      filledQuantity: response.filledQuantity,
+      averagePrice: response.averagePrice,
+      brokerOrderId: response.brokerOrderId,
+      rejectReason: response.rejectReason,
+    },
+    'kill_switch'
+  );
+
+  if (route.broker instanceof SandboxBroker && response.brokerOrderId) {
+    await recordExecution(
+      response.brokerOrderId,
+      await route.broker.getOrderStatus(response.brokerOrderId),
+      true,
+      'kill_switch'
+    );
+  }
+}
+
+function formatHalt(row: any): TradingHalt {
+  return {
+    id: row.id,
+    scope: row.user_id === null ? 'global' : 'user',
+    userId: row.user_id,
+    reason: row.reason,
+    flatten: row.flatten,
+    haltedBy: row.halted_by,
+    createdAt: row.created_at,
+  };
+}
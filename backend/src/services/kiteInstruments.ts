@@ -0,0 +1,56 @@
+import { readFile } from 'fs/promises';
+import { config } from '../config';
+import { kiteInstruments } from '../brokers/factory';
+import { KiteInstrument, KiteInstrumentFilter, parseKiteInstruments } from '../brokers/kiteInstruments';
+import { AppError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+/**
+ * Replace the instrument master with the instruments CSV dump at `path`
+ */
+export async function importKiteInstruments(path = config.KITE_INSTRUMENTS_FILE): Promise<number> {
+  let csv: string;
+  try {
+    csv = await readFile(path, 'utf8');
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      throw new AppError(404, 'KITE_INSTRUMENTS_NOT_FOUND', `Kite instruments file ${path} does not exist`);
+    }
+    throw error;
+  }
+
+  let instruments: KiteInstrument[];
+  try {
+    instruments = parseKiteInstruments(csv);
+  } catch (error: any) {
+    throw new AppError(400, 'KITE_INSTRUMENTS_INVALID', error.message);
+  }
+
+  kiteInstruments.load(instruments);
+  logger.info({ path, count: instruments.length }, 'Kite instruments imported');
+  return instruments.length;
+}
+
+/**
+ * Load the configured dump at startup. Kite still trades without it, taking
+ * EXCHANGE:TRADINGSYMBOL symbols as they are and skipping lot and tick checks.
+ */
+export async function loadKiteInstruments(): Promise<void> {
+  try {
+    await importKiteInstruments();
+  } catch (error) {
+    if (error instanceof AppError && error.code === 'KITE_INSTRUMENTS_NOT_FOUND') {
+      logger.info({ path: config.KITE_INSTRUMENTS_FILE }, 'No Kite instruments file; instrument master is empty');
+      return;
+    }
+    logger.error({ error }, 'Failed to load Kite instruments');
+  }
+}
+
+export function searchKiteInstruments(filter: KiteInstrumentFilter): KiteInstrument[] {
+  return kiteInstruments.search(filter);
+}
+
+export function kiteInstrumentCount(): number {
+  return kiteInstruments.size;
+}
@@ -0,0 +1,131 @@
+import { getBrokerInstance } from '../brokers/factory';
+import { KiteBroker } from '../brokers/kite';
+import { kiteLoginUrl, signLoginState, verifyKitePostback, verifyLoginState } from '../brokers/kiteAuth';
+import { config } from '../config';
+import { db } from '../db';
+import { AppError } from '../middleware/errorHandler';
+import { decrypt, encrypt } from '../utils/encryption';
+import { logger } from '../utils/logger';
+
+/** How long a user has to finish logging in at Kite */
+const LOGIN_STATE_TTL_MS = 10 * 60 * 1000;
+
+export type KiteSessionState = 'connected' | 'expired' | 'disconnected' | 'not_configured';
+
+export interface KiteSessionStatus {
+  status: KiteSessionState;
+  /** A login is needed before Kite can be used: the session expired or was never created */
+  reconnectRequired: boolean;
+  brokerUserId: string | null;
+  loginTime: Date | null;
+  expiresAt: Date | null;
+}
+
+/**
+ * Kite login page for the user's saved API key; Kite returns to the callback with a request token
+ */
+export async function getKiteLoginUrl(userId: number): Promise<string> {
+  const row = await getKiteConfig(userId);
+  const state = signLoginState(userId, config.JWT_SECRET, new Date(Date.now() + LOGIN_STATE_TTL_MS));
+  return kiteLoginUrl(config.KITE_LOGIN_URL, decrypt(row.api_key_encrypted), state);
+}
+
+/**
+ * Finish a login from Kite's redirect: exchange the request token and store the session encrypted.
+ * Returns the user the login belongs to.
+ */
+export async function completeKiteLogin(state: string, requestToken: string): Promise<number> {
+  const userId = verifyLoginState(state, config.JWT_SECRET);
+  if (userId === null) {
+    throw new AppError(400, 'KITE_LOGIN_EXPIRED', 'The Kite login link is invalid or expired; start the login again');
+  }
+  await getKiteConfig(userId);
+
+  const broker = (await getBrokerInstance(userId, 'kite')) as KiteBroker;
+  let session;
+  try {
+    session = await broker.createSession(requestToken);
+  } catch (error: any) {
+    throw new AppError(502, 'KITE_LOGIN_FAILED', error.message);
+  }
+
+  await db.getPool().query(
+    `UPDATE broker_configs
+     SET access_token_encrypted = $1, broker_user_id = $2, session_created_at = $3, session_expires_at = $4,
+         updated_at = CURRENT_TIMESTAMP
+     WHERE user_id = $5 AND broker_type = 'kite'`,
+    [encrypt(session.accessToken), session.brokerUserId, session.loginTime, session.expiresAt, userId]
+  );
+
+  logger.info({ userId, brokerUserId: session.brokerUserId, expiresAt: session.expiresAt }, 'Kite session created');
+  return userId;
+}
+
+/**
+ * Whether the user's Kite session is usable, so the frontend can prompt a reconnect
+ */
+export async function getKiteSessionStatus(userId: number): Promise<KiteSessionStatus> {
+  const result = await db.getPool().query(
+    `SELECT access_token_encrypted, broker_user_id, session_created_at, session_expires_at
+     FROM broker_configs WHERE user_id = $1 AND broker_type = 'kite'`,
+    [userId]
+  );
+  const row = result.rows[0];
+
+  let status: KiteSessionState = 'not_configured';
+  if (row) {
+    if (!row.access_token_encrypted) {
+      status = 'disconnected';
+    } else {
+      status = new Date(row.session_expires_at) > new Date() ? 'connected' : 'expired';
+    }
+  }
+
+  return {
+    status,
+    reconnectRequired: status === 'expired' || status === 'disconnected',
+    brokerUserId: row?.broker_user_id ?? null,
+    loginTime: row?.session_created_at ?? null,
+    expiresAt: row?.session_expires_at ?? null,
+  };
+}
+
+/**
+ * Log out of Kite and forget the stored session
+ */
+export async function disconnectKite(userId: number): Promise<void> {
+  await getKiteConfig(userId);
+
+  const broker = (await getBrokerInstance(userId, 'kite')) as KiteBroker;
+  await broker.invalidateSession();
+
+  await db.getPool().query(
+    `UPDATE broker_configs
+     SET access_token_encrypted = NULL, broker_user_id = NULL, session_created_at = NULL, session_expires_at = NULL,
+         updated_at = CURRENT_TIMESTAMP
+     WHERE user_id = $1 AND broker_type = 'kite'`,
+    [userId]
+  );
+  logger.info({ userId }, 'Kite session removed');
+}
+
+/**
+ * Whether a postback about one of the user's orders was signed with the user's Kite API secret
+ */
+export async function isKitePostbackFromUser(userId: number, payload: any): Promise<boolean> {
+  const result = await db
+    .getPool()
+    .query("SELECT api_secret_encrypted FROM broker_configs WHERE user_id = $1 AND broker_type = 'kite'", [userId]);
+  if (result.rows.length === 0) return false;
+  return verifyKitePostback(payload, decrypt(result.rows[0].api_secret_encrypted));
+}
+
+async function getKiteConfig(userId: number) {
+  const result = await db
+    .getPool()
+    .query("SELECT api_key_encrypted FROM broker_configs WHERE user_id = $1 AND broker_type = 'kite'", [userId]);
+  if (result.rows.length === 0) {
+    throw new AppError(404, 'CONFIG_NOT_FOUND', 'Save Kite API keys before connecting Kite');
+  }
+  return result.rows[0];
+}
@@ -0,0 +1,285 @@
+import { PoolClient } from 'pg';
+import { db } from '../db';
+import { AppError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import {
+  cashChange,
+  cashMovementPostings,
+  CashMovementType,
+  emptyBalances,
+  isBalanced,
+  LedgerAccount,
+  LedgerBalances,
+  LedgerEntryType,
+  Posting,
+} from './ledgerPostings';
+
+type Queryable = Pick<PoolClient, 'query'>;
+
+export interface NewLedgerEntry {
+  type: LedgerEntryType;
+  description?: string;
+  symbol?: string;
+  tradeId?: number;
+  occurredAt?: Date;
+  postings: Posting[];
+}
+
+export interface LedgerEntry {
+  id: number;
+  brokerType: string;
+  type: LedgerEntryType;
+  description: string | null;
+  symbol: string | null;
+  tradeId: number | null;
+  occurredAt: Date;
+  /** Net effect on the cash account */
+  cashAmount: number;
+  postings: Posting[];
+}
+
+export interface StatementLine extends LedgerEntry {
+  /** Cash balance after the entry */
+  balance: number;
+}
+
+export interface CashMovement {
+  type: CashMovementType;
+  amount: number;
+  description?: string;
+  symbol?: string;
+  occurredAt?: Date;
+}
+
+export interface StatementQuery {
+  from?: Date;
+  to?: Date;
+  type?: LedgerEntryType;
+  limit: number;
+  offset: number;
+}
+
+/**
+ * Ledger of the broker account orders currently go to: paper trading books
+ * to the 'sandbox' account, live trading to the configured broker
+ */
+export async function getLedgerAccount(userId: number): Promise<{ brokerType: string; sandbox: boolean }> {
+  const brokerConfig = await db
+    .getPool()
+    .query('SELECT broker_type, sandbox_mode FROM broker_configs WHERE user_id = $1 LIMIT 1', [userId]);
+
+  const sandbox = brokerConfig.rows.length === 0 || brokerConfig.rows[0].sandbox_mode;
+  return { brokerType: sandbox ? 'sandbox' : brokerConfig.rows[0].broker_type, sandbox };
+}
+
+/**
+ * Write an entry and its postings. Run inside the caller's transaction so the
+ * entry lands atomically with whatever caused it. A fill that was already
+ * posted is skipped and returns null.
+ */
+export async function postEntry(
+  client: Queryable,
+  userId: number,
+  brokerType: string,
+  entry: NewLedgerEntry
+): Promise<LedgerEntry | null> {
+  if (!isBalanced(entry.postings)) {
+    throw new Error(`Unbalanced ${entry.type} ledger entry`);
+  }
+
+  const inserted = await client.query(
+    `INSERT INTO ledger_entries (user_id, broker_type, type, description, symbol, trade_id, occurred_at)
+     VALUES ($1, $2, $3, $4, $5, $6, COALESCE($7, CURRENT_TIMESTAMP))
+     ON CONFLICT (trade_id) DO NOTHING
+     RETURNING *`,
+    [
+      userId,
+      brokerType,
+      entry.type,
+      entry.description ?? null,
+      entry.symbol ?? null,
+      entry.tradeId ?? null,
+      entry.occurredAt ?? null,
+    ]
+  );
+  if (inserted.rows.length === 0) return null;
+
+  const row = inserted.rows[0];
+  await client.query(
+    `INSERT INTO ledger_postings (entry_id, account, amount)
+     SELECT $1, * FROM unnest($2::varchar[], $3::numeric[])`,
+    [row.id, entry.postings.map((posting) => posting.account), entry.postings.map((posting) => posting.amount)]
+  );
+
+  return formatEntry(row, entry.postings);
+}
+
+/**
+ * Record a deposit, withdrawal, fee, dividend or interest on a live broker
+ * account. Paper accounts go through the sandbox so the engine's cash moves too.
+ */
+export async function recordCashMovement(
+  userId: number,
+  brokerType: string,
+  movement: CashMovement
+): Promise<LedgerEntry> {
+  const client = await db.getPool().connect();
+  try {
+    await client.query('BEGIN');
+    const entry = await postEntry(client, userId, brokerType, {
+      type: movement.type,
+      description: movement.description,
+      symbol: movement.symbol,
+      occurredAt: movement.occurredAt,
+      postings: cashMovementPostings(movement.type, movement.amount),
+    });
+    await client.query('COMMIT');
+
+    logger.info({ userId, brokerType, type: movement.type, amount: movement.amount }, 'Cash movement recorded');
+    return entry!;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+export async function getLedgerBalances(
+  userId: number,
+  brokerType: string,
+  client: Queryable = db.getPool()
+): Promise<LedgerBalances> {
+  const result = await client.query(
+    `SELECT p.account, SUM(p.amount) AS balance
+     FROM ledger_postings p
+     JOIN ledger_entries e ON e.id = p.entry_id
+     WHERE e.user_id = $1 AND e.broker_type = $2
+     GROUP BY p.account`,
+    [userId, brokerType]
+  );
+
+  const balances = emptyBalances();
+  for (const row of result.rows) {
+    balances[row.account as LedgerAccount] = parseFloat(row.balance);
+  }
+  return balances;
+}
+
+export async function hasLedgerEntries(client: Queryable, userId: number, brokerType: string): Promise<boolean> {
+  const result = await client.query('SELECT 1 FROM ledger_entries WHERE user_id = $1 AND broker_type = $2 LIMIT 1', [
+    userId,
+    brokerType,
+  ]);
+  return result.rows.length > 0;
+}
+
+/**
+ * Cash held back by working buy orders of a live account, valued at their
+ * limit or stop price. Market buys are not reserved since their price is unknown.
+ */
+export async function getLiveReservedCash(userId: number, brokerType: string): Promise<number> {
+  const result = await db.getPool().query(
+    `SELECT COALESCE(SUM((quantity - COALESCE(filled_quantity, 0)) * COALESCE(price, stop_price, 0)), 0) AS reserved
+     FROM orders
+     WHERE user_id = $1 AND broker_type = $2 AND sandbox = false AND side = 'buy'
+       AND status IN ('pending', 'open', 'partially_filled')`,
+    [userId, brokerType]
+  );
+  return parseFloat(result.rows[0].reserved);
+}
+
+/**
+ * Entries in [from, to] with the cash balance after each, newest first,
+ * plus the cash balance before and at the end of the window
+ */
+export async function getLedgerStatement(
+  userId: number,
+  brokerType: string,
+  query: StatementQuery
+): Promise<{ openingBalance: number; closingBalance: number; entries: StatementLine[]; total: number }> {
+  const pool = db.getPool();
+  const from = query.from ?? new Date(0);
+  const to = query.to ?? new Date();
+
+  const balances = await pool.query(
+    `SELECT
+       COALESCE(SUM(p.amount) FILTER (WHERE e.occurred_at < $3), 0) AS opening,
+       COALESCE(SUM(p.amount) FILTER (WHERE e.occurred_at <= $4), 0) AS closing
+     FROM ledger_postings p
+     JOIN ledger_entries e ON e.id = p.entry_id
+     WHERE e.user_id = $1 AND e.broker_type = $2 AND p.account = 'cash'`,
+    [userId, brokerType, from, to]
+  );
+
+  const entries = await pool.query(
+    `WITH running AS (
+       SELECT e.*,
+         SUM(COALESCE(cash.amount, 0)) OVER (ORDER BY e.occurred_at, e.id) AS balance
+       FROM ledger_entries e
+       LEFT JOIN LATERAL (
+         SELECT SUM(amount) AS amount FROM ledger_postings WHERE entry_id = e.id AND account = 'cash'
+       ) cash ON true
+       WHERE e.user_id = $1 AND e.broker_type = $2
+     )
+     SELECT running.*,
+       (SELECT json_agg(json_build_object('account', p.account, 'amount', p.amount) ORDER BY p.id)
+        FROM ledger_postings p WHERE p.entry_id = running.id) AS postings
+     FROM running
+     WHERE occurred_at >= $3 AND occurred_at <= $4 AND ($5::varchar IS NULL OR type = $5)
+     ORDER BY occurred_at DESC, id DESC
+     LIMIT $6 OFFSET $7`,
+    [userId, brokerType, from, to, query.type ?? null, query.limit, query.offset]
+  );
+
+  const count = await pool.query(
+    `SELECT COUNT(*) AS total FROM ledger_entries
+     WHERE user_id = $1 AND broker_type = $2 AND occurred_at >= $3 AND occurred_at <= $4
+       AND ($5::varchar IS NULL OR type = $5)`,
+    [userId, brokerType, from, to, query.type ?? null]
+  );
+
+  return {
+    openingBalance: parseFloat(balances.rows[0].opening),
+    closingBalance: parseFloat(balances.rows[0].closing),
+    entries: entries.rows.map((row) => ({
+      ...formatEntry(
+        row,
+        row.postings.map((posting: { account: LedgerAccount; amount: number | string }) => ({
+          account: posting.account,
+          amount: Number(posting.amount),
+        }))
+      ),
+      balance: parseFloat(row.balance),
+    })),
+    total: parseInt(count.rows[0].total, 10),
+  };
+}
+
+/**
+ * Reject a movement that would take cash below zero
+ */
+export function assertSufficientCash(available: number, movement: CashMovement) {
+  const change = cashChange(cashMovementPostings(movement.type, movement.amount));
+  if (change < 0 && available + change < 0) {
+    throw new AppError(
+      422,
+      'INSUFFICIENT_FUNDS',
+      `A ${movement.type} of ${movement.amount} exceeds the ${available.toFixed(2)} available`
+    );
+  }
+}
+
+function formatEntry(row: any, postings: Posting[]): LedgerEntry {
+  return {
+    id: row.id,
+    brokerType: row.broker_type,
+    type: row.type,
+    description: row.description,
+    symbol: row.symbol,
+    tradeId: row.trade_id,
+    occurredAt: row.occurred_at,
+    cashAmount: cashChange(postings),
+    postings,
+  };
+}
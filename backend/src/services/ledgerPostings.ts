@@ -0,0 +1,128 @@
+/**
+ * Ledger accounts of one broker account. Debits are positive and credits
+ * negative, so cash, securities and fees carry positive balances while
+ * capital, dividends and interest income carry negative ones.
+ */
+export type LedgerAccount = 'cash' | 'securities' | 'capital' | 'fees' | 'dividends' | 'interest';
+
+export const LEDGER_ACCOUNTS: LedgerAccount[] = ['cash', 'securities', 'capital', 'fees', 'dividends', 'interest'];
+
+export type LedgerEntryType =
+  | 'opening_balance'
+  | 'deposit'
+  | 'withdrawal'
+  | 'trade'
+  | 'fee'
+  | 'dividend'
+  | 'interest'
+  | 'reset';
+
+/** Entries a user may post by hand; the rest come from fills and sandbox resets */
+export type CashMovementType = 'deposit' | 'withdrawal' | 'fee' | 'dividend' | 'interest';
+
+export interface Posting {
+  account: LedgerAccount;
+  amount: number;
+}
+
+export type LedgerBalances = Record<LedgerAccount, number>;
+
+/** Rounding slack when checking that postings balance */
+const BALANCE_TOLERANCE = 1e-6;
+
+/**
+ * Settle a fill: buying moves its cost from cash into securities, selling the
+ * reverse, and the fee is paid out of cash
+ */
+export function tradePostings(side: 'buy' | 'sell', quantity: number, price: number, fee: number): Posting[] {
+  const notional = quantity * price;
+  const postings: Posting[] =
+    side === 'buy'
+      ? [
+          { account: 'securities', amount: notional },
+          { account: 'cash', amount: -notional },
+        ]
+      : [
+          { account: 'cash', amount: notional },
+          { account: 'securities', amount: -notional },
+        ];
+
+  if (fee !== 0) {
+    postings.push({ account: 'fees', amount: fee }, { account: 'cash', amount: -fee });
+  }
+  return postings;
+}
+
+/**
+ * Move cash in or out against its counter-account. Amounts are positive,
+ * except interest, which is negative when it is charged rather than earned.
+ */
+export function cashMovementPostings(type: CashMovementType, amount: number): Posting[] {
+  switch (type) {
+    case 'deposit':
+      return [
+        { account: 'cash', amount },
+        { account: 'capital', amount: -amount },
+      ];
+    case 'withdrawal':
+      return [
+        { account: 'capital', amount },
+        { account: 'cash', amount: -amount },
+      ];
+    case 'fee':
+      return [
+        { account: 'fees', amount },
+        { account: 'cash', amount: -amount },
+      ];
+    case 'dividend':
+      return [
+        { account: 'cash', amount },
+        { account: 'dividends', amount: -amount },
+      ];
+    case 'interest':
+      return [
+        { account: 'cash', amount },
+        { account: 'interest', amount: -amount },
+      ];
+  }
+}
+
+/**
+ * Bring an account that existed before the ledger onto it: its cash and the
+ * cost of its positions are treated as capital paid in
+ */
+export function openingPostings(cash: number, securities: number): Posting[] {
+  const postings: Posting[] = [
+    { account: 'cash', amount: cash },
+    { account: 'securities', amount: securities },
+    { account: 'capital', amount: -(cash + securities) },
+  ];
+  return postings.filter((posting) => posting.amount !== 0);
+}
+
+/**
+ * Wipe a paper account back to `startingCash`: positions are written off and
+ * the difference is booked to capital
+ */
+export function resetPostings(balances: LedgerBalances, startingCash: number): Posting[] {
+  const cash = startingCash - balances.cash;
+  const securities = -balances.securities;
+  const postings: Posting[] = [
+    { account: 'cash', amount: cash },
+    { account: 'securities', amount: securities },
+    { account: 'capital', amount: -(cash + securities) },
+  ];
+  return postings.filter((posting) => posting.amount !== 0);
+}
+
+export function cashChange(postings: Posting[]): number {
+  return postings.filter((posting) => posting.account === 'cash').reduce((sum, posting) => sum + posting.amount, 0);
+}
+
+export function isBalanced(postings: Posting[]): boolean {
+  return Math.abs(postings.reduce((sum, posting) => sum + posting.amount, 0)) < BALANCE_TOLERANCE;
+}
+
+export function emptyBalances(): LedgerBalances {
+  return { cash: 0, securities: 0, capital: 0, fees: 0, dividends: 0, interest: 0 };
+}
@@ -0,0 +1,143 @@
+/** Which open lots a closing trade consumes first */
+export type LotMethod = 'fifo' | 'lifo' | 'average';
+
+export const LOT_METHODS: LotMethod[] = ['fifo', 'lifo', 'average'];
+
+/** Lots held longer than this are long-term */
+export const LONG_TERM_DAYS = 365;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface LotTrade {
+  id: number;
+  symbol: string;
+  side: 'buy' | 'sell';
+  quantity: number;
+  price: number;
+  fee: number;
+  executedAt: Date;
+}
+
+export interface OpenLot {
+  symbol: string;
+  direction: 'long' | 'short';
+  quantity: number;
+  price: number;
+  /** Opening fee still attached to each remaining unit */
+  feePerUnit: number;
+  openTradeId: number;
+  openedAt: Date;
+}
+
+export interface ClosedLot {
+  symbol: string;
+  direction: 'long' | 'short';
+  quantity: number;
+  openTradeId: number;
+  closeTradeId: number;
+  openedAt: Date;
+  closedAt: Date;
+  openPrice: number;
+  closePrice: number;
+  costBasis: number;
+  proceeds: number;
+  /** Opening and closing fees of the matched quantity */
+  fees: number;
+  realizedPnl: number;
+  holdingPeriodDays: number;
+  term: 'short' | 'long';
+}
+
+/**
+ * Replay trades in execution order and match each closing trade against the open
+ * lots of its symbol. Fees are split pro rata over the quantity they paid for.
+ * Average cost consumes lots in FIFO order, so holding periods stay per lot, but
+ * every open lot of a symbol carries the pooled average price and fee.
+ * Selling more than is held opens a short lot for the rest, and vice versa.
+ */
+export function matchLots(trades: LotTrade[], method: LotMethod): { open: OpenLot[]; closed: ClosedLot[] } {
+  const books = new Map<string, OpenLot[]>();
+  const closed: ClosedLot[] = [];
+
+  for (const trade of trades) {
+    const lots = books.get(trade.symbol) ?? [];
+    books.set(trade.symbol, lots);
+
+    const direction = trade.side === 'buy' ? 'long' : 'short';
+    const closeFeePerUnit = trade.quantity > 0 ? trade.fee / trade.quantity : 0;
+    let remaining = trade.quantity;
+
+    // A trade against the held direction closes lots before opening new ones
+    while (remaining > 0 && lots.length > 0 && lots[0].direction !== direction) {
+      const lot = method === 'lifo' ? lots[lots.length - 1] : lots[0];
+      const quantity = Math.min(remaining, lot.quantity);
+      closed.push(closeLot(lot, trade, quantity, closeFeePerUnit));
+
+      lot.quantity -= quantity;
+      remaining -= quantity;
+      if (lot.quantity <= 0) {
+        lots.splice(lots.indexOf(lot), 1);
+      }
+    }
+
+    if (remaining > 0) {
+      lots.push({
+        symbol: trade.symbol,
+        direction,
+        quantity: remaining,
+        price: trade.price,
+        feePerUnit: closeFeePerUnit,
+        openTradeId: trade.id,
+        openedAt: trade.executedAt,
+      });
+      if (method === 'average') {
+        poolLots(lots);
+      }
+    }
+  }
+
+  const open = [...books.values()].flat();
+  return { open, closed };
+}
+
+function closeLot(lot: OpenLot, trade: LotTrade, quantity: number, closeFeePerUnit: number): ClosedLot {
+  const opening = lot.price * quantity;
+  const closing = trade.price * quantity;
+  const costBasis = lot.direction === 'long' ? opening : closing;
+  const proceeds = lot.direction === 'long' ? closing : opening;
+  const fees = (lot.feePerUnit + closeFeePerUnit) * quantity;
+  const holdingPeriodDays = Math.floor((trade.executedAt.getTime() - lot.openedAt.getTime()) / DAY_MS);
+
+  return {
+    symbol: lot.symbol,
+    direction: lot.direction,
+    quantity,
+    openTradeId: lot.openTradeId,
+    closeTradeId: trade.id,
+    openedAt: lot.openedAt,
+    closedAt: trade.executedAt,
+    openPrice: lot.price,
+    closePrice: trade.price,
+    costBasis,
+    proceeds,
+    fees,
+    realizedPnl: proceeds - costBasis - fees,
+    holdingPeriodDays,
+    term: holdingPeriodDays > LONG_TERM_DAYS ? 'long' : 'short',
+  };
+}
+
+/**
+ * Give every open lot of a symbol the quantity-weighted average price and fee
+ */
+function poolLots(lots: OpenLot[]) {
+  const quantity = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+  if (quantity <= 0) return;
+
+  const price = lots.reduce((sum, lot) => sum + lot.price * lot.quantity, 0) / quantity;
+  const feePerUnit = lots.reduce((sum, lot) => sum + lot.feePerUnit * lot.quantity, 0) / quantity;
+  for (const lot of lots) {
+    lot.price = price;
+    lot.feePerUnit = feePerUnit;
+  }
+}
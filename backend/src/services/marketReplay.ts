@@ -0,0 +1,194 @@
+import { MarketQuote } from '../brokers/base';
+import { getBrokerInstance, sandboxMarket } from '../brokers/factory';
+import { config } from '../config';
+import { db } from '../db';
+import { AppError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { broadcastReplayState } from '../websocket';
+import { CANDLE_INTERVAL_MS, CandleInterval } from './backtestEngine';
+import { candleTicks, MarketReplay, ReplaySpeed, ReplayState } from './replayEngine';
+
+export interface ReplayRequest {
+  symbols: string[];
+  from: string;
+  to: string;
+  /** Stored ticks, or candles of the requesting user's broker */
+  source: 'ticks' | 'candles';
+  interval: CandleInterval;
+  spreadBps: number;
+  speed: ReplaySpeed;
+  /** Start playing at once rather than paused at the first tick */
+  autoplay: boolean;
+}
+
+export type ReplayControl =
+  | { action: 'play' }
+  | { action: 'pause' }
+  | { action: 'step'; count?: number }
+  | { action: 'seek'; to: string }
+  | { action: 'speed'; speed: ReplaySpeed };
+
+export interface StoredTick {
+  symbol: string;
+  timestamp: Date;
+  bid: number;
+  ask: number;
+  last: number;
+  volume: number;
+}
+
+// One replay drives the shared sandbox market, so every paper account trades the same session
+let replay: MarketReplay | null = null;
+let releaseSymbols: (() => void) | null = null;
+
+/**
+ * Replace the sandbox market's random walk for the symbols with a recorded
+ * session; a replay already running is stopped first
+ */
+export async function startReplay(userId: number, request: ReplayRequest): Promise<ReplayState> {
+  const from = new Date(request.from);
+  const to = new Date(request.to);
+  const ticks =
+    request.source === 'ticks'
+      ? await loadTicks(request.symbols, from, to)
+      : candleTicks(
+          await loadCandles(userId, request.symbols, from, to, request.interval),
+          CANDLE_INTERVAL_MS[request.interval],
+          request.spreadBps
+        );
+
+  if (ticks.length === 0) {
+    throw new AppError(422, 'REPLAY_NO_DATA', `No ${request.source} for the requested symbols and range`);
+  }
+  if (ticks.length > config.REPLAY_MAX_TICKS) {
+    throw new AppError(
+      422,
+      'REPLAY_TOO_LARGE',
+      `${ticks.length} ticks exceed the limit of ${config.REPLAY_MAX_TICKS}; shorten the range`
+    );
+  }
+
+  stopReplay();
+  releaseSymbols = sandboxMarket.holdRandomWalk(request.symbols);
+  replay = new MarketReplay(ticks, (quote) => sandboxMarket.publish(quote), {
+    speed: request.speed,
+    onStateChange: (state) => broadcastReplayState(state),
+  });
+
+  logger.info(
+    { userId, symbols: request.symbols, from, to, source: request.source, ticks: ticks.length },
+    'Market replay started'
+  );
+
+  if (request.autoplay) {
+    replay.play();
+  } else {
+    broadcastReplayState(replay.getState());
+  }
+  return replay.getState();
+}
+
+/**
+ * End the replay; the symbols return to the random walk from their last replayed prices
+ */
+export function stopReplay(): ReplayState | null {
+  if (!replay) return null;
+
+  replay.stop();
+  const state = replay.getState();
+  releaseSymbols?.();
+  replay = null;
+  releaseSymbols = null;
+
+  logger.info({ position: state.position, total: state.total }, 'Market replay stopped');
+  return state;
+}
+
+export function getReplayState(): ReplayState | null {
+  return replay?.getState() ?? null;
+}
+
+export function controlReplay(control: ReplayControl): ReplayState {
+  if (!replay) {
+    throw new AppError(409, 'REPLAY_NOT_RUNNING', 'No market replay is running');
+  }
+
+  switch (control.action) {
+    case 'play':
+      replay.play();
+      break;
+    case 'pause':
+      replay.pause();
+      break;
+    case 'step':
+      replay.step(control.count ?? 1);
+      break;
+    case 'seek':
+      replay.seek(new Date(control.to));
+      break;
+    case 'speed':
+      replay.setSpeed(control.speed);
+      break;
+  }
+  return replay.getState();
+}
+
+/**
+ * Store recorded ticks for replay; a tick at the same symbol and time is replaced
+ */
+export async function saveMarketTicks(ticks: StoredTick[]): Promise<number> {
+  if (ticks.length === 0) return 0;
+
+  await db.getPool().query(
+    `INSERT INTO market_ticks (symbol, timestamp, bid, ask, last, volume)
+     SELECT * FROM unnest($1::varchar[], $2::timestamp[], $3::numeric[], $4::numeric[], $5::numeric[], $6::numeric[])
+     ON CONFLICT (symbol, timestamp) DO UPDATE
+       SET bid = EXCLUDED.bid, ask = EXCLUDED.ask, last = EXCLUDED.last, volume = EXCLUDED.volume`,
+    [
+      ticks.map((tick) => tick.symbol),
+      ticks.map((tick) => tick.timestamp),
+      ticks.map((tick) => tick.bid),
+      ticks.map((tick) => tick.ask),
+      ticks.map((tick) => tick.last),
+      ticks.map((tick) => tick.volume),
+    ]
+  );
+
+  logger.info({ count: ticks.length }, 'Market ticks saved');
+  return ticks.length;
+}
+
+async function loadTicks(symbols: string[], from: Date, to: Date): Promise<MarketQuote[]> {
+  const result = await db.getPool().query(
+    `SELECT symbol, timestamp, bid, ask, last, volume FROM market_ticks
+     WHERE symbol = ANY($1) AND timestamp >= $2 AND timestamp <= $3
+     ORDER BY timestamp, id
+     LIMIT $4`,
+    [symbols, from, to, config.REPLAY_MAX_TICKS + 1]
+  );
+
+  return result.rows.map((row) => ({
+    symbol: row.symbol,
+    bid: parseFloat(row.bid),
+    ask: parseFloat(row.ask),
+    last: parseFloat(row.last),
+    volume: parseFloat(row.volume),
+    timestamp: new Date(row.timestamp),
+  }));
+}
+
+/**
+ * Candles from the user's configured broker; the simulated market has no history to replay
+ */
+async function loadCandles(userId: number, symbols: string[], from: Date, to: Date, interval: CandleInterval) {
+  const brokerConfig = await db
+    .getPool()
+    .query('SELECT broker_type FROM broker_configs WHERE user_id = $1 LIMIT 1', [userId]);
+  if (brokerConfig.rows.length === 0) {
+    throw new AppError(422, 'REPLAY_NO_DATA', 'Candle replay needs a configured broker to load history from');
+  }
+
+  const broker = await getBrokerInstance(userId, brokerConfig.rows[0].broker_type);
+  const candles = await Promise.all(symbols.map((symbol) => broker.getCandles(symbol, from, to, interval)));
+  return candles.flat();
+}
@@ -0,0 +1,391 @@
+import { randomUUID } from 'crypto';
+import { Broker, OrderGroupRole, OrderGroupType, OrderRequest, OrderResponse } from '../brokers/base';
+import { getBrokerInstance } from '../brokers/factory';
+import { db } from '../db';
+import { logger } from '../utils/logger';
+import { broadcastOrderEvent, broadcastOrderUpdate } from '../websocket';
+import { recordCancelResponse, recordExecution } from './executions';
+import { insertOrderEvent, notifyOrderChange, OrderUpdate, updateOrderStatus } from './orderLifecycle';
+import { formatOrder, toOrderRequest } from './orders';
+import { getSandboxAccount, getSandboxCosts } from './sandboxAccounts';
+
+export interface OrderGroupLeg {
+  role: OrderGroupRole;
+  request: OrderRequest;
+}
+
+export interface OrderGroupRoute {
+  brokerType: string;
+  sandbox: boolean;
+  /** Broker profile row, used for sandbox cost models */
+  profile?: any;
+}
+
+const WORKING_STATUSES = ['pending', 'open', 'partially_filled'];
+const ENDED_WITHOUT_FILL = ['cancelled', 'rejected', 'expired'];
+
+/**
+ * Build the entry, take-profit and stop-loss legs of a bracket. Exits close the
+ * entry's quantity and stay good until cancelled.
+ */
+export function buildBracketLegs(
+  entry: OrderRequest,
+  takeProfit: { price: number },
+  stopLoss: { stopPrice: number; price?: number }
+): OrderGroupLeg[] {
+  const exit = {
+    symbol: entry.symbol,
+    side: entry.side === 'buy' ? 'sell' : 'buy',
+    quantity: entry.quantity,
+    timeInForce: 'gtc',
+    product: entry.product,
+  } as const;
+
+  return [
+    { role: 'entry', request: entry },
+    { role: 'take_profit', request: { ...exit, type: 'limit', price: takeProfit.price } },
+    {
+      role: 'stop_loss',
+      request: {
+        ...exit,
+        type: stopLoss.price !== undefined ? 'stop_limit' : 'stop',
+        stopPrice: stopLoss.stopPrice,
+        price: stopLoss.price,
+      },
+    },
+  ];
+}
+
+/**
+ * Place a bracket or OCO group. The sandbox links the legs natively; for other
+ * brokers bracket exits are held here and sent once the entry fills, and
+ * siblings are cancelled from broker order updates.
+ * Returns the group's public ID.
+ */
+export async function createOrderGroup(
+  userId: number,
+  type: OrderGroupType,
+  legs: OrderGroupLeg[],
+  route: OrderGroupRoute
+): Promise<string> {
+  const responses = await placeLegs(userId, type, legs, route);
+  const groupId = randomUUID();
+
+  const client = await db.getPool().connect();
+  try {
+    await client.query('BEGIN');
+
+    await client.query(
+      `INSERT INTO order_groups (user_id, group_id, type, status, broker_type, sandbox)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [userId, groupId, type, type === 'bracket' ? 'pending' : 'active', route.brokerType, route.sandbox]
+    );
+
+    for (let i = 0; i < legs.length; i++) {
+      const { request } = legs[i];
+      await client.query(
+        `INSERT INTO orders (
+          user_id, order_id, broker_type, symbol, side, type, quantity, price, stop_price,
+          trail_amount, trail_percent, time_in_force, expires_at,
+          status, filled_quantity, average_price, broker_order_id, sandbox, group_id, group_role, product
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21)`,
+        [
+          userId,
+          randomUUID(),
+          route.brokerType,
+          request.symbol,
+          request.side,
+          request.type,
+          request.quantity,
+          request.price ?? null,
+          request.stopPrice ?? null,
+          request.trailAmount ?? null,
+          request.trailPercent ?? null,
+          request.timeInForce ?? null,
+          request.expiresAt ?? null,
+          responses[i].status,
+          responses[i].filledQuantity || 0,
+          responses[i].averagePrice || null,
+          responses[i].brokerOrderId || null,
+          route.sandbox,
+          groupId,
+          legs[i].role,
+          request.product ?? null,
+        ]
+      );
+    }
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  if (route.sandbox) {
+    // Persist fills and activations produced while the rows were being written
+    const { broker } = await getSandboxAccount(userId);
+    for (const response of responses) {
+      if (response.brokerOrderId) {
+        await recordExecution(
+          response.brokerOrderId,
+          await broker.getOrderStatus(response.brokerOrderId),
+          true,
+          'placement'
+        );
+      }
+    }
+  } else {
+    // An entry may have filled on placement
+    const entry = await db.getPool().query(
+      `SELECT * FROM orders WHERE group_id = $1 ORDER BY id LIMIT 1`,
+      [groupId]
+    );
+    await handleGroupOrderUpdate(entry.rows[0]);
+  }
+
+  logger.info({ userId, groupId, type, sandbox: route.sandbox }, 'Order group placed');
+  return groupId;
+}
+
+async function placeLegs(
+  userId: number,
+  type: OrderGroupType,
+  legs: OrderGroupLeg[],
+  route: OrderGroupRoute
+): Promise<OrderResponse[]> {
+  const requests = legs.map((leg) => leg.request);
+
+  if (route.sandbox) {
+    const { broker } = await getSandboxAccount(userId);
+    const costs = await getSandboxCosts(userId, route.profile);
+    return type === 'bracket'
+      ? broker.placeBracket(requests[0], requests[1], requests[2], costs)
+      : broker.placeOco(requests, costs);
+  }
+
+  const broker = await getBrokerInstance(userId, route.brokerType as any);
+
+  if (type === 'bracket') {
+    const entry = await broker.placeOrder(requests[0]);
+    const exitStatus = ENDED_WITHOUT_FILL.includes(entry.status) ? 'cancelled' : 'held';
+    return [entry, ...requests.slice(1).map((): OrderResponse => ({ orderId: '', status: exitStatus }))];
+  }
+
+  const placed: OrderResponse[] = [];
+  try {
+    for (const request of requests) {
+      placed.push(await broker.placeOrder(request));
+    }
+  } catch (error) {
+    // Do not leave a lone leg working without its alternative
+    for (const leg of placed) {
+      await cancelAtBroker(broker, leg.brokerOrderId, requests[0].symbol);
+    }
+    throw error;
+  }
+  return placed;
+}
+
+/**
+ * React to a status change of a grouped order. For emulated groups a filled entry
+ * sends its held exits to the broker, an entry that ends unfilled cancels them,
+ * and the first execution of an exit or OCO leg cancels its siblings.
+ * Sandbox groups are linked inside the engine, so only the group status is kept up to date.
+ */
+export async function handleGroupOrderUpdate(order: any): Promise<void> {
+  if (!order?.group_id) return;
+
+  if (!order.sandbox) {
+    if (order.group_role === 'entry') {
+      if (!WORKING_STATUSES.includes(order.status)) {
+        await releaseExits(order);
+      }
+    } else if (parseFloat(order.filled_quantity || '0') > 0) {
+      await cancelSiblings(order);
+    }
+  }
+
+  await refreshGroupStatus(order.group_id);
+}
+
+/**
+ * Send the held exits of an entry that is done. Exits of an entry that ended
+ * partially filled cover the filled quantity; without any fill they are cancelled.
+ */
+async function releaseExits(entry: any) {
+  const filled = parseFloat(entry.filled_quantity || '0');
+
+  // Claim each held exit first so concurrent updates cannot send it twice
+  const claimed = await db.getPool().query(
+    `UPDATE orders
+     SET status = $1,
+         quantity = CASE WHEN $2::numeric > 0 THEN LEAST(quantity, $2::numeric) ELSE quantity END,
+         updated_at = CURRENT_TIMESTAMP
+     WHERE group_id = $3 AND group_role IN ('take_profit', 'stop_loss') AND status = 'held'
+     RETURNING *`,
+    [filled > 0 ? 'pending' : 'cancelled', filled, entry.group_id]
+  );
+
+  for (const row of claimed.rows) {
+    const event = await insertOrderEvent(db.getPool(), row, 'held', 'group');
+    broadcastOrderUpdate(row.user_id, formatOrder(row));
+    broadcastOrderEvent(row.user_id, event);
+    notifyOrderChange(row);
+  }
+
+  if (claimed.rows.length === 0 || filled <= 0) return;
+
+  const broker = await getBrokerInstance(entry.user_id, entry.broker_type);
+  for (const exit of claimed.rows) {
+    let update: OrderUpdate;
+    try {
+      update = await broker.placeOrder(toOrderRequest(exit));
+    } catch (error: any) {
+      logger.error({ error, orderId: exit.order_id, groupId: entry.group_id }, 'Failed to send bracket exit');
+      update = { status: 'rejected', rejectReason: error.message };
+    }
+
+    await updateOrderStatus(exit.id, update, 'group');
+  }
+}
+
+async function cancelSiblings(order: any) {
+  const siblings = await db.getPool().query(
+    `SELECT * FROM orders
+     WHERE group_id = $1 AND id <> $2 AND group_role <> 'entry' AND status = ANY($3)`,
+    [order.group_id, order.id, [...WORKING_STATUSES, 'held']]
+  );
+
+  if (siblings.rows.length === 0) return;
+  const broker = await getBrokerInstance(order.user_id, order.broker_type);
+
+  for (const sibling of siblings.rows) {
+    let updated: any;
+    if (sibling.broker_order_id) {
+      // A sibling that filled in the meantime keeps its status; cancels the broker
+      // is still working are confirmed later by the poller or stream
+      const response = await cancelAtBroker(broker, sibling.broker_order_id, sibling.symbol);
+      if (!response) continue;
+      updated = await recordCancelResponse(sibling, response, 'group');
+    } else {
+      updated = await updateOrderStatus(sibling.id, { status: 'cancelled' }, 'group');
+    }
+
+    if (updated.status === 'cancelled') {
+      logger.info({ orderId: sibling.order_id, groupId: order.group_id }, 'One-cancels-other sibling cancelled');
+    }
+  }
+}
+
+/**
+ * Request a cancel at the broker. Returns the broker's answer, or null when the
+ * request failed.
+ */
+async function cancelAtBroker(
+  broker: Broker,
+  brokerOrderId: string | undefined,
+  symbol: string
+): Promise<OrderResponse | null> {
+  if (!brokerOrderId) return null;
+  try {
+    return await broker.cancelOrder(brokerOrderId, symbol);
+  } catch (error) {
+    // It may already have filled; its own update will arrive from the broker
+    logger.error({ error, brokerOrderId }, 'Failed to cancel grouped order at broker');
+    return null;
+  }
+}
+
+/**
+ * Derive the group status from its orders: pending until a bracket entry fills,
+ * active while legs work, then completed if an exit or leg executed, otherwise cancelled
+ */
+async function refreshGroupStatus(groupId: string) {
+  const result = await db.getPool().query('SELECT * FROM orders WHERE group_id = $1', [groupId]);
+  const orders = result.rows;
+
+  const entry = orders.find((order) => order.group_role === 'entry');
+  const working = orders.some((order) => [...WORKING_STATUSES, 'held'].includes(order.status));
+  const executed = orders.some(
+    (order) => order.group_role !== 'entry' && parseFloat(order.filled_quantity || '0') > 0
+  );
+
+  let status: string;
+  if (entry && WORKING_STATUSES.includes(entry.status)) {
+    status = 'pending';
+  } else if (working) {
+    status = 'active';
+  } else {
+    status = executed ? 'completed' : 'cancelled';
+  }
+
+  await db.getPool().query(
+    `UPDATE order_groups SET status = $1, updated_at = CURRENT_TIMESTAMP
+     WHERE group_id = $2 AND status <> $1`,
+    [status, groupId]
+  );
+}
+
+/**
+ * Load a user's order group with its orders, or null if it does not exist
+ */
+export async function getOrderGroup(userId: number, groupId: string) {
+  const groupResult = await db.getPool().query(
+    'SELECT * FROM order_groups WHERE group_id = $1 AND user_id = $2',
+    [groupId, userId]
+  );
+  if (groupResult.rows.length === 0) return null;
+
+  const group = groupResult.rows[0];
+  const ordersResult = await db.getPool().query('SELECT * FROM orders WHERE group_id = $1 ORDER BY id', [groupId]);
+
+  return {
+    groupId: group.group_id,
+    type: group.type,
+    status: group.status,
+    sandbox: group.sandbox,
+    orders: ordersResult.rows.map(formatOrder),
+    createdAt: group.created_at,
+    updatedAt: group.updated_at,
+  };
+}
+
+/**
+ * Cancel every working or held order of a group. Exits are cancelled before
+ * the entry so the sandbox does not cancel them a second time.
+ */
+export async function cancelOrderGroup(userId: number, groupId: string) {
+  const result = await db.getPool().query(
+    `SELECT * FROM orders
+     WHERE group_id = $1 AND user_id = $2 AND status = ANY($3)
+     ORDER BY CASE WHEN group_role = 'entry' THEN 1 ELSE 0 END, id`,
+    [groupId, userId, [...WORKING_STATUSES, 'held']]
+  );
+
+  for (const order of result.rows) {
+    // Held exits exist only in the database
+    if (!order.broker_order_id) {
+      await updateOrderStatus(order.id, { status: 'cancelled' }, 'user');
+      continue;
+    }
+
+    const broker = order.sandbox
+      ? (await getSandboxAccount(userId)).broker
+      : await getBrokerInstance(userId, order.broker_type);
+    let update: OrderResponse;
+    try {
+      update = await broker.cancelOrder(order.broker_order_id, order.symbol);
+    } catch (error) {
+      logger.error({ error, orderId: order.order_id, groupId }, 'Failed to cancel grouped order');
+      continue;
+    }
+
+    // Cancels the broker is still working are confirmed later by the poller or stream
+    await recordCancelResponse(order, update, 'user');
+  }
+
+  await refreshGroupStatus(groupId);
+  logger.info({ userId, groupId }, 'Order group cancelled');
+}
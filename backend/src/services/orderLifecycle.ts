@@ -0,0 +1,201 @@
+import { PoolClient } from 'pg';
+import { db } from '../db';
+import { logger } from '../utils/logger';
+import { broadcastOrderEvent, broadcastOrderUpdate } from '../websocket';
+import { canTransition, OrderStatus } from './orderStateMachine';
+import { formatOrder } from './orders';
+
+/** What caused a status change, stored on each order event */
+export type OrderEventSource =
+  | 'placement'
+  | 'sandbox'
+  | 'webhook'
+  | 'stream'
+  | 'poller'
+  | 'user'
+  | 'group'
+  | 'reset'
+  | 'kill_switch'
+  | 'reconciliation'
+  | 'strategy';
+
+export interface OrderUpdate {
+  status: OrderStatus;
+  filledQuantity?: number;
+  averagePrice?: number;
+  brokerOrderId?: string;
+  rejectReason?: string;
+}
+
+export interface OrderEvent {
+  id: number;
+  orderId: string;
+  symbol: string;
+  fromStatus: OrderStatus | null;
+  toStatus: OrderStatus;
+  filledQuantity: number;
+  averagePrice: number | null;
+  source: OrderEventSource;
+  createdAt: Date;
+}
+
+type Queryable = Pick<PoolClient, 'query'>;
+
+/** Called with the orders row after any recorded change to it */
+export type OrderChangeListener = (order: any) => void;
+
+const orderChangeListeners = new Set<OrderChangeListener>();
+
+/**
+ * Listen to order status and fill changes in this process, e.g. to run
+ * strategies' order hooks; returns a function that removes the listener
+ */
+export function onOrderChange(listener: OrderChangeListener): () => void {
+  orderChangeListeners.add(listener);
+  return () => {
+    orderChangeListeners.delete(listener);
+  };
+}
+
+/**
+ * Pass a changed orders row to the in-process listeners
+ */
+export function notifyOrderChange(order: any) {
+  for (const listener of orderChangeListeners) {
+    try {
+      listener(order);
+    } catch (error) {
+      logger.error({ error, orderId: order.order_id }, 'Order change listener failed');
+    }
+  }
+}
+
+/**
+ * Apply a status update to an orders row inside the caller's transaction.
+ * An illegal transition keeps the current status while the other fields still
+ * apply, and the filled quantity never shrinks. A status change is written to
+ * order_events and returned so the caller can broadcast it after committing.
+ * Returns a null order when the row does not exist.
+ */
+export async function applyOrderUpdate(
+  client: Queryable,
+  id: number,
+  update: OrderUpdate,
+  source: OrderEventSource
+): Promise<{ order: any; event: OrderEvent | null }> {
+  const currentResult = await client.query('SELECT * FROM orders WHERE id = $1 FOR UPDATE', [id]);
+  const current = currentResult.rows[0];
+  if (!current) {
+    return { order: null, event: null };
+  }
+
+  let status = update.status;
+  if (!canTransition(current.status, status)) {
+    logger.warn(
+      { orderId: current.order_id, from: current.status, to: status, source },
+      'Ignoring illegal order status transition'
+    );
+    status = current.status;
+  }
+
+  const result = await client.query(
+    `UPDATE orders
+     SET status = $1,
+         filled_quantity = GREATEST(COALESCE(filled_quantity, 0), COALESCE($2, 0)),
+         average_price = COALESCE($3, average_price),
+         broker_order_id = COALESCE($4, broker_order_id),
+         reject_reason = COALESCE($5, reject_reason),
+         updated_at = CURRENT_TIMESTAMP
+     WHERE id = $6
+     RETURNING *`,
+    [
+      status,
+      update.filledQuantity ?? null,
+      update.averagePrice ?? null,
+      update.brokerOrderId ?? null,
+      update.rejectReason ?? null,
+      id,
+    ]
+  );
+  const order = result.rows[0];
+
+  const event =
+    status !== current.status ? await insertOrderEvent(client, order, current.status, source) : null;
+
+  return { order, event };
+}
+
+/**
+ * Write one status change of an order to its history
+ */
+export async function insertOrderEvent(
+  client: Queryable,
+  order: any,
+  fromStatus: OrderStatus | null,
+  source: OrderEventSource
+): Promise<OrderEvent> {
+  const result = await client.query(
+    `INSERT INTO order_events (order_id, user_id, from_status, to_status, filled_quantity, average_price, source)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)
+     RETURNING *`,
+    [order.id, order.user_id, fromStatus, order.status, order.filled_quantity || 0, order.average_price, source]
+  );
+  return formatOrderEvent({ ...result.rows[0], order_public_id: order.order_id, symbol: order.symbol });
+}
+
+/**
+ * Apply a status update in its own transaction and notify the order's owner
+ */
+export async function updateOrderStatus(id: number, update: OrderUpdate, source: OrderEventSource): Promise<any> {
+  const client = await db.getPool().connect();
+  let applied: Awaited<ReturnType<typeof applyOrderUpdate>>;
+  try {
+    await client.query('BEGIN');
+    applied = await applyOrderUpdate(client, id, update, source);
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  const { order, event } = applied;
+  if (order) {
+    broadcastOrderUpdate(order.user_id, formatOrder(order));
+    if (event) {
+      broadcastOrderEvent(order.user_id, event);
+    }
+    notifyOrderChange(order);
+  }
+  return order;
+}
+
+/**
+ * Status history of an order, oldest first
+ */
+export async function getOrderEvents(orderRowId: number): Promise<OrderEvent[]> {
+  const result = await db.getPool().query(
+    `SELECT e.*, o.order_id AS order_public_id, o.symbol
+     FROM order_events e
+     JOIN orders o ON o.id = e.order_id
+     WHERE e.order_id = $1
+     ORDER BY e.created_at, e.id`,
+    [orderRowId]
+  );
+  return result.rows.map(formatOrderEvent);
+}
+
+function formatOrderEvent(row: any): OrderEvent {
+  return {
+    id: row.id,
+    orderId: row.order_public_id,
+    symbol: row.symbol,
+    fromStatus: row.from_status,
+    toStatus: row.to_status,
+    filledQuantity: parseFloat(row.filled_quantity || '0'),
+    averagePrice: row.average_price ? parseFloat(row.average_price) : null,
+    source: row.source,
+    createdAt: row.created_at,
+  };
+}
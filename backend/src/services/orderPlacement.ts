@@ -0,0 +1,176 @@
+import { randomUUID } from 'crypto';
+import { Broker, OrderRequest, OrderResponse, OrderRuleError } from '../brokers/base';
+import { getBrokerInstance } from '../brokers/factory';
+import { SandboxBroker } from '../brokers/sandbox';
+import { db } from '../db';
+import { AppError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { recordCancelResponse, recordExecution } from './executions';
+import { assertTradingAllowed } from './killSwitch';
+import { handleGroupOrderUpdate } from './orderGroups';
+import { OrderEventSource, updateOrderStatus } from './orderLifecycle';
+import { checkOrderRisk } from './riskEngine';
+import { getSandboxAccount, getSandboxCosts } from './sandboxAccounts';
+
+/**
+ * Risk-check, save and send one order to the user's active broker (the paper
+ * account in sandbox mode). Orders placed by a strategy carry its ID for P&L
+ * attribution. Returns the saved orders row, or null when another order
+ * already holds the client order ID.
+ */
+export async function submitOrder(userId: number, order: OrderRequest, strategyId: number | null = null): Promise<any> {
+  await assertTradingAllowed(userId);
+
+  const orderId = randomUUID();
+  const clientOrderId = order.clientOrderId ?? orderId;
+  let rowId: number | null = null;
+  let brokerResponse: OrderResponse;
+  let sandboxBroker: SandboxBroker | null = null;
+
+  try {
+    const brokerConfig = await db.getPool().query(
+      `SELECT broker_type, sandbox_mode, commission_model, slippage_model
+       FROM broker_configs WHERE user_id = $1 LIMIT 1`,
+      [userId]
+    );
+
+    const isSandbox = brokerConfig.rows.length === 0 || brokerConfig.rows[0].sandbox_mode;
+    const brokerType = brokerConfig.rows[0]?.broker_type || 'sandbox';
+
+    sandboxBroker = isSandbox ? (await getSandboxAccount(userId)).broker : null;
+    const broker: Broker = sandboxBroker ?? (await getBrokerInstance(userId, brokerType));
+
+    // Round to the broker's trading rules first, so the checks and the saved row see what is sent
+    if (broker.prepareOrder) {
+      order = await broker.prepareOrder(order);
+    }
+
+    // Pre-trade risk checks; a violation is thrown with its code
+    await checkOrderRisk(userId, order, { orderId, broker, sandbox: isSandbox });
+
+    // Save the order before it reaches the broker, so a concurrent retry cannot
+    // send it twice and broker updates can be matched back by client order ID
+    const inserted = await db.getPool().query(
+      `INSERT INTO orders (
+        user_id, order_id, broker_type, symbol, side, type, quantity, price, stop_price,
+        trail_amount, trail_percent, time_in_force, expires_at, status, sandbox, client_order_id, strategy_id, product
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, 'pending', $14, $15, $16, $17)
+      ON CONFLICT (user_id, client_order_id) DO NOTHING
+      RETURNING id`,
+      [
+        userId,
+        orderId,
+        brokerType,
+        order.symbol,
+        order.side,
+        order.type,
+        order.quantity,
+        order.price || null,
+        order.stopPrice || null,
+        order.trailAmount ?? null,
+        order.trailPercent ?? null,
+        order.timeInForce ?? null,
+        order.expiresAt ?? null,
+        isSandbox,
+        clientOrderId,
+        strategyId,
+        order.product ?? null,
+      ]
+    );
+
+    if (inserted.rows.length === 0) {
+      return null;
+    }
+    rowId = inserted.rows[0].id;
+
+    // Place order with broker
+    const request: OrderRequest = { ...order, clientOrderId };
+    if (sandboxBroker) {
+      brokerResponse = await sandboxBroker.placeOrder(request, await getSandboxCosts(userId, brokerConfig.rows[0]));
+    } else {
+      brokerResponse = await broker.placeOrder(request);
+    }
+  } catch (error: any) {
+    if (error instanceof AppError) throw error;
+    if (rowId) {
+      await updateOrderStatus(rowId, { status: 'rejected', rejectReason: error.message }, 'placement');
+    }
+    if (error instanceof OrderRuleError) {
+      throw new AppError(422, error.code, error.message, error.allowed);
+    }
+
+    logger.error({ error, userId, order }, 'Failed to place order');
+    throw new AppError(500, 'ORDER_ERROR', `Failed to place order: ${error.message}`);
+  }
+
+  try {
+    let row = await updateOrderStatus(
+      rowId!,
+      {
+        status: brokerResponse.status,
+        filledQuantity: brokerResponse.filledQuantity,
+        averagePrice: brokerResponse.averagePrice,
+        brokerOrderId: brokerResponse.brokerOrderId,
+        rejectReason: brokerResponse.rejectReason,
+      },
+      'placement'
+    );
+
+    // Persist sandbox fills, including any produced by ticks since placement
+    if (sandboxBroker && brokerResponse.brokerOrderId) {
+      await recordExecution(
+        brokerResponse.brokerOrderId,
+        await sandboxBroker.getOrderStatus(brokerResponse.brokerOrderId),
+        true,
+        'placement'
+      );
+      row = (await db.getPool().query('SELECT * FROM orders WHERE id = $1', [rowId])).rows[0];
+    }
+
+    return row;
+  } catch (error: any) {
+    // The broker has the order; its updates are matched back by client order ID
+    logger.error(
+      { error, userId, orderId, brokerOrderId: brokerResponse.brokerOrderId },
+      'Failed to record placed order'
+    );
+    throw new AppError(500, 'ORDER_ERROR', `Order was placed but could not be recorded: ${error.message}`);
+  }
+}
+
+/**
+ * Cancel a working order at its broker and record the broker's answer. The
+ * order stays working until the broker confirms the cancel. Returns the updated orders row.
+ */
+export async function cancelWorkingOrder(userId: number, row: any, source: OrderEventSource): Promise<any> {
+  // Held bracket exits of other brokers exist only here until their entry fills
+  if (isEmulatedHold(row)) {
+    const updated = await updateOrderStatus(row.id, { status: 'cancelled' }, source);
+    await handleGroupOrderUpdate(updated);
+    logger.info({ orderId: row.order_id, userId, source }, 'Order cancelled');
+    return updated;
+  }
+
+  const brokerResponse = await (await resolveBroker(userId, row)).cancelOrder(row.broker_order_id, row.symbol);
+  const updated = await recordCancelResponse(row, brokerResponse, source);
+
+  logger.info({ orderId: row.order_id, userId, source, status: updated.status }, 'Order cancel requested');
+  return updated;
+}
+
+/**
+ * A held bracket exit of a non-sandbox broker: not sent to the broker until its entry fills
+ */
+export function isEmulatedHold(row: any): boolean {
+  return row.status === 'held' && !row.sandbox;
+}
+
+/**
+ * Resolve the broker an order was routed to
+ */
+export async function resolveBroker(userId: number, row: any): Promise<Broker> {
+  if (row.sandbox) {
+    return (await getSandboxAccount(userId)).broker;
+  }
+  return getBrokerInstance(userId, row.broker_type);
+}
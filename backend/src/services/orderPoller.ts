@@ -0,0 +1,109 @@
+import { getBrokerInstance } from '../brokers/factory';
+import { config } from '../config';
+import { db } from '../db';
+import { logger } from '../utils/logger';
+import { recordExecution, withCatchUpFill } from './executions';
+import { canTransition } from './orderStateMachine';
+
+/** Live orders the broker may still change */
+const POLLED_STATUSES = ['pending', 'open', 'partially_filled'];
+
+/** Orders polled per tick, longest overdue first */
+const POLL_BATCH_SIZE = 200;
+
+let poller: NodeJS.Timeout | null = null;
+let polling = false;
+
+/**
+ * Poll non-terminal live orders with their broker, so status changes land even
+ * when no webhook arrives. Sandbox orders are updated by the engine itself.
+ */
+export function startOrderPoller() {
+  if (poller) return;
+
+  poller = setInterval(() => {
+    pollOrders().catch((error) => logger.error({ error }, 'Order status poll failed'));
+  }, config.ORDER_POLL_INTERVAL_MS);
+  poller.unref();
+
+  logger.info({ intervalMs: config.ORDER_POLL_INTERVAL_MS }, 'Order status poller started');
+}
+
+export function stopOrderPoller() {
+  if (poller) {
+    clearInterval(poller);
+    poller = null;
+  }
+}
+
+/**
+ * Delay before an order is polled again: doubles with each poll that found no
+ * change, up to the configured maximum
+ */
+export function pollBackoff(attempts: number): number {
+  return Math.min(config.ORDER_POLL_INTERVAL_MS * 2 ** attempts, config.ORDER_POLL_MAX_INTERVAL_MS);
+}
+
+/**
+ * Poll the orders that are due, longest overdue first. Each order's next poll
+ * time and backoff are kept on its row, so orders beyond one batch are reached
+ * on later ticks and the backoff survives restarts.
+ */
+export async function pollOrders(now: Date = new Date()) {
+  // A slow broker must not stack up overlapping polls
+  if (polling) return;
+  polling = true;
+
+  try {
+    const result = await db.getPool().query(
+      `SELECT id, user_id, order_id, broker_type, broker_order_id, symbol, status, filled_quantity, poll_attempts
+       FROM orders
+       WHERE sandbox = false AND broker_order_id IS NOT NULL AND status = ANY($1) AND next_poll_at <= $2
+       ORDER BY next_poll_at
+       LIMIT $3`,
+      [POLLED_STATUSES, now, POLL_BATCH_SIZE]
+    );
+
+    for (const order of result.rows) {
+      let changed = false;
+      try {
+        changed = await pollOrder(order);
+      } catch (error) {
+        logger.warn({ error, orderId: order.order_id }, 'Failed to poll order status');
+      }
+
+      const attempts = changed ? 0 : order.poll_attempts + 1;
+      await db
+        .getPool()
+        .query('UPDATE orders SET poll_attempts = $1, next_poll_at = $2 WHERE id = $3', [
+          attempts,
+          new Date(now.getTime() + pollBackoff(attempts)),
+          order.id,
+        ]);
+    }
+  } finally {
+    polling = false;
+  }
+}
+
+/**
+ * Fetch one order from its broker and record it; returns whether anything changed
+ */
+async function pollOrder(order: any): Promise<boolean> {
+  const broker = await getBrokerInstance(order.user_id, order.broker_type);
+  const status = await broker.getOrderStatus(order.broker_order_id, order.symbol);
+
+  // A status the order may not move to is ignored when recorded, so it is no change
+  const changed =
+    (status.status !== order.status && canTransition(order.status, status.status)) ||
+    (status.filledQuantity ?? 0) > parseFloat(order.filled_quantity || '0');
+  if (changed) {
+    const execution = await withCatchUpFill(order.id, status, `poll-${order.broker_order_id}-${status.filledQuantity}`);
+    await recordExecution(order.broker_order_id, execution, false, 'poller', {
+      userId: order.user_id,
+      brokerType: order.broker_type,
+      symbol: order.symbol,
+    });
+  }
+  return changed;
+}
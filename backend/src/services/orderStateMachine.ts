@@ -0,0 +1,28 @@
+import { OrderResponse } from '../brokers/base';
+
+export type OrderStatus = OrderResponse['status'];
+
+/**
+ * Statuses an order may move to from each status. Terminal statuses have no exits,
+ * so a late or out-of-order update (e.g. `open` after `filled`) cannot revive an order.
+ */
+const TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  held: ['pending', 'open', 'partially_filled', 'filled', 'cancelled', 'rejected', 'expired'],
+  pending: ['open', 'partially_filled', 'filled', 'cancelled', 'rejected', 'expired'],
+  open: ['partially_filled', 'filled', 'cancelled', 'rejected', 'expired'],
+  partially_filled: ['filled', 'cancelled', 'expired'],
+  filled: [],
+  cancelled: [],
+  rejected: [],
+  expired: [],
+};
+
+export const TERMINAL_STATUSES: OrderStatus[] = ['filled', 'cancelled', 'rejected', 'expired'];
+
+/**
+ * Whether an order may go from one status to another. Staying in the same status
+ * is always allowed, since further fills keep a partially filled order partially filled.
+ */
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return from === to || (TRANSITIONS[from]?.includes(to) ?? false);
+}
@@ -0,0 +1,170 @@
+import { OrderResponse } from '../brokers/base';
+import { db } from '../db';
+import { logger } from '../utils/logger';
+import { recordExecution, withCatchUpFill } from './executions';
+import { handleGroupOrderUpdate } from './orderGroups';
+import { updateOrderStatus } from './orderLifecycle';
+import { OrderStatus } from './orderStateMachine';
+
+/**
+ * An order update in the shape webhook handlers normalise broker payloads to
+ */
+export interface BrokerOrderUpdate {
+  orderId?: string;
+  brokerOrderId?: string;
+  symbol?: string;
+  status?: string;
+  filledQuantity?: number;
+  averagePrice?: number;
+  brokerTradeId?: string;
+  /** Our client order ID as echoed by the broker, used when the broker order ID is unknown to us */
+  clientOrderId?: string;
+  /** Kite echoes a shortened client order ID as the order tag */
+  kiteTag?: string;
+}
+
+/** The order a webhook update refers to */
+export interface WebhookOrder {
+  id: number;
+  user_id: number;
+  broker_type: string;
+  broker_order_id: string | null;
+  symbol: string;
+  sandbox: boolean;
+}
+
+const WEBHOOK_ORDER_COLUMNS = 'id, user_id, broker_type, broker_order_id, symbol, sandbox';
+
+/**
+ * Find the live order of a broker that an update refers to, by broker order ID
+ * or, for orders never linked to theirs, by client order ID. Sandbox orders are
+ * never matched: only the simulator fills them.
+ */
+export async function findWebhookOrder(payload: BrokerOrderUpdate, brokerType: string): Promise<WebhookOrder | null> {
+  const orderId = payload.orderId || payload.brokerOrderId;
+  if (!orderId) {
+    throw new Error('Order ID not found in webhook payload');
+  }
+
+  const found = await db.getPool().query(
+    `SELECT ${WEBHOOK_ORDER_COLUMNS} FROM orders
+     WHERE (broker_order_id = $1 OR order_id = $1) AND broker_type = $2 AND sandbox = false`,
+    [orderId, brokerType]
+  );
+  if (found.rows[0]) return found.rows[0];
+
+  // The broker order ID was never stored if our write failed after placement
+  const id = await matchByClientOrderId(payload);
+  if (!id) return null;
+  const matched = await db
+    .getPool()
+    .query(`SELECT ${WEBHOOK_ORDER_COLUMNS} FROM orders WHERE id = $1 AND broker_type = $2 AND sandbox = false`, [
+      id,
+      brokerType,
+    ]);
+  return matched.rows[0] ?? null;
+}
+
+/**
+ * Apply an order update a broker pushed to us. Callers verify that the update
+ * came from the broker first. Fills are recorded like any other execution: as
+ * trades settled in the ledger, once per filled quantity.
+ */
+export async function applyOrderUpdate(row: WebhookOrder, payload: BrokerOrderUpdate) {
+  // Map status
+  const statusMap: Record<string, string> = {
+    filled: 'filled',
+    partial: 'partially_filled',
+    cancelled: 'cancelled',
+    rejected: 'rejected',
+    expired: 'expired',
+    open: 'open',
+    pending: 'pending',
+  };
+
+  const status = (statusMap[payload.status?.toLowerCase() || ''] || payload.status || 'pending') as OrderStatus;
+
+  const orderId = payload.orderId || payload.brokerOrderId || row.broker_order_id || '';
+  const update: OrderResponse = {
+    orderId,
+    status,
+    filledQuantity: payload.filledQuantity || undefined,
+    averagePrice: payload.averagePrice || undefined,
+    brokerOrderId: payload.brokerOrderId,
+  };
+
+  const brokerOrderId = row.broker_order_id ?? payload.brokerOrderId;
+  if (!brokerOrderId) {
+    // Never routed to a broker, so there is nothing that could have filled
+    const order = await updateOrderStatus(row.id, update, 'webhook');
+    await handleGroupOrderUpdate(order);
+  } else {
+    if (!row.broker_order_id) {
+      await db
+        .getPool()
+        .query('UPDATE orders SET broker_order_id = $1 WHERE id = $2 AND broker_order_id IS NULL', [
+          brokerOrderId,
+          row.id,
+        ]);
+    }
+
+    // Keyed by the filled quantity when the broker sends no trade ID, so a repeated webhook records nothing
+    const execution = await withCatchUpFill(
+      row.id,
+      update,
+      payload.brokerTradeId ?? `webhook-${brokerOrderId}-${update.filledQuantity}`
+    );
+    await recordExecution(brokerOrderId, execution, row.sandbox, 'webhook', {
+      userId: row.user_id,
+      brokerType: row.broker_type,
+      symbol: row.symbol,
+    });
+  }
+
+  logger.info({ orderId, status }, 'Order updated from webhook');
+}
+
+/**
+ * Find the unrouted order a broker update refers to by its client order ID.
+ * Client order IDs are unique per user only, so an ambiguous match is ignored;
+ * updates from a user's own stream pass the user to match within.
+ */
+export async function matchByClientOrderId(
+  payload: BrokerOrderUpdate,
+  owner?: { userId: number; brokerType: string }
+): Promise<number | null> {
+  let result;
+  if (payload.clientOrderId && owner) {
+    result = await db.getPool().query(
+      `SELECT id FROM orders
+       WHERE client_order_id = $1 AND broker_order_id IS NULL AND sandbox = false
+         AND user_id = $2 AND broker_type = $3
+       LIMIT 2`,
+      [payload.clientOrderId, owner.userId, owner.brokerType]
+    );
+  } else if (payload.clientOrderId) {
+    result = await db.getPool().query(
+      `SELECT id FROM orders
+       WHERE client_order_id = $1 AND broker_order_id IS NULL AND sandbox = false
+       LIMIT 2`,
+      [payload.clientOrderId]
+    );
+  } else if (payload.kiteTag) {
+    // Same reduction as toKiteTag
+    result = await db.getPool().query(
+      `SELECT id FROM orders
+       WHERE broker_type = 'kite' AND broker_order_id IS NULL AND sandbox = false
+         AND LEFT(regexp_replace(client_order_id, '[^A-Za-z0-9]', '', 'g'), 20) = $1
+       LIMIT 2`,
+      [payload.kiteTag]
+    );
+  } else {
+    return null;
+  }
+
+  if (result.rows.length !== 1) {
+    logger.warn({ clientOrderId: payload.clientOrderId ?? payload.kiteTag }, 'No unique order for client order ID');
+    return null;
+  }
+  return result.rows[0].id;
+}
@@ -0,0 +1,53 @@
+import { OrderRequest } from '../brokers/base';
+
+/**
+ * Rebuild the broker order request stored on an orders row
+ */
+export function toOrderRequest(row: any): OrderRequest {
+  return {
+    symbol: row.symbol,
+    side: row.side,
+    type: row.type,
+    quantity: parseFloat(row.quantity),
+    price: row.price ? parseFloat(row.price) : undefined,
+    stopPrice: row.stop_price ? parseFloat(row.stop_price) : undefined,
+    trailAmount: row.trail_amount ? parseFloat(row.trail_amount) : undefined,
+    trailPercent: row.trail_percent ? parseFloat(row.trail_percent) : undefined,
+    timeInForce: row.time_in_force || undefined,
+    expiresAt: row.expires_at || undefined,
+    clientOrderId: row.client_order_id || undefined,
+    product: row.product || undefined,
+  };
+}
+
+/**
+ * Shape an orders row for API responses and websocket updates
+ */
+export function formatOrder(row: any) {
+  return {
+    id: row.id,
+    orderId: row.order_id,
+    symbol: row.symbol,
+    side: row.side,
+    type: row.type,
+    quantity: parseFloat(row.quantity),
+    price: row.price ? parseFloat(row.price) : null,
+    stopPrice: row.stop_price ? parseFloat(row.stop_price) : null,
+    trailAmount: row.trail_amount ? parseFloat(row.trail_amount) : null,
+    trailPercent: row.trail_percent ? parseFloat(row.trail_percent) : null,
+    timeInForce: row.time_in_force,
+    expiresAt: row.expires_at,
+    status: row.status,
+    filledQuantity: parseFloat(row.filled_quantity || '0'),
+    averagePrice: row.average_price ? parseFloat(row.average_price) : null,
+    brokerOrderId: row.broker_order_id,
+    clientOrderId: row.client_order_id,
+    product: row.product ?? null,
+    rejectReason: row.reject_reason,
+    groupId: row.group_id,
+    groupRole: row.group_role,
+    strategyId: row.strategy_id ?? null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
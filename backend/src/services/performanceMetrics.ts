@@ -0,0 +1,325 @@
+import { ClosedLot, LotTrade } from './lotMatching';
+
+export type AnalyticsPeriod = 'day' | 'week' | 'month' | 'year';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const YEAR_MS = 365 * DAY_MS;
+
+/**
+ * Value of a portfolio or position at a point in time, after `flow` was added
+ * to it. Flows are money put in (positive) or taken out (negative) that must
+ * not count as performance, such as deposits or buying more of a position.
+ */
+export interface SeriesPoint {
+  timestamp: Date;
+  value: number;
+  flow: number;
+}
+
+export interface PeriodReturn {
+  timestamp: Date;
+  return: number;
+}
+
+export interface Drawdown {
+  /** Largest fall from a peak of the growth index, as a positive fraction */
+  depth: number;
+  peakAt: Date;
+  troughAt: Date;
+  /** When the index regained the peak, or null if it has not yet */
+  recoveredAt: Date | null;
+}
+
+export interface TradeStats {
+  /** Closing trades; a sell matched against several lots counts once */
+  trades: number;
+  wins: number;
+  losses: number;
+  winRate: number | null;
+  /** Gross profit over gross loss; null without losing trades */
+  profitFactor: number | null;
+  averageWin: number | null;
+  /** Negative, the mean loss of losing trades */
+  averageLoss: number | null;
+  /** Mean P&L per trade */
+  expectancy: number | null;
+  realizedPnl: number;
+}
+
+export interface PerformanceMetrics extends TradeStats {
+  /** Time-weighted return over the window, unaffected by flows */
+  twr: number | null;
+  /** Money-weighted return (IRR) over the window, not annualized */
+  mwr: number | null;
+  /** Annualized standard deviation of the period returns */
+  volatility: number | null;
+  sharpe: number | null;
+  sortino: number | null;
+  maxDrawdown: Drawdown | null;
+}
+
+/**
+ * Return of each interval between consecutive points, measured against the
+ * absolute value at its start so short positions gain when prices fall.
+ * Intervals starting from zero value (nothing held) have no return.
+ */
+export function periodReturns(points: SeriesPoint[]): PeriodReturn[] {
+  const returns: PeriodReturn[] = [];
+  for (let i = 1; i < points.length; i++) {
+    const start = points[i - 1].value;
+    if (start === 0) continue;
+
+    const gain = points[i].value - points[i].flow - start;
+    returns.push({ timestamp: points[i].timestamp, return: gain / Math.abs(start) });
+  }
+  return returns;
+}
+
+export function timeWeightedReturn(returns: PeriodReturn[]): number | null {
+  if (returns.length === 0) return null;
+  return returns.reduce((growth, period) => growth * (1 + period.return), 1) - 1;
+}
+
+/**
+ * Rate that discounts the opening value, every flow and the closing value to
+ * zero, with time measured as a fraction of the window so it needs no
+ * annualizing. Solved by bisection; null when no rate balances the flows.
+ */
+export function moneyWeightedReturn(points: SeriesPoint[]): number | null {
+  if (points.length < 2) return null;
+
+  const start = points[0].timestamp.getTime();
+  const span = points[points.length - 1].timestamp.getTime() - start;
+  if (span <= 0) return null;
+
+  // Cash flows from the investor's side: the opening value and additions go in, the closing value comes out
+  const flows = points.map((point, i) => ({
+    t: (point.timestamp.getTime() - start) / span,
+    amount: i === 0 ? -point.value : i === points.length - 1 ? point.value - point.flow : -point.flow,
+  }));
+  if (flows.every((flow) => flow.amount === 0)) return null;
+
+  const npv = (rate: number) => flows.reduce((sum, flow) => sum + flow.amount / (1 + rate) ** flow.t, 0);
+
+  let low = -0.9999;
+  let high = 1000;
+  if (Math.sign(npv(low)) === Math.sign(npv(high))) return null;
+
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    if (Math.sign(npv(mid)) === Math.sign(npv(low))) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * Volatility, Sharpe and Sortino annualized by how many periods of the
+ * series' average length fit in a year
+ */
+export function riskRatios(
+  returns: PeriodReturn[],
+  start: Date,
+  riskFreeRate: number
+): { volatility: number | null; sharpe: number | null; sortino: number | null } {
+  if (returns.length < 2) {
+    return { volatility: null, sharpe: null, sortino: null };
+  }
+
+  const span = returns[returns.length - 1].timestamp.getTime() - start.getTime();
+  if (span <= 0) {
+    return { volatility: null, sharpe: null, sortino: null };
+  }
+  const periodsPerYear = YEAR_MS / (span / returns.length);
+  const riskFreePerPeriod = (1 + riskFreeRate) ** (1 / periodsPerYear) - 1;
+
+  const values = returns.map((period) => period.return);
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (values.length - 1);
+  const stdDev = Math.sqrt(variance);
+  const downside = Math.sqrt(
+    values.reduce((sum, value) => sum + Math.min(0, value - riskFreePerPeriod) ** 2, 0) / values.length
+  );
+  const excess = (mean - riskFreePerPeriod) * Math.sqrt(periodsPerYear);
+
+  return {
+    volatility: stdDev * Math.sqrt(periodsPerYear),
+    sharpe: stdDev > 0 ? excess / stdDev : null,
+    sortino: downside > 0 ? excess / downside : null,
+  };
+}
+
+/**
+ * Deepest fall of the growth index built by compounding the returns from `start`
+ */
+export function maxDrawdown(returns: PeriodReturn[], start: Date): Drawdown | null {
+  let index = 1;
+  let peak = { value: 1, at: start };
+  let worst: Drawdown | null = null;
+
+  for (const period of returns) {
+    index *= 1 + period.return;
+
+    if (index >= peak.value) {
+      if (worst && worst.recoveredAt === null && worst.peakAt === peak.at) {
+        worst.recoveredAt = period.timestamp;
+      }
+      peak = { value: index, at: period.timestamp };
+      continue;
+    }
+
+    const depth = (peak.value - index) / peak.value;
+    if (!worst || depth > worst.depth) {
+      worst = { depth, peakAt: peak.at, troughAt: period.timestamp, recoveredAt: null };
+    }
+  }
+
+  return worst;
+}
+
+/**
+ * Win/loss statistics per closing trade, netting the lots it closed
+ */
+export function tradeStats(closed: ClosedLot[]): TradeStats {
+  const byTrade = new Map<number, number>();
+  for (const lot of closed) {
+    byTrade.set(lot.closeTradeId, (byTrade.get(lot.closeTradeId) ?? 0) + lot.realizedPnl);
+  }
+
+  const results = [...byTrade.values()];
+  const winners = results.filter((pnl) => pnl > 0);
+  const losers = results.filter((pnl) => pnl < 0);
+  const grossProfit = winners.reduce((sum, pnl) => sum + pnl, 0);
+  const grossLoss = losers.reduce((sum, pnl) => sum + pnl, 0);
+  const realizedPnl = grossProfit + grossLoss;
+
+  return {
+    trades: results.length,
+    wins: winners.length,
+    losses: losers.length,
+    winRate: results.length > 0 ? winners.length / results.length : null,
+    profitFactor: losers.length > 0 ? grossProfit / -grossLoss : null,
+    averageWin: winners.length > 0 ? grossProfit / winners.length : null,
+    averageLoss: losers.length > 0 ? grossLoss / losers.length : null,
+    expectancy: results.length > 0 ? realizedPnl / results.length : null,
+    realizedPnl,
+  };
+}
+
+/**
+ * All metrics for one window of a series and the lots closed in it
+ */
+export function computeMetrics(points: SeriesPoint[], closed: ClosedLot[], riskFreeRate: number): PerformanceMetrics {
+  const returns = periodReturns(points);
+  const start = points[0]?.timestamp ?? new Date();
+
+  return {
+    twr: timeWeightedReturn(returns),
+    mwr: moneyWeightedReturn(points),
+    ...riskRatios(returns, start, riskFreeRate),
+    maxDrawdown: maxDrawdown(returns, start),
+    ...tradeStats(closed),
+  };
+}
+
+/**
+ * Points inside [from, to], opened by the last earlier point carried forward
+ * to `from` so the window starts from the value held at the time
+ */
+export function sliceSeries(points: SeriesPoint[], from: Date, to: Date): SeriesPoint[] {
+  const inside = points.filter((point) => point.timestamp >= from && point.timestamp <= to);
+  const before = points.filter((point) => point.timestamp < from).pop();
+
+  if (before && (inside.length === 0 || inside[0].timestamp > from)) {
+    return [{ timestamp: from, value: before.value, flow: 0 }, ...inside];
+  }
+  if (inside.length > 0) {
+    // Money already in at the opening point is the starting value, not a flow
+    return [{ ...inside[0], flow: 0 }, ...inside.slice(1)];
+  }
+  return inside;
+}
+
+/**
+ * Value of one symbol's position at each of its trades, marked at the trade
+ * price, starting from nothing held before the first. Buying adds its cost and
+ * fee as a flow, selling withdraws the proceeds less the fee. An optional mark
+ * values what is still held at the end.
+ */
+export function positionSeries(trades: LotTrade[], mark?: { price: number; timestamp: Date }): SeriesPoint[] {
+  if (trades.length === 0) return [];
+
+  const points: SeriesPoint[] = [{ timestamp: trades[0].executedAt, value: 0, flow: 0 }];
+  let quantity = 0;
+
+  for (const trade of trades) {
+    const change = trade.side === 'buy' ? trade.quantity : -trade.quantity;
+    quantity += change;
+    points.push({
+      timestamp: trade.executedAt,
+      value: quantity * trade.price,
+      flow: change * trade.price + trade.fee,
+    });
+  }
+
+  if (mark && quantity !== 0) {
+    points.push({ timestamp: mark.timestamp, value: quantity * mark.price, flow: 0 });
+  }
+  return points;
+}
+
+/**
+ * Calendar periods covering [from, to] in UTC; weeks start on Monday
+ */
+export function periodBuckets(from: Date, to: Date, period: AnalyticsPeriod): Array<{ start: Date; end: Date }> {
+  const buckets: Array<{ start: Date; end: Date }> = [];
+  let start = periodStart(from, period);
+
+  while (start <= to) {
+    const next = nextPeriodStart(start, period);
+    buckets.push({
+      start: start < from ? from : start,
+      end: next > to ? to : new Date(next.getTime() - 1),
+    });
+    start = next;
+  }
+  return buckets;
+}
+
+function periodStart(date: Date, period: AnalyticsPeriod): Date {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  switch (period) {
+    case 'week':
+      start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+      break;
+    case 'month':
+      start.setUTCDate(1);
+      break;
+    case 'year':
+      start.setUTCMonth(0, 1);
+      break;
+  }
+  return start;
+}
+
+function nextPeriodStart(start: Date, period: AnalyticsPeriod): Date {
+  const next = new Date(start);
+  switch (period) {
+    case 'day':
+      next.setUTCDate(next.getUTCDate() + 1);
+      break;
+    case 'week':
+      next.setUTCDate(next.getUTCDate() + 7);
+      break;
+    case 'month':
+      next.setUTCMonth(next.getUTCMonth() + 1);
+      break;
+    case 'year':
+      next.setUTCFullYear(next.getUTCFullYear() + 1);
+      break;
+  }
+  return next;
+}
@@ -0,0 +1,194 @@
+import { getBrokerInstance } from '../brokers/factory';
+import { config } from '../config';
+import { db } from '../db';
+import { logger } from '../utils/logger';
+import { getSandboxAccount } from './sandboxAccounts';
+import { buildTaxLots } from './taxLots';
+
+export type HistoryResolution = '5m' | '15m' | '1h' | '1d';
+
+export interface PortfolioSnapshot {
+  userId: number;
+  brokerType: string;
+  sandbox: boolean;
+  totalValue: number;
+  /** Unknown for live brokers, which do not report a cash balance */
+  cashBalance: number | null;
+  positionsValue: number;
+  totalPnl: number;
+  totalPnlPercent: number;
+}
+
+export interface PortfolioHistoryPoint {
+  timestamp: Date;
+  brokerType: string;
+  totalValue: number;
+  cashBalance: number | null;
+  positionsValue: number;
+  totalPnl: number;
+  totalPnlPercent: number;
+}
+
+const RESOLUTION_SECONDS: Record<HistoryResolution, number> = {
+  '5m': 5 * 60,
+  '15m': 15 * 60,
+  '1h': 60 * 60,
+  '1d': 24 * 60 * 60,
+};
+
+let snapshotter: NodeJS.Timeout | null = null;
+let snapshotting = false;
+
+/**
+ * Record every user's paper account and live broker accounts at a fixed
+ * interval, building the equity curve served by the history endpoint
+ */
+export function startPortfolioSnapshotter() {
+  if (snapshotter) return;
+
+  snapshotter = setInterval(() => {
+    snapshotPortfolios().catch((error) => logger.error({ error }, 'Portfolio snapshot failed'));
+  }, config.PORTFOLIO_SNAPSHOT_INTERVAL_MS);
+  snapshotter.unref();
+
+  logger.info({ intervalMs: config.PORTFOLIO_SNAPSHOT_INTERVAL_MS }, 'Portfolio snapshotter started');
+}
+
+export function stopPortfolioSnapshotter() {
+  if (snapshotter) {
+    clearInterval(snapshotter);
+    snapshotter = null;
+  }
+}
+
+export async function snapshotPortfolios() {
+  // A slow broker must not stack up overlapping snapshots
+  if (snapshotting) return;
+  snapshotting = true;
+
+  try {
+    const pool = db.getPool();
+    const paper = await pool.query('SELECT user_id FROM sandbox_accounts');
+    const live = await pool.query('SELECT user_id, broker_type FROM broker_configs WHERE sandbox_mode = false');
+
+    const snapshots: PortfolioSnapshot[] = [];
+    for (const { user_id: userId } of paper.rows) {
+      try {
+        snapshots.push(await snapshotSandbox(userId));
+      } catch (error) {
+        logger.error({ error, userId }, 'Failed to snapshot sandbox portfolio');
+      }
+    }
+    for (const { user_id: userId, broker_type: brokerType } of live.rows) {
+      try {
+        snapshots.push(await snapshotBroker(userId, brokerType));
+      } catch (error) {
+        logger.error({ error, userId, brokerType }, 'Failed to snapshot broker portfolio');
+      }
+    }
+
+    for (const snapshot of snapshots) {
+      await pool.query(
+        `INSERT INTO portfolio_history (
+          user_id, broker_type, sandbox, total_value, cash_balance, positions_value, total_pnl, total_pnl_percent
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+        [
+          snapshot.userId,
+          snapshot.brokerType,
+          snapshot.sandbox,
+          snapshot.totalValue,
+          snapshot.cashBalance,
+          snapshot.positionsValue,
+          snapshot.totalPnl,
+          snapshot.totalPnlPercent,
+        ],
+      );
+    }
+
+    if (snapshots.length > 0) {
+      logger.debug({ count: snapshots.length }, 'Portfolio snapshots recorded');
+    }
+  } finally {
+    snapshotting = false;
+  }
+}
+
+/**
+ * Last snapshot in each resolution bucket between `from` and `to`, oldest first
+ */
+export async function getPortfolioHistory(
+  userId: number,
+  sandbox: boolean,
+  from: Date,
+  to: Date,
+  resolution: HistoryResolution,
+): Promise<PortfolioHistoryPoint[]> {
+  const result = await db.getPool().query(
+    `SELECT * FROM (
+       SELECT DISTINCT ON (broker_type, FLOOR(EXTRACT(EPOCH FROM snapshot_at) / $5))
+         broker_type, total_value, cash_balance, positions_value, total_pnl, total_pnl_percent, snapshot_at
+       FROM portfolio_history
+       WHERE user_id = $1 AND sandbox = $2 AND snapshot_at >= $3 AND snapshot_at <= $4
+       ORDER BY broker_type, FLOOR(EXTRACT(EPOCH FROM snapshot_at) / $5), snapshot_at DESC
+     ) buckets
+     ORDER BY snapshot_at`,
+    [userId, sandbox, from, to, RESOLUTION_SECONDS[resolution]],
+  );
+
+  return result.rows.map((row) => ({
+    timestamp: row.snapshot_at,
+    brokerType: row.broker_type,
+    totalValue: parseFloat(row.total_value),
+    cashBalance: row.cash_balance === null ? null : parseFloat(row.cash_balance),
+    positionsValue: parseFloat(row.positions_value),
+    totalPnl: parseFloat(row.total_pnl),
+    totalPnlPercent: parseFloat(row.total_pnl_percent),
+  }));
+}
+
+/**
+ * Paper P&L is measured against the starting cash of the current account
+ */
+async function snapshotSandbox(userId: number): Promise<PortfolioSnapshot> {
+  const account = await getSandboxAccount(userId);
+  const { cash, positionsValue, equity } = account.broker.getAccount();
+  const totalPnl = equity - account.startingCash;
+
+  return {
+    userId,
+    brokerType: 'sandbox',
+    sandbox: true,
+    totalValue: equity,
+    cashBalance: cash,
+    positionsValue,
+    totalPnl,
+    totalPnlPercent: account.startingCash > 0 ? (totalPnl / account.startingCash) * 100 : 0,
+  };
+}
+
+/**
+ * Live accounts are valued by their positions only; P&L is unrealized plus
+ * realized from tax lots, as a percentage of the capital still invested
+ */
+async function snapshotBroker(userId: number, brokerType: 'alpaca' | 'binance' | 'kite'): Promise<PortfolioSnapshot> {
+  const broker = await getBrokerInstance(userId, brokerType);
+  const positions = await broker.getPositions();
+  const { closed } = await buildTaxLots(userId, false);
+
+  const positionsValue = positions.reduce((sum, pos) => sum + pos.quantity * pos.currentPrice, 0);
+  const unrealizedPnl = positions.reduce((sum, pos) => sum + pos.unrealizedPnl, 0);
+  const realizedPnl = closed.reduce((sum, lot) => sum + lot.realizedPnl, 0);
+  const totalPnl = unrealizedPnl + realizedPnl;
+  const invested = positionsValue - unrealizedPnl;
+
+  return {
+    userId,
+    brokerType,
+    sandbox: false,
+    totalValue: positionsValue,
+    cashBalance: null,
+    positionsValue,
+    totalPnl,
+    totalPnlPercent: invested > 0 ? (totalPnl / invested) * 100 : 0,
+  };
+}
@@ -0,0 +1,155 @@
+import { Position } from '../brokers/base';
+import { config } from '../config';
+import { db } from '../db';
+import { instrumentCurrency, splitFxPnl } from './currency';
+import { FxConverter } from './fx';
+import { ClosedLot, OpenLot } from './lotMatching';
+import { RealizedSummary } from './taxLots';
+
+export interface HeldPosition extends Position {
+  brokerType: string;
+}
+
+export interface ValuedPosition extends HeldPosition {
+  currency: string;
+  realizedPnl: number;
+  /** Base currency value at the current rate */
+  marketValue: number;
+  /** Unrealized P&L in the base currency at the current rate */
+  assetPnl: number;
+  /** Base currency gain or loss of the open lots' cost from rate moves since they were opened */
+  fxPnl: number;
+}
+
+export interface ValuedRealizedSummary extends RealizedSummary {
+  currency: string;
+  /** Realized P&L in the base currency at the closing rates */
+  assetPnl: number;
+  fxPnl: number;
+}
+
+export interface PortfolioValuation {
+  baseCurrency: string;
+  positions: ValuedPosition[];
+  realized: ValuedRealizedSummary[];
+  totalUnrealizedPnl: number;
+  totalRealizedPnl: number;
+  totalFxPnl: number;
+  totalFees: number;
+  totalPnl: number;
+}
+
+/**
+ * Currency of each symbol the user traded, from the latest fill. Fills from
+ * before currencies were recorded fall back to the order's broker.
+ */
+export async function getSymbolCurrencies(userId: number, sandbox: boolean): Promise<Map<string, string>> {
+  const result = await db.getPool().query(
+    `SELECT DISTINCT ON (t.symbol) t.symbol, t.currency, o.broker_type
+     FROM trades t
+     JOIN orders o ON o.id = t.order_id
+     WHERE t.user_id = $1 AND o.sandbox = $2
+     ORDER BY t.symbol, t.executed_at DESC`,
+    [userId, sandbox]
+  );
+
+  return new Map(
+    result.rows.map((row) => [
+      row.symbol,
+      row.currency ?? instrumentCurrency(row.broker_type, row.symbol, config.BASE_CURRENCY),
+    ])
+  );
+}
+
+/**
+ * Value positions and realized P&L in the converter's base currency. Asset P&L
+ * is converted at the current (or closing) rate; FX P&L is what the rate move
+ * since the lot was opened did to its opening value. Fees are converted at the
+ * rate of their fill.
+ */
+export async function valuePortfolio(
+  userId: number,
+  sandbox: boolean,
+  positions: HeldPosition[],
+  lots: { open: OpenLot[]; closed: ClosedLot[] },
+  realized: RealizedSummary[],
+  fx: FxConverter
+): Promise<PortfolioValuation> {
+  const currencies = await getSymbolCurrencies(userId, sandbox);
+  const currencyOf = (symbol: string, brokerType = 'sandbox') =>
+    currencies.get(symbol) ?? instrumentCurrency(brokerType, symbol, config.BASE_CURRENCY);
+
+  const realizedPnlMap = new Map(realized.map((summary) => [summary.symbol, summary.realizedPnl]));
+
+  const valuedPositions = positions.map((pos) => {
+    const currency = currencyOf(pos.symbol, pos.brokerType);
+    const currentRate = fx.rate(currency);
+
+    const fxPnl = lots.open
+      .filter((lot) => lot.symbol === pos.symbol)
+      .reduce((sum, lot) => {
+        const direction = lot.direction === 'long' ? 1 : -1;
+        const openRate = fx.rate(currency, lot.openedAt);
+        return sum + splitFxPnl(0, lot.price * lot.quantity, direction, openRate, currentRate).fxPnl;
+      }, 0);
+
+    return {
+      ...pos,
+      currency,
+      realizedPnl: realizedPnlMap.get(pos.symbol) || 0,
+      marketValue: pos.quantity * pos.currentPrice * currentRate,
+      assetPnl: pos.unrealizedPnl * currentRate,
+      fxPnl,
+    };
+  });
+
+  const valuedRealized = realized.map((summary) => {
+    const currency = currencyOf(summary.symbol);
+    let assetPnl = 0;
+    let fxPnl = 0;
+
+    for (const lot of lots.closed.filter((closedLot) => closedLot.symbol === summary.symbol)) {
+      const split = splitFxPnl(
+        lot.realizedPnl,
+        lot.openPrice * lot.quantity,
+        lot.direction === 'long' ? 1 : -1,
+        fx.rate(currency, lot.openedAt),
+        fx.rate(currency, lot.closedAt)
+      );
+      assetPnl += split.assetPnl;
+      fxPnl += split.fxPnl;
+    }
+
+    return { ...summary, currency, assetPnl, fxPnl };
+  });
+
+  // All fees paid, including those still in the cost of open lots
+  const feesResult = await db.getPool().query(
+    `SELECT t.symbol, t.fee, t.executed_at
+     FROM trades t
+     JOIN orders o ON o.id = t.order_id
+     WHERE t.user_id = $1 AND o.sandbox = $2 AND t.fee > 0`,
+    [userId, sandbox]
+  );
+  const totalFees = feesResult.rows.reduce(
+    (sum, row) => sum + fx.toBase(parseFloat(row.fee), currencyOf(row.symbol), new Date(row.executed_at)),
+    0
+  );
+
+  const totalUnrealizedPnl = valuedPositions.reduce((sum, pos) => sum + pos.assetPnl, 0);
+  const totalRealizedPnl = valuedRealized.reduce((sum, summary) => sum + summary.assetPnl, 0);
+  const totalFxPnl =
+    valuedPositions.reduce((sum, pos) => sum + pos.fxPnl, 0) +
+    valuedRealized.reduce((sum, summary) => sum + summary.fxPnl, 0);
+
+  return {
+    baseCurrency: fx.baseCurrency,
+    positions: valuedPositions,
+    realized: valuedRealized,
+    totalUnrealizedPnl,
+    totalRealizedPnl,
+    totalFxPnl,
+    totalFees,
+    totalPnl: totalUnrealizedPnl + totalRealizedPnl + totalFxPnl,
+  };
+}
@@ -0,0 +1,268 @@
+import { Broker, OrderResponse } from '../brokers/base';
+import { db } from '../db';
+import { logger } from '../utils/logger';
+import { binanceBaseAsset } from './currency';
+import { recordExecution } from './executions';
+import { BookOrder, BreakType, findBreaks } from './reconciliationChecks';
+
+export type ReconciliationStatus = 'clean' | 'breaks' | 'repaired';
+
+export interface ReconciliationFinding {
+  id: number;
+  type: BreakType;
+  symbol: string;
+  orderId: string | null;
+  brokerOrderId: string | null;
+  expected: number | null;
+  actual: number | null;
+  message: string;
+  repairable: boolean;
+  repaired: boolean;
+  repairError: string | null;
+}
+
+export interface ReconciliationRun {
+  id: number;
+  brokerType: string;
+  sandbox: boolean;
+  autoRepair: boolean;
+  status: ReconciliationStatus;
+  breakCount: number;
+  repairedCount: number;
+  startedAt: Date;
+  completedAt: Date;
+  findings?: ReconciliationFinding[];
+}
+
+export interface ReconcileOptions {
+  brokerType: string;
+  sandbox: boolean;
+  broker: Broker;
+  /** Record what the broker reports for missing fills and stale orders */
+  autoRepair: boolean;
+}
+
+/** Orders the broker may still change */
+const WORKING_STATUSES = ['held', 'pending', 'open', 'partially_filled'];
+
+/**
+ * Diff the broker's positions, working orders and fills against our orders and
+ * trades, optionally repair the safe breaks, and store the run with its findings
+ */
+export async function reconcileAccount(userId: number, options: ReconcileOptions): Promise<ReconciliationRun> {
+  const { brokerType, sandbox, broker, autoRepair } = options;
+  const startedAt = new Date();
+  const pool = db.getPool();
+
+  const [brokerPositions, openOrders, bookPositions, orders] = await Promise.all([
+    broker.getPositions(),
+    broker.getOpenOrders(),
+    getBookPositions(userId, brokerType, sandbox),
+    getReconciledOrders(userId, brokerType, sandbox),
+  ]);
+
+  // Finished orders are settled from our own fill totals
+  const brokerStatuses = new Map<string, OrderResponse | null>();
+  for (const order of orders) {
+    if (!order.brokerOrderId || !WORKING_STATUSES.includes(order.status)) continue;
+    try {
+      brokerStatuses.set(order.brokerOrderId, await broker.getOrderStatus(order.brokerOrderId, order.symbol));
+    } catch (error) {
+      logger.warn({ error, userId, orderId: order.orderId }, 'Broker could not find order during reconciliation');
+      brokerStatuses.set(order.brokerOrderId, null);
+    }
+  }
+
+  const known = await pool.query(
+    'SELECT broker_order_id FROM orders WHERE user_id = $1 AND sandbox = $2 AND broker_order_id = ANY($3)',
+    [userId, sandbox, openOrders.map((order) => order.brokerOrderId ?? order.orderId)]
+  );
+
+  // Binance holds assets, not pairs, so compare what each pair trades
+  const positionKey = (symbol: string) => (brokerType === 'binance' ? (binanceBaseAsset(symbol) ?? symbol) : symbol);
+  const bookKeys = new Set(bookPositions.map((position) => positionKey(position.symbol)));
+
+  const breaks = findBreaks({
+    brokerPositions:
+      brokerType === 'binance' ? brokerPositions.filter((position) => bookKeys.has(position.symbol)) : brokerPositions,
+    bookPositions: bookPositions.map((position) => ({ ...position, symbol: positionKey(position.symbol) })),
+    orders,
+    brokerStatuses,
+    openOrders,
+    knownBrokerOrderIds: new Set(known.rows.map((row) => row.broker_order_id)),
+  });
+
+  const outcomes = [];
+  for (const found of breaks) {
+    let repaired = false;
+    let repairError: string | null = null;
+    if (autoRepair && found.repair && found.brokerOrderId) {
+      try {
+        repaired = await recordExecution(found.brokerOrderId, found.repair, sandbox, 'reconciliation');
+      } catch (error: any) {
+        repairError = error.message;
+        logger.warn({ error, userId, orderId: found.orderId, type: found.type }, 'Reconciliation repair failed');
+      }
+    }
+    outcomes.push({ ...found, repaired, repairError });
+  }
+
+  const repairedCount = outcomes.filter((outcome) => outcome.repaired).length;
+  const status: ReconciliationStatus =
+    breaks.length === 0 ? 'clean' : repairedCount === breaks.length ? 'repaired' : 'breaks';
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const run = await client.query(
+      `INSERT INTO reconciliation_runs
+         (user_id, broker_type, sandbox, auto_repair, status, break_count, repaired_count, started_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING *`,
+      [userId, brokerType, sandbox, autoRepair, status, breaks.length, repairedCount, startedAt]
+    );
+
+    const findings = await client.query(
+      `INSERT INTO reconciliation_findings
+         (run_id, type, symbol, order_id, broker_order_id, expected, actual, message, repairable, repaired, repair_error)
+       SELECT $1, * FROM unnest(
+         $2::varchar[], $3::varchar[], $4::varchar[], $5::varchar[], $6::numeric[], $7::numeric[],
+         $8::text[], $9::boolean[], $10::boolean[], $11::text[]
+       )
+       RETURNING *`,
+      [
+        run.rows[0].id,
+        outcomes.map((outcome) => outcome.type),
+        outcomes.map((outcome) => outcome.symbol),
+        outcomes.map((outcome) => outcome.orderId),
+        outcomes.map((outcome) => outcome.brokerOrderId),
+        outcomes.map((outcome) => outcome.expected),
+        outcomes.map((outcome) => outcome.actual),
+        outcomes.map((outcome) => outcome.message),
+        outcomes.map((outcome) => outcome.repair !== null),
+        outcomes.map((outcome) => outcome.repaired),
+        outcomes.map((outcome) => outcome.repairError),
+      ]
+    );
+
+    await client.query('COMMIT');
+
+    logger.info(
+      { userId, brokerType, sandbox, runId: run.rows[0].id, breaks: breaks.length, repaired: repairedCount },
+      'Reconciliation completed'
+    );
+    return { ...formatRun(run.rows[0]), findings: findings.rows.map(formatFinding) };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+export async function listReconciliationRuns(
+  userId: number,
+  limit: number,
+  offset: number
+): Promise<{ runs: ReconciliationRun[]; total: number }> {
+  const pool = db.getPool();
+  const runs = await pool.query(
+    `SELECT * FROM reconciliation_runs WHERE user_id = $1
+     ORDER BY completed_at DESC, id DESC
+     LIMIT $2 OFFSET $3`,
+    [userId, limit, offset]
+  );
+  const count = await pool.query('SELECT COUNT(*) AS total FROM reconciliation_runs WHERE user_id = $1', [userId]);
+
+  return { runs: runs.rows.map(formatRun), total: parseInt(count.rows[0].total, 10) };
+}
+
+export async function getReconciliationRun(userId: number, runId: number): Promise<ReconciliationRun | null> {
+  const pool = db.getPool();
+  const run = await pool.query('SELECT * FROM reconciliation_runs WHERE id = $1 AND user_id = $2', [runId, userId]);
+  if (run.rows.length === 0) return null;
+
+  const findings = await pool.query('SELECT * FROM reconciliation_findings WHERE run_id = $1 ORDER BY id', [runId]);
+  return { ...formatRun(run.rows[0]), findings: findings.rows.map(formatFinding) };
+}
+
+/**
+ * Net traded quantity per symbol, without paper trades from before the last reset
+ */
+async function getBookPositions(
+  userId: number,
+  brokerType: string,
+  sandbox: boolean
+): Promise<Array<{ symbol: string; quantity: number }>> {
+  const result = await db.getPool().query(
+    `SELECT t.symbol, SUM(CASE WHEN t.side = 'buy' THEN t.quantity ELSE -t.quantity END) AS quantity
+     FROM trades t
+     JOIN orders o ON o.id = t.order_id
+     LEFT JOIN sandbox_accounts sa ON sa.user_id = t.user_id
+     WHERE t.user_id = $1 AND o.sandbox = $2 AND (o.sandbox OR o.broker_type = $3)
+       AND (o.sandbox = false OR sa.reset_at IS NULL OR t.executed_at >= sa.reset_at)
+     GROUP BY t.symbol`,
+    [userId, sandbox, brokerType]
+  );
+
+  return result.rows.map((row) => ({ symbol: row.symbol, quantity: parseFloat(row.quantity) }));
+}
+
+/**
+ * Working orders, and orders whose trades add up to less than their filled quantity
+ */
+async function getReconciledOrders(userId: number, brokerType: string, sandbox: boolean): Promise<BookOrder[]> {
+  const result = await db.getPool().query(
+    `SELECT o.order_id, o.broker_order_id, o.symbol, o.status, o.filled_quantity, o.average_price,
+       COALESCE(SUM(t.quantity), 0) AS traded_quantity,
+       COALESCE(SUM(t.quantity * t.price), 0) AS traded_value
+     FROM orders o
+     LEFT JOIN trades t ON t.order_id = o.id
+     WHERE o.user_id = $1 AND o.sandbox = $2 AND (o.sandbox OR o.broker_type = $3)
+     GROUP BY o.id
+     HAVING o.status = ANY($4) OR COALESCE(o.filled_quantity, 0) > COALESCE(SUM(t.quantity), 0)`,
+    [userId, sandbox, brokerType, WORKING_STATUSES]
+  );
+
+  return result.rows.map((row) => ({
+    orderId: row.order_id,
+    brokerOrderId: row.broker_order_id,
+    symbol: row.symbol,
+    status: row.status,
+    filledQuantity: parseFloat(row.filled_quantity || '0'),
+    averagePrice: row.average_price ? parseFloat(row.average_price) : null,
+    tradedQuantity: parseFloat(row.traded_quantity),
+    tradedValue: parseFloat(row.traded_value),
+  }));
+}
+
+function formatRun(row: any): ReconciliationRun {
+  return {
+    id: row.id,
+    brokerType: row.broker_type,
+    sandbox: row.sandbox,
+    autoRepair: row.auto_repair,
+    status: row.status,
+    breakCount: row.break_count,
+    repairedCount: row.repaired_count,
+    startedAt: row.started_at,
+    completedAt: row.completed_at,
+  };
+}
+
+function formatFinding(row: any): ReconciliationFinding {
+  return {
+    id: row.id,
+    type: row.type,
+    symbol: row.symbol,
+    orderId: row.order_id,
+    brokerOrderId: row.broker_order_id,
+    expected: row.expected === null ? null : parseFloat(row.expected),
+    actual: row.actual === null ? null : parseFloat(row.actual),
+    message: row.message,
+    repairable: row.repairable,
+    repaired: row.repaired,
+    repairError: row.repair_error,
+  };
+}
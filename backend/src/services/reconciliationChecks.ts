@@ -0,0 +1,208 @@
+import { BrokerOrder, OrderFill, OrderResponse } from '../brokers/base';
+import { canTransition, OrderStatus, TERMINAL_STATUSES } from './orderStateMachine';
+
+/**
+ * missing_fill: the broker filled more of an order than we have trades for;
+ * quantity_mismatch: the broker holds a different quantity than our trades add up to;
+ * unknown_order: the broker has a working order we never recorded;
+ * stale_order: an order still working here is finished at, or unknown to, the broker
+ */
+export type BreakType = 'missing_fill' | 'quantity_mismatch' | 'unknown_order' | 'stale_order';
+
+/** Quantities closer than this are treated as equal */
+const QUANTITY_TOLERANCE = 1e-8;
+
+export interface BookOrder {
+  orderId: string;
+  brokerOrderId: string | null;
+  symbol: string;
+  status: OrderStatus;
+  filledQuantity: number;
+  averagePrice: number | null;
+  /** Quantity and value of the trades recorded for the order */
+  tradedQuantity: number;
+  tradedValue: number;
+}
+
+export interface ReconciliationInput {
+  brokerPositions: Array<{ symbol: string; quantity: number }>;
+  bookPositions: Array<{ symbol: string; quantity: number }>;
+  /** Our working orders and orders with fewer traded than filled units */
+  orders: BookOrder[];
+  /** The broker's view of our working orders by broker order ID; null when the broker does not know one */
+  brokerStatuses: Map<string, OrderResponse | null>;
+  openOrders: BrokerOrder[];
+  /** Broker order IDs of every order we recorded, working or not */
+  knownBrokerOrderIds: Set<string>;
+}
+
+export interface ReconciliationBreak {
+  type: BreakType;
+  symbol: string;
+  orderId: string | null;
+  brokerOrderId: string | null;
+  /** The broker's quantity */
+  expected: number | null;
+  /** Our recorded quantity */
+  actual: number | null;
+  message: string;
+  /** Broker state to record for an automatic repair; null when a person has to look */
+  repair: OrderResponse | null;
+}
+
+/**
+ * Compare the broker's positions and orders with our records. Missing fills
+ * and stale orders can be repaired by recording what the broker reports;
+ * quantity mismatches and unknown orders cannot.
+ */
+export function findBreaks(input: ReconciliationInput, now: Date = new Date()): ReconciliationBreak[] {
+  const breaks: ReconciliationBreak[] = [];
+
+  for (const order of input.orders) {
+    const brokerStatus = order.brokerOrderId ? input.brokerStatuses.get(order.brokerOrderId) : undefined;
+    const base = { symbol: order.symbol, orderId: order.orderId, brokerOrderId: order.brokerOrderId };
+
+    if (brokerStatus === null) {
+      breaks.push({
+        ...base,
+        type: 'stale_order',
+        expected: null,
+        actual: null,
+        message: `Order is ${order.status} here but the broker does not know it`,
+        repair: null,
+      });
+      continue;
+    }
+
+    const filled = Math.max(order.filledQuantity, brokerStatus?.filledQuantity ?? 0);
+    if (filled - order.tradedQuantity > QUANTITY_TOLERANCE) {
+      breaks.push({
+        ...base,
+        type: 'missing_fill',
+        expected: filled,
+        actual: order.tradedQuantity,
+        message: `${filled} filled but trades recorded for ${order.tradedQuantity}`,
+        repair: order.brokerOrderId ? missingFillRepair(order, brokerStatus, filled, now) : null,
+      });
+      continue;
+    }
+
+    if (
+      brokerStatus &&
+      brokerStatus.status !== order.status &&
+      TERMINAL_STATUSES.includes(brokerStatus.status) &&
+      !TERMINAL_STATUSES.includes(order.status)
+    ) {
+      breaks.push({
+        ...base,
+        type: 'stale_order',
+        expected: null,
+        actual: null,
+        message: `Order is ${order.status} here but ${brokerStatus.status} at the broker`,
+        repair: canTransition(order.status, brokerStatus.status) ? { ...brokerStatus, fills: [] } : null,
+      });
+    }
+  }
+
+  for (const order of input.openOrders) {
+    const brokerOrderId = order.brokerOrderId ?? order.orderId;
+    if (!input.knownBrokerOrderIds.has(brokerOrderId)) {
+      breaks.push({
+        type: 'unknown_order',
+        symbol: order.symbol,
+        orderId: null,
+        brokerOrderId,
+        expected: order.quantity,
+        actual: null,
+        message: `Broker has a working ${order.side} order for ${order.quantity} ${order.symbol} that we never recorded`,
+        repair: null,
+      });
+    }
+  }
+
+  const held = sumBySymbol(input.brokerPositions);
+  const booked = sumBySymbol(input.bookPositions);
+  for (const symbol of new Set([...held.keys(), ...booked.keys()])) {
+    const expected = held.get(symbol) ?? 0;
+    const actual = booked.get(symbol) ?? 0;
+    if (Math.abs(expected - actual) > QUANTITY_TOLERANCE) {
+      breaks.push({
+        type: 'quantity_mismatch',
+        symbol,
+        orderId: null,
+        brokerOrderId: null,
+        expected,
+        actual,
+        message: `Broker holds ${expected} ${symbol} but our trades add up to ${actual}`,
+        repair: null,
+      });
+    }
+  }
+
+  return breaks;
+}
+
+/**
+ * The broker's fills when it reports them, otherwise one fill for the missing
+ * quantity priced so the order's trades average to its fill price. Null when
+ * no fill price is known.
+ */
+function missingFillRepair(
+  order: BookOrder,
+  brokerStatus: OrderResponse | undefined,
+  filled: number,
+  now: Date
+): OrderResponse | null {
+  const status = brokerStatus && canTransition(order.status, brokerStatus.status) ? brokerStatus.status : order.status;
+  const averagePrice = brokerStatus?.averagePrice || order.averagePrice;
+  const execution = {
+    orderId: order.orderId,
+    brokerOrderId: order.brokerOrderId ?? undefined,
+    status,
+    filledQuantity: filled,
+    averagePrice: averagePrice ?? undefined,
+  };
+
+  if (brokerStatus?.fills?.length) {
+    return { ...execution, fills: brokerStatus.fills };
+  }
+  if (!averagePrice) return null;
+
+  const fill = catchUpFill(
+    `reconcile-${order.brokerOrderId}-${filled}`,
+    filled,
+    averagePrice,
+    { quantity: order.tradedQuantity, value: order.tradedValue },
+    now
+  );
+  return { ...execution, fills: [fill] };
+}
+
+/**
+ * One fill for the units a broker reports filled beyond the recorded trades,
+ * priced so all the trades average to the broker's average price. Keying the
+ * trade ID by the filled quantity makes a repeated catch-up a no-op.
+ */
+export function catchUpFill(
+  tradeId: string,
+  filled: number,
+  averagePrice: number,
+  traded: { quantity: number; value: number },
+  now: Date
+): OrderFill {
+  const quantity = filled - traded.quantity;
+  return {
+    tradeId,
+    quantity,
+    price: (filled * averagePrice - traded.value) / quantity,
+    timestamp: now,
+  };
+}
+
+function sumBySymbol(positions: Array<{ symbol: string; quantity: number }>): Map<string, number> {
+  const totals = new Map<string, number>();
+  for (const position of positions) {
+    totals.set(position.symbol, (totals.get(position.symbol) ?? 0) + position.quantity);
+  }
+  return totals;
+}
@@ -0,0 +1,262 @@
+import { Candle, MarketQuote } from '../brokers/base';
+import { candlePath } from './backtestEngine';
+
+/** Multiple of real time, as fast as possible, or only on request */
+export type ReplaySpeed = number | 'max' | 'step';
+
+export type ReplayStatus = 'playing' | 'paused' | 'finished' | 'stopped';
+
+export interface ReplayState {
+  status: ReplayStatus;
+  speed: ReplaySpeed;
+  symbols: string[];
+  from: Date | null;
+  to: Date | null;
+  /** Time of the last tick sent */
+  currentTime: Date | null;
+  position: number;
+  total: number;
+}
+
+export interface ReplayOptions {
+  speed: ReplaySpeed;
+  /** Called after every play, pause, seek, speed change and when the replay ends */
+  onStateChange?: (state: ReplayState) => void;
+}
+
+/** Ticks sent per event loop turn at max speed */
+const MAX_SPEED_BATCH = 500;
+
+/**
+ * Ticks along each candle's path (see candlePath), spread evenly over its
+ * interval. Volume is cumulative per symbol from the first candle, as live feeds report it.
+ */
+export function candleTicks(candles: Candle[], intervalMs: number, spreadBps: number): MarketQuote[] {
+  const volumes = new Map<string, number>();
+  const ticks: MarketQuote[] = [];
+
+  for (const candle of candles) {
+    const path = candlePath(candle);
+    const volume = volumes.get(candle.symbol) ?? 0;
+    volumes.set(candle.symbol, volume + candle.volume);
+
+    path.forEach((price, step) => {
+      const offset = (price * spreadBps) / 10000;
+      ticks.push({
+        symbol: candle.symbol,
+        bid: price - offset,
+        ask: price + offset,
+        last: price,
+        volume: volume + (candle.volume * (step + 1)) / path.length,
+        timestamp: new Date(candle.timestamp.getTime() + (intervalMs * step) / path.length),
+      });
+    });
+  }
+
+  return ticks.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
+
+/**
+ * Plays recorded ticks in time order. At a numeric speed the gaps between
+ * ticks are kept, divided by the speed; `max` sends them without waiting and
+ * `step` only on step(). Timing is anchored to the wall clock so it does not
+ * drift over a long session.
+ */
+export class MarketReplay {
+  private position = 0;
+  private status: ReplayStatus = 'paused';
+  private speed: ReplaySpeed;
+  private timer: NodeJS.Timeout | null = null;
+  private immediate: NodeJS.Immediate | null = null;
+  private anchor: { wall: number; replay: number } | null = null;
+  private currentTime: Date | null = null;
+
+  constructor(
+    private ticks: MarketQuote[],
+    private emit: (quote: MarketQuote) => void,
+    private options: ReplayOptions
+  ) {
+    this.speed = options.speed;
+  }
+
+  getState(): ReplayState {
+    const symbols = [...new Set(this.ticks.map((tick) => tick.symbol))];
+    return {
+      status: this.status,
+      speed: this.speed,
+      symbols,
+      from: this.ticks[0]?.timestamp ?? null,
+      to: this.ticks[this.ticks.length - 1]?.timestamp ?? null,
+      currentTime: this.currentTime,
+      position: this.position,
+      total: this.ticks.length,
+    };
+  }
+
+  play() {
+    if (this.status === 'stopped') return;
+    if (this.position >= this.ticks.length) {
+      this.finish();
+      return;
+    }
+    this.status = 'playing';
+    this.schedule();
+    this.changed();
+  }
+
+  pause() {
+    if (this.status !== 'playing') return;
+    this.status = 'paused';
+    this.cancel();
+    this.changed();
+  }
+
+  /**
+   * Send the next `count` ticks and pause; returns how many were sent
+   */
+  step(count = 1): number {
+    if (this.status === 'stopped') return 0;
+    this.cancel();
+    this.status = 'paused';
+
+    const end = Math.min(this.position + count, this.ticks.length);
+    const sent = end - this.position;
+    while (this.position < end) {
+      this.send(this.ticks[this.position++]);
+    }
+
+    if (this.position >= this.ticks.length) {
+      this.finish();
+    } else {
+      this.changed();
+    }
+    return sent;
+  }
+
+  /**
+   * Move to the first tick at or after `time`. The last tick of each symbol
+   * before it is sent, so quotes show the market as it was at that time.
+   */
+  seek(time: Date) {
+    if (this.status === 'stopped') return;
+    this.cancel();
+
+    const target = time.getTime();
+    let index = this.ticks.findIndex((tick) => tick.timestamp.getTime() >= target);
+    if (index === -1) index = this.ticks.length;
+
+    const latest = new Map<string, MarketQuote>();
+    for (let i = 0; i < index; i++) {
+      latest.set(this.ticks[i].symbol, this.ticks[i]);
+    }
+    [...latest.values()]
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+      .forEach((tick) => this.send(tick));
+
+    this.position = index;
+    this.currentTime = new Date(Math.min(target, this.ticks[this.ticks.length - 1]?.timestamp.getTime() ?? target));
+
+    if (this.position >= this.ticks.length) {
+      this.finish();
+      return;
+    }
+    if (this.status === 'finished') {
+      this.status = 'paused';
+    }
+    if (this.status === 'playing') {
+      this.schedule();
+    }
+    this.changed();
+  }
+
+  setSpeed(speed: ReplaySpeed) {
+    if (this.status === 'stopped') return;
+    this.speed = speed;
+    if (this.status === 'playing') {
+      this.cancel();
+      this.schedule();
+    }
+    this.changed();
+  }
+
+  stop() {
+    if (this.status === 'stopped') return;
+    this.cancel();
+    this.status = 'stopped';
+    this.changed();
+  }
+
+  private schedule() {
+    if (this.speed === 'step') {
+      // Playing at step speed waits for step()
+      return;
+    }
+    if (this.speed === 'max') {
+      this.immediate = setImmediate(() => this.runBatch());
+      return;
+    }
+
+    const next = this.ticks[this.position].timestamp.getTime();
+    if (!this.anchor) {
+      this.anchor = { wall: Date.now(), replay: this.currentTime?.getTime() ?? next };
+    }
+    const due = this.anchor.wall + (next - this.anchor.replay) / this.speed;
+    this.timer = setTimeout(() => this.runDue(), Math.max(0, due - Date.now()));
+  }
+
+  /**
+   * Send every tick that is due by now at the current speed
+   */
+  private runDue() {
+    this.timer = null;
+    const speed = this.speed as number;
+    const anchor = this.anchor!;
+    const replayNow = anchor.replay + (Date.now() - anchor.wall) * speed;
+
+    while (this.position < this.ticks.length && this.ticks[this.position].timestamp.getTime() <= replayNow) {
+      this.send(this.ticks[this.position++]);
+    }
+    this.continue();
+  }
+
+  private runBatch() {
+    this.immediate = null;
+    const end = Math.min(this.position + MAX_SPEED_BATCH, this.ticks.length);
+    while (this.position < end) {
+      this.send(this.ticks[this.position++]);
+    }
+    this.continue();
+  }
+
+  private continue() {
+    if (this.position >= this.ticks.length) {
+      this.finish();
+    } else if (this.status === 'playing') {
+      this.schedule();
+    }
+  }
+
+  private send(tick: MarketQuote) {
+    this.currentTime = tick.timestamp;
+    // Copies, since the market may adjust quotes in place
+    this.emit({ ...tick });
+  }
+
+  private finish() {
+    this.cancel();
+    this.status = 'finished';
+    this.changed();
+  }
+
+  private cancel() {
+    if (this.timer) clearTimeout(this.timer);
+    if (this.immediate) clearImmediate(this.immediate);
+    this.timer = null;
+    this.immediate = null;
+    this.anchor = null;
+  }
+
+  private changed() {
+    this.options.onStateChange?.(this.getState());
+  }
+}
@@ -0,0 +1,256 @@
+import { Broker, MarketQuote, OrderRequest } from '../brokers/base';
+import { db } from '../db';
+import { AppError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import {
+  DEFAULT_RISK_LIMITS,
+  evaluateOrderRisk,
+  realizedPnlSince,
+  RiskLimits,
+  RiskViolation,
+} from './riskRules';
+
+const OPEN_STATUSES = ['pending', 'open', 'partially_filled', 'held'];
+
+export interface RiskCheckTarget {
+  /** Reference stored with the audit entry; the public order ID for single orders */
+  orderId: string;
+  broker: Broker;
+  sandbox: boolean;
+  /** Working order being amended; its own open slot and fills are not counted twice */
+  amends?: { id: number; filledQuantity: number };
+}
+
+export interface RiskAuditEntry {
+  id: number;
+  orderId: string;
+  symbol: string;
+  side: string;
+  quantity: number;
+  price: number | null;
+  sandbox: boolean;
+  decision: 'approved' | 'rejected';
+  code: string | null;
+  reason: string | null;
+  details: Record<string, unknown> | null;
+  createdAt: Date;
+}
+
+/**
+ * The user's pre-trade limits, or the defaults when none were saved
+ */
+export async function getRiskLimits(userId: number): Promise<RiskLimits> {
+  const result = await db.getPool().query('SELECT * FROM risk_limits WHERE user_id = $1', [userId]);
+  return result.rows[0] ? formatRiskLimits(result.rows[0]) : { ...DEFAULT_RISK_LIMITS };
+}
+
+/**
+ * Change some of the user's limits; omitted fields keep their value and null removes a limit
+ */
+export async function updateRiskLimits(userId: number, changes: Partial<RiskLimits>): Promise<RiskLimits> {
+  const limits = { ...(await getRiskLimits(userId)), ...changes };
+  const restrictedSymbols = [...new Set(limits.restrictedSymbols.map((symbol) => symbol.toUpperCase()))];
+
+  const result = await db.getPool().query(
+    `INSERT INTO risk_limits (
+      user_id, max_order_notional, max_position_notional, max_open_orders,
+      daily_loss_limit, price_band_percent, restricted_symbols
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+    ON CONFLICT (user_id)
+    DO UPDATE SET
+      max_order_notional = EXCLUDED.max_order_notional,
+      max_position_notional = EXCLUDED.max_position_notional,
+      max_open_orders = EXCLUDED.max_open_orders,
+      daily_loss_limit = EXCLUDED.daily_loss_limit,
+      price_band_percent = EXCLUDED.price_band_percent,
+      restricted_symbols = EXCLUDED.restricted_symbols,
+      updated_at = CURRENT_TIMESTAMP
+    RETURNING *`,
+    [
+      userId,
+      limits.maxOrderNotional,
+      limits.maxPositionNotional,
+      limits.maxOpenOrders,
+      limits.dailyLossLimit,
+      limits.priceBandPercent,
+      restrictedSymbols,
+    ]
+  );
+
+  logger.info({ userId, limits: changes }, 'Risk limits updated');
+  return formatRiskLimits(result.rows[0]);
+}
+
+/**
+ * Run the pre-trade checks for an order before it reaches the broker. Every
+ * decision is written to the risk audit log; a violation is thrown as a 422
+ * AppError carrying the check's code.
+ */
+export async function checkOrderRisk(userId: number, order: OrderRequest, target: RiskCheckTarget): Promise<void> {
+  const limits = await getRiskLimits(userId);
+  // Filled units of an amended order are already in the position, so only the rest is checked
+  if (target.amends) {
+    order = { ...order, quantity: order.quantity - target.amends.filledQuantity };
+  }
+
+  let quote: MarketQuote;
+  try {
+    quote = await target.broker.getQuote(order.symbol);
+  } catch (error: any) {
+    // Without a price the bands and notional limits cannot be checked, so the order is refused
+    const violation = { code: 'RISK_QUOTE_UNAVAILABLE', message: `No quote for ${order.symbol}: ${error.message}` };
+    await recordDecision(userId, order, target, violation, null);
+    throw new AppError(503, violation.code, violation.message);
+  }
+
+  const [positions, openOrders, realizedPnlToday] = await Promise.all([
+    target.broker.getPositions(),
+    countOpenOrders(userId, target.sandbox, target.amends?.id),
+    getRealizedPnlToday(userId, target.sandbox),
+  ]);
+  const position = positions.find((candidate) => candidate.symbol === order.symbol);
+
+  const assessment = evaluateOrderRisk(order, limits, {
+    quote,
+    positionQuantity: position?.quantity ?? 0,
+    openOrders,
+    realizedPnlToday,
+  });
+
+  await recordDecision(userId, order, target, assessment.violation, {
+    last: quote.last,
+    bid: quote.bid,
+    ask: quote.ask,
+    notional: assessment.notional,
+    positionQuantity: position?.quantity ?? 0,
+    resultingPosition: assessment.resultingPosition,
+    openOrders,
+    realizedPnlToday,
+  });
+
+  if (assessment.violation) {
+    throw new AppError(422, assessment.violation.code, assessment.violation.message);
+  }
+}
+
+/**
+ * Most recent pre-trade decisions of a user, newest first
+ */
+export async function getRiskAuditLog(userId: number, limit: number, offset: number): Promise<RiskAuditEntry[]> {
+  const result = await db.getPool().query(
+    `SELECT * FROM risk_audit_log
+     WHERE user_id = $1
+     ORDER BY created_at DESC, id DESC
+     LIMIT $2 OFFSET $3`,
+    [userId, limit, offset]
+  );
+  return result.rows.map(formatAuditEntry);
+}
+
+async function recordDecision(
+  userId: number,
+  order: OrderRequest,
+  target: RiskCheckTarget,
+  violation: RiskViolation | null,
+  details: Record<string, unknown> | null
+) {
+  const decision = violation ? 'rejected' : 'approved';
+  const log = { userId, orderId: target.orderId, symbol: order.symbol, decision, code: violation?.code };
+  if (violation) {
+    logger.warn({ ...log, reason: violation.message }, 'Order rejected by pre-trade risk check');
+  } else {
+    logger.info(log, 'Order passed pre-trade risk checks');
+  }
+
+  await db.getPool().query(
+    `INSERT INTO risk_audit_log (
+      user_id, order_id, symbol, side, quantity, price, sandbox, decision, code, reason, details
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
+    [
+      userId,
+      target.orderId,
+      order.symbol,
+      order.side,
+      order.quantity,
+      order.price ?? order.stopPrice ?? null,
+      target.sandbox,
+      decision,
+      violation?.code ?? null,
+      violation?.message ?? null,
+      details ? JSON.stringify(details) : null,
+    ]
+  );
+}
+
+async function countOpenOrders(userId: number, sandbox: boolean, excludeId?: number): Promise<number> {
+  const result = await db.getPool().query(
+    `SELECT COUNT(*) FROM orders
+     WHERE user_id = $1 AND sandbox = $2 AND status = ANY($3) AND id IS DISTINCT FROM $4`,
+    [userId, sandbox, OPEN_STATUSES, excludeId ?? null]
+  );
+  return parseInt(result.rows[0].count, 10);
+}
+
+/**
+ * Realized P&L since midnight UTC. Symbols traded today are replayed from their
+ * first trade so closing fills are measured against the average cost.
+ */
+async function getRealizedPnlToday(userId: number, sandbox: boolean): Promise<number> {
+  const since = new Date();
+  since.setUTCHours(0, 0, 0, 0);
+
+  const result = await db.getPool().query(
+    `SELECT t.symbol, t.side, t.quantity, t.price, t.fee, t.executed_at
+     FROM trades t
+     JOIN orders o ON o.id = t.order_id
+     WHERE t.user_id = $1 AND o.sandbox = $2
+       AND t.symbol IN (
+         SELECT t2.symbol FROM trades t2
+         JOIN orders o2 ON o2.id = t2.order_id
+         WHERE t2.user_id = $1 AND o2.sandbox = $2 AND t2.executed_at >= $3
+       )
+     ORDER BY t.executed_at, t.id`,
+    [userId, sandbox, since]
+  );
+
+  return realizedPnlSince(
+    result.rows.map((row) => ({
+      symbol: row.symbol,
+      side: row.side,
+      quantity: parseFloat(row.quantity),
+      price: parseFloat(row.price),
+      fee: parseFloat(row.fee || '0'),
+      executedAt: new Date(row.executed_at),
+    })),
+    since
+  );
+}
+
+function formatRiskLimits(row: any): RiskLimits {
+  const toNumber = (value: string | number | null) => (value === null ? null : Number(value));
+  return {
+    maxOrderNotional: toNumber(row.max_order_notional),
+    maxPositionNotional: toNumber(row.max_position_notional),
+    maxOpenOrders: row.max_open_orders,
+    dailyLossLimit: toNumber(row.daily_loss_limit),
+    priceBandPercent: toNumber(row.price_band_percent),
+    restrictedSymbols: row.restricted_symbols ?? [],
+  };
+}
+
+function formatAuditEntry(row: any): RiskAuditEntry {
+  return {
+    id: row.id,
+    orderId: row.order_id,
+    symbol: row.symbol,
+    side: row.side,
+    quantity: parseFloat(row.quantity),
+    price: row.price ? parseFloat(row.price) : null,
+    sandbox: row.sandbox,
+    decision: row.decision,
+    code: row.code,
+    reason: row.reason,
+    details: row.details,
+    createdAt: row.created_at,
+  };
+}
@@ -0,0 +1,156 @@
+import { MarketQuote, OrderRequest } from '../brokers/base';
+
+/** Per-user pre-trade limits; null disables a limit */
+export interface RiskLimits {
+  maxOrderNotional: number | null;
+  /** Largest absolute position value per symbol after the order fills */
+  maxPositionNotional: number | null;
+  /** Working and held orders */
+  maxOpenOrders: number | null;
+  /** Realized loss since midnight UTC, net of fees, after which exposure may only be reduced */
+  dailyLossLimit: number | null;
+  /** Furthest a limit or stop price may be from the last price, in percent */
+  priceBandPercent: number | null;
+  restrictedSymbols: string[];
+}
+
+export const DEFAULT_RISK_LIMITS: RiskLimits = {
+  maxOrderNotional: null,
+  maxPositionNotional: null,
+  maxOpenOrders: 200,
+  dailyLossLimit: null,
+  priceBandPercent: 10,
+  restrictedSymbols: [],
+};
+
+export interface RiskContext {
+  quote: MarketQuote;
+  /** Signed quantity currently held in the order's symbol */
+  positionQuantity: number;
+  openOrders: number;
+  realizedPnlToday: number;
+}
+
+export interface RiskViolation {
+  code: string;
+  message: string;
+}
+
+export interface RiskAssessment {
+  violation: RiskViolation | null;
+  notional: number;
+  resultingPosition: number;
+}
+
+export interface TradeRecord {
+  symbol: string;
+  side: 'buy' | 'sell';
+  quantity: number;
+  price: number;
+  fee: number;
+  executedAt: Date;
+}
+
+/**
+ * Run the pre-trade checks in a fixed order and report the first violation
+ */
+export function evaluateOrderRisk(order: OrderRequest, limits: RiskLimits, context: RiskContext): RiskAssessment {
+  const { quote } = context;
+  const referencePrice = order.price ?? order.stopPrice ?? (order.side === 'buy' ? quote.ask : quote.bid);
+  const notional = order.quantity * referencePrice;
+  const current = context.positionQuantity;
+  const resultingPosition = current + (order.side === 'buy' ? order.quantity : -order.quantity);
+  const increasesExposure = Math.abs(resultingPosition) > Math.abs(current);
+
+  const assess = (violation: RiskViolation | null): RiskAssessment => ({ violation, notional, resultingPosition });
+
+  const restricted = limits.restrictedSymbols.map((symbol) => symbol.toUpperCase());
+  if (restricted.includes(order.symbol.toUpperCase())) {
+    return assess({ code: 'RISK_RESTRICTED_SYMBOL', message: `${order.symbol} is on the restricted list` });
+  }
+
+  if (limits.priceBandPercent !== null && quote.last > 0) {
+    for (const price of [order.price, order.stopPrice]) {
+      if (price === undefined) continue;
+      const deviation = (Math.abs(price - quote.last) / quote.last) * 100;
+      if (deviation > limits.priceBandPercent) {
+        return assess({
+          code: 'RISK_PRICE_BAND',
+          message: `Price ${price} is ${deviation.toFixed(2)}% from the last price ${quote.last}; the band is ${limits.priceBandPercent}%`,
+        });
+      }
+    }
+  }
+
+  if (limits.maxOrderNotional !== null && notional > limits.maxOrderNotional) {
+    return assess({
+      code: 'RISK_MAX_ORDER_NOTIONAL',
+      message: `Order notional ${notional.toFixed(2)} exceeds the limit of ${limits.maxOrderNotional}`,
+    });
+  }
+
+  if (
+    limits.maxPositionNotional !== null &&
+    increasesExposure &&
+    Math.abs(resultingPosition) * referencePrice > limits.maxPositionNotional
+  ) {
+    return assess({
+      code: 'RISK_MAX_POSITION',
+      message: `Resulting ${order.symbol} position of ${resultingPosition} exceeds the limit of ${limits.maxPositionNotional}`,
+    });
+  }
+
+  if (limits.maxOpenOrders !== null && context.openOrders >= limits.maxOpenOrders) {
+    return assess({
+      code: 'RISK_MAX_OPEN_ORDERS',
+      message: `${context.openOrders} orders are already open; the limit is ${limits.maxOpenOrders}`,
+    });
+  }
+
+  if (limits.dailyLossLimit !== null && increasesExposure && -context.realizedPnlToday >= limits.dailyLossLimit) {
+    return assess({
+      code: 'RISK_DAILY_LOSS_LIMIT',
+      message: `Daily loss of ${(-context.realizedPnlToday).toFixed(2)} reached the limit of ${limits.dailyLossLimit}; only reducing orders are allowed`,
+    });
+  }
+
+  return assess(null);
+}
+
+/**
+ * Realized P&L of trades executed since a point in time, net of their fees.
+ * Trades must be in execution order and include earlier trades of the same
+ * symbols, which set the average cost.
+ */
+export function realizedPnlSince(trades: TradeRecord[], since: Date): number {
+  const books = new Map<string, { quantity: number; averagePrice: number }>();
+  let realized = 0;
+
+  for (const trade of trades) {
+    const book = books.get(trade.symbol) ?? { quantity: 0, averagePrice: 0 };
+    const signed = trade.side === 'buy' ? trade.quantity : -trade.quantity;
+    const counted = trade.executedAt >= since;
+
+    if (book.quantity !== 0 && Math.sign(signed) !== Math.sign(book.quantity)) {
+      // Closing (part of) the position realizes P&L against the average cost
+      const closed = Math.min(Math.abs(signed), Math.abs(book.quantity));
+      if (counted) {
+        realized += closed * (trade.price - book.averagePrice) * Math.sign(book.quantity);
+      }
+      const remaining = book.quantity + signed;
+      book.averagePrice = Math.sign(remaining) === Math.sign(book.quantity) ? book.averagePrice : trade.price;
+      book.quantity = remaining;
+    } else {
+      const quantity = book.quantity + signed;
+      book.averagePrice = (book.averagePrice * Math.abs(book.quantity) + trade.price * trade.quantity) / Math.abs(quantity);
+      book.quantity = quantity;
+    }
+
+    if (counted) {
+      realized -= trade.fee;
+    }
+    books.set(trade.symbol, book);
+  }
+
+  return realized;
+}
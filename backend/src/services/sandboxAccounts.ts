@@ -0,0 +1,358 @@
+import { OrderResponse } from '../brokers/base';
+import { SandboxBroker, SandboxCosts } from '../brokers/sandbox';
+import { createCommissionModel, createSlippageModel } from '../brokers/costModels';
+import { sandboxMarket } from '../brokers/factory';
+import { config } from '../config';
+import { db } from '../db';
+import { logger } from '../utils/logger';
+import { recordExecution } from './executions';
+import { assertSufficientCash, CashMovement, getLedgerBalances, hasLedgerEntries, LedgerEntry, postEntry } from './ledger';
+import { cashChange, cashMovementPostings, openingPostings, resetPostings } from './ledgerPostings';
+import { toOrderRequest } from './orders';
+
+export interface SandboxAccount {
+  id: number;
+  userId: number;
+  startingCash: number;
+  broker: SandboxBroker;
+  /** Serializes persistence of fills so account rows are written in fill order */
+  writes: Promise<void>;
+}
+
+// Held bracket exits are restored too so they activate when their entry fills
+const WORKING_STATUSES = ['pending', 'open', 'partially_filled', 'held'];
+
+/** How often loaded accounts are checked for expired day/gtd orders */
+const EXPIRY_SWEEP_INTERVAL_MS = 60 * 1000;
+
+const accounts: Map<number, Promise<SandboxAccount>> = new Map();
+let expirySweep: NodeJS.Timeout | null = null;
+
+/**
+ * Get the user's paper trading account, creating it with the configured
+ * starting cash on first use and restoring it from the database after a restart
+ */
+export function getSandboxAccount(userId: number): Promise<SandboxAccount> {
+  let account = accounts.get(userId);
+  if (!account) {
+    startExpirySweep();
+    account = loadSandboxAccount(userId);
+    accounts.set(userId, account);
+    // Allow a retry if loading failed
+    account.catch(() => accounts.delete(userId));
+  }
+  return account;
+}
+
+async function loadSandboxAccount(userId: number): Promise<SandboxAccount> {
+  const pool = db.getPool();
+
+  await pool.query(
+    `INSERT INTO sandbox_accounts (user_id, starting_cash, cash)
+     VALUES ($1, $2, $2)
+     ON CONFLICT (user_id) DO NOTHING`,
+    [userId, config.SANDBOX_STARTING_CASH]
+  );
+
+  const accountResult = await pool.query('SELECT * FROM sandbox_accounts WHERE user_id = $1', [userId]);
+  const row = accountResult.rows[0];
+
+  const positionsResult = await pool.query(
+    'SELECT symbol, quantity, average_price FROM sandbox_positions WHERE account_id = $1',
+    [row.id]
+  );
+
+  const ordersResult = await pool.query(
+    `SELECT o.*, entry.broker_order_id AS entry_broker_order_id
+     FROM orders o
+     LEFT JOIN orders entry
+       ON entry.group_id = o.group_id AND entry.group_role = 'entry' AND o.group_role IN ('take_profit', 'stop_loss')
+     WHERE o.user_id = $1 AND o.sandbox = true AND o.broker_order_id IS NOT NULL AND o.status = ANY($2)
+     ORDER BY o.created_at, o.id`,
+    [userId, WORKING_STATUSES]
+  );
+
+  // Accounts opened before the cash ledger start it from their current state
+  if (!(await hasLedgerEntries(pool, userId, 'sandbox'))) {
+    const securities = positionsResult.rows.reduce(
+      (sum, position) => sum + parseFloat(position.quantity) * parseFloat(position.average_price),
+      0
+    );
+    await postEntry(pool, userId, 'sandbox', {
+      type: 'opening_balance',
+      description: 'Paper account opening balance',
+      postings: openingPostings(parseFloat(row.cash), securities),
+    });
+  }
+
+  const broker = new SandboxBroker({ market: sandboxMarket, startingCash: parseFloat(row.cash) });
+  broker.restore(
+    {
+      cash: parseFloat(row.cash),
+      positions: positionsResult.rows.map((position) => ({
+        symbol: position.symbol,
+        quantity: parseFloat(position.quantity),
+        averagePrice: parseFloat(position.average_price),
+      })),
+      orders: ordersResult.rows.map((order) => ({
+        orderId: order.broker_order_id,
+        request: toOrderRequest(order),
+        status: order.status,
+        filledQuantity: parseFloat(order.filled_quantity || '0'),
+        averagePrice: order.average_price ? parseFloat(order.average_price) : undefined,
+        createdAt: order.created_at,
+        group: order.group_id
+          ? {
+              id: order.group_id,
+              role: order.group_role,
+              parentId: order.entry_broker_order_id || undefined,
+            }
+          : undefined,
+      })),
+    },
+    await getSandboxCosts(userId)
+  );
+
+  const account: SandboxAccount = {
+    id: row.id,
+    userId,
+    startingCash: parseFloat(row.starting_cash),
+    broker,
+    writes: Promise.resolve(),
+  };
+  watchAccount(account);
+
+  logger.info(
+    { userId, accountId: account.id, restoredOrders: ordersResult.rows.length },
+    'Sandbox account loaded'
+  );
+
+  return account;
+}
+
+/**
+ * Persist fills that the engine produces, including those triggered later by market data ticks
+ */
+function watchAccount(account: SandboxAccount) {
+  account.broker.onExecution((execution, fill) => {
+    account.writes = account.writes
+      .then(() => persistExecution(account, execution))
+      .catch((error) => {
+        logger.error(
+          { error, userId: account.userId, orderId: execution.orderId, tradeId: fill.tradeId },
+          'Failed to record sandbox execution'
+        );
+      });
+  });
+
+  // Expiry and IOC/FOK cancellations change status without a fill
+  account.broker.onOrderUpdate((update) => {
+    account.writes = account.writes
+      .then(async () => {
+        await recordExecution(update.orderId, update, true, 'sandbox');
+      })
+      .catch((error) => {
+        logger.error(
+          { error, userId: account.userId, orderId: update.orderId },
+          'Failed to record sandbox order update'
+        );
+      });
+  });
+}
+
+/**
+ * Expire day/gtd orders on symbols that are not ticking
+ */
+function startExpirySweep() {
+  if (expirySweep) return;
+
+  expirySweep = setInterval(() => {
+    for (const pending of accounts.values()) {
+      pending.then((account) => account.broker.expireOrders()).catch(() => undefined);
+    }
+  }, EXPIRY_SWEEP_INTERVAL_MS);
+  expirySweep.unref();
+}
+
+async function persistExecution(account: SandboxAccount, execution: OrderResponse) {
+  // Fills of an order placed moments ago may arrive before its row exists;
+  // the orders route records them once the row is inserted
+  await recordExecution(execution.orderId, execution, true, 'sandbox');
+  await saveAccountState(account, execution.orderId);
+}
+
+/**
+ * Write the account's current cash and the position of the order's symbol
+ */
+async function saveAccountState(account: SandboxAccount, orderId: string) {
+  const { broker } = account;
+  const order = broker.getAllOrders().find((candidate) => candidate.orderId === orderId);
+
+  await db.getPool().query(
+    'UPDATE sandbox_accounts SET cash = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2',
+    [broker.getCash(), account.id]
+  );
+
+  if (!order) return;
+
+  const symbol = order.request.symbol;
+  const position = broker.getPosition(symbol);
+  if (position) {
+    await db.getPool().query(
+      `INSERT INTO sandbox_positions (account_id, symbol, quantity, average_price)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (account_id, symbol) DO UPDATE
+       SET quantity = $3, average_price = $4, updated_at = CURRENT_TIMESTAMP`,
+      [account.id, symbol, position.quantity, position.averagePrice]
+    );
+  } else {
+    await db.getPool().query('DELETE FROM sandbox_positions WHERE account_id = $1 AND symbol = $2', [
+      account.id,
+      symbol,
+    ]);
+  }
+}
+
+/**
+ * Reset the account to a fresh starting balance: working sandbox orders are
+ * cancelled and positions cleared. Order and trade history is kept.
+ */
+export async function resetSandboxAccount(userId: number, startingCash?: number): Promise<SandboxAccount> {
+  const previous = await getSandboxAccount(userId);
+  // Let in-flight fill writes land before wiping state
+  await previous.writes;
+  previous.broker.dispose();
+
+  const client = await db.getPool().connect();
+  try {
+    await client.query('BEGIN');
+
+    await client.query(
+      `WITH working AS (
+         SELECT id, status FROM orders
+         WHERE user_id = $1 AND sandbox = true AND status = ANY($2)
+         FOR UPDATE
+       ), cancelled AS (
+         UPDATE orders o SET status = 'cancelled', updated_at = CURRENT_TIMESTAMP
+         FROM working
+         WHERE o.id = working.id
+         RETURNING o.id, o.user_id, o.filled_quantity, o.average_price, working.status AS from_status
+       )
+       INSERT INTO order_events (order_id, user_id, from_status, to_status, filled_quantity, average_price, source)
+       SELECT id, user_id, from_status, 'cancelled', filled_quantity, average_price, 'reset' FROM cancelled`,
+      [userId, WORKING_STATUSES]
+    );
+
+    await client.query(
+      `UPDATE order_groups SET status = 'cancelled', updated_at = CURRENT_TIMESTAMP
+       WHERE user_id = $1 AND sandbox = true AND status IN ('pending', 'active')`,
+      [userId]
+    );
+
+    await client.query('DELETE FROM sandbox_positions WHERE account_id = $1', [previous.id]);
+
+    const balances = await getLedgerBalances(userId, 'sandbox', client);
+    await postEntry(client, userId, 'sandbox', {
+      type: 'reset',
+      description: 'Paper account reset',
+      postings: resetPostings(balances, startingCash ?? previous.startingCash),
+    });
+
+    await client.query(
+      `UPDATE sandbox_accounts
+       SET starting_cash = COALESCE($1, starting_cash),
+           cash = COALESCE($1, starting_cash),
+           reset_at = CURRENT_TIMESTAMP,
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = $2`,
+      [startingCash ?? null, previous.id]
+    );
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  accounts.delete(userId);
+  const account = await getSandboxAccount(userId);
+  logger.info({ userId, accountId: account.id, startingCash: account.startingCash }, 'Sandbox account reset');
+  return account;
+}
+
+/**
+ * Post a deposit, withdrawal, fee, dividend or interest to the paper account
+ * and move the engine's cash with it. Cash may not go below what working
+ * orders hold back.
+ */
+export async function recordSandboxCashMovement(userId: number, movement: CashMovement): Promise<LedgerEntry> {
+  const account = await getSandboxAccount(userId);
+
+  // Queue behind fill writes so cash is saved in the order it changes
+  const result = account.writes.then(async () => {
+    assertSufficientCash(account.broker.getAccount().buyingPower, movement);
+    const postings = cashMovementPostings(movement.type, movement.amount);
+    const change = cashChange(postings);
+
+    const client = await db.getPool().connect();
+    let entry: LedgerEntry | null;
+    try {
+      await client.query('BEGIN');
+      entry = await postEntry(client, userId, 'sandbox', {
+        type: movement.type,
+        description: movement.description,
+        symbol: movement.symbol,
+        occurredAt: movement.occurredAt,
+        postings,
+      });
+      await client.query(
+        'UPDATE sandbox_accounts SET cash = cash + $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2',
+        [change, account.id]
+      );
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    account.broker.adjustCash(change);
+    logger.info({ userId, type: movement.type, amount: movement.amount }, 'Sandbox cash movement recorded');
+    return entry!;
+  });
+
+  account.writes = result.then(
+    () => undefined,
+    () => undefined
+  );
+  return result;
+}
+
+/**
+ * Build the sandbox cost models selected on the user's broker profile
+ */
+export async function getSandboxCosts(userId: number, profile?: any): Promise<SandboxCosts> {
+  if (profile === undefined) {
+    const profileResult = await db.getPool().query(
+      'SELECT commission_model, slippage_model FROM broker_configs WHERE user_id = $1 LIMIT 1',
+      [userId]
+    );
+    profile = profileResult.rows[0];
+  }
+
+  const volumeResult = await db.getPool().query(
+    `SELECT COALESCE(SUM(quantity * price), 0) AS volume
+     FROM trades
+     WHERE user_id = $1 AND executed_at > NOW() - INTERVAL '30 days'`,
+    [userId]
+  );
+
+  return {
+    commissionModel: createCommissionModel(profile?.commission_model),
+    slippageModel: createSlippageModel(profile?.slippage_model),
+    tradedVolume: parseFloat(volumeResult.rows[0].volume),
+  };
+}
@@ -0,0 +1,412 @@
+import { extname } from 'path';
+import { fileURLToPath } from 'url';
+import { Worker } from 'worker_threads';
+import { Candle, MarketQuote } from '../brokers/base';
+import { StrategyLogLevel, StrategyOrder, StrategyOrderRequest } from '../strategies/sdk';
+
+export type StrategyHostStatus = 'running' | 'paused' | 'stopped' | 'crashed';
+
+/** What a hosted strategy can reach outside its own code */
+export interface StrategyEnvironment {
+  placeOrder(order: StrategyOrderRequest): Promise<StrategyOrder>;
+  cancelOrder(orderId: string): Promise<StrategyOrder>;
+  getPosition(symbol: string): Promise<number>;
+  saveState(state: unknown): Promise<void>;
+  log(level: StrategyLogLevel, message: string, data?: Record<string, unknown>): void;
+  /** The strategy crashed and has been stopped */
+  onCrash(error: Error): void;
+}
+
+/** Where a worker finds a strategy: a module exporting a `strategies` registry, and the key in it */
+export interface StrategySource {
+  module: string;
+  strategy: string;
+}
+
+export interface StrategyHostOptions {
+  strategyId: number;
+  params: unknown;
+  symbols: string[];
+  /** State saved by an earlier run; the definition's initial state when null */
+  state: unknown;
+  candleIntervalMs: number;
+  hookTimeoutMs: number;
+}
+
+export const STRATEGY_HOOKS = ['onStart', 'onTick', 'onCandle', 'onOrderUpdate', 'onStop'] as const;
+
+export type StrategyHook = (typeof STRATEGY_HOOKS)[number];
+
+export interface StrategyWorkerData extends StrategySource {
+  strategyId: number;
+  params: unknown;
+  symbols: string[];
+  state: unknown;
+}
+
+/** Messages from a host to its strategy worker */
+export type HostMessage =
+  | { type: 'hook'; hook: StrategyHook; event?: unknown }
+  | { type: 'result'; id: number; value?: unknown; error?: string };
+
+/** Messages from a strategy worker to its host; `state` is the strategy state as JSON */
+export type WorkerMessage =
+  | { type: 'ready'; hooks: StrategyHook[]; state: string }
+  | { type: 'done'; state: string }
+  | { type: 'failed'; message: string; stack?: string }
+  | { type: 'call'; id: number; method: 'placeOrder' | 'cancelOrder' | 'getPosition'; arg: unknown }
+  | { type: 'log'; level: StrategyLogLevel; message: string; data?: Record<string, unknown> };
+
+const MODULE_EXTENSION = extname(fileURLToPath(import.meta.url));
+const WORKER_URL = new URL(`./strategyWorker${MODULE_EXTENSION}`, import.meta.url);
+const WORKER_LOAD_TIMEOUT_MS = 30_000;
+
+/**
+ * URL of a module relative to `base`, with the extension the server runs from
+ */
+export function moduleUrl(path: string, base: string): string {
+  return new URL(`${path}${MODULE_EXTENSION}`, base).href;
+}
+
+/**
+ * Start a strategy worker. Running from source (tsx, vitest) the worker is a
+ * .ts file, so a bootstrap registers tsx in the worker before loading it; tsx
+ * is resolved from the working directory, the backend package.
+ */
+function createWorker(workerData: StrategyWorkerData): Worker {
+  if (MODULE_EXTENSION !== '.ts') {
+    return new Worker(WORKER_URL, { workerData });
+  }
+  const bootstrap =
+    `import('tsx/esm/api').then(({ register }) => { register(); ` +
+    `return import(${JSON.stringify(WORKER_URL.href)}); });`;
+  return new Worker(bootstrap, { eval: true, workerData });
+}
+
+type StrategyEvent =
+  { type: 'tick'; quote: MarketQuote } | { type: 'candle'; candle: Candle } | { type: 'order'; order: StrategyOrder };
+
+interface OpenCandle extends Candle {
+  /** Cumulative volume reported by the feed when the candle opened */
+  startVolume: number;
+}
+
+/**
+ * Builds candles of a fixed interval from quotes. Feeds report cumulative
+ * volume, so a candle's volume is the change over its interval.
+ */
+export class CandleBuilder {
+  private open = new Map<string, OpenCandle>();
+
+  constructor(private intervalMs: number) {}
+
+  /**
+   * Add a quote; returns the symbol's previous candle when the quote opens a new one
+   */
+  update(quote: MarketQuote): Candle | null {
+    const start = Math.floor(quote.timestamp.getTime() / this.intervalMs) * this.intervalMs;
+    const current = this.open.get(quote.symbol);
+
+    if (current && current.timestamp.getTime() === start) {
+      current.high = Math.max(current.high, quote.last);
+      current.low = Math.min(current.low, quote.last);
+      current.close = quote.last;
+      current.volume = Math.max(0, quote.volume - current.startVolume);
+      return null;
+    }
+    // Late quotes of a candle already closed are dropped
+    if (current && current.timestamp.getTime() > start) {
+      return null;
+    }
+
+    this.open.set(quote.symbol, {
+      symbol: quote.symbol,
+      timestamp: new Date(start),
+      open: quote.last,
+      high: quote.last,
+      low: quote.last,
+      close: quote.last,
+      volume: 0,
+      startVolume: quote.volume,
+    });
+
+    if (!current) return null;
+    const { startVolume, ...closed } = current;
+    return closed;
+  }
+}
+
+/**
+ * Runs one strategy instance in its own worker thread, so a hook that loops,
+ * or an error thrown from the strategy's own timers, ends only that worker.
+ * Events are handled one at a time in arrival order; while a hook is busy,
+ * newer quotes of a symbol replace its queued tick. Paused strategies miss
+ * market data but still see their order updates.
+ */
+export class StrategyHost {
+  private status: StrategyHostStatus = 'stopped';
+  private lastError: Error | null = null;
+  private queue: StrategyEvent[] = [];
+  private draining = false;
+  private idle: Promise<void> = Promise.resolve();
+  private candles: CandleBuilder;
+  private worker: Worker | null = null;
+  private hooks = new Set<StrategyHook>();
+  // The reply the host is waiting for, labelled with the hook it belongs to
+  private pending: { label: string; resolve(reply: WorkerMessage): void; reject(error: Error): void } | null = null;
+  private savedState = '';
+
+  constructor(
+    private source: StrategySource,
+    private options: StrategyHostOptions,
+    private env: StrategyEnvironment
+  ) {
+    this.candles = new CandleBuilder(options.candleIntervalMs);
+  }
+
+  getStatus(): StrategyHostStatus {
+    return this.status;
+  }
+
+  /** Why the strategy crashed */
+  getLastError(): Error | null {
+    return this.lastError;
+  }
+
+  /**
+   * Load the strategy in a worker, run onStart and begin handling events;
+   * `paused` starts without market data
+   */
+  async start(paused = false): Promise<void> {
+    this.status = paused ? 'paused' : 'running';
+
+    const worker = createWorker({
+      ...this.source,
+      strategyId: this.options.strategyId,
+      params: this.options.params,
+      symbols: this.options.symbols,
+      state: this.options.state,
+    });
+    this.worker = worker;
+    worker.on('message', (message: WorkerMessage) => this.receive(message));
+    worker.on('error', (error) => this.crash(error, this.pending?.label ?? 'Strategy'));
+    worker.on('exit', (code) =>
+      this.crash(new Error(`Strategy worker exited with code ${code}`), this.pending?.label ?? 'Strategy')
+    );
+
+    let ready: WorkerMessage;
+    try {
+      ready = await this.request('Loading', WORKER_LOAD_TIMEOUT_MS);
+    } catch {
+      return;
+    }
+    if (ready.type === 'ready') {
+      ready.hooks.forEach((hook) => this.hooks.add(hook));
+      this.savedState = ready.state;
+    }
+    await this.invoke('onStart');
+  }
+
+  pause() {
+    if (this.status !== 'running') return;
+    this.status = 'paused';
+    this.queue = this.queue.filter((event) => event.type === 'order');
+  }
+
+  resume() {
+    if (this.status === 'paused') {
+      this.status = 'running';
+    }
+  }
+
+  /**
+   * Drop pending market data, wait for the running hook, run onStop and end the worker
+   */
+  async stop(): Promise<void> {
+    if (this.status === 'stopped' || this.status === 'crashed') return;
+    this.queue = this.queue.filter((event) => event.type === 'order');
+    await this.idle;
+    if (this.getStatus() === 'crashed') return;
+
+    await this.invoke('onStop');
+    if (this.getStatus() !== 'crashed') {
+      this.status = 'stopped';
+      await this.worker?.terminate();
+    }
+  }
+
+  handleQuote(quote: MarketQuote) {
+    if (this.status !== 'running' || !this.options.symbols.includes(quote.symbol)) return;
+
+    const closed = this.candles.update(quote);
+    if (closed && this.hooks.has('onCandle')) {
+      this.queue.push({ type: 'candle', candle: closed });
+    }
+
+    if (this.hooks.has('onTick')) {
+      const queued = this.queue.find(
+        (event): event is { type: 'tick'; quote: MarketQuote } =>
+          event.type === 'tick' && event.quote.symbol === quote.symbol
+      );
+      if (queued) {
+        queued.quote = quote;
+      } else {
+        this.queue.push({ type: 'tick', quote });
+      }
+    }
+    this.drain();
+  }
+
+  handleOrderUpdate(order: StrategyOrder) {
+    if (this.status !== 'running' && this.status !== 'paused') return;
+    if (!this.hooks.has('onOrderUpdate')) return;
+
+    this.queue.push({ type: 'order', order });
+    this.drain();
+  }
+
+  private drain() {
+    if (this.draining) return;
+    this.draining = true;
+    this.idle = (async () => {
+      while (this.queue.length > 0 && (this.status === 'running' || this.status === 'paused')) {
+        const event = this.queue.shift()!;
+        switch (event.type) {
+          case 'tick':
+            await this.invoke('onTick', event.quote);
+            break;
+          case 'candle':
+            await this.invoke('onCandle', event.candle);
+            break;
+          case 'order':
+            await this.invoke('onOrderUpdate', event.order);
+            break;
+        }
+      }
+      this.draining = false;
+    })();
+  }
+
+  /**
+   * Run a hook in the worker under the timeout and save the state if it
+   * changed. A failure crashes this strategy; it is never thrown to the caller.
+   */
+  private async invoke(hook: StrategyHook, event?: unknown) {
+    if (!this.hooks.has(hook)) return;
+
+    let reply: WorkerMessage;
+    try {
+      reply = await this.request(hook, this.options.hookTimeoutMs, { type: 'hook', hook, event });
+    } catch (error: any) {
+      this.crash(error instanceof Error ? error : new Error(String(error)), hook);
+      return;
+    }
+
+    if (reply.type === 'done' && reply.state !== this.savedState) {
+      this.savedState = reply.state;
+      await this.env
+        .saveState(JSON.parse(reply.state))
+        .catch((error) => this.env.log('error', 'Failed to save state', { error: error.message }));
+    }
+  }
+
+  /**
+   * Wait for the worker's next reply, sending `message` first. The worker is
+   * ended when no reply comes within the timeout.
+   */
+  private request(label: string, timeoutMs: number, message?: HostMessage): Promise<WorkerMessage> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(
+        () => this.crash(new Error(`${label} did not finish within ${timeoutMs} ms`), label),
+        timeoutMs
+      );
+      timer.unref();
+      const settle = () => {
+        clearTimeout(timer);
+        this.pending = null;
+      };
+      this.pending = {
+        label,
+        resolve: (reply) => {
+          settle();
+          resolve(reply);
+        },
+        reject: (error) => {
+          settle();
+          reject(error);
+        },
+      };
+      if (message) this.worker?.postMessage(message);
+    });
+  }
+
+  private receive(message: WorkerMessage) {
+    switch (message.type) {
+      case 'ready':
+      case 'done':
+        this.pending?.resolve(message);
+        break;
+      case 'failed':
+        this.pending?.reject(Object.assign(new Error(message.message), { stack: message.stack }));
+        break;
+      case 'call':
+        this.answer(message);
+        break;
+      case 'log':
+        this.env.log(message.level, message.message, message.data);
+        break;
+    }
+  }
+
+  /**
+   * Carry out a context call of the strategy and send back its result or error
+   */
+  private async answer(message: Extract<WorkerMessage, { type: 'call' }>) {
+    let result: { value: unknown } | { error: string };
+    try {
+      result = { value: await this.perform(message.method, message.arg) };
+    } catch (error: any) {
+      result = { error: error.message };
+    }
+    const reply: HostMessage = { type: 'result', id: message.id, ...result };
+    this.worker?.postMessage(reply);
+  }
+
+  private perform(method: Extract<WorkerMessage, { type: 'call' }>['method'], arg: unknown): Promise<unknown> {
+    switch (method) {
+      case 'placeOrder':
+        this.assertActive();
+        return this.observe(this.env.placeOrder(arg as StrategyOrderRequest), 'Order failed');
+      case 'cancelOrder':
+        this.assertActive();
+        return this.observe(this.env.cancelOrder(arg as string), 'Cancel failed');
+      case 'getPosition':
+        return this.env.getPosition(arg as string);
+    }
+  }
+
+  private crash(error: Error, hook: string) {
+    if (this.status === 'crashed' || this.status === 'stopped') return;
+    this.status = 'crashed';
+    this.lastError = error;
+    this.queue = [];
+    this.pending?.reject(error);
+    this.worker?.terminate().catch(() => {});
+    this.env.log('error', `${hook} failed: ${error.message}`, { stack: error.stack });
+    this.env.onCrash(error);
+  }
+
+  /**
+   * Log a failed order call to the strategy's log; the strategy gets the error as well
+   */
+  private observe<T>(call: Promise<T>, message: string): Promise<T> {
+    call.catch((error) => this.env.log('warn', `${message}: ${error.message}`));
+    return call;
+  }
+
+  private assertActive() {
+    if (this.status !== 'running' && this.status !== 'paused') {
+      throw new Error(`Strategy is ${this.status}`);
+    }
+  }
+}
@@ -0,0 +1,613 @@
+import { MarketQuote } from '../brokers/base';
+import { getBrokerInstance, sandboxMarket } from '../brokers/factory';
+import { config } from '../config';
+import { db } from '../db';
+import { AppError } from '../middleware/errorHandler';
+import { strategies, StrategyLogLevel, StrategyOrder, StrategyOrderRequest } from '../strategies';
+import { logger } from '../utils/logger';
+import { CANDLE_INTERVAL_MS, CandleInterval } from './backtestEngine';
+import { LotTrade, matchLots } from './lotMatching';
+import { onOrderChange } from './orderLifecycle';
+import { cancelWorkingOrder, submitOrder } from './orderPlacement';
+import { moduleUrl, StrategyHost } from './strategyHost';
+
+export type StrategyStatus = 'stopped' | 'running' | 'paused' | 'crashed';
+
+export interface StrategyRequest {
+  name: string;
+  strategy: string;
+  symbols: string[];
+  params: Record<string, unknown>;
+  candleInterval: CandleInterval;
+}
+
+export interface StrategyPosition {
+  symbol: string;
+  quantity: number;
+  averagePrice: number;
+  markPrice: number;
+  unrealizedPnl: number;
+}
+
+/** Results of the strategy's own fills; open positions are marked at the latest quote or fill */
+export interface StrategyPnl {
+  realizedPnl: number;
+  unrealizedPnl: number;
+  fees: number;
+  trades: number;
+  positions: StrategyPosition[];
+}
+
+export interface Strategy {
+  id: number;
+  name: string;
+  strategy: string;
+  symbols: string[];
+  params: Record<string, unknown>;
+  state: unknown;
+  candleInterval: CandleInterval;
+  status: StrategyStatus;
+  lastError: string | null;
+  pnl?: StrategyPnl;
+  startedAt: Date | null;
+  stoppedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface StrategyLog {
+  id: number;
+  level: StrategyLogLevel;
+  message: string;
+  data: Record<string, unknown> | null;
+  createdAt: Date;
+}
+
+interface RunningStrategy {
+  host: StrategyHost;
+  userId: number;
+  unsubscribe: () => Promise<void>;
+}
+
+interface LiveFeed {
+  listeners: Map<string, Set<(quote: MarketQuote) => void>>;
+}
+
+const WORKING_STATUSES = ['pending', 'open', 'partially_filled', 'held'];
+// The registry each strategy worker loads its strategy from
+const STRATEGY_MODULE = moduleUrl('../strategies/index', import.meta.url);
+
+const running: Map<number, RunningStrategy> = new Map();
+// One broker subscription per user and broker, shared by that user's strategies
+const liveFeeds: Map<string, LiveFeed> = new Map();
+// Latest price seen per symbol, to mark open strategy positions
+const lastPrices: Map<string, number> = new Map();
+// Serializes each strategy's log writes so they are stored in order
+const logWrites: Map<number, Promise<void>> = new Map();
+let removeOrderListener: (() => void) | null = null;
+
+/**
+ * Route order changes to the strategies that placed them and restart the
+ * strategies that were running or paused when the server stopped
+ */
+export function startStrategyRuntime() {
+  if (removeOrderListener) return;
+
+  removeOrderListener = onOrderChange((order) => {
+    if (order.strategy_id) {
+      running.get(order.strategy_id)?.host.handleOrderUpdate(toStrategyOrder(order));
+    }
+  });
+
+  resumeStrategies().catch((error) => logger.error({ error }, 'Failed to resume strategies'));
+  logger.info('Strategy runtime started');
+}
+
+/**
+ * Stop every hosted strategy; their stored status is kept so they resume on the next start
+ */
+export async function stopStrategyRuntime() {
+  removeOrderListener?.();
+  removeOrderListener = null;
+
+  const instances = [...running.entries()];
+  running.clear();
+  await Promise.all(
+    instances.map(async ([strategyId, instance]) => {
+      await instance.host.stop();
+      await instance.unsubscribe().catch((error) => logger.warn({ error, strategyId }, 'Failed to unsubscribe'));
+    })
+  );
+  await Promise.all(logWrites.values());
+}
+
+async function resumeStrategies() {
+  const result = await db.getPool().query(`SELECT * FROM strategies WHERE status IN ('running', 'paused') ORDER BY id`);
+
+  for (const row of result.rows) {
+    try {
+      await launch(row, row.status === 'paused');
+    } catch (error: any) {
+      await markCrashed(row.id, error);
+    }
+  }
+}
+
+export async function createStrategy(userId: number, request: StrategyRequest): Promise<Strategy> {
+  const definition = strategies[request.strategy];
+  if (!definition) {
+    throw new AppError(400, 'STRATEGY_UNKNOWN', `Unknown strategy: ${request.strategy}`);
+  }
+
+  let params: Record<string, unknown> = { ...definition.defaultParams, ...request.params };
+  if (definition.paramsSchema) {
+    const parsed = definition.paramsSchema.safeParse(params);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      throw new AppError(400, 'STRATEGY_INVALID_PARAMS', `${issue.path.join('.') || 'params'}: ${issue.message}`);
+    }
+    params = parsed.data;
+  }
+
+  const result = await db.getPool().query(
+    `INSERT INTO strategies (user_id, name, strategy, symbols, params, candle_interval)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     ON CONFLICT (user_id, name) DO NOTHING
+     RETURNING *`,
+    [userId, request.name, request.strategy, request.symbols, JSON.stringify(params), request.candleInterval]
+  );
+  if (result.rows.length === 0) {
+    throw new AppError(409, 'STRATEGY_EXISTS', `A strategy named ${request.name} already exists`);
+  }
+
+  logger.info({ userId, strategyId: result.rows[0].id, strategy: request.strategy }, 'Strategy created');
+  return formatStrategy(result.rows[0]);
+}
+
+export async function listStrategies(userId: number): Promise<Strategy[]> {
+  const result = await db
+    .getPool()
+    .query('SELECT * FROM strategies WHERE user_id = $1 ORDER BY created_at DESC, id DESC', [userId]);
+
+  return Promise.all(
+    result.rows.map(async (row) => ({ ...formatStrategy(row), pnl: await getStrategyPnl(userId, row.id) }))
+  );
+}
+
+/**
+ * A strategy with its P&L
+ */
+export async function getStrategy(userId: number, strategyId: number): Promise<Strategy | null> {
+  const row = await findStrategy(userId, strategyId);
+  return row ? { ...formatStrategy(row), pnl: await getStrategyPnl(userId, strategyId) } : null;
+}
+
+/**
+ * Start a stopped or crashed strategy, or resume a paused one
+ */
+export async function startStrategy(userId: number, strategyId: number): Promise<Strategy> {
+  const row = await requireStrategy(userId, strategyId);
+  const instance = running.get(strategyId);
+
+  if (instance) {
+    if (instance.host.getStatus() === 'running') {
+      throw new AppError(409, 'STRATEGY_RUNNING', 'Strategy is already running');
+    }
+    instance.host.resume();
+    writeLog(strategyId, 'info', 'Strategy resumed');
+    return setStatus(strategyId, 'running');
+  }
+
+  await launch(row, false);
+  writeLog(strategyId, 'info', 'Strategy started');
+  return formatStrategy(
+    (
+      await db.getPool().query(
+        `UPDATE strategies SET status = 'running', last_error = NULL, started_at = NOW(), stopped_at = NULL,
+           updated_at = NOW()
+         WHERE id = $1 RETURNING *`,
+        [strategyId]
+      )
+    ).rows[0]
+  );
+}
+
+/**
+ * Stop delivering market data to a running strategy; its order updates still arrive
+ */
+export async function pauseStrategy(userId: number, strategyId: number): Promise<Strategy> {
+  await requireStrategy(userId, strategyId);
+  const instance = running.get(strategyId);
+  if (!instance || instance.host.getStatus() !== 'running') {
+    throw new AppError(409, 'STRATEGY_NOT_RUNNING', 'Only a running strategy can be paused');
+  }
+
+  instance.host.pause();
+  writeLog(strategyId, 'info', 'Strategy paused');
+  return setStatus(strategyId, 'paused');
+}
+
+/**
+ * Stop a strategy after its current hook, optionally cancelling its working orders
+ */
+export async function stopStrategy(userId: number, strategyId: number, cancelOrders: boolean): Promise<Strategy> {
+  const row = await requireStrategy(userId, strategyId);
+  const instance = running.get(strategyId);
+  if (!instance && row.status !== 'running' && row.status !== 'paused') {
+    throw new AppError(409, 'STRATEGY_NOT_RUNNING', 'Strategy is not running');
+  }
+
+  if (instance) {
+    running.delete(strategyId);
+    await instance.host.stop();
+    await instance.unsubscribe();
+  }
+
+  if (cancelOrders) {
+    const working = await db
+      .getPool()
+      .query('SELECT * FROM orders WHERE user_id = $1 AND strategy_id = $2 AND status = ANY($3)', [
+        userId,
+        strategyId,
+        WORKING_STATUSES,
+      ]);
+    for (const order of working.rows) {
+      await cancelWorkingOrder(userId, order, 'strategy').catch((error) =>
+        logger.warn({ error, strategyId, orderId: order.order_id }, 'Failed to cancel strategy order')
+      );
+    }
+  }
+
+  writeLog(strategyId, 'info', 'Strategy stopped', cancelOrders ? { cancelOrders } : undefined);
+  const result = await db
+    .getPool()
+    .query(
+      `UPDATE strategies SET status = 'stopped', stopped_at = NOW(), updated_at = NOW() WHERE id = $1 RETURNING *`,
+      [strategyId]
+    );
+  return formatStrategy(result.rows[0]);
+}
+
+/**
+ * Delete a strategy and its logs; its orders are kept without the tag
+ */
+export async function deleteStrategy(userId: number, strategyId: number): Promise<boolean> {
+  if (running.has(strategyId)) {
+    throw new AppError(409, 'STRATEGY_RUNNING', 'Stop the strategy before deleting it');
+  }
+
+  const result = await db
+    .getPool()
+    .query('DELETE FROM strategies WHERE id = $1 AND user_id = $2', [strategyId, userId]);
+  return (result.rowCount ?? 0) > 0;
+}
+
+export async function listStrategyLogs(
+  userId: number,
+  strategyId: number,
+  options: { level?: StrategyLogLevel; limit: number; offset: number }
+): Promise<{ logs: StrategyLog[]; total: number }> {
+  await requireStrategy(userId, strategyId);
+
+  const filter = options.level ? 'AND level = $2' : '';
+  const params: any[] = options.level ? [strategyId, options.level] : [strategyId];
+  const pool = db.getPool();
+  const result = await pool.query(
+    `SELECT id, level, message, data, created_at FROM strategy_logs WHERE strategy_id = $1 ${filter}
+     ORDER BY created_at DESC, id DESC
+     LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+    [...params, options.limit, options.offset]
+  );
+  const count = await pool.query(
+    `SELECT COUNT(*) AS total FROM strategy_logs WHERE strategy_id = $1 ${filter}`,
+    params
+  );
+
+  return {
+    logs: result.rows.map((row) => ({
+      id: row.id,
+      level: row.level,
+      message: row.message,
+      data: row.data,
+      createdAt: row.created_at,
+    })),
+    total: parseInt(count.rows[0].total, 10),
+  };
+}
+
+/**
+ * P&L of the fills of the strategy's orders, matched FIFO
+ */
+export async function getStrategyPnl(userId: number, strategyId: number): Promise<StrategyPnl> {
+  const trades = await getStrategyTrades(userId, strategyId);
+  const { open, closed } = matchLots(trades, 'fifo');
+
+  const positions = new Map<string, StrategyPosition>();
+  for (const lot of open) {
+    const signed = lot.direction === 'long' ? lot.quantity : -lot.quantity;
+    const position = positions.get(lot.symbol) ?? {
+      symbol: lot.symbol,
+      quantity: 0,
+      averagePrice: 0,
+      markPrice: lastPrices.get(lot.symbol) ?? lastTradePrice(trades, lot.symbol),
+      unrealizedPnl: 0,
+    };
+    position.averagePrice =
+      (position.averagePrice * Math.abs(position.quantity) + lot.price * lot.quantity) /
+      (Math.abs(position.quantity) + lot.quantity);
+    position.quantity += signed;
+    position.unrealizedPnl += (position.markPrice - lot.price) * signed;
+    positions.set(lot.symbol, position);
+  }
+
+  return {
+    realizedPnl: closed.reduce((sum, lot) => sum + lot.realizedPnl, 0),
+    unrealizedPnl: [...positions.values()].reduce((sum, position) => sum + position.unrealizedPnl, 0),
+    fees: trades.reduce((sum, trade) => sum + trade.fee, 0),
+    trades: trades.length,
+    positions: [...positions.values()],
+  };
+}
+
+/**
+ * Fills of the strategy's orders; sandbox fills from before an account reset are left out
+ */
+async function getStrategyTrades(userId: number, strategyId: number): Promise<LotTrade[]> {
+  const result = await db.getPool().query(
+    `SELECT t.id, t.symbol, t.side, t.quantity, t.price, t.fee, t.executed_at
+     FROM trades t
+     JOIN orders o ON o.id = t.order_id
+     LEFT JOIN sandbox_accounts sa ON sa.user_id = t.user_id
+     WHERE t.user_id = $1 AND o.strategy_id = $2
+       AND (o.sandbox = false OR sa.reset_at IS NULL OR t.executed_at >= sa.reset_at)
+     ORDER BY t.executed_at, t.id`,
+    [userId, strategyId]
+  );
+
+  return result.rows.map((row) => ({
+    id: row.id,
+    symbol: row.symbol,
+    side: row.side,
+    quantity: parseFloat(row.quantity),
+    price: parseFloat(row.price),
+    fee: parseFloat(row.fee || '0'),
+    executedAt: new Date(row.executed_at),
+  }));
+}
+
+function lastTradePrice(trades: LotTrade[], symbol: string): number {
+  const last = trades.filter((trade) => trade.symbol === symbol).pop();
+  return last ? last.price : 0;
+}
+
+/**
+ * Create the host of a strategy row and connect it to its market data
+ */
+async function launch(row: any, paused: boolean) {
+  if (!strategies[row.strategy]) {
+    throw new AppError(400, 'STRATEGY_UNKNOWN', `Unknown strategy: ${row.strategy}`);
+  }
+
+  const strategyId: number = row.id;
+  const userId: number = row.user_id;
+
+  const host = new StrategyHost(
+    { module: STRATEGY_MODULE, strategy: row.strategy },
+    {
+      strategyId,
+      params: row.params,
+      symbols: row.symbols,
+      state: row.state,
+      candleIntervalMs: CANDLE_INTERVAL_MS[row.candle_interval as CandleInterval],
+      hookTimeoutMs: config.STRATEGY_HOOK_TIMEOUT_MS,
+    },
+    {
+      placeOrder: async (order) => toStrategyOrder(await placeStrategyOrder(userId, strategyId, order)),
+      cancelOrder: async (orderId) => toStrategyOrder(await cancelStrategyOrder(userId, strategyId, orderId)),
+      getPosition: async (symbol) =>
+        (await getStrategyTrades(userId, strategyId))
+          .filter((trade) => trade.symbol === symbol)
+          .reduce((sum, trade) => sum + (trade.side === 'buy' ? trade.quantity : -trade.quantity), 0),
+      saveState: async (state) => {
+        await db
+          .getPool()
+          .query('UPDATE strategies SET state = $2, updated_at = NOW() WHERE id = $1', [
+            strategyId,
+            JSON.stringify(state),
+          ]);
+      },
+      log: (level, message, data) => writeLog(strategyId, level, message, data),
+      onCrash: (error) => {
+        const instance = running.get(strategyId);
+        if (instance?.host !== host) return;
+        running.delete(strategyId);
+        instance.unsubscribe().catch((err) => logger.warn({ error: err, strategyId }, 'Failed to unsubscribe'));
+        markCrashed(strategyId, error).catch((err) =>
+          logger.error({ error: err, strategyId }, 'Failed to record strategy crash')
+        );
+      },
+    }
+  );
+
+  const listener = (quote: MarketQuote) => {
+    lastPrices.set(quote.symbol, quote.last);
+    host.handleQuote(quote);
+  };
+  const unsubscribe = await subscribe(userId, row.symbols, listener);
+  running.set(strategyId, { host, userId, unsubscribe });
+
+  await host.start(paused);
+  if (host.getStatus() === 'crashed') {
+    throw new AppError(422, 'STRATEGY_CRASHED', `Strategy failed to start: ${host.getLastError()?.message}`);
+  }
+}
+
+async function placeStrategyOrder(userId: number, strategyId: number, order: StrategyOrderRequest): Promise<any> {
+  const row = await submitOrder(userId, order, strategyId);
+  writeLog(strategyId, 'info', 'Order placed', {
+    orderId: row.order_id,
+    symbol: row.symbol,
+    side: row.side,
+    quantity: parseFloat(row.quantity),
+    status: row.status,
+  });
+  return row;
+}
+
+async function cancelStrategyOrder(userId: number, strategyId: number, orderId: string): Promise<any> {
+  const result = await db
+    .getPool()
+    .query('SELECT * FROM orders WHERE user_id = $1 AND order_id = $2 AND strategy_id = $3', [
+      userId,
+      orderId,
+      strategyId,
+    ]);
+  if (result.rows.length === 0) {
+    throw new Error(`Order ${orderId} was not placed by this strategy`);
+  }
+  if (!WORKING_STATUSES.includes(result.rows[0].status)) {
+    throw new Error(`Order ${orderId} is ${result.rows[0].status} and cannot be cancelled`);
+  }
+  return cancelWorkingOrder(userId, result.rows[0], 'strategy');
+}
+
+/**
+ * Listen to quotes of the user's active market: the simulated one in sandbox
+ * mode, otherwise the broker feed shared by the user's strategies
+ */
+async function subscribe(
+  userId: number,
+  symbols: string[],
+  listener: (quote: MarketQuote) => void
+): Promise<() => Promise<void>> {
+  const brokerConfig = await db
+    .getPool()
+    .query('SELECT broker_type, sandbox_mode FROM broker_configs WHERE user_id = $1 LIMIT 1', [userId]);
+
+  if (brokerConfig.rows.length === 0 || brokerConfig.rows[0].sandbox_mode) {
+    symbols.forEach((symbol) => sandboxMarket.subscribe(symbol, listener));
+    return async () => symbols.forEach((symbol) => sandboxMarket.unsubscribe(symbol, listener));
+  }
+
+  const brokerType = brokerConfig.rows[0].broker_type;
+  const broker = await getBrokerInstance(userId, brokerType);
+  const key = `${userId}-${brokerType}`;
+  const feed: LiveFeed = liveFeeds.get(key) ?? { listeners: new Map() };
+  liveFeeds.set(key, feed);
+
+  const added = symbols.filter((symbol) => !feed.listeners.has(symbol));
+  symbols.forEach((symbol) => {
+    const listeners = feed.listeners.get(symbol) ?? new Set();
+    listeners.add(listener);
+    feed.listeners.set(symbol, listeners);
+  });
+  if (added.length > 0) {
+    await broker.subscribeToMarketData(added, (quote) =>
+      feed.listeners.get(quote.symbol)?.forEach((callback) => callback(quote))
+    );
+  }
+
+  return async () => {
+    const removed = symbols.filter((symbol) => {
+      const listeners = feed.listeners.get(symbol);
+      listeners?.delete(listener);
+      if (listeners?.size === 0) {
+        feed.listeners.delete(symbol);
+        return true;
+      }
+      return false;
+    });
+    if (removed.length > 0) {
+      await broker.unsubscribeFromMarketData(removed);
+    }
+  };
+}
+
+/**
+ * Store a strategy log line and mirror it to the server log
+ */
+function writeLog(strategyId: number, level: StrategyLogLevel, message: string, data?: Record<string, unknown>) {
+  logger[level]({ strategyId, ...data }, `Strategy: ${message}`);
+
+  const write = (logWrites.get(strategyId) ?? Promise.resolve())
+    .then(async () => {
+      await db
+        .getPool()
+        .query('INSERT INTO strategy_logs (strategy_id, level, message, data) VALUES ($1, $2, $3, $4)', [
+          strategyId,
+          level,
+          message,
+          data ? JSON.stringify(data) : null,
+        ]);
+    })
+    .catch((error) => logger.error({ error, strategyId }, 'Failed to store strategy log'));
+  logWrites.set(strategyId, write);
+  write.then(() => {
+    if (logWrites.get(strategyId) === write) logWrites.delete(strategyId);
+  });
+}
+
+async function markCrashed(strategyId: number, error: Error) {
+  running.delete(strategyId);
+  await db.getPool().query(
+    `UPDATE strategies SET status = 'crashed', last_error = $2, stopped_at = NOW(), updated_at = NOW()
+       WHERE id = $1`,
+    [strategyId, error.message]
+  );
+  logger.warn({ error, strategyId }, 'Strategy crashed');
+}
+
+async function setStatus(strategyId: number, status: StrategyStatus): Promise<Strategy> {
+  const result = await db
+    .getPool()
+    .query('UPDATE strategies SET status = $2, updated_at = NOW() WHERE id = $1 RETURNING *', [strategyId, status]);
+  return formatStrategy(result.rows[0]);
+}
+
+async function findStrategy(userId: number, strategyId: number): Promise<any | null> {
+  const result = await db
+    .getPool()
+    .query('SELECT * FROM strategies WHERE id = $1 AND user_id = $2', [strategyId, userId]);
+  return result.rows[0] ?? null;
+}
+
+async function requireStrategy(userId: number, strategyId: number): Promise<any> {
+  const row = await findStrategy(userId, strategyId);
+  if (!row) {
+    throw new AppError(404, 'STRATEGY_NOT_FOUND', 'Strategy not found');
+  }
+  return row;
+}
+
+function toStrategyOrder(row: any): StrategyOrder {
+  return {
+    orderId: row.order_id,
+    symbol: row.symbol,
+    side: row.side,
+    type: row.type,
+    quantity: parseFloat(row.quantity),
+    price: row.price ? parseFloat(row.price) : null,
+    status: row.status,
+    filledQuantity: parseFloat(row.filled_quantity || '0'),
+    averagePrice: row.average_price ? parseFloat(row.average_price) : null,
+    rejectReason: row.reject_reason ?? null,
+  };
+}
+
+function formatStrategy(row: any): Strategy {
+  return {
+    id: row.id,
+    name: row.name,
+    strategy: row.strategy,
+    symbols: row.symbols,
+    params: row.params,
+    state: row.state,
+    candleInterval: row.candle_interval,
+    status: row.status,
+    lastError: row.last_error,
+    startedAt: row.started_at,
+    stoppedAt: row.stopped_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
@@ -0,0 +1,93 @@
+import { parentPort, workerData } from 'worker_threads';
+import { StrategyContext, StrategyDefinition, StrategyLogLevel } from '../strategies/sdk';
+import { HostMessage, STRATEGY_HOOKS, StrategyHook, StrategyWorkerData, WorkerMessage } from './strategyHost';
+
+/**
+ * Worker side of StrategyHost: loads one strategy, runs the hooks the host
+ * sends and passes the context's calls back to the host. The host owns the
+ * queue and the timeouts, and ends this worker when the strategy fails.
+ */
+
+type ContextCall = Extract<WorkerMessage, { type: 'call' }>;
+
+const port = parentPort!;
+const data: StrategyWorkerData = workerData;
+const calls = new Map<number, { resolve(value: any): void; reject(error: Error): void }>();
+let lastCallId = 0;
+
+const { strategies } = await import(data.module);
+const definition: StrategyDefinition<any, any> | undefined = strategies?.[data.strategy];
+if (!definition) {
+  throw new Error(`Unknown strategy: ${data.strategy}`);
+}
+
+const log = (level: StrategyLogLevel) => (message: string, logData?: Record<string, unknown>) =>
+  send({ type: 'log', level, message, data: logData });
+
+const context: StrategyContext<any, any> = {
+  strategyId: data.strategyId,
+  params: data.params,
+  symbols: data.symbols,
+  state: data.state ?? definition.initialState(),
+  placeOrder: (order) => call('placeOrder', order),
+  cancelOrder: (orderId) => call('cancelOrder', orderId),
+  getPosition: (symbol) => call('getPosition', symbol),
+  log: { info: log('info'), warn: log('warn'), error: log('error') },
+};
+
+port.on('message', (message: HostMessage) => {
+  if (message.type === 'result') {
+    const pending = calls.get(message.id);
+    calls.delete(message.id);
+    if (message.error !== undefined) {
+      pending?.reject(new Error(message.error));
+    } else {
+      pending?.resolve(message.value);
+    }
+    return;
+  }
+  runHook(message.hook, message.event);
+});
+
+send({
+  type: 'ready',
+  hooks: STRATEGY_HOOKS.filter((hook) => typeof definition[hook] === 'function'),
+  state: JSON.stringify(context.state),
+});
+
+async function runHook(hook: StrategyHook, event: unknown) {
+  const run = definition![hook] as (...args: unknown[]) => void | Promise<void>;
+  try {
+    await (hook === 'onStart' || hook === 'onStop'
+      ? run.call(definition, context)
+      : run.call(definition, event, context));
+  } catch (error: any) {
+    send({ type: 'failed', message: error instanceof Error ? error.message : String(error), stack: error?.stack });
+    return;
+  }
+
+  let state: string;
+  try {
+    state = JSON.stringify(context.state);
+  } catch (error: any) {
+    send({ type: 'failed', message: `State is not serializable: ${error.message}` });
+    return;
+  }
+  send({ type: 'done', state });
+}
+
+/**
+ * Ask the host to carry out a context call. The host logs failed orders, so a
+ * strategy that does not await one does not end its worker.
+ */
+function call(method: ContextCall['method'], arg: unknown): Promise<any> {
+  const id = ++lastCallId;
+  const result = new Promise((resolve, reject) => calls.set(id, { resolve, reject }));
+  result.catch(() => {});
+  send({ type: 'call', id, method, arg });
+  return result;
+}
+
+function send(message: WorkerMessage) {
+  port.postMessage(message);
+}
@@ -0,0 +1,155 @@
+import { db } from '../db';
+import { logger } from '../utils/logger';
+import { ClosedLot, LotMethod, LotTrade, matchLots, OpenLot } from './lotMatching';
+
+export interface RealizedSummary {
+  symbol: string;
+  closedQuantity: number;
+  realizedPnl: number;
+  shortTermPnl: number;
+  longTermPnl: number;
+  fees: number;
+}
+
+export async function getLotMethod(userId: number): Promise<LotMethod> {
+  const result = await db.getPool().query('SELECT lot_method FROM users WHERE id = $1', [userId]);
+  return result.rows[0]?.lot_method ?? 'fifo';
+}
+
+/**
+ * Switch the user's lot method; closed lots are rebuilt on the next sync
+ */
+export async function setLotMethod(userId: number, method: LotMethod): Promise<void> {
+  await db.getPool().query('UPDATE users SET lot_method = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2', [
+    method,
+    userId,
+  ]);
+  logger.info({ userId, method }, 'Lot method changed');
+}
+
+/**
+ * Match the user's trades into lots with their chosen method, without saving
+ */
+export async function buildTaxLots(
+  userId: number,
+  sandbox: boolean
+): Promise<{ method: LotMethod; open: OpenLot[]; closed: ClosedLot[] }> {
+  const method = await getLotMethod(userId);
+  const trades = await getLotTrades(userId, sandbox);
+  return { method, ...matchLots(trades, method) };
+}
+
+/**
+ * Rebuild the user's lots and persist the closed lots
+ */
+export async function syncTaxLots(
+  userId: number,
+  sandbox: boolean
+): Promise<{ method: LotMethod; open: OpenLot[]; closed: ClosedLot[] }> {
+  const { method, open, closed } = await buildTaxLots(userId, sandbox);
+
+  const client = await db.getPool().connect();
+  try {
+    await client.query('BEGIN');
+    await client.query('DELETE FROM closed_lots WHERE user_id = $1 AND sandbox = $2', [userId, sandbox]);
+
+    if (closed.length > 0) {
+      await client.query(
+        `INSERT INTO closed_lots (
+          user_id, sandbox, method, symbol, direction, quantity, open_trade_id, close_trade_id,
+          opened_at, closed_at, open_price, close_price, cost_basis, proceeds, fees,
+          realized_pnl, holding_period_days, term
+        )
+        SELECT $1, $2, $3, * FROM unnest(
+          $4::varchar[], $5::varchar[], $6::numeric[], $7::int[], $8::int[],
+          $9::timestamp[], $10::timestamp[], $11::numeric[], $12::numeric[], $13::numeric[],
+          $14::numeric[], $15::numeric[], $16::numeric[], $17::int[], $18::varchar[]
+        )`,
+        [
+          userId,
+          sandbox,
+          method,
+          closed.map((lot) => lot.symbol),
+          closed.map((lot) => lot.direction),
+          closed.map((lot) => lot.quantity),
+          closed.map((lot) => lot.openTradeId),
+          closed.map((lot) => lot.closeTradeId),
+          closed.map((lot) => lot.openedAt),
+          closed.map((lot) => lot.closedAt),
+          closed.map((lot) => lot.openPrice),
+          closed.map((lot) => lot.closePrice),
+          closed.map((lot) => lot.costBasis),
+          closed.map((lot) => lot.proceeds),
+          closed.map((lot) => lot.fees),
+          closed.map((lot) => lot.realizedPnl),
+          closed.map((lot) => lot.holdingPeriodDays),
+          closed.map((lot) => lot.term),
+        ]
+      );
+    }
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  return { method, open, closed };
+}
+
+/**
+ * Realized P&L, fees and closed quantity per symbol, split by holding term
+ */
+export function summarizeRealized(closed: ClosedLot[]): RealizedSummary[] {
+  const summaries = new Map<string, RealizedSummary>();
+
+  for (const lot of closed) {
+    const summary = summaries.get(lot.symbol) ?? {
+      symbol: lot.symbol,
+      closedQuantity: 0,
+      realizedPnl: 0,
+      shortTermPnl: 0,
+      longTermPnl: 0,
+      fees: 0,
+    };
+    summary.closedQuantity += lot.quantity;
+    summary.realizedPnl += lot.realizedPnl;
+    summary.fees += lot.fees;
+    if (lot.term === 'long') {
+      summary.longTermPnl += lot.realizedPnl;
+    } else {
+      summary.shortTermPnl += lot.realizedPnl;
+    }
+    summaries.set(lot.symbol, summary);
+  }
+
+  return [...summaries.values()];
+}
+
+/**
+ * The user's trades in execution order, without paper trades from before the last reset
+ */
+export async function getLotTrades(userId: number, sandbox: boolean): Promise<LotTrade[]> {
+  const result = await db.getPool().query(
+    `SELECT t.id, t.symbol, t.side, t.quantity, t.price, t.fee, t.executed_at
+     FROM trades t
+     JOIN orders o ON o.id = t.order_id
+     LEFT JOIN sandbox_accounts sa ON sa.user_id = t.user_id
+     WHERE t.user_id = $1 AND o.sandbox = $2
+       AND (o.sandbox = false OR sa.reset_at IS NULL OR t.executed_at >= sa.reset_at)
+     ORDER BY t.executed_at, t.id`,
+    [userId, sandbox]
+  );
+
+  return result.rows.map((row) => ({
+    id: row.id,
+    symbol: row.symbol,
+    side: row.side,
+    quantity: parseFloat(row.quantity),
+    price: parseFloat(row.price),
+    fee: parseFloat(row.fee || '0'),
+    executedAt: new Date(row.executed_at),
+  }));
+}
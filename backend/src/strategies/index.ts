@@ -0,0 +1,12 @@
+import { StrategyDefinition } from './sdk';
+import { smaCrossover } from './smaCrossover';
+
+export * from './sdk';
+
+/**
+ * Strategies users can run, by the key they are created with. Add new
+ * strategies here.
+ */
+export const strategies: Record<string, StrategyDefinition<any, any>> = {
+  sma_crossover: smaCrossover,
+};
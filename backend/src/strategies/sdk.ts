@@ -0,0 +1,69 @@
+import { ZodType } from 'zod';
+import { Candle, MarketQuote, OrderRequest } from '../brokers/base';
+import { OrderStatus } from '../services/orderStateMachine';
+
+export type StrategyLogLevel = 'info' | 'warn' | 'error';
+
+/** An order a strategy sends; it is risk-checked like any other and tagged with the strategy */
+export type StrategyOrderRequest = Omit<OrderRequest, 'clientOrderId'>;
+
+/** One of the strategy's orders as recorded by the platform */
+export interface StrategyOrder {
+  orderId: string;
+  symbol: string;
+  side: 'buy' | 'sell';
+  type: OrderRequest['type'];
+  quantity: number;
+  price: number | null;
+  status: OrderStatus;
+  filledQuantity: number;
+  averagePrice: number | null;
+  rejectReason: string | null;
+}
+
+export interface StrategyLogger {
+  info(message: string, data?: Record<string, unknown>): void;
+  warn(message: string, data?: Record<string, unknown>): void;
+  error(message: string, data?: Record<string, unknown>): void;
+}
+
+export interface StrategyContext<Params, State> {
+  readonly strategyId: number;
+  readonly params: Params;
+  readonly symbols: string[];
+  /** Saved whenever a hook changes it and restored when the strategy is started again */
+  state: State;
+  placeOrder(order: StrategyOrderRequest): Promise<StrategyOrder>;
+  /** Cancel one of this strategy's working orders */
+  cancelOrder(orderId: string): Promise<StrategyOrder>;
+  /** Net quantity of the symbol bought less sold by this strategy's fills */
+  getPosition(symbol: string): Promise<number>;
+  log: StrategyLogger;
+}
+
+type Hook<Params, State, Event> = (event: Event, context: StrategyContext<Params, State>) => void | Promise<void>;
+
+/**
+ * A strategy's code. Hooks run one at a time per running strategy; a hook that
+ * throws, rejects or runs past the timeout stops that strategy only.
+ */
+export interface StrategyDefinition<Params = Record<string, unknown>, State = Record<string, unknown>> {
+  description: string;
+  defaultParams: Params;
+  /** Checks params merged over the defaults when the strategy is created */
+  paramsSchema?: ZodType<Params>;
+  /** State of a strategy that has not run before; must be JSON-serializable */
+  initialState(): State;
+  onStart?(context: StrategyContext<Params, State>): void | Promise<void>;
+  onTick?: Hook<Params, State, MarketQuote>;
+  /** Candles of the strategy's interval, built from ticks and delivered when they close */
+  onCandle?: Hook<Params, State, Candle>;
+  onOrderUpdate?: Hook<Params, State, StrategyOrder>;
+  onStop?(context: StrategyContext<Params, State>): void | Promise<void>;
+}
+
+export function defineStrategy<Params, State>(
+  definition: StrategyDefinition<Params, State>
+): StrategyDefinition<Params, State> {
+  return definition;
+}
@@ -0,0 +1,64 @@
+import { z } from 'zod';
+import { defineStrategy } from './sdk';
+
+interface SmaCrossoverParams {
+  fastPeriod: number;
+  slowPeriod: number;
+  quantity: number;
+}
+
+/**
+ * Buys when the fast simple moving average of candle closes crosses above the
+ * slow one and sells the position when it crosses back below
+ */
+export const smaCrossover = defineStrategy<SmaCrossoverParams, { closes: Record<string, number[]> }>({
+  description: 'Go long when the fast SMA of closes crosses above the slow SMA; exit when it crosses back',
+  defaultParams: { fastPeriod: 10, slowPeriod: 30, quantity: 1 },
+  paramsSchema: z
+    .object({
+      fastPeriod: z.number().int().min(1),
+      slowPeriod: z.number().int().min(2),
+      quantity: z.number().positive(),
+    })
+    .refine((params) => params.fastPeriod < params.slowPeriod, {
+      message: 'fastPeriod must be less than slowPeriod',
+      path: ['fastPeriod'],
+    }),
+  initialState: () => ({ closes: {} }),
+
+  async onCandle(candle, context) {
+    const { fastPeriod, slowPeriod, quantity } = context.params;
+    const closes = [...(context.state.closes[candle.symbol] ?? []), candle.close].slice(-(slowPeriod + 1));
+    context.state.closes[candle.symbol] = closes;
+    if (closes.length <= slowPeriod) return;
+
+    const fast = average(closes, fastPeriod, 0);
+    const slow = average(closes, slowPeriod, 0);
+    const previousFast = average(closes, fastPeriod, 1);
+    const previousSlow = average(closes, slowPeriod, 1);
+    const position = await context.getPosition(candle.symbol);
+
+    if (fast > slow && previousFast <= previousSlow && position <= 0) {
+      context.log.info('Fast SMA crossed above slow SMA', { symbol: candle.symbol, fast, slow });
+      await context.placeOrder({ symbol: candle.symbol, side: 'buy', type: 'market', quantity });
+    } else if (fast < slow && previousFast >= previousSlow && position > 0) {
+      context.log.info('Fast SMA crossed below slow SMA', { symbol: candle.symbol, fast, slow });
+      await context.placeOrder({ symbol: candle.symbol, side: 'sell', type: 'market', quantity: position });
+    }
+  },
+
+  onOrderUpdate(order, context) {
+    if (order.status === 'rejected') {
+      context.log.warn('Order rejected', { orderId: order.orderId, reason: order.rejectReason });
+    }
+  },
+});
+
+/**
+ * Mean of `period` closes ending `offset` closes before the latest
+ */
+function average(closes: number[], period: number, offset: number): number {
+  const end = closes.length - offset;
+  const window = closes.slice(end - period, end);
+  return window.reduce((sum, close) => sum + close, 0) / window.length;
+}
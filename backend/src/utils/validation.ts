@@ -24,6 +24,330 @@ export const brokerConfigSchema = z.object({
   sandboxMode: z.boolean().optional().default(true),
 });
 
+const feeRate = z.number().min(0).max(1);
+
+export const commissionModelSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('none') }),
+  z.object({
+    type: z.literal('per_share'),
+    perShare: z.number().nonnegative(),
+    minimum: z.number().nonnegative().optional(),
+    maximumRate: feeRate.optional(),
+  }),
+  z.object({
+    type: z.literal('percentage'),
+    rate: feeRate,
+    minimum: z.number().nonnegative().optional(),
+  }),
+  z.object({
+    type: z.literal('tiered'),
+    tiers: z
+      .array(
+        z.object({
+          minVolume: z.number().nonnegative(),
+          makerRate: feeRate,
+          takerRate: feeRate,
+        })
+      )
+      .min(1, 'At least one fee tier is required'),
+  }),
+  z.object({
+    type: z.literal('zerodha'),
+    product: z.enum(['intraday', 'delivery']),
+  }),
+]);
+
+export const slippageModelSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('none') }),
+  z.object({ type: z.literal('fixed_bps'), bps: z.number().nonnegative() }),
+  z.object({ type: z.literal('volatility'), multiplier: z.number().nonnegative() }),
+  z.object({ type: z.literal('square_root'), coefficient: z.number().nonnegative() }),
+]);
+
+export const costModelsSchema = z
+  .object({
+    commissionModel: commissionModelSchema.optional(),
+    slippageModel: slippageModelSchema.optional(),
+  })
+  .refine((data) => data.commissionModel || data.slippageModel, {
+    message: 'commissionModel or slippageModel is required',
+  });
+
+// Risk schemas (null removes a limit)
+export const riskLimitsSchema = z
+  .object({
+    maxOrderNotional: z.number().positive().nullable().optional(),
+    maxPositionNotional: z.number().positive().nullable().optional(),
+    maxOpenOrders: z.number().int().positive().nullable().optional(),
+    dailyLossLimit: z.number().positive().nullable().optional(),
+    priceBandPercent: z.number().positive().max(100).nullable().optional(),
+    restrictedSymbols: z.array(z.string().min(1).max(50)).max(500).optional(),
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: 'At least one limit is required',
+  });
+
+export const riskAuditQuerySchema = z.object({
+  limit: z.coerce.number().int().positive().max(100).optional().default(50),
+  offset: z.coerce.number().int().nonnegative().optional().default(0),
+});
+
+// Kill switch schemas
+export const haltTradingSchema = z.object({
+  reason: z.string().max(500).optional(),
+  flatten: z.boolean().optional().default(false),
+});
+
+// Portfolio schemas
+export const lotMethodSchema = z.object({
+  method: z.enum(['fifo', 'lifo', 'average']),
+});
+
+export const lotsQuerySchema = z.object({
+  symbol: z.string().min(1).optional(),
+});
+
+export const portfolioHistoryQuerySchema = z
+  .object({
+    from: z.string().datetime('Invalid from date').optional(),
+    to: z.string().datetime('Invalid to date').optional(),
+    resolution: z.enum(['5m', '15m', '1h', '1d']).optional().default('1h'),
+  })
+  .refine((data) => !data.from || !data.to || new Date(data.from) < new Date(data.to), {
+    message: 'from must be before to',
+    path: ['from'],
+  });
+
+export const analyticsQuerySchema = z
+  .object({
+    from: z.string().datetime('Invalid from date').optional(),
+    to: z.string().datetime('Invalid to date').optional(),
+    period: z.enum(['day', 'week', 'month', 'year']).optional().default('week'),
+    symbol: z.string().min(1).optional(),
+    riskFreeRate: z.coerce.number().min(0).max(1).optional(),
+  })
+  .refine((data) => !data.from || !data.to || new Date(data.from) < new Date(data.to), {
+    message: 'from must be before to',
+    path: ['from'],
+  });
+
+export const reconcileSchema = z.object({
+  autoRepair: z.boolean().optional().default(false),
+});
+
+export const reconciliationRunsQuerySchema = z.object({
+  limit: z.coerce.number().int().positive().max(100).optional().default(20),
+  offset: z.coerce.number().int().nonnegative().optional().default(0),
+});
+
+// Currency schemas (ISO codes or crypto assets such as USDT)
+const currencyCode = z
+  .string()
+  .transform((value) => value.toUpperCase())
+  .pipe(z.string().regex(/^[A-Z0-9]{2,10}$/, 'Invalid currency code'));
+
+export const portfolioQuerySchema = z.object({
+  currency: currencyCode.optional(),
+});
+
+export const baseCurrencySchema = z.object({
+  currency: currencyCode,
+});
+
+export const fxRatesSchema = z.object({
+  rates: z
+    .array(
+      z
+        .object({
+          base: currencyCode,
+          quote: currencyCode,
+          rate: z.number().positive('Rate must be positive'),
+          asOf: z.coerce.date().optional(),
+        })
+        .refine((data) => data.base !== data.quote, { message: 'base and quote must differ', path: ['quote'] })
+    )
+    .min(1)
+    .max(1000),
+});
+
+// Ledger schemas (interest is negative when charged)
+export const cashMovementSchema = z
+  .object({
+    type: z.enum(['deposit', 'withdrawal', 'fee', 'dividend', 'interest']),
+    amount: z.number(),
+    description: z.string().max(500).optional(),
+    symbol: z.string().min(1).max(50).optional(),
+    occurredAt: z.coerce.date().optional(),
+  })
+  .refine((data) => (data.type === 'interest' ? data.amount !== 0 : data.amount > 0), {
+    message: 'amount must be positive (interest may be negative, but not zero)',
+    path: ['amount'],
+  })
+  .refine((data) => !data.occurredAt || data.occurredAt <= new Date(), {
+    message: 'occurredAt cannot be in the future',
+    path: ['occurredAt'],
+  });
+
+export const ledgerStatementQuerySchema = z.object({
+  from: z.string().datetime('Invalid from date').optional(),
+  to: z.string().datetime('Invalid to date').optional(),
+  type: z
+    .enum(['opening_balance', 'deposit', 'withdrawal', 'trade', 'fee', 'dividend', 'interest', 'reset'])
+    .optional(),
+  limit: z.coerce.number().int().positive().max(100).optional().default(50),
+  offset: z.coerce.number().int().nonnegative().optional().default(0),
+});
+
+// Sandbox schemas
+export const sandboxResetSchema = z.object({
+  startingCash: z.number().positive('Starting cash must be positive').optional(),
+});
+
+// Backtest schemas
+const candleIntervalSchema = z.enum(['1m', '5m', '15m', '30m', '1h', '4h', '1d']);
+
+export const backtestStrategySchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('buy_and_hold'),
+    quantity: z.number().positive().optional(),
+  }),
+  z.object({
+    type: z.literal('sma_crossover'),
+    fastPeriod: z.number().int().positive().optional().default(10),
+    slowPeriod: z.number().int().positive().optional().default(30),
+    quantity: z.number().positive().optional(),
+  }),
+]);
+
+export const backtestCandleSchema = z
+  .object({
+    timestamp: z.string().datetime('Invalid candle timestamp'),
+    open: z.number().positive(),
+    high: z.number().positive(),
+    low: z.number().positive(),
+    close: z.number().positive(),
+    volume: z.number().nonnegative().optional().default(0),
+  })
+  .refine(
+    (candle) => candle.low <= Math.min(candle.open, candle.close) && candle.high >= Math.max(candle.open, candle.close),
+    { message: 'Candle high and low must contain its open and close' }
+  );
+
+export const backtestSchema = z
+  .object({
+    name: z.string().min(1).max(100).optional(),
+    symbol: z.string().min(1, 'Symbol is required'),
+    interval: candleIntervalSchema.optional().default('1h'),
+    from: z.string().datetime('Invalid from date').optional(),
+    to: z.string().datetime('Invalid to date').optional(),
+    candles: z.array(backtestCandleSchema).min(1).max(10000).optional(),
+    strategy: backtestStrategySchema,
+    startingCash: z.number().positive('Starting cash must be positive').optional(),
+    commissionModel: commissionModelSchema.optional(),
+    slippageModel: slippageModelSchema.optional(),
+    spreadBps: z.number().nonnegative().max(1000).optional().default(1),
+    riskFreeRate: z.number().min(0).max(1).optional(),
+  })
+  .refine((data) => data.candles || (data.from && data.to), {
+    message: 'Either candles or a from and to date range is required',
+  })
+  .refine((data) => !data.from || !data.to || new Date(data.from) < new Date(data.to), {
+    message: 'from must be before to',
+    path: ['from'],
+  })
+  .refine((data) => data.strategy.type !== 'sma_crossover' || data.strategy.fastPeriod < data.strategy.slowPeriod, {
+    message: 'fastPeriod must be shorter than slowPeriod',
+    path: ['strategy', 'fastPeriod'],
+  });
+
+export const backtestsQuerySchema = z.object({
+  limit: z.coerce.number().int().positive().max(100).optional().default(20),
+  offset: z.coerce.number().int().nonnegative().optional().default(0),
+});
+
+export const backtestCompareQuerySchema = z.object({
+  ids: z
+    .string()
+    .transform((value) => value.split(',').map((id) => parseInt(id, 10)))
+    .pipe(z.array(z.number().int().positive()).min(2, 'At least two backtests are required').max(10)),
+});
+
+// Market replay schemas (speed is a multiple of real time, 'max' or 'step')
+const replaySpeedSchema = z.union([z.number().positive().max(1000), z.enum(['max', 'step'])]);
+
+export const replaySchema = z
+  .object({
+    symbols: z.array(z.string().min(1)).min(1, 'At least one symbol is required').max(20),
+    from: z.string().datetime('Invalid from date'),
+    to: z.string().datetime('Invalid to date'),
+    source: z.enum(['ticks', 'candles']).optional().default('candles'),
+    interval: candleIntervalSchema.optional().default('1m'),
+    spreadBps: z.number().nonnegative().max(1000).optional().default(1),
+    speed: replaySpeedSchema.optional().default(1),
+    autoplay: z.boolean().optional().default(false),
+  })
+  .refine((data) => new Date(data.from) < new Date(data.to), { message: 'from must be before to', path: ['from'] });
+
+export const replayControlSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('play') }),
+  z.object({ action: z.literal('pause') }),
+  z.object({ action: z.literal('step'), count: z.number().int().positive().max(10000).optional() }),
+  z.object({ action: z.literal('seek'), to: z.string().datetime('Invalid seek time') }),
+  z.object({ action: z.literal('speed'), speed: replaySpeedSchema }),
+]);
+
+export const marketTicksSchema = z.object({
+  ticks: z
+    .array(
+      z.object({
+        symbol: z.string().min(1),
+        timestamp: z.coerce.date(),
+        bid: z.number().positive(),
+        ask: z.number().positive(),
+        last: z.number().positive(),
+        volume: z.number().nonnegative().optional().default(0),
+      })
+    )
+    .min(1)
+    .max(10000),
+});
+
+// Strategy schemas (params are checked against the strategy's own schema)
+export const strategySchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100),
+  strategy: z.string().min(1, 'Strategy is required'),
+  symbols: z.array(z.string().min(1)).min(1, 'At least one symbol is required').max(20),
+  params: z.record(z.unknown()).optional().default({}),
+  candleInterval: candleIntervalSchema.optional().default('1m'),
+});
+
+export const stopStrategySchema = z.object({
+  cancelOrders: z.boolean().optional().default(false),
+});
+
+export const strategyLogsQuerySchema = z.object({
+  level: z.enum(['info', 'warn', 'error']).optional(),
+  limit: z.coerce.number().int().positive().max(500).optional().default(100),
+  offset: z.coerce.number().int().nonnegative().optional().default(0),
+});
+
+// Kite Connect schemas (Kite's login redirect; state comes back through redirect_params)
+export const kiteCallbackSchema = z.object({
+  request_token: z.string().min(1).optional(),
+  status: z.string().optional(),
+  state: z.string().min(1, 'Login state is missing'),
+});
+
+export const kiteInstrumentQuerySchema = z.object({
+  exchange: z.string().min(1).optional(),
+  segment: z.string().min(1).optional(),
+  tradingsymbol: z.string().min(1).optional(),
+  token: z.coerce.number().int().positive().optional(),
+  lotSize: z.coerce.number().positive().optional(),
+  tickSize: z.coerce.number().positive().optional(),
+  limit: z.coerce.number().int().positive().max(500).optional().default(50),
+});
+
 // Market data schemas
 export const candlesQuerySchema = z.object({
   symbol: z.string().min(1, 'Symbol is required'),
@@ -33,17 +357,108 @@ export const candlesQuerySchema = z.object({
 });
 
 // Order schemas
-export const createOrderSchema = z.object({
-  symbol: z.string().min(1, 'Symbol is required'),
-  side: z.enum(['buy', 'sell']),
-  type: z.enum(['market', 'limit', 'stop', 'stop_limit']),
-  quantity: z.number().positive('Quantity must be positive'),
-  price: z.number().positive('Price must be positive').optional(),
-  stopPrice: z.number().positive('Stop price must be positive').optional(),
-});
+
+// Letters, digits and . : / _ - up to 36 characters, the strictest broker format (Binance)
+export const clientOrderIdSchema = z
+  .string()
+  .regex(/^[A-Za-z0-9.:/_-]{1,36}$/, 'clientOrderId must be 1-36 letters, digits or . : / _ -');
+
+export const createOrderSchema = z
+  .object({
+    symbol: z.string().min(1, 'Symbol is required'),
+    side: z.enum(['buy', 'sell']),
+    type: z.enum(['market', 'limit', 'stop', 'stop_limit', 'trailing_stop']),
+    quantity: z.number().positive('Quantity must be positive'),
+    price: z.number().positive('Price must be positive').optional(),
+    stopPrice: z.number().positive('Stop price must be positive').optional(),
+    trailAmount: z.number().positive('Trail amount must be positive').optional(),
+    trailPercent: z.number().positive('Trail percent must be positive').max(100).optional(),
+    timeInForce: z.enum(['day', 'gtc', 'ioc', 'fok', 'gtd']).optional(),
+    expiresAt: z.coerce.date().optional(),
+    clientOrderId: clientOrderIdSchema.optional(),
+    product: z.enum(['MIS', 'CNC', 'NRML']).optional(),
+  })
+  .refine((data) => !['limit', 'stop_limit'].includes(data.type) || data.price !== undefined, {
+    message: 'price is required for limit and stop_limit orders',
+    path: ['price'],
+  })
+  .refine((data) => !['stop', 'stop_limit'].includes(data.type) || data.stopPrice !== undefined, {
+    message: 'stopPrice is required for stop and stop_limit orders',
+    path: ['stopPrice'],
+  })
+  .refine(
+    (data) => data.type !== 'trailing_stop' || (data.trailAmount !== undefined) !== (data.trailPercent !== undefined),
+    { message: 'Trailing stops need exactly one of trailAmount or trailPercent', path: ['trailAmount'] }
+  )
+  .refine((data) => data.timeInForce !== 'gtd' || (data.expiresAt !== undefined && data.expiresAt > new Date()), {
+    message: 'expiresAt in the future is required for gtd orders',
+    path: ['expiresAt'],
+  });
+
+// Bracket exits are sent opposite to the entry with its quantity, so only prices are given
+export const createOrderGroupSchema = z
+  .discriminatedUnion('type', [
+    z.object({
+      type: z.literal('bracket'),
+      entry: createOrderSchema,
+      takeProfit: z.object({
+        price: z.number().positive('Take-profit price must be positive'),
+      }),
+      stopLoss: z.object({
+        stopPrice: z.number().positive('Stop-loss stop price must be positive'),
+        price: z.number().positive('Stop-loss limit price must be positive').optional(),
+      }),
+    }),
+    z.object({
+      type: z.literal('oco'),
+      legs: z.array(createOrderSchema).length(2, 'OCO groups have exactly two legs'),
+    }),
+  ])
+  .superRefine((data, ctx) => {
+    if (data.type === 'oco') {
+      if (data.legs[0].symbol !== data.legs[1].symbol) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'OCO legs must be for the same symbol', path: ['legs'] });
+      }
+      return;
+    }
+
+    // A long bracket takes profit above and stops out below; a short one the reverse
+    const direction = data.entry.side === 'buy' ? 1 : -1;
+    const reference = data.entry.price ?? data.entry.stopPrice;
+    if ((data.takeProfit.price - data.stopLoss.stopPrice) * direction <= 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `takeProfit.price must be ${direction > 0 ? 'above' : 'below'} stopLoss.stopPrice`,
+        path: ['takeProfit', 'price'],
+      });
+    } else if (
+      reference !== undefined &&
+      ((data.takeProfit.price - reference) * direction <= 0 || (reference - data.stopLoss.stopPrice) * direction <= 0)
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'The entry price must lie between stopLoss.stopPrice and takeProfit.price',
+        path: ['entry'],
+      });
+    }
+  });
+
+export const amendOrderSchema = z
+  .object({
+    quantity: z.number().positive('Quantity must be positive').optional(),
+    price: z.number().positive('Price must be positive').optional(),
+    stopPrice: z.number().positive('Stop price must be positive').optional(),
+    trailAmount: z.number().positive('Trail amount must be positive').optional(),
+    trailPercent: z.number().positive('Trail percent must be positive').max(100).optional(),
+  })
+  .refine(
+    (data) => Object.values(data).some((value) => value !== undefined),
+    { message: 'At least one of quantity, price, stopPrice, trailAmount or trailPercent is required' }
+  );
 
 export const orderQuerySchema = z.object({
-  status: z.enum(['open', 'filled', 'cancelled', 'all']).optional().default('all'),
+  status: z.enum(['open', 'held', 'filled', 'cancelled', 'expired', 'rejected', 'all']).optional().default('all'),
+  strategyId: z.coerce.number().int().positive().optional(),
   limit: z.coerce.number().int().positive().max(100).optional().default(50),
   offset: z.coerce.number().int().nonnegative().optional().default(0),
 });
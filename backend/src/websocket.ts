@@ -1,16 +1,20 @@
 import { FastifyInstance } from 'fastify';
 import { SocketStream } from '@fastify/websocket';
 import { logger } from './utils/logger';
-import { getBrokerInstance, sandboxBroker } from './brokers/factory';
+import { getBrokerInstance, sandboxMarket } from './brokers/factory';
 import { db } from './db';
 import { MarketQuote } from './brokers/base';
 import { AppError } from './middleware/errorHandler';
+import { controlReplay, getReplayState } from './services/marketReplay';
+import { replayControlSchema } from './utils/validation';
 
 interface WebSocketConnection {
   userId: number;
   symbols: Set<string>;
   brokerType: string | null;
   isSandbox: boolean;
+  /** Tick handler registered with the shared sandbox market, kept so it can be removed */
+  onTick?: (quote: MarketQuote) => void;
 }
 
 const connections = new Map<SocketStream, WebSocketConnection>();
@@ -56,6 +60,8 @@ export function setupWebSocket(server: FastifyInstance) {
             await handleSubscribe(connection, data.symbols || []);
           } else if (data.type === 'unsubscribe') {
             await handleUnsubscribe(connection, data.symbols || []);
+          } else if (data.type === 'replay') {
+            await handleReplayControl(connection, data);
           } else if (data.type === 'ping') {
             connection.socket.send(JSON.stringify({ type: 'pong' }));
           }
@@ -82,6 +88,12 @@ export function setupWebSocket(server: FastifyInstance) {
           message: 'WebSocket connected successfully',
         })
       );
+
+      // Late joiners of a replayed session see where it is
+      const replay = getReplayState();
+      if (replay) {
+        connection.socket.send(JSON.stringify({ type: 'replay_state', data: replay }));
+      }
     });
   });
 }
@@ -120,7 +132,8 @@ async function handleSubscribe(connection: SocketStream, symbols: string[]) {
     };
 
     if (wsConnection.isSandbox) {
-      await sandboxBroker.subscribeToMarketData(symbols, callback);
+      wsConnection.onTick ??= callback;
+      symbols.forEach((symbol) => sandboxMarket.subscribe(symbol, wsConnection.onTick!));
     } else if (wsConnection.brokerType) {
       const broker = await getBrokerInstance(wsConnection.userId, wsConnection.brokerType);
       await broker.subscribeToMarketData(symbols, callback);
@@ -156,7 +169,9 @@ async function handleUnsubscribe(connection: SocketStream, symbols: string[]) {
 
   try {
     if (wsConnection.isSandbox) {
-      await sandboxBroker.unsubscribeFromMarketData(symbols);
+      if (wsConnection.onTick) {
+        symbols.forEach((symbol) => sandboxMarket.unsubscribe(symbol, wsConnection.onTick!));
+      }
     } else if (wsConnection.brokerType) {
       const broker = await getBrokerInstance(wsConnection.userId, wsConnection.brokerType);
       await broker.unsubscribeFromMarketData(symbols);
@@ -177,10 +192,34 @@ async function handleUnsubscribe(connection: SocketStream, symbols: string[]) {
   }
 }
 
+/**
+ * Play, pause, step, seek or change the speed of the market replay; admins only,
+ * since every sandbox session trades the replayed prices
+ */
+async function handleReplayControl(connection: SocketStream, data: unknown) {
+  const wsConnection = connections.get(connection);
+  if (!wsConnection) {
+    return;
+  }
+
+  const user = await db.getPool().query('SELECT role FROM users WHERE id = $1', [wsConnection.userId]);
+  if (user.rows[0]?.role !== 'admin') {
+    throw new AppError(403, 'FORBIDDEN', 'Admin access required to control the replay');
+  }
+
+  const control = replayControlSchema.parse(data);
+  controlReplay(control);
+  logger.info({ userId: wsConnection.userId, action: control.action }, 'Market replay control');
+}
+
 function handleDisconnect(connection: SocketStream) {
   const wsConnection = connections.get(connection);
   if (wsConnection) {
     logger.info({ userId: wsConnection.userId }, 'WebSocket connection closed');
+    // Stop simulated feeds nobody else is listening to
+    if (wsConnection.onTick) {
+      wsConnection.symbols.forEach((symbol) => sandboxMarket.unsubscribe(symbol, wsConnection.onTick!));
+    }
     connections.delete(connection);
   }
 }
@@ -199,6 +238,60 @@ export function broadcastOrderUpdate(userId: number, orderUpdate: any) {
   }
 }
 
+// Broadcast order status transitions to the order's owner
+export function broadcastOrderEvent(userId: number, orderEvent: any) {
+  for (const [connection, wsConnection] of connections.entries()) {
+    if (wsConnection.userId === userId) {
+      connection.socket.send(
+        JSON.stringify({
+          type: 'order_event',
+          data: orderEvent,
+        })
+      );
+    }
+  }
+}
+
+// Push broker balance changes (e.g. Binance outboundAccountPosition) to the account's owner
+export function broadcastAccountUpdate(userId: number, accountUpdate: any) {
+  for (const [connection, wsConnection] of connections.entries()) {
+    if (wsConnection.userId === userId) {
+      connection.socket.send(
+        JSON.stringify({
+          type: 'account_update',
+          data: accountUpdate,
+        })
+      );
+    }
+  }
+}
+
+// Tell clients that trading was halted or resumed; a null user reaches every session
+export function broadcastTradingHalt(userId: number | null, halt: any) {
+  for (const [connection, wsConnection] of connections.entries()) {
+    if (userId === null || wsConnection.userId === userId) {
+      connection.socket.send(
+        JSON.stringify({
+          type: 'trading_halt',
+          data: halt,
+        })
+      );
+    }
+  }
+}
+
+// Tell every session about replay progress; all sandbox accounts trade the replayed market
+export function broadcastReplayState(state: any) {
+  for (const connection of connections.keys()) {
+    connection.socket.send(
+      JSON.stringify({
+        type: 'replay_state',
+        data: state,
+      })
+    );
+  }
+}
+
 // Broadcast orderbook updates
 export function broadcastOrderbookUpdate(symbol: string, orderbook: any) {
   for (const [connection, wsConnection] of connections.entries()) {
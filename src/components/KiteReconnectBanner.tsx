@@ -0,0 +1,49 @@
+import { useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { toast } from 'sonner';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { useKiteSession } from '@/hooks/useKiteSession';
+import { getKiteLoginUrl } from '@/lib/api';
+
+/**
+ * Asks the user to log in to Kite again once their daily session has expired
+ */
+const KiteReconnectBanner = () => {
+  const session = useKiteSession();
+  const [connecting, setConnecting] = useState(false);
+
+  if (!session?.reconnectRequired) return null;
+
+  const handleReconnect = async () => {
+    setConnecting(true);
+    try {
+      const { loginUrl } = await getKiteLoginUrl();
+      window.location.href = loginUrl;
+    } catch (error) {
+      setConnecting(false);
+      toast.error('Could not start the Kite login', {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    }
+  };
+
+  return (
+    <Alert variant="destructive" className="glass-card">
+      <AlertTriangle className="h-4 w-4" />
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <AlertTitle>Kite session {session.status === 'expired' ? 'expired' : 'not connected'}</AlertTitle>
+          <AlertDescription>
+            Kite sessions end every morning at 06:00 IST. Log in again to keep trading and receiving Kite data.
+          </AlertDescription>
+        </div>
+        <Button onClick={handleReconnect} disabled={connecting} className="shrink-0">
+          {connecting ? 'Redirecting...' : 'Reconnect Kite'}
+        </Button>
+      </div>
+    </Alert>
+  );
+};
+
+export default KiteReconnectBanner;
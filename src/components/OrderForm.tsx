@@ -4,17 +4,41 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { toast } from 'sonner';
+import { useSymbolRules } from '@/hooks/useSymbolRules';
+import { SymbolRules } from '@/lib/api';
 
 interface OrderFormProps {
   symbol: string;
   side: 'buy' | 'sell';
-  balance: number;
+  /** Buying power; null while loading or when the ledger is unavailable */
+  balance: number | null;
 }
 
+/** The first trading rule the ticket breaks; the backend rounds and checks the order again */
+const ruleProblem = (rules: SymbolRules, quantity: number, price?: number): string | null => {
+  if (!rules.trading) {
+    return `${rules.symbol} is not trading right now`;
+  }
+  if (quantity < rules.quantity.min || (rules.quantity.max > 0 && quantity > rules.quantity.max)) {
+    return `Quantity must be between ${rules.quantity.min} and ${rules.quantity.max}`;
+  }
+  if (price === undefined) {
+    return null;
+  }
+  if ((rules.price.min > 0 && price < rules.price.min) || (rules.price.max > 0 && price > rules.price.max)) {
+    return `Price must be between ${rules.price.min} and ${rules.price.max}`;
+  }
+  if (rules.notional.min > 0 && quantity * price < rules.notional.min) {
+    return `Order value must be at least ${rules.notional.min}`;
+  }
+  return null;
+};
+
 const OrderForm = ({ symbol, side, balance }: OrderFormProps) => {
   const [orderType, setOrderType] = useState<'market' | 'limit'>('market');
   const [quantity, setQuantity] = useState('');
   const [price, setPrice] = useState('');
+  const rules = useSymbolRules(symbol);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -24,6 +48,13 @@ const OrderForm = ({ symbol, side, balance }: OrderFormProps) => {
       return;
     }
 
+    const limitPrice = orderType === 'limit' ? parseFloat(price) : undefined;
+    const problem = rules && ruleProblem(rules, parseFloat(quantity), limitPrice);
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+
     const order = {
       symbol,
       side,
@@ -69,12 +100,15 @@ const OrderForm = ({ symbol, side, balance }: OrderFormProps) => {
           <Input
             id="price"
             type="number"
-            step="0.01"
+            step={rules?.price.tick || '0.01'}
             placeholder="0.00"
             value={price}
             onChange={(e) => setPrice(e.target.value)}
             className="font-mono"
           />
+          {rules && rules.price.tick > 0 && (
+            <p className="text-xs text-muted-foreground">Tick size {rules.price.tick}</p>
+          )}
         </div>
       )}
 
@@ -83,19 +117,31 @@ const OrderForm = ({ symbol, side, balance }: OrderFormProps) => {
         <Input
           id="quantity"
           type="number"
-          step="1"
+          step={rules?.quantity.step || '1'}
+          min={rules?.quantity.min || undefined}
           placeholder="0"
           value={quantity}
           onChange={(e) => setQuantity(e.target.value)}
           className="font-mono"
         />
+        {rules && (
+          <p className="text-xs text-muted-foreground">
+            Min {rules.quantity.min} · Max {rules.quantity.max} · Step {rules.quantity.step}
+          </p>
+        )}
       </div>
 
       <div className="p-3 rounded-lg bg-muted/50 space-y-1">
         <div className="flex justify-between text-sm">
           <span className="text-muted-foreground">Available</span>
-          <span className="font-mono">${balance.toLocaleString()}</span>
+          <span className="font-mono">{balance === null ? '—' : `$${balance.toLocaleString()}`}</span>
         </div>
+        {rules && rules.notional.min > 0 && (
+          <div className="flex justify-between text-sm">
+            <span className="text-muted-foreground">Min. Order Value</span>
+            <span className="font-mono">{rules.notional.min}</span>
+          </div>
+        )}
         {quantity && (orderType === 'market' || price) && (
           <div className="flex justify-between text-sm">
             <span className="text-muted-foreground">Est. Total</span>
@@ -3,9 +3,10 @@ import { Button } from '@/components/ui/button';
 import { User, LogOut } from 'lucide-react';
 import { toast } from 'sonner';
 import { CandlestickIcon } from './CandlestickIcon';
+import { Balance, formatBalance } from '@/hooks/useBalance';
 
 interface TopNavProps {
-  balance: number;
+  balance: Balance;
 }
 
 const TopNav = ({ balance }: TopNavProps) => {
@@ -55,7 +56,7 @@ const TopNav = ({ balance }: TopNavProps) => {
             <div className="hidden sm:block text-sm">
               <div className="text-muted-foreground">Balance</div>
               <div className="font-mono font-bold text-primary">
-                ${balance.toLocaleString()}
+                {formatBalance(balance, balance.cash)}
               </div>
             </div>
             
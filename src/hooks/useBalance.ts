@@ -0,0 +1,29 @@
+import { useEffect, useState } from 'react';
+import { getBalance } from '@/lib/api';
+
+export interface Balance {
+  status: 'loading' | 'ready' | 'unavailable';
+  /** Null until the ledger answers, and when the backend cannot be reached */
+  cash: number | null;
+  buyingPower: number | null;
+}
+
+export const useBalance = () => {
+  const [balance, setBalance] = useState<Balance>({ status: 'loading', cash: null, buyingPower: null });
+
+  useEffect(() => {
+    getBalance()
+      .then(({ cash, buyingPower }) => setBalance({ status: 'ready', cash, buyingPower }))
+      .catch(() => setBalance({ status: 'unavailable', cash: null, buyingPower: null }));
+  }, []);
+
+  return balance;
+};
+
+/** Balance figure for display, or what stands in for it while there is none */
+export const formatBalance = (balance: Balance, value: number | null, options?: Intl.NumberFormatOptions) => {
+  if (value !== null) {
+    return `$${value.toLocaleString(undefined, options)}`;
+  }
+  return balance.status === 'loading' ? 'Loading…' : 'Unavailable';
+};
@@ -0,0 +1,24 @@
+import { useEffect, useState } from 'react';
+import { getKiteSession, KiteSession } from '@/lib/api';
+
+// Kite sessions end at 06:00 IST each day; check again while the page stays open
+const REFRESH_INTERVAL_MS = 5 * 60 * 1000;
+
+export const useKiteSession = () => {
+  const [session, setSession] = useState<KiteSession | null>(null);
+
+  useEffect(() => {
+    const load = () =>
+      getKiteSession()
+        .then(setSession)
+        .catch(() => {
+          // Backend unavailable - nothing to prompt for
+        });
+
+    load();
+    const timer = setInterval(load, REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  return session;
+};
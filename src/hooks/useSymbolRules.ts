@@ -0,0 +1,21 @@
+import { useEffect, useState } from 'react';
+import { getSymbolRules, SymbolRules } from '@/lib/api';
+
+export const useSymbolRules = (symbol: string) => {
+  const [rules, setRules] = useState<SymbolRules | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    setRules(null);
+    getSymbolRules(symbol)
+      .then((response) => active && setRules(response.rules))
+      .catch(() => {
+        // Backend unavailable or unknown symbol - the broker still checks the order
+      });
+    return () => {
+      active = false;
+    };
+  }, [symbol]);
+
+  return rules;
+};
@@ -0,0 +1,127 @@
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3000';
+
+export class ApiError extends Error {
+  constructor(
+    public status: number,
+    public code: string,
+    message: string,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export async function apiRequest<T>(path: string, options: RequestInit = {}): Promise<T> {
+  const token = localStorage.getItem('accessToken');
+  const headers = new Headers(options.headers);
+  if (token) {
+    headers.set('Authorization', `Bearer ${token}`);
+  }
+  if (options.body) {
+    headers.set('Content-Type', 'application/json');
+  }
+
+  const response = await fetch(`${API_BASE_URL}${path}`, { ...options, headers });
+  const body = response.status === 204 ? null : await response.json().catch(() => null);
+
+  if (!response.ok) {
+    throw new ApiError(
+      response.status,
+      body?.error?.code || 'REQUEST_FAILED',
+      body?.error?.message || `Request failed with status ${response.status}`,
+      body?.error?.details
+    );
+  }
+
+  return body as T;
+}
+
+export interface ApiOrder {
+  orderId: string;
+  symbol: string;
+  side: 'buy' | 'sell';
+  type: 'market' | 'limit' | 'stop' | 'stop_limit' | 'trailing_stop';
+  quantity: number;
+  price: number | null;
+  stopPrice?: number | null;
+  trailAmount?: number | null;
+  trailPercent?: number | null;
+  timeInForce?: 'day' | 'gtc' | 'ioc' | 'fok' | 'gtd' | null;
+  expiresAt?: string | null;
+  status: string;
+  filledQuantity: number;
+  averagePrice: number | null;
+  clientOrderId?: string | null;
+  rejectReason?: string | null;
+  groupId?: string | null;
+  groupRole?: 'entry' | 'take_profit' | 'stop_loss' | 'leg' | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export const getOrders = () => apiRequest<{ orders: ApiOrder[]; total: number }>('/api/orders');
+
+export const cancelOrder = (orderId: string) =>
+  apiRequest<ApiOrder>(`/api/orders/${orderId}`, { method: 'DELETE' });
+
+export const amendOrder = (orderId: string, changes: { quantity?: number; price?: number; stopPrice?: number }) =>
+  apiRequest<ApiOrder>(`/api/orders/${orderId}`, { method: 'PATCH', body: JSON.stringify(changes) });
+
+export type HistoryResolution = '5m' | '15m' | '1h' | '1d';
+
+export interface PortfolioHistoryPoint {
+  timestamp: string;
+  brokerType: string;
+  totalValue: number;
+  cashBalance: number | null;
+  positionsValue: number;
+  totalPnl: number;
+  totalPnlPercent: number;
+}
+
+export const getPortfolioHistory = (params: { from?: string; to?: string; resolution?: HistoryResolution } = {}) => {
+  const query = new URLSearchParams(
+    Object.entries(params).filter((entry): entry is [string, string] => entry[1] !== undefined)
+  );
+  return apiRequest<{ from: string; to: string; resolution: HistoryResolution; points: PortfolioHistoryPoint[] }>(
+    `/api/portfolio/history?${query}`
+  );
+};
+
+export interface ApiBalance {
+  brokerType: string;
+  sandbox: boolean;
+  cash: number;
+  reservedCash: number;
+  buyingPower: number;
+}
+
+export const getBalance = () => apiRequest<ApiBalance>('/api/ledger/balance');
+
+export interface KiteSession {
+  status: 'connected' | 'expired' | 'disconnected' | 'not_configured';
+  reconnectRequired: boolean;
+  brokerUserId: string | null;
+  loginTime: string | null;
+  expiresAt: string | null;
+}
+
+export const getKiteSession = () => apiRequest<KiteSession>('/api/kite/session');
+
+export const getKiteLoginUrl = () => apiRequest<{ loginUrl: string }>('/api/kite/login');
+
+/** Broker trading rules for a symbol; limits of zero are not enforced */
+export interface SymbolRules {
+  symbol: string;
+  trading: boolean;
+  quantity: { min: number; max: number; step: number };
+  price: { min: number; max: number; tick: number };
+  notional: { min: number; max: number; applyMinToMarket: boolean; applyMaxToMarket: boolean };
+  percentPrice: { buyUp: number; buyDown: number; sellUp: number; sellDown: number; averagePriceMins: number } | null;
+}
+
+export const getSymbolRules = (symbol: string) =>
+  apiRequest<{ symbol: string; brokerType: string; rules: SymbolRules | null }>(
+    `/api/market/${encodeURIComponent(symbol)}/rules`
+  );
@@ -1,32 +1,97 @@
 import { useState, useEffect } from 'react';
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from 'recharts';
 import TopNav from '@/components/TopNav';
 import Footer from '@/components/Footer';
 import WatchlistCard from '@/components/WatchlistCard';
+import KiteReconnectBanner from '@/components/KiteReconnectBanner';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
 import { TrendingUp, TrendingDown, DollarSign, Activity } from 'lucide-react';
+import { getPortfolioHistory, PortfolioHistoryPoint } from '@/lib/api';
+import { formatBalance, useBalance } from '@/hooks/useBalance';
 
 interface PortfolioStats {
-  balance: number;
   equity: number;
-  margin: number;
+  positionsValue: number;
   pnl: number;
   pnlPercent: number;
 }
 
-const Dashboard = () => {
-  const [portfolio, setPortfolio] = useState<PortfolioStats>({
-    balance: 10000,
-    equity: 12350,
-    margin: 2000,
-    pnl: 2350,
-    pnlPercent: 23.5,
+interface EquityPoint {
+  timestamp: number;
+  equity: number;
+}
+
+const chartConfig = {
+  equity: { label: 'Equity', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+/** Portfolio history state; empty until the first snapshot is taken */
+type HistoryStatus = 'loading' | 'ready' | 'empty' | 'unavailable';
+
+const HISTORY_PLACEHOLDERS: Record<Exclude<HistoryStatus, 'ready'>, { figure: string; curve: string }> = {
+  loading: { figure: 'Loading…', curve: 'Loading equity curve…' },
+  empty: { figure: 'No data yet', curve: 'No portfolio snapshots yet; the curve starts with the first one' },
+  unavailable: { figure: 'Unavailable', curve: 'Portfolio history is unavailable' },
+};
+
+/**
+ * Sum the latest value of every broker at each snapshot, so accounts with
+ * several live brokers show one combined curve
+ */
+const toEquityCurve = (points: PortfolioHistoryPoint[]): EquityPoint[] => {
+  const latest = new Map<string, number>();
+  return points.map((point) => {
+    latest.set(point.brokerType, point.totalValue);
+    return {
+      timestamp: new Date(point.timestamp).getTime(),
+      equity: [...latest.values()].reduce((sum, value) => sum + value, 0),
+    };
   });
+};
+
+const toStats = (points: PortfolioHistoryPoint[]): PortfolioStats => {
+  const latest = new Map(points.map((point) => [point.brokerType, point]));
+  const stats = [...latest.values()].reduce(
+    (total, point) => ({
+      equity: total.equity + point.totalValue,
+      positionsValue: total.positionsValue + point.positionsValue,
+      pnl: total.pnl + point.totalPnl,
+      pnlPercent: 0,
+    }),
+    { equity: 0, positionsValue: 0, pnl: 0, pnlPercent: 0 }
+  );
+  const invested = stats.equity - stats.pnl;
+  return { ...stats, pnlPercent: invested > 0 ? (stats.pnl / invested) * 100 : 0 };
+};
+
+const Dashboard = () => {
+  const balance = useBalance();
+  const [historyStatus, setHistoryStatus] = useState<HistoryStatus>('loading');
+  const [portfolio, setPortfolio] = useState<PortfolioStats | null>(null);
+  const [curve, setCurve] = useState<EquityPoint[]>([]);
+
+  useEffect(() => {
+    getPortfolioHistory({ resolution: '1h' })
+      .then(({ points }) => {
+        if (points.length === 0) {
+          setHistoryStatus('empty');
+          return;
+        }
+        setCurve(toEquityCurve(points));
+        setPortfolio(toStats(points));
+        setHistoryStatus('ready');
+      })
+      .catch(() => setHistoryStatus('unavailable'));
+  }, []);
+
+  const placeholder = historyStatus === 'ready' ? null : HISTORY_PLACEHOLDERS[historyStatus];
 
   const watchlistSymbols = ['AAPL', 'GOOGL', 'TSLA', 'MSFT', 'AMZN'];
 
   return (
     <div className="min-h-screen bg-background">
-      <TopNav balance={portfolio.balance} />
+      <TopNav balance={balance} />
       
       <main className="container mx-auto p-6 space-y-6">
         <div>
@@ -34,6 +99,8 @@ const Dashboard = () => {
           <p className="text-muted-foreground">Welcome back to your trading hub</p>
         </div>
 
+        <KiteReconnectBanner />
+
         {/* Portfolio Summary */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
           <Card className="glass-card border-border/50">
@@ -43,9 +110,12 @@ const Dashboard = () => {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold font-mono">
-                ${portfolio.balance.toLocaleString()}
+                {formatBalance(balance, balance.cash, { maximumFractionDigits: 2 })}
               </div>
-              <p className="text-xs text-muted-foreground">Available funds</p>
+              <p className="text-xs text-muted-foreground">
+                {balance.buyingPower !== null &&
+                  `${formatBalance(balance, balance.buyingPower, { maximumFractionDigits: 2 })} buying power`}
+              </p>
             </CardContent>
           </Card>
 
@@ -56,7 +126,9 @@ const Dashboard = () => {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold font-mono">
-                ${portfolio.equity.toLocaleString()}
+                {portfolio
+                  ? `$${portfolio.equity.toLocaleString(undefined, { maximumFractionDigits: 2 })}`
+                  : placeholder?.figure}
               </div>
               <p className="text-xs text-muted-foreground">Total portfolio value</p>
             </CardContent>
@@ -64,15 +136,18 @@ const Dashboard = () => {
 
           <Card className="glass-card border-border/50">
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Margin Used</CardTitle>
+              <CardTitle className="text-sm font-medium">Positions</CardTitle>
               <TrendingUp className="h-4 w-4 text-primary" />
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold font-mono">
-                ${portfolio.margin.toLocaleString()}
+                {portfolio
+                  ? `$${portfolio.positionsValue.toLocaleString(undefined, { maximumFractionDigits: 2 })}`
+                  : placeholder?.figure}
               </div>
               <p className="text-xs text-muted-foreground">
-                {((portfolio.margin / portfolio.balance) * 100).toFixed(1)}% of balance
+                {portfolio &&
+                  `${portfolio.equity > 0 ? ((portfolio.positionsValue / portfolio.equity) * 100).toFixed(1) : '0.0'}% of equity`}
               </p>
             </CardContent>
           </Card>
@@ -80,24 +155,81 @@ const Dashboard = () => {
           <Card className="glass-card border-border/50">
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
               <CardTitle className="text-sm font-medium">P&L</CardTitle>
-              {portfolio.pnl >= 0 ? (
-                <TrendingUp className="h-4 w-4 text-buy" />
+              {!portfolio || portfolio.pnl >= 0 ? (
+                <TrendingUp className={`h-4 w-4 ${portfolio ? 'text-buy' : 'text-primary'}`} />
               ) : (
                 <TrendingDown className="h-4 w-4 text-sell" />
               )}
             </CardHeader>
             <CardContent>
-              <div className={`text-2xl font-bold font-mono ${portfolio.pnl >= 0 ? 'text-buy' : 'text-sell'}`}>
-                {portfolio.pnl >= 0 ? '+' : ''}{portfolio.pnl >= 0 ? '$' : '-$'}
-                {Math.abs(portfolio.pnl).toLocaleString()}
-              </div>
-              <p className={`text-xs ${portfolio.pnl >= 0 ? 'text-buy' : 'text-sell'}`}>
-                {portfolio.pnl >= 0 ? '+' : ''}{portfolio.pnlPercent.toFixed(2)}% today
-              </p>
+              {portfolio ? (
+                <>
+                  <div className={`text-2xl font-bold font-mono ${portfolio.pnl >= 0 ? 'text-buy' : 'text-sell'}`}>
+                    {portfolio.pnl >= 0 ? '+' : ''}{portfolio.pnl >= 0 ? '$' : '-$'}
+                    {Math.abs(portfolio.pnl).toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                  </div>
+                  <p className={`text-xs ${portfolio.pnl >= 0 ? 'text-buy' : 'text-sell'}`}>
+                    {portfolio.pnl >= 0 ? '+' : ''}{portfolio.pnlPercent.toFixed(2)}% all time
+                  </p>
+                </>
+              ) : (
+                <div className="text-2xl font-bold font-mono">{placeholder?.figure}</div>
+              )}
             </CardContent>
           </Card>
         </div>
 
+        {/* Equity Curve */}
+        <Card className="glass-card border-border/50">
+          <CardHeader>
+            <CardTitle>Equity Curve</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {placeholder ? (
+              <div className="h-[280px] flex items-center justify-center text-muted-foreground">
+                {placeholder.curve}
+              </div>
+            ) : (
+              <ChartContainer config={chartConfig} className="h-[280px] w-full">
+                <AreaChart data={curve} margin={{ left: 12, right: 12 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis
+                    dataKey="timestamp"
+                    type="number"
+                    scale="time"
+                    domain={['dataMin', 'dataMax']}
+                    tickLine={false}
+                    axisLine={false}
+                    tickFormatter={(value: number) => new Date(value).toLocaleDateString()}
+                  />
+                  <YAxis
+                    domain={['auto', 'auto']}
+                    tickLine={false}
+                    axisLine={false}
+                    tickFormatter={(value: number) => `$${value.toLocaleString()}`}
+                  />
+                  <ChartTooltip
+                    content={
+                      <ChartTooltipContent
+                        labelFormatter={(_, payload) =>
+                          payload[0] ? new Date(payload[0].payload.timestamp).toLocaleString() : ''
+                        }
+                      />
+                    }
+                  />
+                  <Area
+                    dataKey="equity"
+                    type="monotone"
+                    stroke="var(--color-equity)"
+                    fill="var(--color-equity)"
+                    fillOpacity={0.2}
+                  />
+                </AreaChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+
         {/* Watchlist */}
         <div>
           <h2 className="text-2xl font-bold mb-4">Watchlist</h2>
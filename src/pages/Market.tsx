@@ -8,11 +8,12 @@ import OrderForm from '@/components/OrderForm';
 import TradeFeed from '@/components/TradeFeed';
 import { Card } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useBalance } from '@/hooks/useBalance';
 
 const Market = () => {
   const [searchParams] = useSearchParams();
   const [symbol, setSymbol] = useState(searchParams.get('symbol') || 'AAPL');
-  const balance = 10000;
+  const balance = useBalance();
 
   return (
     <div className="min-h-screen bg-background">
@@ -55,10 +56,10 @@ const Market = () => {
                   </TabsTrigger>
                 </TabsList>
                 <TabsContent value="buy">
-                  <OrderForm symbol={symbol} side="buy" balance={balance} />
+                  <OrderForm symbol={symbol} side="buy" balance={balance.buyingPower} />
                 </TabsContent>
                 <TabsContent value="sell">
-                  <OrderForm symbol={symbol} side="sell" balance={balance} />
+                  <OrderForm symbol={symbol} side="sell" balance={balance.buyingPower} />
                 </TabsContent>
               </Tabs>
             </Card>
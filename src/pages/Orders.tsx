@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import TopNav from '@/components/TopNav';
 import Footer from '@/components/Footer';
 import { Card } from '@/components/ui/card';
@@ -7,6 +7,8 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { X } from 'lucide-react';
 import { toast } from 'sonner';
+import { ApiOrder, cancelOrder, getOrders } from '@/lib/api';
+import { useBalance } from '@/hooks/useBalance';
 
 interface Order {
   id: string;
@@ -15,49 +17,54 @@ interface Order {
   type: 'market' | 'limit';
   quantity: number;
   price?: number;
-  status: 'open' | 'filled' | 'cancelled';
+  status: 'open' | 'filled' | 'cancelled' | 'rejected';
   timestamp: number;
 }
 
+const WORKING_STATUSES = ['pending', 'open', 'partially_filled'];
+
+const toOrder = (order: ApiOrder): Order => ({
+  id: order.orderId,
+  symbol: order.symbol,
+  side: order.side,
+  type: order.type === 'limit' ? 'limit' : 'market',
+  quantity: order.quantity,
+  price: order.price ?? undefined,
+  status: WORKING_STATUSES.includes(order.status) ? 'open' : (order.status as Order['status']),
+  timestamp: new Date(order.createdAt).getTime(),
+});
+
 const Orders = () => {
-  const balance = 10000;
+  const balance = useBalance();
   
-  const [orders] = useState<Order[]>([
-    {
-      id: '1',
-      symbol: 'AAPL',
-      side: 'buy',
-      type: 'limit',
-      quantity: 10,
-      price: 150.50,
-      status: 'open',
-      timestamp: Date.now() - 3600000,
-    },
-    {
-      id: '2',
-      symbol: 'GOOGL',
-      side: 'sell',
-      type: 'market',
-      quantity: 5,
-      status: 'filled',
-      timestamp: Date.now() - 7200000,
-    },
-    {
-      id: '3',
-      symbol: 'TSLA',
-      side: 'buy',
-      type: 'limit',
-      quantity: 20,
-      price: 180.00,
-      status: 'cancelled',
-      timestamp: Date.now() - 10800000,
-    },
-  ]);
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [ordersStatus, setOrdersStatus] = useState<'loading' | 'ready' | 'unavailable'>('loading');
 
-  const handleCancelOrder = (orderId: string) => {
-    toast.success('Order cancelled successfully');
+  useEffect(() => {
+    getOrders()
+      .then(({ orders }) => {
+        setOrders(orders.map(toOrder));
+        setOrdersStatus('ready');
+      })
+      .catch(() => setOrdersStatus('unavailable'));
+  }, []);
+
+  const handleCancelOrder = async (orderId: string) => {
+    try {
+      const updated = toOrder(await cancelOrder(orderId));
+      setOrders((current) => current.map((o) => (o.id === orderId ? updated : o)));
+      // The broker may confirm the cancel later; until then the order stays open
+      toast.success(updated.status === 'cancelled' ? 'Order cancelled successfully' : 'Cancel requested');
+    } catch (error) {
+      toast.error('Failed to cancel order', {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    }
   };
 
+  const emptyMessage = (message: string) =>
+    ordersStatus === 'loading' ? 'Loading orders…' : ordersStatus === 'unavailable' ? 'Orders are unavailable' : message;
+
   const openOrders = orders.filter(o => o.status === 'open');
   const historicalOrders = orders.filter(o => o.status !== 'open');
 
@@ -129,7 +136,7 @@ const Orders = () => {
             <TabsContent value="open" className="space-y-3">
               {openOrders.length === 0 ? (
                 <div className="text-center py-12 text-muted-foreground">
-                  No open orders
+                  {emptyMessage('No open orders')}
                 </div>
               ) : (
                 openOrders.map(order => <OrderRow key={order.id} order={order} />)
@@ -139,7 +146,7 @@ const Orders = () => {
             <TabsContent value="history" className="space-y-3">
               {historicalOrders.length === 0 ? (
                 <div className="text-center py-12 text-muted-foreground">
-                  No order history
+                  {emptyMessage('No order history')}
                 </div>
               ) : (
                 historicalOrders.map(order => <OrderRow key={order.id} order={order} />)
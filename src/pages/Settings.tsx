@@ -1,4 +1,5 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import TopNav from '@/components/TopNav';
 import Footer from '@/components/Footer';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -7,12 +8,34 @@ import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
 import { toast } from 'sonner';
+import { useBalance } from '@/hooks/useBalance';
+import KiteReconnectBanner from '@/components/KiteReconnectBanner';
+
+// Outcomes of a Kite login, reported by the backend's login callback
+const kiteLoginErrors: Record<string, string> = {
+  KITE_LOGIN_CANCELLED: 'The Kite login was cancelled',
+  KITE_LOGIN_EXPIRED: 'The Kite login link expired, please try again',
+  KITE_LOGIN_FAILED: 'Kite did not accept the login, please try again',
+};
 
 const Settings = () => {
-  const balance = 10000;
+  const balance = useBalance();
   const [sandboxMode, setSandboxMode] = useState(true);
   const [apiKey, setApiKey] = useState('');
   const [apiSecret, setApiSecret] = useState('');
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  useEffect(() => {
+    const outcome = searchParams.get('kite');
+    if (!outcome) return;
+
+    if (outcome === 'connected') {
+      toast.success('Kite connected');
+    } else {
+      toast.error(kiteLoginErrors[searchParams.get('code') ?? ''] ?? 'Could not connect Kite');
+    }
+    setSearchParams({}, { replace: true });
+  }, [searchParams, setSearchParams]);
 
   const handleSaveApiKeys = () => {
     if (apiKey && apiSecret) {
@@ -33,6 +56,8 @@ const Settings = () => {
         </div>
 
         <div className="space-y-6">
+          <KiteReconnectBanner />
+
           {/* Sandbox Mode */}
           <Card className="glass-card border-border/50">
             <CardHeader>